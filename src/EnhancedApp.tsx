@@ -1,16 +1,19 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { TrendingUp, BarChart3, Wallet, History, FileText } from 'lucide-react';
+import { TrendingUp, BarChart3, Wallet, History, FileText, FlaskConical, Bot, Bell } from 'lucide-react';
 import { EnhancedAssetList } from '@/components/EnhancedAssetList';
 import { TradingForm } from '@/components/TradingForm';
 import { PortfolioSelector } from '@/components/PortfolioSelector';
 import { PositionsTable } from '@/components/PositionsTable';
 import { TransactionHistory } from '@/components/TransactionHistory';
 import { TradingChart } from '@/components/TradingChart';
+import { OpenOrders } from '@/components/OpenOrders';
+import { AlgoOrders } from '@/components/AlgoOrders';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { usePrices } from '@/hooks/usePriceContext';
 import { formatCurrency } from '@/utils/calculations';
+import { getMarginSummary } from '@/utils/margin';
 import { LivePortfolioValue } from '@/components/LivePortfolioValue';
 import { ThemeProvider } from '@/context/ThemeContext';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
@@ -21,12 +24,23 @@ import { KeyboardShortcutsHelp } from '@/components/KeyboardShortcutsHelp';
 import { HelpTooltip } from '@/components/ui/HelpTooltip';
 import { PortfolioPerformance } from '@/components/PortfolioPerformance';
 import { TradingStatistics } from '@/components/TradingStatistics';
+import { RiskDashboard } from '@/components/RiskDashboard';
+import { ReplayBar } from '@/components/ReplayBar';
+import { BacktestPanel } from '@/components/BacktestPanel';
+import { BotsPanel } from '@/components/BotsPanel';
+import { PriceAlertsPanel } from '@/components/PriceAlertsPanel';
+import { AlertToasts } from '@/components/AlertToasts';
 import { useKeyboardShortcuts, createNavigationShortcuts, createModalShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useOrderMatching } from '@/hooks/useOrderMatching';
+import { useFundingAccrual } from '@/hooks/useFundingAccrual';
+import { useAlgoExecution } from '@/hooks/useAlgoExecution';
+import { useTradingBots } from '@/hooks/useTradingBots';
+import { usePriceAlerts } from '@/hooks/usePriceAlerts';
 import { useTheme } from '@/context/ThemeContext';
 import { cn } from '@/utils/cn';
 import type { CryptoAsset } from '@/types/trading';
 
-type ViewMode = 'overview' | 'trading' | 'positions' | 'history' | 'analytics';
+type ViewMode = 'overview' | 'trading' | 'positions' | 'history' | 'analytics' | 'backtest' | 'bots' | 'alerts';
 
 const EnhancedAppInner = () => {
     const [viewMode, setViewMode] = useState<ViewMode>('overview');
@@ -48,6 +62,20 @@ const EnhancedAppInner = () => {
     const { toggleTheme } = useTheme();
     const activePortfolio = getActivePortfolio();
 
+    // Fill resting limit orders from the live price stream
+    useOrderMatching();
+
+    // Settle hourly funding on open perp positions
+    useFundingAccrual();
+
+    // Work TWAP slices and iceberg clips over time
+    useAlgoExecution();
+
+    // Feed running trading bots and place their orders
+    useTradingBots();
+
+    // Fire price alerts as prices move
+    usePriceAlerts();
 
     // Simulate initial loading
     useEffect(() => {
@@ -98,17 +126,22 @@ const EnhancedAppInner = () => {
         { id: 'positions', label: 'Positions', icon: Wallet, color: 'purple' },
         { id: 'history', label: 'History', icon: FileText, color: 'indigo' },
         { id: 'analytics', label: 'Analytics', icon: History, color: 'orange' },
+        { id: 'backtest', label: 'Backtest', icon: FlaskConical, color: 'pink' },
+        { id: 'bots', label: 'Bots', icon: Bot, color: 'teal' },
+        { id: 'alerts', label: 'Alerts', icon: Bell, color: 'yellow' },
     ] as const;
 
     // Portfolio stats with live data
-    const portfolioStats = activePortfolio ? {
-        totalValue: activePortfolio.balance + activePortfolio.positions.reduce((sum, pos) => {
-            const currentPrice = getPrice(pos.symbol) || pos.entryPrice;
-            return sum + (pos.quantity * currentPrice);
-        }, 0),
-        totalPnL: 0, // Would calculate based on positions
+    const marginSummary = activePortfolio ? getMarginSummary(
+        activePortfolio,
+        Object.fromEntries(activePortfolio.positions.map(pos => [pos.symbol, getPrice(pos.symbol) || pos.entryPrice]))
+    ) : null;
+    const portfolioStats = activePortfolio && marginSummary ? {
+        totalValue: marginSummary.equity,
+        totalPnL: marginSummary.unrealizedPnL,
         positionsCount: activePortfolio.positions.length,
-        availableBalance: activePortfolio.balance,
+        availableBalance: marginSummary.freeCollateral,
+        marginUsed: marginSummary.marginUsed,
     } : null;
 
     if (isLoading) {
@@ -207,6 +240,17 @@ const EnhancedAppInner = () => {
                                             {formatCurrency(portfolioStats.availableBalance)}
                                         </div>
                                     </div>
+                                    {portfolioStats.marginUsed > 0 && (
+                                        <>
+                                            <div className="w-px h-8 bg-border-primary" />
+                                            <div className="text-center">
+                                                <div className="text-text-secondary">Margin Used</div>
+                                                <div className="text-text-primary font-semibold">
+                                                    {formatCurrency(portfolioStats.marginUsed)}
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
                                 </motion.div>
                             )}
                         </div>
@@ -263,6 +307,9 @@ const EnhancedAppInner = () => {
                 </div>
             </motion.nav>
 
+            {/* Market Replay */}
+            <ReplayBar />
+
             {/* Main Content */}
             <main className="flex-1 max-w-7xl mx-auto p-4 md:p-6 w-full">
                 <AnimatePresence mode="wait">
@@ -363,6 +410,10 @@ const EnhancedAppInner = () => {
                                     </Card>
                                 )}
 
+                                <OpenOrders />
+
+                                <AlgoOrders />
+
                                 <PortfolioSelector />
                             </div>
                         </motion.div>
@@ -378,6 +429,8 @@ const EnhancedAppInner = () => {
                             className="space-y-6"
                         >
                             <PositionsTable />
+                            <OpenOrders />
+                            <AlgoOrders />
                         </motion.div>
                     )}
 
@@ -407,6 +460,7 @@ const EnhancedAppInner = () => {
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
                                 <PortfolioPerformance />
                                 <TradingStatistics />
+                                <RiskDashboard />
                             </div>
 
                             {/* Asset Performance Chart */}
@@ -448,6 +502,42 @@ const EnhancedAppInner = () => {
                             )}
                         </motion.div>
                     )}
+
+                    {viewMode === 'backtest' && (
+                        <motion.div
+                            key="backtest"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -20 }}
+                            transition={{ duration: 0.3 }}
+                        >
+                            <BacktestPanel />
+                        </motion.div>
+                    )}
+
+                    {viewMode === 'bots' && (
+                        <motion.div
+                            key="bots"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -20 }}
+                            transition={{ duration: 0.3 }}
+                        >
+                            <BotsPanel />
+                        </motion.div>
+                    )}
+
+                    {viewMode === 'alerts' && (
+                        <motion.div
+                            key="alerts"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -20 }}
+                            transition={{ duration: 0.3 }}
+                        >
+                            <PriceAlertsPanel />
+                        </motion.div>
+                    )}
                 </AnimatePresence>
             </main>
 
@@ -513,6 +603,8 @@ const EnhancedAppInner = () => {
                     </div>
                 </div>
             </motion.footer>
+
+            <AlertToasts />
         </div>
     );
 };
@@ -0,0 +1,54 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BellRing, X } from 'lucide-react';
+import { useAlertStore } from '@/state/alertStore';
+import type { PriceAlertEvent } from '@/types/trading';
+
+const TOAST_DURATION_MS = 8000;
+
+const AlertToast: React.FC<{ event: PriceAlertEvent }> = ({ event }) => {
+    const dismissToast = useAlertStore((state) => state.dismissToast);
+
+    useEffect(() => {
+        const timer = setTimeout(() => dismissToast(event.id), TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [event.id, dismissToast]);
+
+    return (
+        <motion.div
+            layout
+            initial={{ opacity: 0, x: 40 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 40 }}
+            transition={{ duration: 0.2 }}
+            role="status"
+            className="flex items-start gap-3 w-80 p-4 rounded-xl bg-surface border border-border-primary shadow-lg"
+        >
+            <BellRing className="w-5 h-5 mt-0.5 text-primary-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold text-text-primary">{event.symbol} price alert</div>
+                <div className="text-sm text-text-secondary">{event.message}</div>
+            </div>
+            <button
+                onClick={() => dismissToast(event.id)}
+                className="text-text-secondary hover:text-text-primary"
+                aria-label="Dismiss alert"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </motion.div>
+    );
+};
+
+// In-app popups for price alerts as they fire
+export const AlertToasts: React.FC = () => {
+    const toasts = useAlertStore((state) => state.toasts);
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
+            <AnimatePresence>
+                {toasts.map(event => <AlertToast key={event.id} event={event} />)}
+            </AnimatePresence>
+        </div>
+    );
+};
@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Workflow, Pause, Play, X } from 'lucide-react';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { usePositionStore } from '@/state/positionStore';
+import { formatCurrency } from '@/utils/calculations';
+import { getAlgoProgress } from '@/utils/algoExecution';
+import type { AlgoOrder } from '@/types/trading';
+
+const RECENT_ALGO_LIMIT = 5;
+
+export const AlgoOrders = React.memo(() => {
+  const { getActivePortfolio } = usePortfolioStore();
+  const algoOrders = usePositionStore((state) => state.algoOrders);
+  const pauseAlgoOrder = usePositionStore((state) => state.pauseAlgoOrder);
+  const resumeAlgoOrder = usePositionStore((state) => state.resumeAlgoOrder);
+  const cancelAlgoOrder = usePositionStore((state) => state.cancelAlgoOrder);
+
+  const activePortfolio = getActivePortfolio();
+
+  // Working algos first, then the most recently finished
+  const visibleAlgos = useMemo(() => {
+    if (!activePortfolio) return [];
+    const portfolioAlgos = algoOrders.filter(a => a.portfolioId === activePortfolio.id);
+    const working = portfolioAlgos.filter(a => a.status === 'running' || a.status === 'paused');
+    const finished = portfolioAlgos
+      .filter(a => a.status === 'completed' || a.status === 'cancelled')
+      .sort((a, b) => (b.completedAt ?? b.createdAt) - (a.completedAt ?? a.createdAt))
+      .slice(0, RECENT_ALGO_LIMIT);
+    return [...working.sort((a, b) => b.createdAt - a.createdAt), ...finished];
+  }, [algoOrders, activePortfolio]);
+
+  if (!activePortfolio || visibleAlgos.length === 0) return null;
+
+  const describeAlgo = (algo: AlgoOrder) => algo.algorithm === 'twap'
+    ? `TWAP • ${algo.slicesSent ?? 0}/${algo.sliceCount} slices over ${Math.round((algo.durationMs ?? 0) / 60000)}m`
+    : `Iceberg • ${algo.clipQuantity} visible at ${formatCurrency(algo.limitPrice ?? 0)}`;
+
+  return (
+    <div className="bg-surface border border-border-primary rounded-lg">
+      {/* Header */}
+      <div className="p-4 border-b border-border-primary">
+        <h3 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <Workflow className="w-5 h-5 text-primary-500" />
+          Algo Orders
+        </h3>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto divide-y divide-border-primary">
+        {visibleAlgos.map((algo) => {
+          const { filledPercent, remainingQuantity, slippageBps } = getAlgoProgress(algo);
+          const isWorking = algo.status === 'running' || algo.status === 'paused';
+
+          return (
+            <div key={algo.id} className="p-4 text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className={`font-semibold ${algo.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                    {algo.side.toUpperCase()}
+                  </span>
+                  <span className="font-semibold text-text-primary">{algo.totalQuantity} {algo.symbol}</span>
+                  <span className="text-xs text-text-secondary capitalize">{algo.status}</span>
+                </div>
+                {isWorking && (
+                  <div className="flex items-center gap-1">
+                    {algo.status === 'running' ? (
+                      <button
+                        onClick={() => pauseAlgoOrder(algo.id)}
+                        className="p-1 text-text-secondary hover:text-text-primary transition-colors"
+                        title="Pause"
+                      >
+                        <Pause className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => resumeAlgoOrder(algo.id)}
+                        className="p-1 text-text-secondary hover:text-text-primary transition-colors"
+                        title="Resume"
+                      >
+                        <Play className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => cancelAlgoOrder(algo.id, 'Cancelled by user')}
+                      className="p-1 text-red-400 hover:text-red-300 transition-colors"
+                      title="Cancel remaining quantity"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="text-xs text-text-secondary mb-2">{describeAlgo(algo)}</div>
+
+              {/* Progress */}
+              <div className="h-1.5 bg-background rounded-full overflow-hidden mb-2">
+                <div
+                  className="h-full bg-primary-500 transition-all"
+                  style={{ width: `${Math.min(100, filledPercent)}%` }}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                  <div className="text-text-secondary">Filled</div>
+                  <div className="font-mono text-text-primary">
+                    {filledPercent.toFixed(1)}% ({remainingQuantity} left)
+                  </div>
+                </div>
+                <div>
+                  <div className="text-text-secondary">Avg / Arrival</div>
+                  <div className="font-mono text-text-primary">
+                    {algo.filledQuantity > 0 ? formatCurrency(algo.averagePrice) : '-'} / {formatCurrency(algo.arrivalPrice)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-text-secondary">Slippage</div>
+                  <div className={`font-mono ${slippageBps > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {algo.filledQuantity > 0 ? `${slippageBps >= 0 ? '+' : ''}${slippageBps.toFixed(1)} bps` : '-'}
+                  </div>
+                </div>
+              </div>
+
+              {algo.statusReason && (
+                <div className="mt-2 text-xs text-text-secondary">{algo.statusReason}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+AlgoOrders.displayName = 'AlgoOrders';
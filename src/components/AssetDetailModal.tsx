@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, TrendingUp, TrendingDown, Star, StarOff, ExternalLink, Activity } from 'lucide-react';
+import { X, TrendingUp, TrendingDown, ExternalLink, Activity } from 'lucide-react';
 import { SimpleChart } from '@/components/SimpleChart';
 import { Button } from '@/components/ui/Button';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
 import { PriceDisplay } from '@/components/PriceDisplay';
+import { WatchlistMenu } from '@/components/WatchlistMenu';
 import { cn } from '@/utils/cn';
 import type { CryptoAsset } from '@/types/trading';
 
@@ -23,7 +24,6 @@ export const AssetDetailModal: React.FC<AssetDetailModalProps> = ({
     onTrade,
     className,
 }) => {
-    const [isFavorite, setIsFavorite] = useState(false);
     const [isMobile, setIsMobile] = useState(false);
 
     useEffect(() => {
@@ -103,16 +103,8 @@ export const AssetDetailModal: React.FC<AssetDetailModalProps> = ({
                                         </div>
                                     </motion.div>
 
-                                    {/* Favorite button remove text for mobile */}
-                                    <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => setIsFavorite(!isFavorite)}
-                                        icon={isFavorite ? <Star className="w-4 h-4 fill-current" /> : <StarOff className="w-4 h-4" />}
-                                        className=" gap-0 sm:gap-2"
-                                    >
-                                        <span className="hidden sm:inline">{isFavorite ? 'Favorited' : 'Favorite'}</span>
-                                    </Button>
+                                    {/* Watchlist button drops its label on mobile */}
+                                    <WatchlistMenu symbol={asset.symbol} showLabel />
 
                                     {/* Just show close icon for mobile no text */}
                                     <Button
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { FlaskConical, Play } from 'lucide-react';
+import { useBacktest } from '@/hooks/useBacktest';
+import { formatCurrency, formatPercentage } from '@/utils/calculations';
+import { parseReplaySymbols } from '@/utils/replay';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Dropdown } from '@/components/ui/Dropdown';
+import { cn } from '@/utils/cn';
+import { DEFAULT_FEE_SCHEDULE, FEE_SCHEDULES, INITIAL_PORTFOLIO_BALANCE } from '@/types/trading';
+import type { BacktestInterval, BacktestRule } from '@/types/trading';
+import type { BacktestTrade, EquityPoint } from '@/utils/backtest';
+
+type RuleType = BacktestRule['type'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CURVE_POINTS = 400;
+const MAX_LISTED_TRADES = 100;
+
+const RULE_OPTIONS: { value: RuleType; label: string }[] = [
+    { value: 'sma_cross', label: 'SMA crossover' },
+    { value: 'rsi', label: 'RSI mean reversion' },
+    { value: 'breakout', label: 'Channel breakout' },
+    { value: 'buy_and_hold', label: 'Buy and hold' },
+];
+
+const INTERVAL_OPTIONS: BacktestInterval[] = ['5m', '15m', '1h', '4h', '1d'];
+
+const EXIT_LABELS: Record<BacktestTrade['exitReason'], string> = {
+    signal: 'Signal',
+    stop_loss: 'Stop loss',
+    take_profit: 'Take profit',
+    end: 'End of test',
+};
+
+const inputClass = 'w-full bg-background border border-border-primary rounded-lg px-3 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+// Value for a date input, in local time
+const toDateInput = (time: number): string => {
+    const date = new Date(time);
+    date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+    return date.toISOString().slice(0, 10);
+};
+
+// Optional numeric field: blank means unset
+const parseOptional = (value: string): number | undefined =>
+    value.trim() ? parseFloat(value) : undefined;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <label className="flex flex-col gap-1 text-xs text-text-secondary">
+        {label}
+        {children}
+    </label>
+);
+
+// Equity over the run as a line scaled to its own range
+const EquityCurve: React.FC<{ points: EquityPoint[]; initialBalance: number }> = ({ points, initialBalance }) => {
+    if (points.length < 2) return null;
+
+    const step = Math.ceil(points.length / MAX_CURVE_POINTS);
+    const sampled = points.filter((_, i) => i % step === 0 || i === points.length - 1);
+    const values = sampled.map(p => p.equity);
+    const min = Math.min(...values, initialBalance);
+    const max = Math.max(...values, initialBalance);
+    const range = max - min || 1;
+    const toY = (value: number) => 100 - ((value - min) / range) * 100;
+
+    const path = sampled
+        .map((point, i) => `${(i / (sampled.length - 1)) * 100},${toY(point.equity)}`)
+        .join(' ');
+    const isUp = values[values.length - 1] >= initialBalance;
+
+    return (
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-40">
+            <line
+                x1="0" x2="100" y1={toY(initialBalance)} y2={toY(initialBalance)}
+                className="stroke-border-primary" strokeDasharray="2 2" vectorEffect="non-scaling-stroke"
+            />
+            <polyline
+                points={path}
+                fill="none"
+                className={isUp ? 'stroke-profit' : 'stroke-loss'}
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+            />
+        </svg>
+    );
+};
+
+export const BacktestPanel: React.FC = () => {
+    const backtest = useBacktest();
+    const [ruleType, setRuleType] = useState<RuleType>('sma_cross');
+    const [params, setParams] = useState({
+        fastPeriod: '10',
+        slowPeriod: '30',
+        rsiPeriod: '14',
+        oversold: '30',
+        overbought: '70',
+        lookback: '20',
+    });
+    const [symbolsInput, setSymbolsInput] = useState('BTC');
+    const [candleInterval, setCandleInterval] = useState<BacktestInterval>('1h');
+    const [startInput, setStartInput] = useState(() => toDateInput(Date.now() - 90 * DAY_MS));
+    const [endInput, setEndInput] = useState(() => toDateInput(Date.now()));
+    const [balance, setBalance] = useState(INITIAL_PORTFOLIO_BALANCE.toString());
+    const [positionPercent, setPositionPercent] = useState('50');
+    const [stopLoss, setStopLoss] = useState('');
+    const [takeProfit, setTakeProfit] = useState('');
+    const [allowShort, setAllowShort] = useState(false);
+    const [feeScheduleId, setFeeScheduleId] = useState(DEFAULT_FEE_SCHEDULE.id);
+
+    const setParam = (key: keyof typeof params) => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setParams(current => ({ ...current, [key]: e.target.value }));
+
+    const buildRule = (): BacktestRule => {
+        switch (ruleType) {
+            case 'sma_cross':
+                return { type: ruleType, fastPeriod: Number(params.fastPeriod), slowPeriod: Number(params.slowPeriod) };
+            case 'rsi':
+                return {
+                    type: ruleType,
+                    period: Number(params.rsiPeriod),
+                    oversold: Number(params.oversold),
+                    overbought: Number(params.overbought),
+                };
+            case 'breakout':
+                return { type: ruleType, lookback: Number(params.lookback) };
+            case 'buy_and_hold':
+                return { type: ruleType };
+        }
+    };
+
+    const handleRun = () => {
+        // The end date includes its whole day, up to now
+        const endTime = Math.min(Date.now(), new Date(`${endInput}T00:00`).getTime() + DAY_MS);
+
+        backtest.mutate({
+            strategy: {
+                rule: buildRule(),
+                positionPercent: parseFloat(positionPercent),
+                allowShort,
+                stopLossPercent: parseOptional(stopLoss),
+                takeProfitPercent: parseOptional(takeProfit),
+            },
+            symbols: parseReplaySymbols(symbolsInput),
+            interval: candleInterval,
+            startTime: new Date(`${startInput}T00:00`).getTime(),
+            endTime,
+            initialBalance: parseFloat(balance),
+            feeSchedule: FEE_SCHEDULES.find(s => s.id === feeScheduleId) ?? DEFAULT_FEE_SCHEDULE,
+        });
+    };
+
+    const result = backtest.data;
+    const initialBalance = backtest.variables?.initialBalance ?? INITIAL_PORTFOLIO_BALANCE;
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <FlaskConical className="w-5 h-5" />
+                        Strategy Backtest
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <Field label="Strategy">
+                            <Dropdown
+                                options={RULE_OPTIONS}
+                                value={ruleType}
+                                onChange={(value) => setRuleType(value as RuleType)}
+                                size="sm"
+                            />
+                        </Field>
+                        {ruleType === 'sma_cross' && (
+                            <>
+                                <Field label="Fast period">
+                                    <input type="number" value={params.fastPeriod} onChange={setParam('fastPeriod')} className={inputClass} />
+                                </Field>
+                                <Field label="Slow period">
+                                    <input type="number" value={params.slowPeriod} onChange={setParam('slowPeriod')} className={inputClass} />
+                                </Field>
+                            </>
+                        )}
+                        {ruleType === 'rsi' && (
+                            <>
+                                <Field label="RSI period">
+                                    <input type="number" value={params.rsiPeriod} onChange={setParam('rsiPeriod')} className={inputClass} />
+                                </Field>
+                                <Field label="Oversold / overbought">
+                                    <div className="flex gap-2">
+                                        <input type="number" value={params.oversold} onChange={setParam('oversold')} className={inputClass} />
+                                        <input type="number" value={params.overbought} onChange={setParam('overbought')} className={inputClass} />
+                                    </div>
+                                </Field>
+                            </>
+                        )}
+                        {ruleType === 'breakout' && (
+                            <Field label="Lookback (candles)">
+                                <input type="number" value={params.lookback} onChange={setParam('lookback')} className={inputClass} />
+                            </Field>
+                        )}
+                        <Field label="Symbols">
+                            <input type="text" value={symbolsInput} onChange={(e) => setSymbolsInput(e.target.value)} placeholder="BTC, ETH" className={inputClass} />
+                        </Field>
+                        <Field label="Interval">
+                            <Dropdown
+                                options={INTERVAL_OPTIONS.map(value => ({ value, label: value }))}
+                                value={candleInterval}
+                                onChange={(value) => setCandleInterval(value as BacktestInterval)}
+                                size="sm"
+                            />
+                        </Field>
+                        <Field label="From">
+                            <input type="date" value={startInput} onChange={(e) => setStartInput(e.target.value)} className={inputClass} />
+                        </Field>
+                        <Field label="To">
+                            <input type="date" value={endInput} onChange={(e) => setEndInput(e.target.value)} className={inputClass} />
+                        </Field>
+                        <Field label="Starting balance">
+                            <input type="number" min="0" value={balance} onChange={(e) => setBalance(e.target.value)} className={inputClass} />
+                        </Field>
+                        <Field label="Position size (% of equity)">
+                            <input type="number" min="0" max="100" value={positionPercent} onChange={(e) => setPositionPercent(e.target.value)} className={inputClass} />
+                        </Field>
+                        <Field label="Stop loss %">
+                            <input type="number" min="0" value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} placeholder="None" className={inputClass} />
+                        </Field>
+                        <Field label="Take profit %">
+                            <input type="number" min="0" value={takeProfit} onChange={(e) => setTakeProfit(e.target.value)} placeholder="None" className={inputClass} />
+                        </Field>
+                        <Field label="Fees">
+                            <Dropdown
+                                options={FEE_SCHEDULES.map(schedule => ({ value: schedule.id, label: schedule.name }))}
+                                value={feeScheduleId}
+                                onChange={setFeeScheduleId}
+                                size="sm"
+                            />
+                        </Field>
+                    </div>
+
+                    <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-sm text-text-secondary">
+                            <input type="checkbox" checked={allowShort} onChange={(e) => setAllowShort(e.target.checked)} />
+                            Go short on exit signals
+                        </label>
+                        <Button size="sm" onClick={handleRun} loading={backtest.isPending} icon={<Play className="w-4 h-4" />}>
+                            Run Backtest
+                        </Button>
+                    </div>
+                    {backtest.error && (
+                        <div className="mt-3 text-sm text-red-400">{backtest.error.message}</div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {result && (
+                <>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Results</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                                {[
+                                    { label: 'Final equity', value: formatCurrency(result.metrics.finalEquity) },
+                                    {
+                                        label: 'Total return',
+                                        value: formatPercentage(result.metrics.totalReturnPercent),
+                                        tone: result.metrics.totalReturn,
+                                    },
+                                    { label: 'CAGR', value: formatPercentage(result.metrics.cagr), tone: result.metrics.cagr },
+                                    { label: 'Sharpe ratio', value: result.metrics.sharpeRatio.toFixed(2) },
+                                    { label: 'Max drawdown', value: `-${result.metrics.maxDrawdownPercent.toFixed(2)}%` },
+                                    { label: 'Trades', value: result.metrics.totalTrades.toString() },
+                                    { label: 'Win rate', value: `${result.metrics.winRate.toFixed(1)}%` },
+                                    {
+                                        label: 'Profit factor',
+                                        value: Number.isFinite(result.metrics.profitFactor) ? result.metrics.profitFactor.toFixed(2) : '∞',
+                                    },
+                                    { label: 'Fees paid', value: formatCurrency(result.metrics.totalFees) },
+                                ].map(({ label, value, tone }) => (
+                                    <div key={label}>
+                                        <div className="text-xs text-text-secondary">{label}</div>
+                                        <div className={cn(
+                                            'font-mono font-semibold',
+                                            tone === undefined ? 'text-text-primary' : tone >= 0 ? 'text-profit' : 'text-loss'
+                                        )}>
+                                            {value}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            <EquityCurve points={result.equityCurve} initialBalance={initialBalance} />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Trades</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {result.trades.length === 0 ? (
+                                <div className="text-sm text-text-secondary">The strategy never entered a trade.</div>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-text-secondary border-b border-border-primary">
+                                                <th className="py-2 pr-4">Symbol</th>
+                                                <th className="py-2 pr-4">Side</th>
+                                                <th className="py-2 pr-4">Entry</th>
+                                                <th className="py-2 pr-4">Exit</th>
+                                                <th className="py-2 pr-4 text-right">P&L</th>
+                                                <th className="py-2">Exit reason</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {result.trades.slice(-MAX_LISTED_TRADES).reverse().map(trade => (
+                                                <tr key={`${trade.symbol}-${trade.entryTime}`} className="border-b border-border-primary/50">
+                                                    <td className="py-2 pr-4 font-medium text-text-primary">{trade.symbol}</td>
+                                                    <td className={cn('py-2 pr-4', trade.side === 'long' ? 'text-profit' : 'text-loss')}>
+                                                        {trade.side.toUpperCase()}
+                                                    </td>
+                                                    <td className="py-2 pr-4 text-text-secondary">
+                                                        {formatCurrency(trade.entryPrice)}
+                                                        <div className="text-xs">{new Date(trade.entryTime).toLocaleString()}</div>
+                                                    </td>
+                                                    <td className="py-2 pr-4 text-text-secondary">
+                                                        {formatCurrency(trade.exitPrice)}
+                                                        <div className="text-xs">{new Date(trade.exitTime).toLocaleString()}</div>
+                                                    </td>
+                                                    <td className={cn('py-2 pr-4 text-right font-mono', trade.pnl >= 0 ? 'text-profit' : 'text-loss')}>
+                                                        {formatCurrency(trade.pnl)}
+                                                        <div className="text-xs">{formatPercentage(trade.pnlPercent)}</div>
+                                                    </td>
+                                                    <td className="py-2 text-text-secondary">{EXIT_LABELS[trade.exitReason]}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    {result.trades.length > MAX_LISTED_TRADES && (
+                                        <div className="mt-2 text-xs text-text-secondary">
+                                            Showing the last {MAX_LISTED_TRADES} of {result.trades.length} trades
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+};
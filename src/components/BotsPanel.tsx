@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bot, Play, Plus, Save, Square, Trash2 } from 'lucide-react';
+import { tradingBotRunner } from '@/services/botRunner';
+import { useBotStore } from '@/state/botStore';
+import type { BotDraft } from '@/state/botStore';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { BOT_TEMPLATE, validateBotScript } from '@/utils/bots';
+import { parseReplaySymbols } from '@/utils/replay';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Dropdown } from '@/components/ui/Dropdown';
+import { cn } from '@/utils/cn';
+import type { BacktestInterval, BotLogLevel, BotScript, BotStatus } from '@/types/trading';
+
+const INTERVAL_OPTIONS: BacktestInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+const STATUS_STYLES: Record<BotStatus, string> = {
+    stopped: 'bg-gray-500/20 text-text-secondary',
+    running: 'bg-green-500/20 text-profit',
+    error: 'bg-red-500/20 text-loss',
+};
+
+const LOG_STYLES: Record<BotLogLevel, string> = {
+    info: 'text-text-secondary',
+    warn: 'text-yellow-400',
+    error: 'text-loss',
+    trade: 'text-primary-400',
+};
+
+const inputClass = 'w-full bg-background border border-border-primary rounded-lg px-3 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <label className="flex flex-col gap-1 text-xs text-text-secondary">
+        {label}
+        {children}
+    </label>
+);
+
+const newDraft = (portfolioId: string): BotDraft => ({
+    name: 'New bot',
+    code: BOT_TEMPLATE,
+    portfolioId,
+    symbols: ['BTC'],
+    candleInterval: '1m',
+});
+
+const toDraft = (bot: BotScript): BotDraft => ({
+    id: bot.id,
+    name: bot.name,
+    code: bot.code,
+    portfolioId: bot.portfolioId,
+    symbols: bot.symbols,
+    candleInterval: bot.candleInterval,
+});
+
+export const BotsPanel: React.FC = () => {
+    const bots = useBotStore((state) => state.bots);
+    const runtime = useBotStore((state) => state.runtime);
+    const { saveBot, deleteBot, clearBotLog } = useBotStore.getState();
+    const portfolios = usePortfolioStore((state) => state.portfolios);
+    const activePortfolioId = usePortfolioStore((state) => state.activePortfolioId);
+
+    const [draft, setDraft] = useState<BotDraft>(() => newDraft(activePortfolioId ?? ''));
+    const [symbolsInput, setSymbolsInput] = useState(draft.symbols.join(', '));
+    const [error, setError] = useState<string | null>(null);
+    const consoleRef = useRef<HTMLDivElement>(null);
+
+    const selected = draft.id ? bots.find(bot => bot.id === draft.id) : undefined;
+    const selectedRuntime = selected ? runtime[selected.id] : undefined;
+    const status: BotStatus = selectedRuntime?.status ?? 'stopped';
+    const logs = selectedRuntime?.logs ?? [];
+
+    // Keep the newest log lines in view
+    useEffect(() => {
+        consoleRef.current?.scrollTo({ top: consoleRef.current.scrollHeight });
+    }, [logs.length]);
+
+    const selectDraft = (next: BotDraft) => {
+        setDraft(next);
+        setSymbolsInput(next.symbols.join(', '));
+        setError(null);
+    };
+
+    const updateDraft = (updates: Partial<BotDraft>) => setDraft(current => ({ ...current, ...updates }));
+
+    // Save the editor and return the stored bot, or null if it isn't valid
+    const save = (): BotScript | null => {
+        const candidate = { ...draft, symbols: parseReplaySymbols(symbolsInput) };
+        const validationError = validateBotScript(candidate);
+        if (validationError) {
+            setError(validationError);
+            return null;
+        }
+        if (!portfolios.some(p => p.id === candidate.portfolioId)) {
+            setError('The chosen portfolio no longer exists');
+            return null;
+        }
+
+        const id = saveBot(candidate);
+        setDraft({ ...candidate, id });
+        setError(null);
+        return useBotStore.getState().bots.find(bot => bot.id === id) ?? null;
+    };
+
+    const handleStart = () => {
+        const bot = save();
+        if (bot) tradingBotRunner.start(bot);
+    };
+
+    const handleDelete = () => {
+        if (!draft.id) return;
+        tradingBotRunner.stop(draft.id);
+        deleteBot(draft.id);
+        selectDraft(newDraft(activePortfolioId ?? ''));
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <Card className="lg:col-span-1">
+                <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                        <span className="flex items-center gap-2">
+                            <Bot className="w-5 h-5" />
+                            Bots
+                        </span>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => selectDraft(newDraft(activePortfolioId ?? ''))}
+                            icon={<Plus className="w-4 h-4" />}
+                        >
+                            New
+                        </Button>
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {bots.length === 0 ? (
+                        <div className="text-sm text-text-secondary">No saved bots yet.</div>
+                    ) : (
+                        <div className="space-y-2">
+                            {bots.map(bot => {
+                                const botStatus = runtime[bot.id]?.status ?? 'stopped';
+                                return (
+                                    <button
+                                        key={bot.id}
+                                        onClick={() => selectDraft(toDraft(bot))}
+                                        className={cn(
+                                            'w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors',
+                                            bot.id === draft.id
+                                                ? 'bg-primary-500/20 text-text-primary'
+                                                : 'text-text-secondary hover:bg-background'
+                                        )}
+                                    >
+                                        <span className="truncate">{bot.name}</span>
+                                        <span className={cn('px-2 py-0.5 rounded text-xs', STATUS_STYLES[botStatus])}>
+                                            {botStatus}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <div className="lg:col-span-3 space-y-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                            <span>{selected ? selected.name : 'New bot'}</span>
+                            <span className={cn('px-2 py-0.5 rounded text-xs font-normal', STATUS_STYLES[status])}>
+                                {status}
+                            </span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <Field label="Name">
+                                <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+                            </Field>
+                            <Field label="Portfolio">
+                                <Dropdown
+                                    options={portfolios.map(p => ({ value: p.id, label: p.name }))}
+                                    value={draft.portfolioId}
+                                    onChange={(portfolioId) => updateDraft({ portfolioId })}
+                                    placeholder="Choose portfolio"
+                                    size="sm"
+                                />
+                            </Field>
+                            <Field label="Symbols">
+                                <input type="text" value={symbolsInput} onChange={(e) => setSymbolsInput(e.target.value)} placeholder="BTC, ETH" className={inputClass} />
+                            </Field>
+                            <Field label="Candle interval">
+                                <Dropdown
+                                    options={INTERVAL_OPTIONS.map(value => ({ value, label: value }))}
+                                    value={draft.candleInterval}
+                                    onChange={(value) => updateDraft({ candleInterval: value as BacktestInterval })}
+                                    size="sm"
+                                />
+                            </Field>
+                        </div>
+
+                        <textarea
+                            value={draft.code}
+                            onChange={(e) => updateDraft({ code: e.target.value })}
+                            spellCheck={false}
+                            rows={18}
+                            className={cn(inputClass, 'mt-4 font-mono text-xs leading-relaxed resize-y')}
+                        />
+                        <div className="mt-2 text-xs text-text-secondary">
+                            Define <code>onPrice(prices, ctx)</code>, <code>onCandle(symbol, candle, ctx)</code> and{' '}
+                            <code>onFill(fill, ctx)</code>. <code>ctx</code> offers buy, sell, limit, cancelOrders,
+                            log, getPrice, getPosition, getOpenOrders, balance and a persistent state object.
+                            Scripts run in a worker, away from the page, and every order is checked before it is
+                            placed, but a script can still reach the network. Only run code you trust.
+                        </div>
+
+                        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                            <div className="flex gap-2">
+                                <Button size="sm" variant="secondary" onClick={save} icon={<Save className="w-4 h-4" />}>
+                                    Save
+                                </Button>
+                                {draft.id && (
+                                    <Button size="sm" variant="danger" onClick={handleDelete} icon={<Trash2 className="w-4 h-4" />}>
+                                        Delete
+                                    </Button>
+                                )}
+                            </div>
+                            {status === 'running' ? (
+                                <Button size="sm" variant="outline" onClick={() => tradingBotRunner.stop(draft.id!)} icon={<Square className="w-4 h-4" />}>
+                                    Stop
+                                </Button>
+                            ) : (
+                                <Button size="sm" onClick={handleStart} icon={<Play className="w-4 h-4" />}>
+                                    Save &amp; Start
+                                </Button>
+                            )}
+                        </div>
+                        {status === 'running' && (
+                            <div className="mt-3 text-xs text-text-secondary">Saved changes take effect when the bot is restarted.</div>
+                        )}
+                        {error && <div className="mt-3 text-sm text-red-400">{error}</div>}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                            <span>Console</span>
+                            {selected && logs.length > 0 && (
+                                <Button size="sm" variant="ghost" onClick={() => clearBotLog(selected.id)}>
+                                    Clear
+                                </Button>
+                            )}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div ref={consoleRef} className="h-64 overflow-y-auto bg-background rounded-lg p-3 font-mono text-xs space-y-1">
+                            {logs.length === 0 ? (
+                                <div className="text-text-secondary">Nothing logged yet.</div>
+                            ) : (
+                                logs.map((entry, index) => (
+                                    <div key={`${entry.time}-${index}`} className={LOG_STYLES[entry.level]}>
+                                        <span className="opacity-60">{new Date(entry.time).toLocaleTimeString()}</span>{' '}
+                                        {entry.message}
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { AlignJustify, Minus, MousePointer2, Square, Trash2, TrendingUp, Type } from 'lucide-react';
+import { DRAWING_TOOLS, MAX_NOTE_LENGTH } from '@/utils/drawings';
+import type { DrawingTool } from '@/hooks/useChartDrawings';
+import type { ChartDrawing } from '@/types/trading';
+import { cn } from '@/utils/cn';
+
+interface DrawingToolbarProps {
+    tool: DrawingTool;
+    onToolChange: (tool: DrawingTool) => void;
+    selectedDrawing: ChartDrawing | null;
+    onUpdateSelected: (updates: Partial<Pick<ChartDrawing, 'color' | 'text'>>) => void;
+    onDeleteSelected: () => void;
+    noteText: string;
+    onNoteTextChange: (text: string) => void;
+    error: string | null;
+    className?: string;
+}
+
+const tools: { tool: DrawingTool; label: string; icon: React.ElementType }[] = [
+    { tool: 'select', label: 'Select and move', icon: MousePointer2 },
+    { tool: 'trendline', label: DRAWING_TOOLS.trendline.label, icon: TrendingUp },
+    { tool: 'horizontal', label: DRAWING_TOOLS.horizontal.label, icon: Minus },
+    { tool: 'rectangle', label: DRAWING_TOOLS.rectangle.label, icon: Square },
+    { tool: 'fibonacci', label: DRAWING_TOOLS.fibonacci.label, icon: AlignJustify },
+    { tool: 'text', label: DRAWING_TOOLS.text.label, icon: Type },
+];
+
+const iconButtonClass = 'p-1.5 rounded hover:bg-surface-hover text-text-secondary hover:text-text-primary';
+const inputClass = 'bg-background border border-border-primary rounded px-2 py-1 text-xs text-text-primary focus:outline-none focus:border-primary-500';
+
+// Tool picker for chart drawings, with controls for the selected drawing
+export const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
+    tool,
+    onToolChange,
+    selectedDrawing,
+    onUpdateSelected,
+    onDeleteSelected,
+    noteText,
+    onNoteTextChange,
+    error,
+    className,
+}) => {
+    return (
+        <div className={cn('flex flex-wrap items-center gap-1', className)}>
+            {tools.map(({ tool: value, label, icon: Icon }) => (
+                <button
+                    key={value}
+                    onClick={() => onToolChange(value)}
+                    className={cn(iconButtonClass, tool === value && 'bg-primary-600 text-white hover:bg-primary-600 hover:text-white')}
+                    title={label}
+                >
+                    <Icon className="w-4 h-4" />
+                </button>
+            ))}
+
+            {tool === 'text' && (
+                <input
+                    type="text"
+                    value={noteText}
+                    onChange={(e) => onNoteTextChange(e.target.value)}
+                    placeholder="Note text, then click the chart"
+                    maxLength={MAX_NOTE_LENGTH}
+                    autoFocus
+                    className={cn(inputClass, 'ml-2 w-56')}
+                />
+            )}
+
+            {selectedDrawing && (
+                <div className="ml-auto flex items-center gap-1">
+                    {selectedDrawing.type === 'text' && (
+                        <input
+                            type="text"
+                            value={selectedDrawing.text ?? ''}
+                            onChange={(e) => e.target.value.trim() && onUpdateSelected({ text: e.target.value })}
+                            maxLength={MAX_NOTE_LENGTH}
+                            className={cn(inputClass, 'w-48')}
+                        />
+                    )}
+                    <input
+                        type="color"
+                        value={selectedDrawing.color}
+                        onChange={(e) => onUpdateSelected({ color: e.target.value })}
+                        className="w-6 h-6 bg-transparent cursor-pointer"
+                        title="Drawing color"
+                    />
+                    <button onClick={onDeleteSelected} className={cn(iconButtonClass, 'hover:text-red-400')} title="Delete drawing (Del)">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {error && <div className="w-full text-xs text-red-400">{error}</div>}
+        </div>
+    );
+};
@@ -6,6 +6,10 @@ import { AssetDetailModal } from '@/components/AssetDetailModal';
 import { CryptoAsset } from '@/types/trading';
 import { PriceDisplay } from '@/components/PriceDisplay';
 import { usePrices } from '@/hooks/usePriceContext';
+import { WatchlistBar } from '@/components/WatchlistBar';
+import { WatchlistMenu } from '@/components/WatchlistMenu';
+import { getActiveWatchlist, useWatchlistStore } from '@/state/watchlistStore';
+import { filterByWatchlist } from '@/utils/watchlists';
 
 interface EnhancedAssetListProps {
   onAssetSelect?: (asset: CryptoAsset) => void;
@@ -52,6 +56,7 @@ const AssetRow = React.memo<{
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <WatchlistMenu symbol={asset.symbol} />
           <motion.button
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
@@ -106,6 +111,7 @@ const AssetRow = React.memo<{
 
         {/* Actions */}
         <div className="flex items-center justify-end gap-2">
+          <WatchlistMenu symbol={asset.symbol} />
           <motion.button
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
@@ -157,6 +163,7 @@ export const EnhancedAssetList = React.memo<EnhancedAssetListProps>(({
 
   const { data: assets, isLoading, error } = useWebSocketAssets();
   const { isConnected, subscribe } = usePrices();
+  const activeWatchlist = useWatchlistStore(getActiveWatchlist);
 
   // Force re-render when prices update
   React.useEffect(() => {
@@ -173,7 +180,7 @@ export const EnhancedAssetList = React.memo<EnhancedAssetListProps>(({
   const filteredAndSortedAssets = useMemo(() => {
     if (!assets) return [];
 
-    let filtered = assets;
+    let filtered = filterByWatchlist(assets, activeWatchlist);
 
     // Apply search filter
     if (searchTerm) {
@@ -221,7 +228,7 @@ export const EnhancedAssetList = React.memo<EnhancedAssetListProps>(({
     });
 
     return sorted.slice(0, maxItems);
-  }, [assets, searchTerm, sortField, sortOrder, maxItems]);
+  }, [assets, activeWatchlist, searchTerm, sortField, sortOrder, maxItems]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -270,7 +277,8 @@ export const EnhancedAssetList = React.memo<EnhancedAssetListProps>(({
     <div className="bg-surface border border-border-primary rounded-lg overflow-hidden">
       {/* Header */}
       {showSearch && (
-        <div className="p-3 sm:p-4 border-b border-border-primary">
+        <div className="p-3 sm:p-4 border-b border-border-primary space-y-3">
+          <WatchlistBar />
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-text-secondary" />
             <input
@@ -305,7 +313,11 @@ export const EnhancedAssetList = React.memo<EnhancedAssetListProps>(({
       <div className="max-h-[600px] overflow-y-auto">
         {filteredAndSortedAssets.length === 0 ? (
           <div className="p-6 text-center text-gray-400">
-            {searchTerm ? 'No assets found matching your search.' : 'No assets available.'}
+            {searchTerm
+              ? 'No assets found matching your search.'
+              : activeWatchlist
+                ? 'This watchlist is empty. Add assets with the star button.'
+                : 'No assets available.'}
           </div>
         ) : (
           <motion.div>
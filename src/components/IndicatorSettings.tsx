@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useChartSettingsStore, useSymbolIndicators } from '@/state/chartSettingsStore';
+import { clampIndicatorParam, getIndicatorLabel, INDICATOR_DEFINITIONS } from '@/utils/indicatorEngine';
+import type { IndicatorType } from '@/types/trading';
+import { cn } from '@/utils/cn';
+
+interface IndicatorSettingsProps {
+    symbol: string;
+    className?: string;
+}
+
+const indicatorTypes = Object.keys(INDICATOR_DEFINITIONS) as IndicatorType[];
+
+const inputClass = 'bg-background border border-border-primary rounded px-2 py-1 text-xs text-text-primary focus:outline-none focus:border-primary-500';
+
+// Add, tune and remove the chart indicators saved for a symbol
+export const IndicatorSettings: React.FC<IndicatorSettingsProps> = ({ symbol, className }) => {
+    const indicators = useSymbolIndicators(symbol);
+    const { addIndicator, updateIndicator, removeIndicator } = useChartSettingsStore.getState();
+    const [newType, setNewType] = useState<IndicatorType>('sma');
+
+    return (
+        <div className={cn('space-y-2', className)}>
+            {indicators.length === 0 && (
+                <div className="text-xs text-text-secondary">No indicators on {symbol} yet</div>
+            )}
+
+            {indicators.map(indicator => {
+                const definition = INDICATOR_DEFINITIONS[indicator.name];
+                return (
+                    <div key={indicator.id} className="flex flex-wrap items-center gap-2 text-xs">
+                        <label className="flex items-center gap-2 min-w-[8rem] text-text-primary">
+                            <input
+                                type="checkbox"
+                                checked={indicator.enabled}
+                                onChange={(e) => updateIndicator(symbol, indicator.id, { enabled: e.target.checked })}
+                            />
+                            <span className="w-3 h-0.5 rounded" style={{ backgroundColor: indicator.color }} />
+                            {getIndicatorLabel(indicator)}
+                        </label>
+
+                        {definition.params.map(param => (
+                            <label key={param.key} className="flex items-center gap-1 text-text-secondary">
+                                {param.label}
+                                <input
+                                    type="number"
+                                    min={param.min}
+                                    max={param.max}
+                                    step={param.step ?? 1}
+                                    value={indicator.params[param.key] ?? param.defaultValue}
+                                    onChange={(e) => updateIndicator(symbol, indicator.id, {
+                                        params: { [param.key]: clampIndicatorParam(param, parseFloat(e.target.value)) },
+                                    })}
+                                    className={cn(inputClass, 'w-16')}
+                                />
+                            </label>
+                        ))}
+
+                        <input
+                            type="color"
+                            value={indicator.color}
+                            onChange={(e) => updateIndicator(symbol, indicator.id, { color: e.target.value })}
+                            className="w-6 h-6 bg-transparent cursor-pointer"
+                            title="Line color"
+                        />
+                        <button
+                            onClick={() => removeIndicator(symbol, indicator.id)}
+                            className="ml-auto p-1 rounded hover:bg-surface-hover text-text-secondary hover:text-red-400"
+                            title="Remove indicator"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                );
+            })}
+
+            <div className="flex items-center gap-1 pt-2 border-t border-border-primary">
+                <select
+                    value={newType}
+                    onChange={(e) => setNewType(e.target.value as IndicatorType)}
+                    className={inputClass}
+                >
+                    {indicatorTypes.map(type => (
+                        <option key={type} value={type}>{INDICATOR_DEFINITIONS[type].label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => addIndicator(symbol, newType)}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover hover:text-text-primary"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add
+                </button>
+            </div>
+        </div>
+    );
+};
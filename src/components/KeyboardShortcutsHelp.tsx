@@ -17,6 +17,9 @@ const shortcutGroups = [
             { keys: ['Alt', '3'], description: 'Switch to Positions' },
             { keys: ['Alt', '4'], description: 'Switch to History' },
             { keys: ['Alt', '5'], description: 'Switch to Analytics' },
+            { keys: ['Alt', '6'], description: 'Switch to Backtest' },
+            { keys: ['Alt', '7'], description: 'Switch to Bots' },
+            { keys: ['Alt', '8'], description: 'Switch to Alerts' },
         ]
     },
     {
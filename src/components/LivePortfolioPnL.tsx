@@ -2,6 +2,7 @@ import React, { useRef, useEffect, useContext } from 'react';
 import { PriceContext } from '@/context/PriceContext';
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
+import { getPositionPnL } from '@/utils/margin';
 import type { Position } from '@/state/portfolioStore';
 
 interface LivePortfolioPnLProps {
@@ -38,14 +39,11 @@ export const LivePortfolioPnL = React.memo<LivePortfolioPnLProps>(({
                 return sum + (pos.quantity * pos.entryPrice);
             }, 0);
 
-            // Calculate current market value of positions
-            const currentPositionsValue = portfolio.positions.reduce((sum: number, pos: Position) => {
+            // Unrealized P&L across longs and shorts, plus funding accrued while open
+            const totalPnL = portfolio.positions.reduce((sum: number, pos: Position) => {
                 const currentPrice = priceContext.getPrice(pos.symbol) || pos.entryPrice;
-                return sum + (pos.quantity * currentPrice);
+                return sum + getPositionPnL(pos, currentPrice) + pos.cumulativeFunding;
             }, 0);
-
-            // P&L = Current Value - Cost Basis
-            const totalPnL = currentPositionsValue - totalInvested;
             const totalPnLPercent = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
 
             // Only update DOM if values changed
@@ -78,11 +76,10 @@ export const LivePortfolioPnL = React.memo<LivePortfolioPnLProps>(({
     // Calculate initial values
     const portfolio = getPortfolio(portfolioId);
     const initialTotalInvested = portfolio?.positions.reduce((sum: number, pos: Position) => sum + (pos.quantity * pos.entryPrice), 0) || 0;
-    const initialCurrentValue = portfolio?.positions.reduce((sum: number, pos: Position) => {
+    const initialPnL = portfolio?.positions.reduce((sum: number, pos: Position) => {
         const currentPrice = priceContext?.getPrice(pos.symbol) || pos.entryPrice;
-        return sum + (pos.quantity * currentPrice);
+        return sum + getPositionPnL(pos, currentPrice) + pos.cumulativeFunding;
     }, 0) || 0;
-    const initialPnL = initialCurrentValue - initialTotalInvested;
     const initialPnLPercent = initialTotalInvested > 0 ? (initialPnL / initialTotalInvested) * 100 : 0;
 
     return (
@@ -3,6 +3,7 @@ import { usePrices } from '@/hooks/usePriceContext';
 import { PriceContext } from '@/context/PriceContext';
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
+import { getNetContributions } from '@/utils/cashLedger';
 
 interface LivePortfolioValueProps {
     portfolioId: string;
@@ -35,7 +36,7 @@ export const LivePortfolioValue = React.memo<LivePortfolioValueProps>(({
 
         const initialValue = getPortfolioValue(portfolioId, currentPrices);
         const initialPnL = getTotalPnL(portfolioId, currentPrices);
-        const initialPnLPercent = (initialPnL / portfolio.initialBalance) * 100;
+        const initialPnLPercent = (initialPnL / getNetContributions(portfolio)) * 100;
 
         updateDisplay(initialValue, initialPnL, initialPnLPercent);
         lastValueRef.current = { value: initialValue, pnl: initialPnL, pnlPercent: initialPnLPercent };
@@ -58,7 +59,7 @@ export const LivePortfolioValue = React.memo<LivePortfolioValueProps>(({
 
                     const newValue = getPortfolioValue(portfolioId, updatedPrices);
                     const newPnL = getTotalPnL(portfolioId, updatedPrices);
-                    const newPnLPercent = (newPnL / portfolio.initialBalance) * 100;
+                    const newPnLPercent = (newPnL / getNetContributions(portfolio)) * 100;
 
                     if (!lastValueRef.current ||
                         newValue !== lastValueRef.current.value ||
@@ -100,7 +101,7 @@ export const LivePortfolioValue = React.memo<LivePortfolioValueProps>(({
 
     const initialValue = getPortfolioValue(portfolioId, currentPrices);
     const initialPnL = getTotalPnL(portfolioId, currentPrices);
-    const initialPnLPercent = (initialPnL / portfolio.initialBalance) * 100;
+    const initialPnLPercent = (initialPnL / getNetContributions(portfolio)) * 100;
 
     if (showPnL) {
         const colorClass = initialPnL >= 0 ? 'text-green-400' : 'text-red-400';
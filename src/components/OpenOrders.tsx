@@ -0,0 +1,427 @@
+import React, { useState, useMemo } from 'react';
+import { ListOrdered, Pencil, X, Check } from 'lucide-react';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { usePositionStore } from '@/state/positionStore';
+import { PriceDisplay } from '@/components/PriceDisplay';
+import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
+import { formatCurrency } from '@/utils/calculations';
+import { getOrderGroups, getReservedBalance, isOrderWorking, validateLimitOrder } from '@/utils/orderMatching';
+import { validateOrderRules } from '@/utils/orderRules';
+import { useMarketMeta } from '@/hooks/useMarketMeta';
+import type { Order, OrderGroup, OrderStatus, TimeInForce } from '@/types/trading';
+
+const HISTORY_LIMIT = 50;
+
+const GROUP_STATUS_LABELS: Record<OrderGroup['status'], string> = {
+  pending: 'Awaiting entry',
+  active: 'Exits working',
+  filled: 'Filled',
+  cancelled: 'Cancelled',
+};
+
+const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  gtc: 'GTC',
+  ioc: 'IOC',
+  fok: 'FOK',
+  post_only: 'POST',
+  gtd: 'GTD',
+};
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-amber-900/40 text-amber-300',
+  filled: 'bg-green-900/40 text-green-300',
+  cancelled: 'bg-surface-hover text-text-secondary',
+  expired: 'bg-surface-hover text-text-secondary',
+  rejected: 'bg-red-900/40 text-red-300',
+};
+
+export const OpenOrders = React.memo(() => {
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [editQuantity, setEditQuantity] = useState('');
+  const [editPrice, setEditPrice] = useState('');
+  const [editError, setEditError] = useState('');
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+  const [groupToCancel, setGroupToCancel] = useState<OrderGroup | null>(null);
+  const [view, setView] = useState<'open' | 'history'>('open');
+
+  const { getActivePortfolio } = usePortfolioStore();
+  const orders = usePositionStore((state) => state.orders);
+  const updateOrder = usePositionStore((state) => state.updateOrder);
+  const cancelOrder = usePositionStore((state) => state.cancelOrder);
+  const cancelOrderGroup = usePositionStore((state) => state.cancelOrderGroup);
+  const { data: marketMeta } = useMarketMeta();
+
+  const activePortfolio = getActivePortfolio();
+
+  const openOrders = useMemo(() => {
+    if (!activePortfolio) return [];
+    return orders
+      .filter(o => o.portfolioId === activePortfolio.id && o.status === 'pending' && !o.groupId && !o.algoId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }, [orders, activePortfolio]);
+
+  // Bracket and OCO legs are shown and cancelled together as one group
+  const openGroups = useMemo(() => {
+    if (!activePortfolio) return [];
+    return getOrderGroups(orders.filter(o => o.portfolioId === activePortfolio.id))
+      .filter(group => group.status === 'pending' || group.status === 'active')
+      .reverse();
+  }, [orders, activePortfolio]);
+
+  // Closed orders, newest first, with the reason they stopped working
+  const orderHistory = useMemo(() => {
+    if (!activePortfolio) return [];
+    return orders
+      .filter(o => o.portfolioId === activePortfolio.id && o.status !== 'pending')
+      .sort((a, b) => (b.filledAt ?? b.createdAt) - (a.filledAt ?? a.createdAt))
+      .slice(0, HISTORY_LIMIT);
+  }, [orders, activePortfolio]);
+
+  const reservedBalance = activePortfolio ? getReservedBalance(orders, activePortfolio.id) : 0;
+
+  const startEditing = (order: Order) => {
+    setEditingOrderId(order.id);
+    setEditQuantity(order.quantity.toString());
+    setEditPrice(order.price?.toString() || '');
+    setEditError('');
+  };
+
+  const stopEditing = () => {
+    setEditingOrderId(null);
+    setEditError('');
+  };
+
+  const saveEdit = (order: Order) => {
+    if (!activePortfolio) return;
+
+    const quantity = parseFloat(editQuantity) || 0;
+    const price = parseFloat(editPrice) || 0;
+    const asset = marketMeta?.universe.find(a => a.name === order.symbol);
+    const validationError = validateOrderRules(
+      { symbol: order.symbol, type: order.type, quantity, price, reduceOnly: order.reduceOnly },
+      asset
+    ) || validateLimitOrder(
+      activePortfolio,
+      orders,
+      { symbol: order.symbol, side: order.side, quantity, price, reduceOnly: order.reduceOnly, margin: order.margin },
+      order.id
+    );
+
+    if (validationError) {
+      setEditError(validationError);
+      return;
+    }
+
+    updateOrder(order.id, { quantity, price });
+    stopEditing();
+  };
+
+  const confirmCancelOrder = () => {
+    if (orderToCancel) {
+      cancelOrder(orderToCancel.id);
+      setOrderToCancel(null);
+    }
+  };
+
+  const confirmCancelGroup = () => {
+    if (groupToCancel) {
+      cancelOrderGroup(groupToCancel.id);
+      setGroupToCancel(null);
+    }
+  };
+
+  const getGroupSymbol = (group: OrderGroup) =>
+    (group.entry ?? group.takeProfit ?? group.stopLoss)?.symbol ?? '';
+
+  const renderGroupLeg = (label: string, order: Order | undefined) => {
+    if (!order) return null;
+    const legStatus = order.status !== 'pending'
+      ? order.status
+      : isOrderWorking(order, orders) ? 'working' : 'waiting';
+
+    return (
+      <div className="grid grid-cols-4 gap-2 text-xs">
+        <div className="text-text-secondary">{label}</div>
+        <div className={`font-semibold ${order.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+          {order.side.toUpperCase()} {order.quantity}
+        </div>
+        <div className="font-mono text-text-primary">
+          {order.type === 'stop' ? 'Stop ' : ''}
+          {formatCurrency(order.price ?? 0, 'USD', (order.price ?? 0) > 1 ? 2 : 6)}
+        </div>
+        <div className="text-right text-text-secondary capitalize">{legStatus}</div>
+      </div>
+    );
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (!activePortfolio) return null;
+
+  return (
+    <div className="bg-surface border border-border-primary rounded-lg">
+      {/* Header */}
+      <div className="p-4 border-b border-border-primary flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-primary-500" />
+          Open Orders
+        </h3>
+        <div className="flex items-center gap-3">
+          <div className="text-xs text-text-secondary">
+            {openOrders.length + openGroups.length} open • {formatCurrency(reservedBalance)} reserved
+          </div>
+          <div className="flex text-xs">
+            {(['open', 'history'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-2 py-1 border border-border-primary first:rounded-l last:rounded-r capitalize transition-colors ${view === option
+                  ? 'bg-primary-600 text-white'
+                  : 'text-text-secondary hover:text-text-primary'
+                  }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {view === 'history' ? (
+        orderHistory.length === 0 ? (
+          <div className="p-6 text-center text-sm text-text-secondary">
+            No closed orders yet
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-border-primary">
+            {orderHistory.map((order) => (
+              <div key={order.id} className="p-3 text-xs">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${order.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                      {order.side.toUpperCase()}
+                    </span>
+                    <span className="font-semibold text-text-primary">{order.symbol}</span>
+                    <span className="text-text-secondary">{order.type.toUpperCase()}</span>
+                    {order.timeInForce && (
+                      <span className="text-text-secondary">{TIME_IN_FORCE_LABELS[order.timeInForce]}</span>
+                    )}
+                  </div>
+                  <span className={`font-semibold px-1.5 py-0.5 rounded capitalize ${STATUS_STYLES[order.status]}`}>
+                    {order.status}
+                  </span>
+                </div>
+                <div className="mt-1 flex items-center justify-between text-text-secondary">
+                  <span className="font-mono">
+                    {order.filledQuantity !== undefined ? `${order.filledQuantity}/` : ''}{order.quantity} @ {formatCurrency(order.filledPrice ?? order.price ?? 0)}
+                  </span>
+                  <span>{formatDate(order.filledAt ?? order.createdAt)}</span>
+                </div>
+                {order.statusReason && (
+                  <div className="mt-1 text-text-secondary">{order.statusReason}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      ) : openOrders.length === 0 && openGroups.length === 0 ? (
+        <div className="p-6 text-center text-sm text-text-secondary">
+          No resting limit orders
+        </div>
+      ) : (
+        <div className="max-h-96 overflow-y-auto divide-y divide-border-primary">
+          {openGroups.map((group) => (
+            <div key={group.id} className="p-4 text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-text-primary">{getGroupSymbol(group)}</span>
+                  <span className="text-xs text-text-secondary">{group.entry ? 'BRACKET' : 'OCO'}</span>
+                  <span className={`text-xs font-semibold px-1.5 py-0.5 rounded ${group.status === 'active'
+                    ? 'bg-green-900/40 text-green-300'
+                    : 'bg-amber-900/40 text-amber-300'
+                    }`}>
+                    {GROUP_STATUS_LABELS[group.status]}
+                  </span>
+                </div>
+                <button
+                  onClick={() => setGroupToCancel(group)}
+                  className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+
+              <div className="space-y-1">
+                {renderGroupLeg('Entry', group.entry)}
+                {renderGroupLeg('Take-profit', group.takeProfit)}
+                {renderGroupLeg('Stop-loss', group.stopLoss)}
+              </div>
+
+              <div className="mt-2 text-xs text-text-secondary">
+                Placed {formatDate((group.entry ?? group.takeProfit ?? group.stopLoss)?.createdAt ?? 0)}
+              </div>
+            </div>
+          ))}
+
+          {openOrders.map((order) => {
+            const isEditing = editingOrderId === order.id;
+
+            return (
+              <div key={order.id} className="p-4 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${order.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                      {order.side.toUpperCase()}
+                    </span>
+                    <span className="font-semibold text-text-primary">{order.symbol}</span>
+                    <span className="text-xs text-text-secondary">{order.type.toUpperCase()}</span>
+                    {order.timeInForce && order.timeInForce !== 'gtc' && (
+                      <span className="text-xs text-text-secondary">
+                        {TIME_IN_FORCE_LABELS[order.timeInForce]}
+                        {order.expiresAt !== undefined && ` until ${formatDate(order.expiresAt)}`}
+                      </span>
+                    )}
+                    {order.margin && order.margin.leverage > 1 && (
+                      <span className="text-xs text-text-secondary">{order.margin.leverage}x</span>
+                    )}
+                    {order.reduceOnly && (
+                      <span className="text-xs text-text-secondary">REDUCE</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {isEditing ? (
+                      <>
+                        <button
+                          onClick={() => saveEdit(order)}
+                          className="p-1 text-green-400 hover:text-green-300 transition-colors"
+                          title="Save changes"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={stopEditing}
+                          className="p-1 text-text-secondary hover:text-text-primary transition-colors"
+                          title="Discard changes"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => startEditing(order)}
+                          className="p-1 text-text-secondary hover:text-text-primary transition-colors"
+                          title="Modify order"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setOrderToCancel(order)}
+                          className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {isEditing ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      value={editQuantity}
+                      onChange={(e) => setEditQuantity(e.target.value)}
+                      min="0"
+                      step="0.01"
+                      placeholder="Quantity"
+                      className="bg-background border border-border-primary rounded px-2 py-1 text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="number"
+                      value={editPrice}
+                      onChange={(e) => setEditPrice(e.target.value)}
+                      min="0"
+                      step="any"
+                      placeholder="Limit price"
+                      className="bg-background border border-border-primary rounded px-2 py-1 text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    {editError && (
+                      <div className="col-span-2 text-xs text-red-400">{editError}</div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <div>
+                      <div className="text-text-secondary">Quantity</div>
+                      <div className="font-mono text-text-primary">{order.quantity}</div>
+                    </div>
+                    <div>
+                      <div className="text-text-secondary">Limit</div>
+                      <div className="font-mono text-text-primary">
+                        {formatCurrency(order.price ?? 0, 'USD', (order.price ?? 0) > 1 ? 2 : 6)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-text-secondary">Market</div>
+                      <PriceDisplay
+                        symbol={order.symbol}
+                        fallbackPrice={order.price}
+                        decimals={(order.price ?? 0) > 1 ? 2 : 6}
+                        className="font-mono text-text-primary"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="mt-2 text-xs text-text-secondary">
+                  Placed {formatDate(order.createdAt)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Cancel Order Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={!!orderToCancel}
+        onClose={() => setOrderToCancel(null)}
+        onConfirm={confirmCancelOrder}
+        title="Cancel Order"
+        message={orderToCancel ? `Cancel ${orderToCancel.side} limit order for ${orderToCancel.quantity} ${orderToCancel.symbol}?` : ''}
+        confirmText="Cancel Order"
+        cancelText="Keep Order"
+        type="warning"
+        details={orderToCancel ? [
+          `Limit Price: ${formatCurrency(orderToCancel.price ?? 0)}`,
+          `Order Value: ${formatCurrency(orderToCancel.quantity * (orderToCancel.price ?? 0))}`,
+        ] : []}
+      />
+
+      {/* Cancel Group Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={!!groupToCancel}
+        onClose={() => setGroupToCancel(null)}
+        onConfirm={confirmCancelGroup}
+        title="Cancel Order Group"
+        message={groupToCancel ? `Cancel all open legs of this ${getGroupSymbol(groupToCancel)} ${groupToCancel.entry ? 'bracket' : 'OCO'} order?` : ''}
+        confirmText="Cancel Group"
+        cancelText="Keep Group"
+        type="warning"
+        details={groupToCancel ? [
+          groupToCancel.takeProfit ? `Take-profit: ${formatCurrency(groupToCancel.takeProfit.price ?? 0)}` : '',
+          groupToCancel.stopLoss ? `Stop-loss: ${formatCurrency(groupToCancel.stopLoss.price ?? 0)}` : '',
+        ].filter(Boolean) : []}
+      />
+    </div>
+  );
+});
+
+OpenOrders.displayName = 'OpenOrders';
@@ -1,14 +1,25 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Wallet, DollarSign, Target } from 'lucide-react';
+import { X, Wallet, DollarSign, Target, Receipt, ArrowDownLeft, ArrowUpRight, History } from 'lucide-react';
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { usePrices } from '@/hooks/usePriceContext';
 import { formatCurrency } from '@/utils/calculations';
+import { getMarginSummary } from '@/utils/margin';
+import { getPortfolioFeeTier } from '@/utils/fees';
+import { getNetContributions, validateCashFlow } from '@/utils/cashLedger';
+import { COST_BASIS_METHOD_LABELS } from '@/utils/taxLots';
+import { DEFAULT_COST_BASIS_METHOD, FEE_SCHEDULES, INITIAL_PORTFOLIO_BALANCE } from '@/types/trading';
+import type { CostBasisMethod } from '@/types/trading';
+import type { CashFlow } from '@/state/portfolioStore';
+import type { Portfolio } from '@/state/portfolioStore';
 import { LivePortfolioValue } from '@/components/LivePortfolioValue';
 import { LivePortfolioPnL } from '@/components/LivePortfolioPnL';
 import { Button } from '@/components/ui/Button';
+import { Dropdown } from '@/components/ui/Dropdown';
 import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
 
+const RECENT_CASH_FLOW_LIMIT = 5;
+
 interface PortfolioModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -17,36 +28,98 @@ interface PortfolioModalProps {
 export const PortfolioModal: React.FC<PortfolioModalProps> = ({ isOpen, onClose }) => {
     const [showCreatePortfolio, setShowCreatePortfolio] = useState(false);
     const [newPortfolioName, setNewPortfolioName] = useState('');
+    const [initialCapital, setInitialCapital] = useState(String(INITIAL_PORTFOLIO_BALANCE));
+    const [cashAmount, setCashAmount] = useState('');
+    const [cashError, setCashError] = useState<string | null>(null);
+    const [ledgerStatus, setLedgerStatus] = useState<string | null>(null);
+    const [isRebuilding, setIsRebuilding] = useState(false);
 
     const {
         getActivePortfolio,
         portfolios,
         activePortfolioId,
         setActivePortfolio,
-        createPortfolio
+        createPortfolio,
+        setFeeSchedule,
+        setCostBasisMethod,
+        depositCash,
+        withdrawCash,
+        rebuildPortfolio
     } = usePortfolioStore();
 
     const { getPrice } = usePrices();
     const activePortfolio = getActivePortfolio();
+    const activeFeeTier = activePortfolio ? getPortfolioFeeTier(activePortfolio) : null;
+
+    const startingCapital = parseFloat(initialCapital);
+    const isStartingCapitalValid = Number.isFinite(startingCapital) && startingCapital > 0;
 
     const handleCreatePortfolio = () => {
-        if (newPortfolioName.trim()) {
-            const newId = createPortfolio(newPortfolioName.trim());
+        if (newPortfolioName.trim() && isStartingCapitalValid) {
+            const newId = createPortfolio(newPortfolioName.trim(), startingCapital);
             setActivePortfolio(newId);
             setNewPortfolioName('');
+            setInitialCapital(String(INITIAL_PORTFOLIO_BALANCE));
             setShowCreatePortfolio(false);
         }
     };
 
+    const handleCashFlow = (type: CashFlow['type']) => {
+        if (!activePortfolio) return;
+
+        const amount = parseFloat(cashAmount);
+        const error = validateCashFlow(type, amount, activePortfolio.balance);
+        if (error) {
+            setCashError(error);
+            return;
+        }
+
+        const success = type === 'deposit'
+            ? depositCash(activePortfolio.id, amount)
+            : withdrawCash(activePortfolio.id, amount);
+
+        if (success) {
+            setCashAmount('');
+            setCashError(null);
+        } else {
+            setCashError(`Could not complete ${type}`);
+        }
+    };
+
+    const handleRebuild = async () => {
+        if (!activePortfolio) return;
+
+        setIsRebuilding(true);
+        try {
+            const rebuilt = await rebuildPortfolio(activePortfolio.id);
+            setLedgerStatus(rebuilt ? 'Rebuilt from the ledger' : 'No ledger events recorded for this portfolio');
+        } catch (error) {
+            console.error('Failed to rebuild portfolio:', error);
+            setLedgerStatus('Could not read the ledger');
+        } finally {
+            setIsRebuilding(false);
+        }
+    };
+
+    const recentCashFlows = activePortfolio
+        ? [...(activePortfolio.cashFlows ?? [])].reverse().slice(0, RECENT_CASH_FLOW_LIMIT)
+        : [];
+
+
+    const getLiveMarginSummary = (portfolio: Portfolio) => {
+        const currentPrices: Record<string, number> = {};
+        portfolio.positions.forEach(pos => {
+            currentPrices[pos.symbol] = getPrice(pos.symbol) || pos.entryPrice;
+        });
+        return getMarginSummary(portfolio, currentPrices);
+    };
 
     // Calculate portfolio metrics
-    const portfolioMetrics = activePortfolio ? {
-        totalValue: activePortfolio.balance + activePortfolio.positions.reduce((sum, pos) => {
-            const currentPrice = getPrice(pos.symbol) || pos.entryPrice;
-            return sum + (pos.quantity * currentPrice);
-        }, 0),
-        totalInvested: activePortfolio.positions.reduce((sum, pos) => sum + (pos.quantity * pos.entryPrice), 0),
-        availableCash: activePortfolio.balance,
+    const activeMarginSummary = activePortfolio ? getLiveMarginSummary(activePortfolio) : null;
+    const portfolioMetrics = activePortfolio && activeMarginSummary ? {
+        totalValue: activeMarginSummary.equity,
+        marginUsed: activeMarginSummary.marginUsed,
+        availableCash: activeMarginSummary.freeCollateral,
         positionsCount: activePortfolio.positions.length,
         transactionsCount: activePortfolio.transactions?.length || 0
     } : null;
@@ -150,10 +223,146 @@ export const PortfolioModal: React.FC<PortfolioModalProps> = ({ isOpen, onClose
                                             <div className="text-lg font-bold text-text-primary">
                                                 {formatCurrency(portfolioMetrics.availableCash)}
                                             </div>
+                                            {portfolioMetrics.marginUsed > 0 && (
+                                                <div className="text-xs text-text-secondary">
+                                                    {formatCurrency(portfolioMetrics.marginUsed)} margin used
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 )}
 
+                                {/* Fee Schedule */}
+                                {activePortfolio && activeFeeTier && (
+                                    <div className="mb-4 sm:mb-6">
+                                        <div className="text-sm text-text-secondary mb-2 flex items-center gap-1">
+                                            <Receipt className="w-4 h-4" />
+                                            Fee Schedule
+                                        </div>
+                                        <Dropdown
+                                            options={FEE_SCHEDULES.map(schedule => ({ value: schedule.id, label: schedule.name }))}
+                                            value={activePortfolio.feeSchedule.id}
+                                            onChange={(value) => {
+                                                const schedule = FEE_SCHEDULES.find(s => s.id === value);
+                                                if (schedule) setFeeSchedule(activePortfolio.id, schedule);
+                                            }}
+                                            size="sm"
+                                        />
+                                        <div className="mt-1 text-xs text-text-secondary">
+                                            Current tier: {(activeFeeTier.makerRate * 100).toFixed(3)}% maker / {(activeFeeTier.takerRate * 100).toFixed(3)}% taker
+                                            {' '}on {activePortfolio.feeSchedule.volumeWindowDays}-day volume
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Cost Basis */}
+                                {activePortfolio && (
+                                    <div className="mb-4 sm:mb-6">
+                                        <div className="text-sm text-text-secondary mb-2 flex items-center gap-1">
+                                            <Target className="w-4 h-4" />
+                                            Cost Basis Method
+                                        </div>
+                                        <Dropdown
+                                            options={(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map(method => ({
+                                                value: method,
+                                                label: COST_BASIS_METHOD_LABELS[method],
+                                            }))}
+                                            value={activePortfolio.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD}
+                                            onChange={(value) => setCostBasisMethod(activePortfolio.id, value as CostBasisMethod)}
+                                            size="sm"
+                                        />
+                                        <div className="mt-1 text-xs text-text-secondary">
+                                            Decides which lots a closing fill consumes and so its realized P&L
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Cash */}
+                                {activePortfolio && (
+                                    <div className="mb-4 sm:mb-6">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <div className="text-sm text-text-secondary flex items-center gap-1">
+                                                <Wallet className="w-4 h-4" />
+                                                Cash
+                                            </div>
+                                            <div className="text-xs text-text-secondary">
+                                                Net contributions: {formatCurrency(getNetContributions(activePortfolio))}
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={cashAmount}
+                                                onChange={(e) => {
+                                                    setCashAmount(e.target.value);
+                                                    setCashError(null);
+                                                }}
+                                                placeholder="Amount"
+                                                className="flex-1 bg-background border border-border-primary rounded-lg px-3 py-2 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                            />
+                                            <Button
+                                                size="sm"
+                                                onClick={() => handleCashFlow('deposit')}
+                                                className="flex items-center gap-1 whitespace-nowrap"
+                                            >
+                                                <ArrowDownLeft className="w-4 h-4" />
+                                                Deposit
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="secondary"
+                                                onClick={() => handleCashFlow('withdrawal')}
+                                                className="flex items-center gap-1 whitespace-nowrap"
+                                            >
+                                                <ArrowUpRight className="w-4 h-4" />
+                                                Withdraw
+                                            </Button>
+                                        </div>
+                                        {cashError && (
+                                            <div className="mt-1 text-xs text-red-400">{cashError}</div>
+                                        )}
+                                        {recentCashFlows.length > 0 && (
+                                            <div className="mt-3 space-y-1">
+                                                {recentCashFlows.map((flow) => (
+                                                    <div key={flow.id} className="flex items-center justify-between text-xs">
+                                                        <span className="text-text-secondary">
+                                                            {new Date(flow.timestamp).toLocaleString()}
+                                                            {flow.note && ` • ${flow.note}`}
+                                                        </span>
+                                                        <span className="flex items-center gap-3 font-mono">
+                                                            <span className={flow.type === 'deposit' ? 'text-green-400' : 'text-red-400'}>
+                                                                {flow.type === 'deposit' ? '+' : '-'}{formatCurrency(flow.amount)}
+                                                            </span>
+                                                            <span className="text-text-secondary">{formatCurrency(flow.balanceAfter)}</span>
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* Ledger */}
+                                {activePortfolio && (
+                                    <div className="mb-4 sm:mb-6 flex items-center justify-between gap-3">
+                                        <div className="text-xs text-text-secondary">
+                                            Balances, positions and history are replayed from an append-only trade ledger.
+                                            {ledgerStatus && <div className="mt-1 text-text-primary">{ledgerStatus}</div>}
+                                        </div>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={handleRebuild}
+                                            disabled={isRebuilding}
+                                            className="flex items-center gap-1 whitespace-nowrap"
+                                        >
+                                            <History className="w-4 h-4" />
+                                            {isRebuilding ? 'Rebuilding...' : 'Rebuild from ledger'}
+                                        </Button>
+                                    </div>
+                                )}
+
                                 {/* Portfolio List */}
                                 {portfolios.length > 0 && (
                                     <div>
@@ -170,10 +379,7 @@ export const PortfolioModal: React.FC<PortfolioModalProps> = ({ isOpen, onClose
                                         <div className="space-y-3 max-h-60 overflow-y-auto">
                                             {portfolios.map((portfolio) => {
                                                 const isActive = portfolio.id === activePortfolioId;
-                                                const portfolioValue = portfolio.balance + portfolio.positions.reduce((sum, pos) => {
-                                                    const currentPrice = getPrice(pos.symbol) || pos.entryPrice;
-                                                    return sum + (pos.quantity * currentPrice);
-                                                }, 0);
+                                                const portfolioValue = getLiveMarginSummary(portfolio).equity;
 
                                                 return (
                                                     <div
@@ -218,10 +424,11 @@ export const PortfolioModal: React.FC<PortfolioModalProps> = ({ isOpen, onClose
                 onClose={() => {
                     setShowCreatePortfolio(false);
                     setNewPortfolioName('');
+                    setInitialCapital(String(INITIAL_PORTFOLIO_BALANCE));
                 }}
                 onConfirm={handleCreatePortfolio}
                 title="Create New Portfolio"
-                message="Enter a name for your new trading portfolio"
+                message="Name your new trading portfolio and choose its starting capital"
                 confirmText="Create Portfolio"
                 type="info"
             >
@@ -235,6 +442,18 @@ export const PortfolioModal: React.FC<PortfolioModalProps> = ({ isOpen, onClose
                         onKeyPress={(e) => e.key === 'Enter' && handleCreatePortfolio()}
                         autoFocus
                     />
+                    <label className="block text-sm text-text-secondary mt-4 mb-1">Initial capital (USD)</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={initialCapital}
+                        onChange={(e) => setInitialCapital(e.target.value)}
+                        className="w-full bg-background border border-border-primary rounded-lg px-4 py-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        onKeyPress={(e) => e.key === 'Enter' && handleCreatePortfolio()}
+                    />
+                    {!isStartingCapitalValid && (
+                        <div className="mt-1 text-xs text-red-400">Initial capital must be greater than zero</div>
+                    )}
                 </div>
             </ConfirmationModal>
         </>
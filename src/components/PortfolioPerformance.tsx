@@ -128,6 +128,18 @@ export const PortfolioPerformance: React.FC = () => {
                             {formatCurrency(performance.totalInvested)}
                         </span>
                     </div>
+                    <div className="flex justify-between text-sm mt-2">
+                        <span className="text-text-secondary">Net Contributions</span>
+                        <span className="text-text-primary font-medium">
+                            {formatCurrency(performance.netContributions)}
+                        </span>
+                    </div>
+                    <div className="flex justify-between text-sm mt-2">
+                        <span className="text-text-secondary">Total Return</span>
+                        <span className={`font-medium ${performance.totalReturn >= 0 ? 'text-profit' : 'text-loss'}`}>
+                            {formatCurrency(performance.totalReturn)} ({formatPercentage(performance.totalReturnPercentage)})
+                        </span>
+                    </div>
                 </div>
             </CardContent>
         </Card>
@@ -2,11 +2,17 @@ import React, { useState } from 'react';
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { Dropdown } from '@/components/ui/Dropdown';
 import { formatCurrency } from '@/utils/calculations';
+import { validateTransfer } from '@/utils/cashLedger';
 import { LivePortfolioValue } from '@/components/LivePortfolioValue';
 
 export const PortfolioSelector = React.memo(() => {
     const [showCreateForm, setShowCreateForm] = useState(false);
     const [newPortfolioName, setNewPortfolioName] = useState('');
+    const [showTransferForm, setShowTransferForm] = useState(false);
+    const [transferTargetId, setTransferTargetId] = useState('');
+    const [transferAsset, setTransferAsset] = useState('cash'); // 'cash' or a position id
+    const [transferAmount, setTransferAmount] = useState('');
+    const [transferError, setTransferError] = useState<string | null>(null);
 
     const {
         portfolios,
@@ -14,11 +20,12 @@ export const PortfolioSelector = React.memo(() => {
         createPortfolio,
         setActivePortfolio,
         getActivePortfolio,
+        transferCash,
+        transferPosition,
     } = usePortfolioStore();
 
     const activePortfolio = getActivePortfolio();
-
-
+    const transferTargets = portfolios.filter(p => p.id !== activePortfolioId);
 
     const handleCreatePortfolio = () => {
         if (newPortfolioName.trim()) {
@@ -28,6 +35,40 @@ export const PortfolioSelector = React.memo(() => {
         }
     };
 
+    const resetTransferForm = () => {
+        setShowTransferForm(false);
+        setTransferTargetId('');
+        setTransferAsset('cash');
+        setTransferAmount('');
+        setTransferError(null);
+    };
+
+    const handleTransfer = () => {
+        if (!activePortfolio) return;
+
+        const target = portfolios.find(p => p.id === transferTargetId);
+        const position = activePortfolio.positions.find(p => p.id === transferAsset);
+        const amount = parseFloat(transferAmount);
+        const validationError = validateTransfer(
+            activePortfolio,
+            target,
+            position ? { kind: 'position', symbol: position.symbol } : { kind: 'cash', amount }
+        );
+        if (validationError) {
+            setTransferError(validationError);
+            return;
+        }
+
+        const success = position
+            ? transferPosition(activePortfolio.id, transferTargetId, position.id)
+            : transferCash(activePortfolio.id, transferTargetId, amount);
+        if (!success) {
+            setTransferError('Transfer failed');
+            return;
+        }
+        resetTransferForm();
+    };
+
     // Create default portfolio if none exists
     React.useEffect(() => {
         if (portfolios.length === 0) {
@@ -39,12 +80,22 @@ export const PortfolioSelector = React.memo(() => {
         <div className="bg-surface border border-border-primary rounded-lg p-4">
             <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold text-text-primary">Portfolio</h3>
-                <button
-                    onClick={() => setShowCreateForm(!showCreateForm)}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
-                >
-                    + New
-                </button>
+                <div className="flex gap-2">
+                    {transferTargets.length > 0 && (
+                        <button
+                            onClick={() => (showTransferForm ? resetTransferForm() : setShowTransferForm(true))}
+                            className="bg-surface-hover hover:bg-surface text-text-primary border border-border-primary px-3 py-1 rounded text-sm transition-colors"
+                        >
+                            ⇄ Transfer
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setShowCreateForm(!showCreateForm)}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
+                    >
+                        + New
+                    </button>
+                </div>
             </div>
 
             {/* Portfolio Selector */}
@@ -91,6 +142,70 @@ export const PortfolioSelector = React.memo(() => {
                 </div>
             )}
 
+            {/* Transfer Form */}
+            {showTransferForm && activePortfolio && (
+                <div className="mb-4 p-3 bg-surface-hover rounded border border-border-primary space-y-2">
+                    <div className="text-xs text-text-secondary">
+                        Move cash, or a whole position at its cost basis, out of {activePortfolio.name}
+                    </div>
+                    <Dropdown
+                        options={transferTargets.map(p => ({ value: p.id, label: p.name }))}
+                        value={transferTargetId}
+                        placeholder="To portfolio"
+                        onChange={(value) => {
+                            setTransferTargetId(value);
+                            setTransferError(null);
+                        }}
+                        size="sm"
+                    />
+                    <Dropdown
+                        options={[
+                            { value: 'cash', label: `Cash (${formatCurrency(activePortfolio.balance)} free)` },
+                            ...activePortfolio.positions.map(p => ({
+                                value: p.id,
+                                label: `${p.symbol} ${p.type} ${p.quantity} @ ${formatCurrency(p.entryPrice)}`,
+                            })),
+                        ]}
+                        value={transferAsset}
+                        onChange={(value) => {
+                            setTransferAsset(value);
+                            setTransferError(null);
+                        }}
+                        size="sm"
+                    />
+                    {transferAsset === 'cash' && (
+                        <input
+                            type="number"
+                            min="0"
+                            value={transferAmount}
+                            onChange={(e) => {
+                                setTransferAmount(e.target.value);
+                                setTransferError(null);
+                            }}
+                            placeholder="Amount"
+                            className="w-full bg-background border border-border-primary rounded px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                    )}
+                    {transferError && (
+                        <div className="text-xs text-red-400">{transferError}</div>
+                    )}
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleTransfer}
+                            className="flex-1 bg-profit hover:bg-profit/80 text-white py-1 rounded text-sm transition-colors"
+                        >
+                            Transfer
+                        </button>
+                        <button
+                            onClick={resetTransferForm}
+                            className="flex-1 bg-surface hover:bg-surface-hover text-text-primary py-1 rounded text-sm transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Portfolio Stats */}
             {activePortfolio && (
                 <div className="space-y-3">
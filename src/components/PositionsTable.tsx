@@ -1,12 +1,24 @@
 import React, { useState, useMemo, useRef, useEffect, useContext, useCallback } from 'react';
-import { ChevronUp, ChevronDown, TrendingUp, Hash, DollarSign, Target, Clock, X } from 'lucide-react';
-import { usePortfolioStore, Position } from '@/state/portfolioStore';
+import { ChevronUp, ChevronDown, ChevronRight, TrendingUp, Hash, DollarSign, Target, Clock, X, Shield, Check, AlertTriangle, Gauge, Percent } from 'lucide-react';
+import { usePortfolioStore, Position, TrailingStop } from '@/state/portfolioStore';
 import { usePrices } from '@/hooks/usePriceContext';
+import { useFundingRates } from '@/hooks/useMarketMeta';
 import { PriceContext } from '@/context/PriceContext';
 import { PriceDisplay } from '@/components/PriceDisplay';
 import { LivePriceValue } from '@/components/LivePriceValue';
 import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
+import { getTrailingStopLevel, validatePositionExits, validateTrailingStop } from '@/utils/orderMatching';
+import { COST_BASIS_METHOD_LABELS, formatHoldingPeriod, getPositionLots } from '@/utils/taxLots';
+import {
+  getLiquidationPrice,
+  getMarginRatio,
+  getPositionNotional,
+  getPositionPnL,
+  LIQUIDATION_DANGER_RATIO,
+  LIQUIDATION_WARNING_RATIO,
+} from '@/utils/margin';
+import { getCurrentTime } from '@/utils/clock';
 
 interface PositionWithMetrics extends Position {
   currentPrice: number;
@@ -20,9 +32,17 @@ export const PositionsTable = React.memo(() => {
   const [sortField, setSortField] = useState<keyof PositionWithMetrics>('symbol');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [positionToClose, setPositionToClose] = useState<PositionWithMetrics | null>(null);
-
-  const { getActivePortfolio, closePosition } = usePortfolioStore();
+  const [editingExitsId, setEditingExitsId] = useState<string | null>(null);
+  const [stopLossInput, setStopLossInput] = useState('');
+  const [takeProfitInput, setTakeProfitInput] = useState('');
+  const [trailingModeInput, setTrailingModeInput] = useState<TrailingStop['mode']>('percent');
+  const [trailingDistanceInput, setTrailingDistanceInput] = useState('');
+  const [exitsError, setExitsError] = useState('');
+  const [expandedLotsId, setExpandedLotsId] = useState<string | null>(null);
+
+  const { getActivePortfolio, closePosition, setPositionExits, setTrailingStop } = usePortfolioStore();
   const { getPrice, subscribe } = usePrices();
+  const { data: fundingRates } = useFundingRates();
 
   const activePortfolio = getActivePortfolio();
   const [, forceUpdate] = useState({});
@@ -45,13 +65,13 @@ export const PositionsTable = React.memo(() => {
 
     return activePortfolio.positions.map(position => {
       const currentPrice = getPrice(position.symbol) || position.entryPrice;
-      const marketValue = position.quantity * currentPrice;
+      const marketValue = getPositionNotional(position, currentPrice);
       const costBasis = position.quantity * position.entryPrice;
-      const unrealizedPnL = marketValue - costBasis;
+      const unrealizedPnL = getPositionPnL(position, currentPrice);
       const unrealizedPnLPercent = (unrealizedPnL / costBasis) * 100;
 
       // Calculate duration
-      const durationMs = Date.now() - position.entryTime;
+      const durationMs = getCurrentTime() - position.entryTime;
       const days = Math.floor(durationMs / (1000 * 60 * 60 * 24));
       const hours = Math.floor((durationMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
       const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
@@ -129,11 +149,68 @@ export const PositionsTable = React.memo(() => {
     }
   };
 
+  const startEditingExits = (position: PositionWithMetrics) => {
+    setEditingExitsId(position.id);
+    setStopLossInput(position.stopLoss?.toString() || '');
+    setTakeProfitInput(position.takeProfit?.toString() || '');
+    setTrailingModeInput(position.trailingStop?.mode ?? 'percent');
+    setTrailingDistanceInput(position.trailingStop?.distance.toString() || '');
+    setExitsError('');
+  };
+
+  const saveExits = (position: PositionWithMetrics) => {
+    const exits = {
+      stopLoss: parseFloat(stopLossInput) || undefined,
+      takeProfit: parseFloat(takeProfitInput) || undefined,
+    };
+
+    const trailingDistance = parseFloat(trailingDistanceInput) || undefined;
+
+    // Levels are checked against the live price since the position is already open
+    const validationError = validatePositionExits(position.type, position.currentPrice, exits) ||
+      (trailingDistance !== undefined
+        ? validateTrailingStop(trailingModeInput, trailingDistance, position.currentPrice)
+        : null);
+    if (validationError) {
+      setExitsError(validationError);
+      return;
+    }
+
+    setPositionExits(position.id, exits);
+
+    // Keep the existing high-water mark unless the trail itself changed
+    const current = position.trailingStop;
+    if (trailingDistance === undefined) {
+      setTrailingStop(position.id, undefined);
+    } else if (current?.mode !== trailingModeInput || current.distance !== trailingDistance) {
+      setTrailingStop(position.id, {
+        mode: trailingModeInput,
+        distance: trailingDistance,
+        highWaterMark: position.currentPrice,
+      });
+    }
+    setEditingExitsId(null);
+  };
+
   // Calculate totals
   const totalMarketValue = sortedPositions.reduce((sum, pos) => sum + pos.marketValue, 0);
   const totalUnrealizedPnL = sortedPositions.reduce((sum, pos) => sum + pos.unrealizedPnL, 0);
   const totalCostBasis = sortedPositions.reduce((sum, pos) => sum + (pos.quantity * pos.entryPrice), 0);
-  const totalPnLPercent = totalCostBasis > 0 ? (totalUnrealizedPnL / totalCostBasis) * 100 : 0;
+  const totalFunding = sortedPositions.reduce((sum, pos) => sum + pos.cumulativeFunding, 0);
+  const totalPnLPercent = totalCostBasis > 0 ? ((totalUnrealizedPnL + totalFunding) / totalCostBasis) * 100 : 0;
+
+  // Liquidation levels move with every tick, so they're computed per render from live prices
+  const livePrices: Record<string, number> = {};
+  activePortfolio?.positions.forEach(position => {
+    livePrices[position.symbol] = getPrice(position.symbol) || position.entryPrice;
+  });
+  const getLiquidationMetrics = (position: Position) => ({
+    liquidationPrice: getLiquidationPrice(activePortfolio!, position, livePrices),
+    marginRatio: getMarginRatio(activePortfolio!, position, livePrices),
+  });
+  const positionsAtRisk = sortedPositions.filter(position =>
+    getLiquidationMetrics(position).marginRatio >= LIQUIDATION_WARNING_RATIO
+  ).length;
 
   if (!activePortfolio) {
     return (
@@ -170,8 +247,15 @@ export const PositionsTable = React.memo(() => {
           </div>
         </div>
 
+        {positionsAtRisk > 0 && (
+          <div className="mb-4 p-3 bg-red-900/40 border border-red-600 rounded-md text-sm text-red-200 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {positionsAtRisk === 1 ? '1 position is' : `${positionsAtRisk} positions are`} approaching liquidation
+          </div>
+        )}
+
         {/* Summary Stats */}
-        <div className="grid grid-cols-3 gap-4 text-sm">
+        <div className="grid grid-cols-4 gap-4 text-sm">
           <div className="bg-surface-hover rounded p-3 text-center">
             <div className="text-text-secondary mb-1 flex items-center justify-center gap-1">
               <Target className="w-3 h-3" />Market Value
@@ -186,6 +270,14 @@ export const PositionsTable = React.memo(() => {
               {formatCurrency(totalUnrealizedPnL)}
             </div>
           </div>
+          <div className="bg-surface-hover rounded p-3 text-center">
+            <div className="text-text-secondary mb-1 flex items-center justify-center gap-1">
+              <Percent className="w-3 h-3" />Funding
+            </div>
+            <div className={`font-semibold ${totalFunding >= 0 ? 'text-profit' : 'text-loss'}`}>
+              {formatCurrency(totalFunding)}
+            </div>
+          </div>
           <div className="bg-surface-hover rounded p-3 text-center">
             <div className="text-text-secondary mb-1 flex items-center justify-center gap-1">
               <TrendingUp className="w-3 h-3" />Total Return
@@ -200,7 +292,7 @@ export const PositionsTable = React.memo(() => {
       {/* Table */}
       <div className="overflow-x-auto">
         {/* Table Header */}
-        <div className="grid grid-cols-8 gap-2 p-4 bg-surface-hover border-b border-border-primary text-sm font-medium text-text-secondary min-w-[800px]">
+        <div className="grid grid-cols-11 gap-2 p-4 bg-surface-hover border-b border-border-primary text-sm font-medium text-text-secondary min-w-[1100px]">
           <button
             onClick={() => handleSort('symbol')}
             className="text-left hover:text-text-primary transition-colors flex items-center gap-1"
@@ -243,6 +335,15 @@ export const PositionsTable = React.memo(() => {
           >
             <Clock className="w-4 h-4 inline mr-1" />Duration {getSortIcon('duration')}
           </button>
+          <div className="text-right flex items-center justify-end gap-1">
+            <AlertTriangle className="w-4 h-4 inline mr-1" />Liq. Price
+          </div>
+          <div className="text-right flex items-center justify-end gap-1">
+            <Gauge className="w-4 h-4 inline mr-1" />Margin Ratio
+          </div>
+          <div className="text-right flex items-center justify-end gap-1">
+            <Shield className="w-4 h-4 inline mr-1" />SL / TP / Trail
+          </div>
           <div className="text-center">
             Actions
           </div>
@@ -250,92 +351,253 @@ export const PositionsTable = React.memo(() => {
 
         {/* Table Body */}
         <div className="max-h-96 overflow-y-auto">
-          {sortedPositions.map((position) => (
-            <div
-              key={position.id}
-              className="grid grid-cols-8 gap-2 p-4 border-b border-border-primary hover:bg-surface-hover transition-colors text-sm min-w-[800px]"
-            >
-              {/* Asset */}
-              <div className="flex items-center">
-                <div>
-                  <div className="font-semibold text-text-primary">
-                    {position.symbol}
+          {sortedPositions.map((position) => {
+            const { liquidationPrice, marginRatio } = getLiquidationMetrics(position);
+            const riskClass = marginRatio >= LIQUIDATION_DANGER_RATIO
+              ? 'text-red-400'
+              : marginRatio >= LIQUIDATION_WARNING_RATIO ? 'text-amber-400' : 'text-text-secondary';
+
+            return (
+              <React.Fragment key={position.id}>
+                <div
+                  className={`grid grid-cols-11 gap-2 p-4 border-b border-border-primary hover:bg-surface-hover transition-colors text-sm min-w-[1100px] ${marginRatio >= LIQUIDATION_DANGER_RATIO ? 'bg-red-900/20' : ''}`}
+                >
+                  {/* Asset */}
+                  <div className="flex items-center">
+                    <div>
+                      <div className="font-semibold text-text-primary">
+                        {position.symbol}
+                      </div>
+                      <div className={`text-xs ${position.type === 'long' ? 'text-green-400' : 'text-red-400'}`}>
+                        {position.type.toUpperCase()}
+                        <span className="text-text-secondary">
+                          {' '}{position.leverage.toFixed(position.leverage % 1 ? 1 : 0)}x {position.marginMode}
+                        </span>
+                      </div>
+                    </div>
                   </div>
-                  <div className="text-xs text-text-secondary">
-                    {position.type.toUpperCase()}
+
+                  {/* Quantity */}
+                  <div className="text-right">
+                    <div className="font-mono text-text-primary">
+                      {position.quantity}
+                    </div>
+                    <button
+                      onClick={() => setExpandedLotsId(expandedLotsId === position.id ? null : position.id)}
+                      className="text-xs text-text-secondary hover:text-text-primary inline-flex items-center gap-0.5"
+                      title="Show tax lots"
+                    >
+                      {expandedLotsId === position.id
+                        ? <ChevronDown className="w-3 h-3" />
+                        : <ChevronRight className="w-3 h-3" />}
+                      {getPositionLots(position).length} lots
+                    </button>
                   </div>
-                </div>
-              </div>
 
-              {/* Quantity */}
-              <div className="text-right">
-                <div className="font-mono text-text-primary">
-                  {position.quantity}
-                </div>
-              </div>
+                  {/* Entry Price */}
+                  <div className="text-right">
+                    <div className="font-mono text-text-primary">
+                      {formatCurrency(position.entryPrice, 'USD', position.entryPrice > 1 ? 2 : 6)}
+                    </div>
+                  </div>
 
-              {/* Entry Price */}
-              <div className="text-right">
-                <div className="font-mono text-text-primary">
-                  {formatCurrency(position.entryPrice, 'USD', position.entryPrice > 1 ? 2 : 6)}
-                </div>
-              </div>
-
-              {/* Current Price */}
-              <div className="text-right">
-                <div className="font-mono text-text-primary">
-                  <PriceDisplay
-                    symbol={position.symbol}
-                    fallbackPrice={position.currentPrice}
-                    decimals={position.currentPrice > 1 ? 2 : 6}
-                    className="font-mono text-text-primary"
-                  />
-                </div>
-              </div>
-
-              {/* Market Value */}
-              <div className="text-right">
-                <div className="font-mono text-text-primary font-semibold">
-                  <LivePriceValue
-                    symbol={position.symbol}
-                    quantity={position.quantity}
-                    fallbackPrice={position.currentPrice}
-                    className="font-mono text-text-primary font-semibold"
-                  />
-                </div>
-              </div>
-
-              {/* P&L */}
-              <div className="text-right">
-                <LivePnL
-                  symbol={position.symbol}
-                  quantity={position.quantity}
-                  entryPrice={position.entryPrice}
-                  fallbackPrice={position.currentPrice}
-                  className="font-mono font-semibold"
-                />
-              </div>
-
-              {/* Duration */}
-              <div className="text-right">
-                <div className="text-text-secondary font-mono text-xs">
-                  {position.duration}
+                  {/* Current Price */}
+                  <div className="text-right">
+                    <div className="font-mono text-text-primary">
+                      <PriceDisplay
+                        symbol={position.symbol}
+                        fallbackPrice={position.currentPrice}
+                        decimals={position.currentPrice > 1 ? 2 : 6}
+                        className="font-mono text-text-primary"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Market Value */}
+                  <div className="text-right">
+                    <div className="font-mono text-text-primary font-semibold">
+                      <LivePriceValue
+                        symbol={position.symbol}
+                        quantity={position.quantity}
+                        fallbackPrice={position.currentPrice}
+                        className="font-mono text-text-primary font-semibold"
+                      />
+                    </div>
+                  </div>
+
+                  {/* P&L */}
+                  <div className="text-right">
+                    <LivePnL
+                      symbol={position.symbol}
+                      quantity={position.quantity}
+                      entryPrice={position.entryPrice}
+                      fallbackPrice={position.currentPrice}
+                      type={position.type}
+                      className="font-mono font-semibold"
+                    />
+                    <div
+                      className={`text-xs font-mono ${position.cumulativeFunding >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                      title={fundingRates?.[position.symbol]
+                        ? `Current funding: ${formatPercentage(fundingRates[position.symbol].rate * 100, 4)} / hour`
+                        : undefined}
+                    >
+                      Funding {formatCurrency(position.cumulativeFunding)}
+                    </div>
+                  </div>
+
+                  {/* Duration */}
+                  <div className="text-right">
+                    <div className="text-text-secondary font-mono text-xs">
+                      {position.duration}
+                    </div>
+                  </div>
+
+                  {/* Liquidation Price */}
+                  <div className="text-right">
+                    <div className={`font-mono ${riskClass}`}>
+                      {liquidationPrice !== null
+                        ? formatCurrency(liquidationPrice, 'USD', liquidationPrice > 1 ? 2 : 6)
+                        : '—'}
+                    </div>
+                  </div>
+
+                  {/* Margin Ratio */}
+                  <div className="text-right">
+                    <div className={`font-mono flex items-center justify-end gap-1 ${riskClass}`}>
+                      {marginRatio >= LIQUIDATION_WARNING_RATIO && <AlertTriangle className="w-3 h-3" />}
+                      {Number.isFinite(marginRatio) ? formatPercentage(marginRatio * 100, 2, false) : '∞'}
+                    </div>
+                  </div>
+
+                  {/* Stop-Loss / Take-Profit */}
+                  <div className="text-right">
+                    <button
+                      onClick={() => startEditingExits(position)}
+                      className="font-mono text-xs hover:underline"
+                      title="Edit stop-loss / take-profit / trailing stop"
+                    >
+                      <div className={position.stopLoss !== undefined ? 'text-red-400' : 'text-text-secondary'}>
+                        SL {position.stopLoss !== undefined ? formatCurrency(position.stopLoss, 'USD', position.stopLoss > 1 ? 2 : 6) : '—'}
+                      </div>
+                      <div className={position.takeProfit !== undefined ? 'text-green-400' : 'text-text-secondary'}>
+                        TP {position.takeProfit !== undefined ? formatCurrency(position.takeProfit, 'USD', position.takeProfit > 1 ? 2 : 6) : '—'}
+                      </div>
+                      {position.trailingStop && (
+                        <TrailingLevel type={position.type} trailingStop={position.trailingStop} />
+                      )}
+                    </button>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="text-center">
+                    <button
+                      onClick={() => handleClosePosition(position)}
+                      className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                    >
+                      <div className="flex items-center justify-center">
+                        <X className="w-3 h-3 mr-1" /> <p className="text-xs">Close</p>
+                      </div>
+                    </button>
+                  </div>
                 </div>
-              </div>
 
-              {/* Actions */}
-              <div className="text-center">
-                <button
-                  onClick={() => handleClosePosition(position)}
-                  className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs transition-colors"
-                >
-                  <div className="flex items-center justify-center">
-                    <X className="w-3 h-3 mr-1" /> <p className="text-xs">Close</p>
+                {/* Tax Lots */}
+                {expandedLotsId === position.id && (
+                  <div className="px-4 py-3 border-b border-border-primary bg-surface-hover text-xs min-w-[1100px]">
+                    <div className="text-text-secondary mb-2">
+                      Tax lots • closes {COST_BASIS_METHOD_LABELS[activePortfolio.costBasisMethod ?? 'fifo']}
+                    </div>
+                    <div className="grid grid-cols-5 gap-2 text-text-secondary mb-1">
+                      <div>Opened</div>
+                      <div className="text-right">Quantity</div>
+                      <div className="text-right">Entry Price</div>
+                      <div className="text-right">Unrealized P&L</div>
+                      <div className="text-right">Held</div>
+                    </div>
+                    {getPositionLots(position).map((lot) => {
+                      const lotPnL = (position.type === 'long' ? 1 : -1) * (position.currentPrice - lot.price) * lot.quantity;
+                      return (
+                        <div key={lot.id} className="grid grid-cols-5 gap-2 font-mono">
+                          <div className="text-text-secondary">{new Date(lot.openedAt).toLocaleString()}</div>
+                          <div className="text-right text-text-primary">{lot.quantity}</div>
+                          <div className="text-right text-text-primary">
+                            {formatCurrency(lot.price, 'USD', lot.price > 1 ? 2 : 6)}
+                          </div>
+                          <div className={`text-right ${lotPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatCurrency(lotPnL)}
+                          </div>
+                          <div className="text-right text-text-secondary">{formatHoldingPeriod(getCurrentTime() - lot.openedAt)}</div>
+                        </div>
+                      );
+                    })}
                   </div>
-                </button>
-              </div>
-            </div>
-          ))}
+                )}
+
+                {/* Stop-Loss / Take-Profit Editor */}
+                {editingExitsId === position.id && (
+                  <div className="p-4 border-b border-border-primary bg-surface-hover text-sm min-w-[1100px]">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="text-text-secondary">
+                        Protective exits for {position.symbol}
+                      </span>
+                      <input
+                        type="number"
+                        value={stopLossInput}
+                        onChange={(e) => setStopLossInput(e.target.value)}
+                        placeholder="Stop-loss"
+                        min="0"
+                        step="any"
+                        className="w-36 bg-background border border-border-primary rounded px-2 py-1 text-text-primary focus:outline-none focus:ring-2 focus:ring-red-500"
+                      />
+                      <input
+                        type="number"
+                        value={takeProfitInput}
+                        onChange={(e) => setTakeProfitInput(e.target.value)}
+                        placeholder="Take-profit"
+                        min="0"
+                        step="any"
+                        className="w-36 bg-background border border-border-primary rounded px-2 py-1 text-text-primary focus:outline-none focus:ring-2 focus:ring-green-500"
+                      />
+                      <div className="flex items-center">
+                        <select
+                          value={trailingModeInput}
+                          onChange={(e) => setTrailingModeInput(e.target.value as TrailingStop['mode'])}
+                          className="bg-background border border-border-primary rounded-l px-2 py-1 text-text-primary focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        >
+                          <option value="percent">Trail %</option>
+                          <option value="absolute">Trail $</option>
+                        </select>
+                        <input
+                          type="number"
+                          value={trailingDistanceInput}
+                          onChange={(e) => setTrailingDistanceInput(e.target.value)}
+                          placeholder="Distance"
+                          min="0"
+                          step="any"
+                          className="w-28 bg-background border border-l-0 border-border-primary rounded-r px-2 py-1 text-text-primary focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                      </div>
+                      <button
+                        onClick={() => saveExits(position)}
+                        className="flex items-center gap-1 bg-primary-600 hover:bg-primary-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                      >
+                        <Check className="w-3 h-3" /> Save
+                      </button>
+                      <button
+                        onClick={() => setEditingExitsId(null)}
+                        className="text-text-secondary hover:text-text-primary text-xs transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      {exitsError && (
+                        <span className="text-xs text-red-400">{exitsError}</span>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
         </div>
       </div>
 
@@ -364,6 +626,25 @@ export const PositionsTable = React.memo(() => {
   );
 });
 
+// Trailing Stop Level Component
+const TrailingLevel = React.memo<{
+  type: Position['type'];
+  trailingStop: TrailingStop;
+}>(({ type, trailingStop }) => {
+  const level = getTrailingStopLevel(type, trailingStop);
+  const distanceLabel = trailingStop.mode === 'percent'
+    ? `${trailingStop.distance}%`
+    : formatCurrency(trailingStop.distance);
+
+  return (
+    <div className="text-amber-400" title={`Trailing ${distanceLabel} from ${formatCurrency(trailingStop.highWaterMark)}`}>
+      TS {formatCurrency(level, 'USD', level > 1 ? 2 : 6)}
+    </div>
+  );
+});
+
+TrailingLevel.displayName = 'TrailingLevel';
+
 // Live Market Value Component
 const LiveMarketValue = React.memo<{
   symbol: string;
@@ -432,12 +713,14 @@ const LivePnL = React.memo<{
   quantity: number;
   entryPrice: number;
   fallbackPrice: number;
+  type?: Position['type'];
   className?: string;
-}>(({ symbol, quantity, entryPrice, fallbackPrice, className = "font-mono" }) => {
+}>(({ symbol, quantity, entryPrice, fallbackPrice, type = 'long', className = "font-mono" }) => {
   const spanRef = useRef<HTMLSpanElement>(null);
   const { getPrice } = usePrices();
   const context = useContext(PriceContext);
   const lastPnLRef = useRef<number | null>(null);
+  const direction = type === 'long' ? 1 : -1;
 
   const updatePnLDisplay = useCallback((pnl: number) => {
     if (!spanRef.current) return;
@@ -454,7 +737,7 @@ const LivePnL = React.memo<{
 
     // Set initial P&L
     const initialPrice = getPrice(symbol) || fallbackPrice;
-    const initialPnL = (initialPrice - entryPrice) * quantity;
+    const initialPnL = direction * (initialPrice - entryPrice) * quantity;
     updatePnLDisplay(initialPnL);
     lastPnLRef.current = initialPnL;
 
@@ -465,7 +748,7 @@ const LivePnL = React.memo<{
       unsubscribe = context.subscribe((prices: Record<string, number>) => {
         const newPrice = prices[symbol];
         if (newPrice !== undefined) {
-          const newPnL = (newPrice - entryPrice) * quantity;
+          const newPnL = direction * (newPrice - entryPrice) * quantity;
           if (newPnL !== lastPnLRef.current) {
             updatePnLDisplay(newPnL);
             lastPnLRef.current = newPnL;
@@ -479,11 +762,11 @@ const LivePnL = React.memo<{
         unsubscribe();
       }
     };
-  }, [symbol, quantity, entryPrice, fallbackPrice, getPrice, context, updatePnLDisplay]);
+  }, [symbol, quantity, entryPrice, direction, fallbackPrice, getPrice, context, updatePnLDisplay]);
 
   // Initial render
   const initialPrice = fallbackPrice || entryPrice;
-  const initialPnL = (initialPrice - entryPrice) * quantity;
+  const initialPnL = direction * (initialPrice - entryPrice) * quantity;
   const initialPnLPercent = ((initialPnL / (entryPrice * quantity)) * 100);
 
   return (
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { requestAlertNotifications } from '@/hooks/usePriceAlerts';
+import { useAlertStore } from '@/state/alertStore';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { describeAlertCondition, validatePriceAlert } from '@/utils/alerts';
+import { getPositionBreakEven } from '@/utils/fees';
+import { formatCurrency } from '@/utils/calculations';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Dropdown } from '@/components/ui/Dropdown';
+import { cn } from '@/utils/cn';
+import type { PriceAlertCondition, PriceAlertStatus } from '@/types/trading';
+
+type ConditionType = PriceAlertCondition['type'];
+
+const CONDITION_OPTIONS: { value: ConditionType; label: string }[] = [
+    { value: 'above', label: 'Price above' },
+    { value: 'below', label: 'Price below' },
+    { value: 'percent_move', label: 'Percent move' },
+    { value: 'break_even', label: 'Crosses break-even' },
+];
+
+const STATUS_STYLES: Record<PriceAlertStatus, string> = {
+    active: 'bg-green-500/20 text-profit',
+    triggered: 'bg-primary-500/20 text-primary-400',
+    cancelled: 'bg-gray-500/20 text-text-secondary',
+};
+
+const inputClass = 'w-full bg-background border border-border-primary rounded-lg px-3 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <label className="flex flex-col gap-1 text-xs text-text-secondary">
+        {label}
+        {children}
+    </label>
+);
+
+const getPermission = () => (typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+export const PriceAlertsPanel: React.FC = () => {
+    const alerts = useAlertStore((state) => state.alerts);
+    const history = useAlertStore((state) => state.history);
+    const { addAlert, removeAlert, rearmAlert, clearHistory } = useAlertStore.getState();
+    const activePortfolio = usePortfolioStore((state) => state.portfolios.find(p => p.id === state.activePortfolioId) ?? null);
+
+    const [conditionType, setConditionType] = useState<ConditionType>('above');
+    const [symbol, setSymbol] = useState('BTC');
+    const [price, setPrice] = useState('');
+    const [percent, setPercent] = useState('5');
+    const [windowMinutes, setWindowMinutes] = useState('60');
+    const [positionId, setPositionId] = useState('');
+    const [permission, setPermission] = useState(getPermission);
+    const [error, setError] = useState<string | null>(null);
+
+    const positions = activePortfolio?.positions ?? [];
+    const selectedPosition = positions.find(p => p.id === positionId);
+
+    const buildCondition = (): PriceAlertCondition => {
+        switch (conditionType) {
+            case 'above':
+            case 'below':
+                return { type: conditionType, price: parseFloat(price) };
+            case 'percent_move':
+                return { type: conditionType, percent: parseFloat(percent), windowMinutes: parseFloat(windowMinutes) };
+            case 'break_even':
+                return { type: conditionType, portfolioId: activePortfolio?.id ?? '', positionId };
+        }
+    };
+
+    const handleAdd = async () => {
+        const condition = buildCondition();
+        // Break-even alerts follow their position's symbol
+        const alertSymbol = condition.type === 'break_even'
+            ? selectedPosition?.symbol ?? ''
+            : symbol;
+
+        const validationError = validatePriceAlert({ symbol: alertSymbol, condition });
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        addAlert(alertSymbol, condition);
+        setError(null);
+        setPrice('');
+
+        // Ask once, while we have a user gesture to ask from
+        if (permission === 'default') {
+            setPermission(await requestAlertNotifications());
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                            <span className="flex items-center gap-2">
+                                <Bell className="w-5 h-5" />
+                                Price Alerts
+                            </span>
+                            {permission === 'granted' ? (
+                                <span className="text-xs font-normal text-text-secondary">Browser notifications on</span>
+                            ) : permission === 'default' ? (
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={async () => setPermission(await requestAlertNotifications())}
+                                >
+                                    Enable notifications
+                                </Button>
+                            ) : (
+                                <span className="flex items-center gap-1 text-xs font-normal text-text-secondary">
+                                    <BellOff className="w-3 h-3" />
+                                    In-app alerts only
+                                </span>
+                            )}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                            <Field label="Condition">
+                                <Dropdown
+                                    options={CONDITION_OPTIONS}
+                                    value={conditionType}
+                                    onChange={(value) => setConditionType(value as ConditionType)}
+                                    size="sm"
+                                />
+                            </Field>
+                            {conditionType === 'break_even' ? (
+                                <Field label="Position">
+                                    <Dropdown
+                                        options={positions.map(p => ({
+                                            value: p.id,
+                                            label: `${p.symbol} ${p.type} @ ${formatCurrency(p.entryPrice)}`,
+                                        }))}
+                                        value={positionId}
+                                        onChange={setPositionId}
+                                        placeholder={positions.length > 0 ? 'Choose position' : 'No open positions'}
+                                        disabled={positions.length === 0}
+                                        size="sm"
+                                    />
+                                </Field>
+                            ) : (
+                                <Field label="Symbol">
+                                    <input type="text" value={symbol} onChange={(e) => setSymbol(e.target.value)} className={inputClass} />
+                                </Field>
+                            )}
+                            {(conditionType === 'above' || conditionType === 'below') && (
+                                <Field label="Price">
+                                    <input type="number" min="0" value={price} onChange={(e) => setPrice(e.target.value)} className={inputClass} />
+                                </Field>
+                            )}
+                            {conditionType === 'percent_move' && (
+                                <>
+                                    <Field label="Move %">
+                                        <input type="number" min="0" value={percent} onChange={(e) => setPercent(e.target.value)} className={inputClass} />
+                                    </Field>
+                                    <Field label="Within (minutes)">
+                                        <input type="number" min="1" value={windowMinutes} onChange={(e) => setWindowMinutes(e.target.value)} className={inputClass} />
+                                    </Field>
+                                </>
+                            )}
+                            {conditionType === 'break_even' && activePortfolio && selectedPosition && (
+                                <div className="text-xs text-text-secondary pb-2">
+                                    Break-even {formatCurrency(getPositionBreakEven(selectedPosition, activePortfolio))}
+                                </div>
+                            )}
+                        </div>
+                        <div className="mt-4 flex items-center justify-between gap-3">
+                            {error ? <div className="text-sm text-red-400">{error}</div> : <div />}
+                            <Button size="sm" onClick={handleAdd} icon={<Plus className="w-4 h-4" />}>
+                                Add Alert
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Alerts</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {alerts.length === 0 ? (
+                            <div className="text-sm text-text-secondary">No alerts yet.</div>
+                        ) : (
+                            <div className="space-y-2">
+                                {alerts.map(alert => (
+                                    <div key={alert.id} className="flex items-center justify-between gap-3 py-2 border-b border-border-primary/50">
+                                        <div className="min-w-0">
+                                            <div className="text-sm font-medium text-text-primary">
+                                                {alert.symbol}{' '}
+                                                <span className="font-normal text-text-secondary">{describeAlertCondition(alert.condition)}</span>
+                                            </div>
+                                            {(alert.triggeredAt || alert.statusReason) && (
+                                                <div className="text-xs text-text-secondary">
+                                                    {alert.statusReason ?? `Fired ${new Date(alert.triggeredAt!).toLocaleString()}`}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <span className={cn('px-2 py-0.5 rounded text-xs', STATUS_STYLES[alert.status])}>
+                                                {alert.status}
+                                            </span>
+                                            {alert.status === 'triggered' && (
+                                                <Button size="sm" variant="ghost" onClick={() => rearmAlert(alert.id)} icon={<RotateCcw className="w-4 h-4" />}>
+                                                    Re-arm
+                                                </Button>
+                                            )}
+                                            <Button size="sm" variant="ghost" onClick={() => removeAlert(alert.id)} aria-label="Delete alert">
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                        <span>History</span>
+                        {history.length > 0 && (
+                            <Button size="sm" variant="ghost" onClick={clearHistory}>
+                                Clear
+                            </Button>
+                        )}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {history.length === 0 ? (
+                        <div className="text-sm text-text-secondary">No alerts have fired yet.</div>
+                    ) : (
+                        <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+                            {history.map(event => (
+                                <div key={event.id} className="text-sm">
+                                    <div className="text-text-primary">{event.message}</div>
+                                    <div className="text-xs text-text-secondary">{new Date(event.time).toLocaleString()}</div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
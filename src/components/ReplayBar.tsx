@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { History, Pause, Play, SkipForward, X } from 'lucide-react';
+import { usePrices } from '@/hooks/usePriceContext';
+import { useReplayStore } from '@/state/replayStore';
+import { REPLAY_INTERVALS, REPLAY_SPEEDS, getReplayProgress, parseReplaySymbols } from '@/utils/replay';
+import type { ReplayInterval } from '@/utils/replay';
+import { Button } from '@/components/ui/Button';
+import { Dropdown } from '@/components/ui/Dropdown';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Value for a datetime-local input, which takes local time without a zone
+const toDateTimeInput = (time: number): string => {
+    const date = new Date(time);
+    date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+    return date.toISOString().slice(0, 16);
+};
+
+export const ReplayBar: React.FC = () => {
+    const { replay } = usePrices();
+    const { status, currentTime, endTime, speed, settings, error } = useReplayStore();
+    const [isOpen, setIsOpen] = useState(false);
+    const [startInput, setStartInput] = useState(() => toDateTimeInput(Date.now() - 7 * DAY_MS));
+    const [replayInterval, setReplayInterval] = useState<ReplayInterval>('5m');
+    const [symbolsInput, setSymbolsInput] = useState('BTC, ETH');
+    const [formError, setFormError] = useState<string | null>(null);
+
+    if (!replay) return null;
+
+    const handleStart = () => {
+        const startTime = new Date(startInput).getTime();
+        const symbols = parseReplaySymbols(symbolsInput);
+
+        if (!Number.isFinite(startTime) || startTime >= Date.now()) {
+            setFormError('Choose a start date in the past');
+            return;
+        }
+        if (symbols.length === 0) {
+            setFormError('Enter at least one symbol');
+            return;
+        }
+
+        setFormError(null);
+        setIsOpen(false);
+        replay.start({ startTime, interval: replayInterval, symbols });
+    };
+
+    if (status === 'off') {
+        return (
+            <div className="border-b border-border-primary bg-surface/30">
+                <div className="max-w-7xl mx-auto px-2 sm:px-4 py-2 text-sm">
+                    {!isOpen ? (
+                        <div className="flex items-center gap-3">
+                            <Button variant="ghost" size="sm" icon={<History className="w-4 h-4" />} onClick={() => setIsOpen(true)}>
+                                Market Replay
+                            </Button>
+                            {error && <span className="text-xs text-red-400">{error}</span>}
+                        </div>
+                    ) : (
+                        <div className="flex flex-wrap items-end gap-2">
+                            <label className="flex flex-col text-xs text-text-secondary">
+                                Start
+                                <input
+                                    type="datetime-local"
+                                    value={startInput}
+                                    onChange={(e) => setStartInput(e.target.value)}
+                                    className="bg-background border border-border-primary rounded px-2 py-1 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                />
+                            </label>
+                            <div className="w-24">
+                                <Dropdown
+                                    options={REPLAY_INTERVALS.map(value => ({ value, label: value }))}
+                                    value={replayInterval}
+                                    onChange={(value) => setReplayInterval(value as ReplayInterval)}
+                                    size="sm"
+                                />
+                            </div>
+                            <label className="flex flex-col text-xs text-text-secondary">
+                                Symbols
+                                <input
+                                    type="text"
+                                    value={symbolsInput}
+                                    onChange={(e) => setSymbolsInput(e.target.value)}
+                                    placeholder="BTC, ETH"
+                                    className="bg-background border border-border-primary rounded px-2 py-1 text-sm text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                />
+                            </label>
+                            <Button size="sm" onClick={handleStart}>Start Replay</Button>
+                            <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>Cancel</Button>
+                            {formError && <span className="text-xs text-red-400">{formError}</span>}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    const progress = settings && currentTime !== null && endTime !== null
+        ? getReplayProgress(settings.startTime, endTime, currentTime)
+        : 0;
+
+    return (
+        <div className="border-b border-primary-500/40 bg-primary-600/10">
+            <div className="max-w-7xl mx-auto px-2 sm:px-4 py-2 flex flex-wrap items-center gap-3 text-sm">
+                <span className="flex items-center gap-1.5 font-semibold text-primary-500">
+                    <History className="w-4 h-4" />
+                    Replay
+                </span>
+
+                {status === 'playing' ? (
+                    <Button variant="secondary" size="sm" icon={<Pause className="w-4 h-4" />} onClick={replay.pause}>
+                        Pause
+                    </Button>
+                ) : (
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        icon={<Play className="w-4 h-4" />}
+                        onClick={replay.play}
+                        disabled={status !== 'paused'}
+                    >
+                        Play
+                    </Button>
+                )}
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    icon={<SkipForward className="w-4 h-4" />}
+                    onClick={replay.step}
+                    disabled={status !== 'paused'}
+                >
+                    Step
+                </Button>
+                <div className="w-24">
+                    <Dropdown
+                        options={REPLAY_SPEEDS.map(value => ({ value: value.toString(), label: `${value}x` }))}
+                        value={speed.toString()}
+                        onChange={(value) => replay.setSpeed(Number(value))}
+                        size="sm"
+                    />
+                </div>
+
+                <span className="text-text-primary font-mono">
+                    {status === 'loading' ? 'Loading candles…' : currentTime !== null ? new Date(currentTime).toLocaleString() : ''}
+                </span>
+                {status === 'finished' && <span className="text-xs text-text-secondary">End of data</span>}
+
+                <div className="flex-1 min-w-[120px] h-1.5 bg-surface rounded-full overflow-hidden">
+                    <div className="h-full bg-primary-500 transition-all" style={{ width: `${progress}%` }} />
+                </div>
+
+                <Button variant="ghost" size="sm" icon={<X className="w-4 h-4" />} onClick={replay.stop}>
+                    Exit
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck, Pencil } from 'lucide-react';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { usePrices } from '@/hooks/usePriceContext';
+import { getRiskLimits, getRiskUsage, validateRiskLimits } from '@/utils/riskLimits';
+import { formatCurrency } from '@/utils/calculations';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/utils/cn';
+import type { RiskLimits } from '@/types/trading';
+
+type RiskLimitKey = keyof RiskLimits;
+
+const LIMIT_FIELDS: { key: RiskLimitKey; label: string; placeholder: string }[] = [
+    { key: 'maxPositionPercent', label: 'Max position size (% of equity)', placeholder: 'e.g. 25' },
+    { key: 'maxOpenPositions', label: 'Max open positions', placeholder: 'e.g. 5' },
+    { key: 'maxDailyLoss', label: 'Max daily loss ($)', placeholder: 'e.g. 2000' },
+    { key: 'maxTradesPerDay', label: 'Max trades per day', placeholder: 'e.g. 20' },
+    { key: 'maxConsecutiveLosses', label: 'Losses in a row before cooldown', placeholder: 'e.g. 3' },
+    { key: 'lossCooldownMinutes', label: 'Cooldown (minutes)', placeholder: '60' },
+];
+
+// Share of a limit used, clamped for the bar
+const getUsagePercent = (used: number, limit: number | undefined): number =>
+    limit ? Math.min(100, Math.max(0, (used / limit) * 100)) : 0;
+
+export const RiskDashboard: React.FC = () => {
+    const { getActivePortfolio, setRiskLimits } = usePortfolioStore();
+    const activePortfolio = getActivePortfolio();
+    const { getPrice } = usePrices();
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState<Partial<Record<RiskLimitKey, string>>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    if (!activePortfolio) return null;
+
+    const currentPrices: Record<string, number> = {};
+    activePortfolio.positions.forEach(pos => {
+        currentPrices[pos.symbol] = getPrice(pos.symbol) || pos.entryPrice;
+    });
+
+    const limits = getRiskLimits(activePortfolio);
+    const usage = getRiskUsage(activePortfolio, currentPrices);
+    const dailyLoss = Math.max(0, -usage.dailyPnL);
+
+    const rows = [
+        {
+            label: 'Largest position',
+            used: usage.largestPositionPercent,
+            limit: limits.maxPositionPercent,
+            format: (value: number) => `${value.toFixed(1)}%`,
+        },
+        {
+            label: 'Open positions',
+            used: usage.openPositions,
+            limit: limits.maxOpenPositions,
+            format: (value: number) => value.toString(),
+        },
+        {
+            label: 'Loss today',
+            used: dailyLoss,
+            limit: limits.maxDailyLoss,
+            format: (value: number) => formatCurrency(value),
+        },
+        {
+            label: 'Trades today',
+            used: usage.tradesToday,
+            limit: limits.maxTradesPerDay,
+            format: (value: number) => value.toString(),
+        },
+        {
+            label: 'Losses in a row',
+            used: usage.consecutiveLosses,
+            limit: limits.maxConsecutiveLosses,
+            format: (value: number) => value.toString(),
+        },
+    ];
+
+    const isLockedOut = usage.cooldownUntil !== null ||
+        (limits.maxDailyLoss !== undefined && dailyLoss >= limits.maxDailyLoss) ||
+        (limits.maxTradesPerDay !== undefined && usage.tradesToday >= limits.maxTradesPerDay);
+
+    const startEditing = () => {
+        setDraft(Object.fromEntries(
+            LIMIT_FIELDS.map(({ key }) => [key, limits[key]?.toString() ?? ''])
+        ));
+        setError(null);
+        setIsEditing(true);
+    };
+
+    const handleSave = () => {
+        // Blank fields mean no limit
+        const next: RiskLimits = {};
+        LIMIT_FIELDS.forEach(({ key }) => {
+            const value = draft[key]?.trim();
+            if (value) next[key] = parseFloat(value);
+        });
+
+        const validationError = validateRiskLimits(next);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setRiskLimits(activePortfolio.id, next);
+        setIsEditing(false);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        {isLockedOut
+                            ? <ShieldAlert className="w-5 h-5 text-loss" />
+                            : <ShieldCheck className="w-5 h-5 text-profit" />}
+                        Risk Rules
+                    </div>
+                    {!isEditing && (
+                        <Button size="sm" variant="ghost" onClick={startEditing} className="flex items-center gap-1">
+                            <Pencil className="w-4 h-4" />
+                            Edit
+                        </Button>
+                    )}
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {usage.cooldownUntil !== null && (
+                    <div className="mb-4 rounded-lg border border-loss/40 bg-loss/10 px-3 py-2 text-sm text-loss">
+                        Cooling down after {usage.consecutiveLosses} losses in a row until{' '}
+                        {new Date(usage.cooldownUntil).toLocaleTimeString()}. Only reducing trades are allowed.
+                    </div>
+                )}
+
+                {isEditing ? (
+                    <div className="space-y-3">
+                        {LIMIT_FIELDS.map(({ key, label, placeholder }) => (
+                            <div key={key} className="flex items-center justify-between gap-4">
+                                <label htmlFor={`risk-${key}`} className="text-sm text-text-secondary">{label}</label>
+                                <input
+                                    id={`risk-${key}`}
+                                    type="number"
+                                    min="0"
+                                    value={draft[key] ?? ''}
+                                    onChange={(e) => {
+                                        setDraft(current => ({ ...current, [key]: e.target.value }));
+                                        setError(null);
+                                    }}
+                                    placeholder={placeholder}
+                                    className="w-28 bg-background border border-border-primary rounded-lg px-3 py-1.5 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                />
+                            </div>
+                        ))}
+                        <p className="text-xs text-text-secondary">Leave a field blank for no limit.</p>
+                        {error && <div className="text-xs text-red-400">{error}</div>}
+                        <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="secondary" onClick={() => setIsEditing(false)}>
+                                Cancel
+                            </Button>
+                            <Button size="sm" onClick={handleSave}>
+                                Save Rules
+                            </Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {rows.map(row => {
+                            const percent = getUsagePercent(row.used, row.limit);
+                            return (
+                                <div key={row.label}>
+                                    <div className="flex justify-between text-sm mb-1">
+                                        <span className="text-text-secondary">{row.label}</span>
+                                        <span className="font-mono text-text-primary">
+                                            {row.format(row.used)}
+                                            <span className="text-text-secondary">
+                                                {' / '}{row.limit !== undefined ? row.format(row.limit) : 'No limit'}
+                                            </span>
+                                        </span>
+                                    </div>
+                                    {row.limit !== undefined && (
+                                        <div className="h-1.5 rounded-full bg-surface-hover overflow-hidden">
+                                            <div
+                                                className={cn(
+                                                    'h-full rounded-full',
+                                                    percent >= 100 ? 'bg-loss' : percent >= 75 ? 'bg-yellow-400' : 'bg-profit'
+                                                )}
+                                                style={{ width: `${percent}%` }}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        <div className="pt-3 border-t border-border-primary flex justify-between text-sm">
+                            <span className="text-text-secondary">Realized P&L today</span>
+                            <span className={cn('font-mono', usage.dailyPnL >= 0 ? 'text-profit' : 'text-loss')}>
+                                {formatCurrency(usage.dailyPnL)}
+                            </span>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
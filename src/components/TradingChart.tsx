@@ -1,14 +1,42 @@
 import React, { useEffect, useRef, useMemo, useState } from 'react';
-import { createChart, IChartApi, CandlestickSeries, HistogramSeries } from 'lightweight-charts';
+import {
+    createChart,
+    IChartApi,
+    IPriceLine,
+    ISeriesApi,
+    CandlestickSeries,
+    HistogramSeries,
+    LineSeries,
+    LineStyle,
+    MouseEventParams,
+    Time,
+    UTCTimestamp,
+} from 'lightweight-charts';
 import { useQuery } from '@tanstack/react-query';
-import { BarChart3 } from 'lucide-react';
+import { BarChart3, Activity } from 'lucide-react';
 import { chartApi } from '@/services/chartApi';
 import { usePrices } from '@/hooks/usePriceContext';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { useReplayStore } from '@/state/replayStore';
+import { useSymbolIndicators } from '@/state/chartSettingsStore';
+import { createIndicatorEngine, getIndicatorLabel, INDICATOR_DEFINITIONS } from '@/utils/indicatorEngine';
+import type { IndicatorEngine, IndicatorPoint } from '@/utils/indicatorEngine';
+import { IndicatorSettings } from '@/components/IndicatorSettings';
+import { DrawingToolbar } from '@/components/DrawingToolbar';
+import { ChartDrawingsPrimitive } from '@/components/chartDrawingsPrimitive';
+import { ChartFillsPrimitive } from '@/components/chartFillsPrimitive';
+import { useChartDrawings } from '@/hooks/useChartDrawings';
+import { getTrailingStopLevel } from '@/utils/orderMatching';
+import { getPositionBreakEven } from '@/utils/fees';
+import { getChartFills } from '@/utils/fills';
+import type { PlacedFill } from '@/utils/fills';
+import { formatCurrency } from '@/utils/calculations';
 import { useTheme } from '@/context/ThemeContext';
 import { Button } from '@/components/ui/Button';
 import { ChartSkeleton } from '@/components/ui/Skeleton';
 import { cn } from '@/utils/cn';
 import type { CandleRequest } from '@/services/chartApi';
+import type { TechnicalIndicator } from '@/types/trading';
 
 interface TradingChartProps {
     symbol: string;
@@ -18,6 +46,68 @@ interface TradingChartProps {
     onFullscreen?: () => void;
 }
 
+const INDICATOR_PANE_HEIGHT = 120;
+const MACD_SIGNAL_COLOR = '#f97316';
+
+type IndicatorSeries = ISeriesApi<'Line'> | ISeriesApi<'Histogram'>;
+
+interface ActiveIndicator {
+    engine: IndicatorEngine;
+    series: Record<string, IndicatorSeries>; // Keyed by indicator output
+}
+
+// Lines for each output of an indicator, in the main pane or one of its own
+function addIndicatorSeries(chart: IChartApi, indicator: TechnicalIndicator, paneIndex: number): Record<string, IndicatorSeries> {
+    const line = (color: string, lineStyle: LineStyle = LineStyle.Solid) => chart.addSeries(LineSeries, {
+        color,
+        lineWidth: 1,
+        lineStyle,
+        priceLineVisible: false,
+        lastValueVisible: paneIndex > 0,
+        crosshairMarkerVisible: false,
+    }, paneIndex);
+
+    switch (indicator.name) {
+        case 'bollinger':
+            return {
+                upper: line(indicator.color),
+                middle: line(indicator.color, LineStyle.Dashed),
+                lower: line(indicator.color),
+            };
+        case 'rsi': {
+            const series = line(indicator.color);
+            [70, 30].forEach(level => series.createPriceLine({
+                price: level,
+                color: '#6b7280',
+                lineWidth: 1,
+                lineStyle: LineStyle.Dotted,
+                axisLabelVisible: false,
+                title: '',
+            }));
+            return { value: series };
+        }
+        case 'macd':
+            return {
+                histogram: chart.addSeries(HistogramSeries, { priceLineVisible: false, lastValueVisible: false }, paneIndex),
+                macd: line(indicator.color),
+                signal: line(MACD_SIGNAL_COLOR),
+            };
+        default:
+            return { value: line(indicator.color) };
+    }
+}
+
+// Chart data for one indicator output, skipping points without it
+function toSeriesPoint(point: IndicatorPoint, output: string) {
+    const value = point.values[output];
+    if (value === undefined) return null;
+    return {
+        time: point.time as UTCTimestamp,
+        value,
+        ...(output === 'histogram' && { color: value >= 0 ? 'rgba(38, 166, 154, 0.6)' : 'rgba(239, 83, 80, 0.6)' }),
+    };
+}
+
 const intervals: Array<{ value: CandleRequest['interval']; label: string }> = [
     { value: '1m', label: '1m' },
     { value: '5m', label: '5m' },
@@ -37,15 +127,42 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     const chartRef = useRef<IChartApi | null>(null);
     const candlestickSeriesRef = useRef<any>(null);
     const volumeSeriesRef = useRef<any>(null);
+    const trailingLineRef = useRef<IPriceLine | null>(null);
+    const indicatorsRef = useRef<ActiveIndicator[]>([]);
+    const drawingsPrimitiveRef = useRef<ChartDrawingsPrimitive | null>(null);
+    const fillsPrimitiveRef = useRef<ChartFillsPrimitive | null>(null);
+    const positionLinesRef = useRef<IPriceLine[]>([]);
     const { getPrice } = usePrices();
     const { theme } = useTheme();
 
     const [selectedInterval, setSelectedInterval] = useState<CandleRequest['interval']>('4h');
+    const [showIndicatorSettings, setShowIndicatorSettings] = useState(false);
+    const [hoveredFill, setHoveredFill] = useState<PlacedFill | null>(null);
+
+    // Saved per symbol; RSI and MACD each add a pane below the candles
+    const indicators = useSymbolIndicators(symbol);
+    const enabledIndicators = useMemo(() => indicators.filter(indicator => indicator.enabled), [indicators]);
+    const separatePaneCount = enabledIndicators.filter(indicator => INDICATOR_DEFINITIONS[indicator.name].pane === 'separate').length;
+    const chartHeight = height + separatePaneCount * INDICATOR_PANE_HEIGHT;
+
+    // Position in the active portfolio for this symbol, if any; drives the trailing stop,
+    // entry and break-even lines
+    const activePortfolio = usePortfolioStore((state) =>
+        state.portfolios.find(p => p.id === state.activePortfolioId)
+    );
+    const position = activePortfolio?.positions.find(pos => pos.symbol === symbol);
+
+    // The active portfolio's fills on this symbol, marked where they happened
+    const transactions = activePortfolio?.transactions;
+    const fills = useMemo(() => getChartFills(transactions ?? [], symbol), [transactions, symbol]);
+
+    // Simulated clock while replaying; the chart follows it one candle at a time
+    const replayTime = useReplayStore((state) => state.currentTime);
 
     // Memoize time range to prevent infinite re-renders
     const timeRange = useMemo(() => {
-        return chartApi.getTimeRange(selectedInterval, 100);
-    }, [selectedInterval]);
+        return chartApi.getTimeRange(selectedInterval, 100, replayTime ?? Date.now());
+    }, [selectedInterval, replayTime]);
 
     const {
         data: chartData,
@@ -53,7 +170,7 @@ export const TradingChart: React.FC<TradingChartProps> = ({
         error,
         refetch
     } = useQuery({
-        queryKey: ['chart-data', symbol, selectedInterval],
+        queryKey: ['chart-data', symbol, selectedInterval, replayTime === null ? 'live' : timeRange.endTime],
         queryFn: () => chartApi.getCandleData({
             coin: symbol,
             interval: selectedInterval,
@@ -61,7 +178,7 @@ export const TradingChart: React.FC<TradingChartProps> = ({
             endTime: timeRange.endTime,
         }),
         staleTime: 30 * 1000,
-        refetchInterval: selectedInterval === '1m' ? 60000 : undefined,
+        refetchInterval: selectedInterval === '1m' && replayTime === null ? 60000 : undefined,
         retry: 3,
         retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 5000),
     });
@@ -161,10 +278,22 @@ export const TradingChart: React.FC<TradingChartProps> = ({
             candlestickSeries.setData(candleData);
             volumeSeries.setData(volumeData);
 
+            // Drawings render over the candles
+            const drawingsPrimitive = new ChartDrawingsPrimitive();
+            candlestickSeries.attachPrimitive(drawingsPrimitive);
+            drawingsPrimitive.setCandleTimes(chartData.map(item => item.time));
+
+            // Fill markers above the drawings
+            const fillsPrimitive = new ChartFillsPrimitive();
+            candlestickSeries.attachPrimitive(fillsPrimitive);
+            fillsPrimitive.setCandleTimes(chartData.map(item => item.time));
+
             // Store references
             chartRef.current = chart;
             candlestickSeriesRef.current = candlestickSeries;
             volumeSeriesRef.current = volumeSeries;
+            drawingsPrimitiveRef.current = drawingsPrimitive;
+            fillsPrimitiveRef.current = fillsPrimitive;
 
             // Fit content and enable real-time mode
             setTimeout(() => {
@@ -191,6 +320,11 @@ export const TradingChart: React.FC<TradingChartProps> = ({
                 chartRef.current = null;
                 candlestickSeriesRef.current = null;
                 volumeSeriesRef.current = null;
+                trailingLineRef.current = null;
+                drawingsPrimitiveRef.current = null;
+                fillsPrimitiveRef.current = null;
+                positionLinesRef.current = [];
+                setHoveredFill(null);
             };
 
         } catch (error) {
@@ -198,6 +332,56 @@ export const TradingChart: React.FC<TradingChartProps> = ({
         }
     }, [chartData, symbol, height, theme]);
 
+    // Drawings are kept per symbol and placed by time, so they outlast interval changes
+    const candleTimes = useMemo(() => chartData?.map(item => item.time), [chartData]);
+    const drawingTools = useChartDrawings({
+        symbol,
+        chartRef,
+        primitiveRef: drawingsPrimitiveRef,
+        containerRef: chartContainerRef,
+        candleTimes,
+    });
+
+    // Indicator series, rebuilt when the candles or settings change
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart || !chartData?.length) return;
+
+        const candles = chartData.map(item => ({
+            time: item.time,
+            high: Number(item.high),
+            low: Number(item.low),
+            close: Number(item.close),
+            volume: Number(item.volume),
+        }));
+
+        let nextPane = 1;
+        indicatorsRef.current = enabledIndicators.map(indicator => {
+            const paneIndex = INDICATOR_DEFINITIONS[indicator.name].pane === 'separate' ? nextPane++ : 0;
+            const engine = createIndicatorEngine(indicator);
+            const series = addIndicatorSeries(chart, indicator, paneIndex);
+            const points = engine.load(candles);
+
+            Object.entries(series).forEach(([output, outputSeries]) => {
+                outputSeries.setData(points.map(point => toSeriesPoint(point, output)).filter(p => p !== null));
+            });
+            return { engine, series };
+        });
+
+        chart.applyOptions({ height: chartHeight });
+        chart.panes().slice(1).forEach(pane => pane.setHeight(INDICATOR_PANE_HEIGHT));
+
+        return () => {
+            // The chart may already be gone if it was rebuilt
+            if (chartRef.current === chart) {
+                indicatorsRef.current.forEach(({ series }) => {
+                    Object.values(series).forEach(outputSeries => chart.removeSeries(outputSeries));
+                });
+            }
+            indicatorsRef.current = [];
+        };
+    }, [chartData, enabledIndicators, chartHeight, theme, height]);
+
     // Real-time price updates
     useEffect(() => {
         if (!candlestickSeriesRef.current || !volumeSeriesRef.current) return;
@@ -222,11 +406,99 @@ export const TradingChart: React.FC<TradingChartProps> = ({
         // Update the chart
         candlestickSeriesRef.current.update(updatedCandle);
 
+        // Redraw the forming point of each indicator
+        indicatorsRef.current.forEach(({ engine, series }) => {
+            const point = engine.update({ ...updatedCandle, time: lastCandle.time, volume: Number(lastCandle.volume) });
+            if (!point) return;
+            Object.entries(series).forEach(([output, outputSeries]) => {
+                const seriesPoint = toSeriesPoint(point, output);
+                if (seriesPoint) outputSeries.update(seriesPoint);
+            });
+        });
+
         // Scroll to real-time if needed
         if (chartRef.current) {
             chartRef.current.timeScale().scrollToRealTime();
         }
-    }, [symbol, chartData, getPrice]);
+    }, [symbol, chartData, getPrice, enabledIndicators]);
+
+    // Trailing stop level follows the persisted high-water mark
+    const trailingStop = position?.trailingStop;
+    const positionType = position?.type;
+
+    useEffect(() => {
+        const series = candlestickSeriesRef.current;
+        if (!series) return;
+
+        if (trailingLineRef.current) {
+            series.removePriceLine(trailingLineRef.current);
+            trailingLineRef.current = null;
+        }
+
+        if (!trailingStop || !positionType) return;
+
+        trailingLineRef.current = series.createPriceLine({
+            price: getTrailingStopLevel(positionType, trailingStop),
+            color: '#f59e0b',
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            axisLabelVisible: true,
+            title: 'Trail',
+        });
+    }, [trailingStop, positionType, chartData, theme, height]);
+
+    // Average entry and break-even of the open position
+    const entryPrice = position?.entryPrice;
+    const breakEvenPrice = position && activePortfolio ? getPositionBreakEven(position, activePortfolio) : undefined;
+
+    useEffect(() => {
+        const series = candlestickSeriesRef.current;
+        if (!series) return;
+
+        positionLinesRef.current.forEach(line => series.removePriceLine(line));
+        positionLinesRef.current = [];
+        if (entryPrice === undefined || breakEvenPrice === undefined) return;
+
+        positionLinesRef.current = [
+            series.createPriceLine({
+                price: entryPrice,
+                color: '#3b82f6',
+                lineWidth: 1,
+                lineStyle: LineStyle.Solid,
+                axisLabelVisible: true,
+                title: 'Entry',
+            }),
+            series.createPriceLine({
+                price: breakEvenPrice,
+                color: '#a855f7',
+                lineWidth: 1,
+                lineStyle: LineStyle.Dotted,
+                axisLabelVisible: true,
+                title: 'Break-even',
+            }),
+        ];
+    }, [entryPrice, breakEvenPrice, chartData, theme, height]);
+
+    useEffect(() => {
+        fillsPrimitiveRef.current?.setFills(fills);
+    }, [fills, chartData, theme, height]);
+
+    // Details of the fill under the crosshair
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart) return;
+
+        const handleCrosshairMove = (param: MouseEventParams<Time>) => {
+            const marker = param.point ? fillsPrimitiveRef.current?.fillAt(param.point.x, param.point.y) ?? null : null;
+            setHoveredFill(previous => (previous?.fill.id === marker?.fill.id ? previous : marker));
+        };
+
+        chart.subscribeCrosshairMove(handleCrosshairMove);
+        return () => {
+            // The chart may already be gone if it was rebuilt
+            if (chartRef.current === chart) chart.unsubscribeCrosshairMove(handleCrosshairMove);
+        };
+    }, [chartData, theme, height]);
 
     if (isLoading) {
         return (
@@ -311,15 +583,80 @@ export const TradingChart: React.FC<TradingChartProps> = ({
                                 {interval.label}
                             </Button>
                         ))}
+                        <Button
+                            size="sm"
+                            variant={showIndicatorSettings ? 'primary' : 'outline'}
+                            onClick={() => setShowIndicatorSettings(!showIndicatorSettings)}
+                            icon={<Activity className="w-4 h-4" />}
+                            className="ml-auto"
+                        >
+                            Indicators
+                        </Button>
                     </div>
+                    {enabledIndicators.length > 0 && (
+                        <div className="flex flex-wrap gap-3 mt-3 text-xs">
+                            {enabledIndicators.map(indicator => (
+                                <span key={indicator.id} className="flex items-center gap-1 text-text-secondary">
+                                    <span className="w-3 h-0.5 rounded" style={{ backgroundColor: indicator.color }} />
+                                    {getIndicatorLabel(indicator)}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {showIndicatorSettings && <IndicatorSettings symbol={symbol} className="mt-3" />}
+                    <DrawingToolbar
+                        tool={drawingTools.tool}
+                        onToolChange={drawingTools.setTool}
+                        selectedDrawing={drawingTools.selectedDrawing}
+                        onUpdateSelected={drawingTools.updateSelected}
+                        onDeleteSelected={drawingTools.deleteSelected}
+                        noteText={drawingTools.noteText}
+                        onNoteTextChange={drawingTools.setNoteText}
+                        error={drawingTools.error}
+                        className="mt-3"
+                    />
                 </div>
             )}
 
-            <div
-                ref={chartContainerRef}
-                style={{ height }}
-                className="w-full h-full bg-background"
-            />
+            <div className="relative">
+                <div
+                    ref={chartContainerRef}
+                    style={{ height: chartHeight }}
+                    className="w-full h-full bg-background"
+                />
+
+                {hoveredFill && (
+                    <div
+                        className="absolute z-10 pointer-events-none bg-surface border border-border-primary rounded-lg shadow-lg px-3 py-2 text-xs"
+                        style={{
+                            left: hoveredFill.x + 12,
+                            top: hoveredFill.y,
+                            transform: hoveredFill.fill.side === 'buy' ? undefined : 'translateY(-100%)',
+                        }}
+                    >
+                        <div className={cn('font-semibold', hoveredFill.fill.side === 'buy' ? 'text-green-400' : 'text-red-400')}>
+                            {hoveredFill.fill.side === 'buy' ? 'Buy' : 'Sell'} {hoveredFill.fill.quantity.toLocaleString()} {symbol}
+                            {hoveredFill.fill.liquidation && ' (liquidation)'}
+                        </div>
+                        <div className="text-text-secondary">{new Date(hoveredFill.fill.timestamp).toLocaleString()}</div>
+                        <div className="mt-1 grid grid-cols-2 gap-x-3 text-text-secondary">
+                            <span>Price</span>
+                            <span className="text-text-primary text-right">{formatCurrency(hoveredFill.fill.price)}</span>
+                            <span>Fee</span>
+                            <span className="text-text-primary text-right">{formatCurrency(hoveredFill.fill.fee)}</span>
+                            <span>Realized P&L</span>
+                            <span className={cn(
+                                'text-right',
+                                hoveredFill.fill.realizedPnL === undefined
+                                    ? 'text-text-secondary'
+                                    : hoveredFill.fill.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'
+                            )}>
+                                {hoveredFill.fill.realizedPnL === undefined ? 'Opening' : formatCurrency(hoveredFill.fill.realizedPnL)}
+                            </span>
+                        </div>
+                    </div>
+                )}
+            </div>
 
             {isLoading && (
                 <div className="absolute inset-0 bg-surface bg-opacity-75 flex items-center justify-center">
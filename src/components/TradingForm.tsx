@@ -1,9 +1,30 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { CryptoAsset } from '@/types/trading';
-import { usePortfolioStore } from '@/state/portfolioStore';
-import { usePrices, usePriceSubscription } from '@/hooks/usePriceContext';
+import { CryptoAsset, ExecutionAlgorithm, MarginMode, OrderType, TimeInForce } from '@/types/trading';
+import { usePortfolioStore, TrailingStop } from '@/state/portfolioStore';
+import { usePositionStore } from '@/state/positionStore';
+import { isOnPriceFeed, isReplayActive } from '@/state/replayStore';
+import { useOrderBook, usePrices, usePriceSubscription } from '@/hooks/usePriceContext';
+import { useAssetInfo } from '@/hooks/useMarketMeta';
 import { PriceDisplay } from '@/components/PriceDisplay';
-import { formatCurrency } from '@/utils/calculations';
+import { calculateInitialMargin, checkSlippage, formatCurrency } from '@/utils/calculations';
+import { simulateMarketFill } from '@/utils/execution';
+import { getSizeStep, roundPrice, roundSize, validateExitRules, validateOrderRules } from '@/utils/orderRules';
+import { getMarginSettings } from '@/utils/margin';
+import { calculateTradeFee } from '@/utils/fees';
+import { validateAlgoOrder } from '@/utils/algoExecution';
+import {
+  getAvailableBalance,
+  getAvailableQuantity,
+  getPlacementLiquidity,
+  getPostOnlyRejection,
+  isImmediateOrder,
+  resolveImmediateOrder,
+  validateLimitOrder,
+  validatePositionExits,
+  validateTimeInForce,
+  validateTrailingStop
+} from '@/utils/orderMatching';
+import { getCurrentTime } from '@/utils/clock';
 
 interface TradingFormProps {
   selectedAsset: CryptoAsset;
@@ -12,23 +33,125 @@ interface TradingFormProps {
 
 type TradeType = 'buy' | 'sell';
 
+const TIME_IN_FORCE_OPTIONS: { value: TimeInForce; label: string; description: string }[] = [
+  { value: 'gtc', label: 'Good till cancelled', description: 'Rests until the live price crosses your limit' },
+  { value: 'ioc', label: 'Immediate or cancel', description: 'Fills what it can at your limit now and cancels the rest' },
+  { value: 'fok', label: 'Fill or kill', description: 'Fills in full at your limit now or not at all' },
+  { value: 'post_only', label: 'Post only', description: 'Rejected if it would cross, so it only ever adds liquidity' },
+  { value: 'gtd', label: 'Good till date', description: 'Rests like GTC and expires at the time you choose' },
+];
+
 export const TradingForm = React.memo<TradingFormProps>(({
   selectedAsset,
   onTradeExecuted
 }) => {
   const [tradeType, setTradeType] = useState<TradeType>('buy');
+  const [orderType, setOrderType] = useState<OrderType>('market');
   const [quantity, setQuantity] = useState<string>('');
+  const [limitPrice, setLimitPrice] = useState<string>('');
+  const [stopLoss, setStopLoss] = useState<string>('');
+  const [takeProfit, setTakeProfit] = useState<string>('');
+  const [trailingMode, setTrailingMode] = useState<TrailingStop['mode']>('percent');
+  const [trailingDistance, setTrailingDistance] = useState<string>('');
+  const [linkedExits, setLinkedExits] = useState(false);
+  const [leverage, setLeverage] = useState<number>(1);
+  const [marginMode, setMarginMode] = useState<MarginMode>('cross');
+  const [slippageTolerance, setSlippageTolerance] = useState<string>('0.5');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('gtc');
+  const [expiresAt, setExpiresAt] = useState<string>('');
+  const [algorithm, setAlgorithm] = useState<ExecutionAlgorithm | 'none'>('none');
+  const [twapMinutes, setTwapMinutes] = useState<string>('10');
+  const [twapSlices, setTwapSlices] = useState<string>('10');
+  const [icebergClip, setIcebergClip] = useState<string>('');
   const [isExecuting, setIsExecuting] = useState(false);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [livePrice, setLivePrice] = useState<number>(selectedAsset.price);
 
-  const { getActivePortfolio, executeTrade } = usePortfolioStore();
+  const { getActivePortfolio, tryExecuteTrade, checkTradeRisk, setPositionExits, setTrailingStop } = usePortfolioStore();
+  const orders = usePositionStore((state) => state.orders);
+  const addOrder = usePositionStore((state) => state.addOrder);
+  const addBracketOrder = usePositionStore((state) => state.addBracketOrder);
+  const addOcoOrder = usePositionStore((state) => state.addOcoOrder);
+  const addClosedOrder = usePositionStore((state) => state.addClosedOrder);
+  const addAlgoOrder = usePositionStore((state) => state.addAlgoOrder);
   const { getPrice } = usePrices();
+  const assetInfo = useAssetInfo(selectedAsset.symbol);
+  const orderBook = useOrderBook(selectedAsset.symbol);
 
   const activePortfolio = getActivePortfolio();
   const quantityNum = parseFloat(quantity) || 0;
-  const totalValue = quantityNum * livePrice;
+  const limitPriceNum = parseFloat(limitPrice) || 0;
+
+  // Venue lot and tick rules; off-grid inputs get an inline correction
+  const sizeStep = assetInfo ? getSizeStep(assetInfo.szDecimals) : 0.01;
+  const correctedQuantity = assetInfo && quantityNum > 0 ? roundSize(quantityNum, assetInfo.szDecimals) : quantityNum;
+  const correctedLimitPrice = assetInfo && limitPriceNum > 0 ? roundPrice(limitPriceNum, assetInfo.szDecimals) : limitPriceNum;
+
+  // Market orders walk the live book; until a snapshot arrives they fill at the mid
+  const simulatedFill = orderType === 'market' && orderBook && quantityNum > 0
+    ? simulateMarketFill(orderBook, tradeType, quantityNum)
+    : null;
+  const slippageToleranceNum = parseFloat(slippageTolerance) || 0;
+  const slippage = simulatedFill
+    ? checkSlippage(simulatedFill.midPrice, simulatedFill.averagePrice, slippageToleranceNum)
+    : null;
+  const marketFillPrice = simulatedFill?.averagePrice ?? livePrice;
+  const orderPrice = orderType === 'limit' ? limitPriceNum : marketFillPrice;
+  const totalValue = quantityNum * orderPrice;
+
+  // Find existing position for this asset
+  const existingPosition = activePortfolio?.positions.find(
+    pos => pos.symbol === selectedAsset.symbol
+  );
+
+  // Trading against the current position reduces it; otherwise the trade opens or adds
+  const openingType = tradeType === 'buy' ? 'long' : 'short';
+  const isReducing = !!existingPosition && existingPosition.type !== openingType;
+
+  // Leverage is capped per asset; isolated-only assets can't use cross margin
+  const maxLeverage = assetInfo?.maxLeverage ?? 1;
+  const marginSettings = getMarginSettings(leverage, marginMode, assetInfo);
+  const requiredMargin = calculateInitialMargin(totalValue, marginSettings.leverage);
+
+  // TWAP works a market order in timed slices; iceberg works a limit order in visible clips
+  const activeAlgorithm = algorithm === 'twap' && orderType === 'market' ? 'twap'
+    : algorithm === 'iceberg' && orderType === 'limit' ? 'iceberg'
+      : null;
+  const twapDurationMs = (parseFloat(twapMinutes) || 0) * 60 * 1000;
+  const twapSliceCount = parseInt(twapSlices) || 0;
+  const icebergClipNum = parseFloat(icebergClip) || 0;
+
+  // Market, IOC and FOK orders take liquidity, as do limit orders that cross the mid when
+  // placed; resting limit orders pay the maker rate
+  const expiresAtTime = timeInForce === 'gtd' && expiresAt ? new Date(expiresAt).getTime() : undefined;
+  const isImmediate = orderType === 'limit' && !activeAlgorithm && isImmediateOrder({ timeInForce });
+  const restingLiquidity = getPlacementLiquidity({ type: 'limit', side: tradeType, price: limitPriceNum }, livePrice);
+  const liquidity = orderType === 'limit' && !isImmediate ? restingLiquidity : 'taker';
+  const { fee: estimatedFee, rate: feeRate } = activePortfolio
+    ? calculateTradeFee(activePortfolio, totalValue, liquidity)
+    : { fee: 0, rate: 0 };
+
+  // Protective exits can only be attached when opening or adding to a position in one go
+  const entryExits = !isReducing && !activeAlgorithm
+    ? {
+      stopLoss: parseFloat(stopLoss) || undefined,
+      takeProfit: parseFloat(takeProfit) || undefined,
+    }
+    : {};
+  const hasEntryExits = entryExits.stopLoss !== undefined || entryExits.takeProfit !== undefined;
+  // Linked exits rest as an OCO pair of orders instead of levels on the position
+  const placeLinkedExits = linkedExits && hasEntryExits;
+  const trailingDistanceNum = parseFloat(trailingDistance) || 0;
+  const entryTrailingStop = !isReducing && !activeAlgorithm && trailingDistanceNum > 0
+    ? { mode: trailingMode, distance: trailingDistanceNum }
+    : undefined;
+
+  // Cash and holdings net of what resting limit orders have reserved
+  const availableBalance = activePortfolio ? getAvailableBalance(activePortfolio, orders) : 0;
+  const availableQuantity = activePortfolio
+    ? getAvailableQuantity(activePortfolio, orders, selectedAsset.symbol)
+    : 0;
 
   // Subscribe to live price updates for this specific asset
   const handlePriceUpdate = useCallback((newPrice: number | null) => {
@@ -47,11 +170,6 @@ export const TradingForm = React.memo<TradingFormProps>(({
     }
   }, [selectedAsset.symbol, getPrice]);
 
-  // Find existing position for this asset
-  const existingPosition = activePortfolio?.positions.find(
-    pos => pos.symbol === selectedAsset.symbol
-  );
-
   // Clear messages after 3 seconds
   useEffect(() => {
     if (error || success) {
@@ -65,25 +183,121 @@ export const TradingForm = React.memo<TradingFormProps>(({
 
   const validateTrade = (): string | null => {
     if (!activePortfolio) return 'No active portfolio selected';
+    if (!isOnPriceFeed(activePortfolio.id)) {
+      return isReplayActive()
+        ? 'Switch to the replay portfolio to trade during replay'
+        : 'Replay portfolios only trade during replay';
+    }
     if (!quantity || quantityNum <= 0) return 'Please enter a valid quantity';
+
+    if (!isReducing && orderPrice > 0) {
+      const exitsError = validatePositionExits(openingType, orderPrice, entryExits) ||
+        validateExitRules(selectedAsset.symbol, entryExits, assetInfo) ||
+        (entryTrailingStop
+          ? validateTrailingStop(entryTrailingStop.mode, entryTrailingStop.distance, orderPrice)
+          : null);
+      if (exitsError) return exitsError;
+    }
+
+    if (orderPrice > 0) {
+      const rulesError = validateOrderRules({
+        symbol: selectedAsset.symbol,
+        type: orderType,
+        quantity: quantityNum,
+        price: orderPrice,
+        reduceOnly: isReducing,
+      }, assetInfo);
+      if (rulesError) return rulesError;
+
+      const riskError = checkTradeRisk({
+        symbol: selectedAsset.symbol,
+        type: tradeType,
+        quantity: quantityNum,
+        price: orderPrice,
+        portfolioId: activePortfolio.id,
+      });
+      if (riskError) return riskError;
+    }
+
+    if (activeAlgorithm) {
+      const algoError = validateAlgoOrder(activeAlgorithm, {
+        quantity: quantityNum,
+        price: orderPrice,
+        szDecimals: assetInfo?.szDecimals,
+        durationMs: twapDurationMs,
+        sliceCount: twapSliceCount,
+        clipQuantity: icebergClipNum,
+      });
+      if (algoError) return algoError;
+    }
+
+    if (orderType === 'limit') {
+      const timeInForceError = activeAlgorithm ? null : validateTimeInForce(timeInForce, expiresAtTime);
+      if (timeInForceError) return timeInForceError;
+
+      return validateLimitOrder(activePortfolio, orders, {
+        symbol: selectedAsset.symbol,
+        side: tradeType,
+        quantity: quantityNum,
+        price: limitPriceNum,
+        reduceOnly: isReducing,
+        margin: marginSettings,
+      });
+    }
+
     if (!livePrice || livePrice <= 0) return 'Invalid price data';
 
-    if (tradeType === 'buy') {
-      if (totalValue > activePortfolio.balance) {
-        return `Insufficient funds. Available: ${formatCurrency(activePortfolio.balance)}`;
+    // TWAP slices are small against the book, so the full size needn't fit it now
+    if (!activeAlgorithm) {
+      if (simulatedFill && !simulatedFill.isComplete) {
+        return `Not enough book depth. Fillable now: ${simulatedFill.filledQuantity}`;
       }
-    } else if (tradeType === 'sell') {
-      if (!existingPosition) {
-        return `No ${selectedAsset.symbol} position to sell`;
+      if (slippage && !slippage.isAcceptable) {
+        return `Slippage ${slippage.slippagePercent.toFixed(2)}% exceeds your ${slippageToleranceNum}% tolerance`;
       }
-      if (quantityNum > existingPosition.quantity) {
-        return `Insufficient quantity. Available: ${existingPosition.quantity}`;
+    }
+
+    if (isReducing) {
+      if (quantityNum > availableQuantity) {
+        return `Insufficient quantity. Available: ${availableQuantity}`;
       }
+    } else if (requiredMargin + estimatedFee > availableBalance) {
+      return `Insufficient funds. Available: ${formatCurrency(availableBalance)}`;
     }
 
     return null;
   };
 
+  // Attach the form's exits to the position a fill just opened or added to
+  const attachEntryExits = (fillQuantity: number, fillPrice: number) => {
+    const position = usePortfolioStore.getState().getActivePortfolio()?.positions
+      .find(pos => pos.symbol === selectedAsset.symbol);
+    if (!position) return;
+
+    if (placeLinkedExits) {
+      addOcoOrder({
+        portfolioId: activePortfolio!.id,
+        symbol: selectedAsset.symbol,
+        side: tradeType === 'buy' ? 'sell' : 'buy',
+        quantity: fillQuantity,
+        positionId: position.id,
+      }, entryExits);
+    } else if (hasEntryExits) {
+      setPositionExits(position.id, entryExits);
+    }
+    if (entryTrailingStop) {
+      setTrailingStop(position.id, { ...entryTrailingStop, highWaterMark: fillPrice });
+    }
+  };
+
+  const resetForm = () => {
+    setQuantity('');
+    setLimitPrice('');
+    setStopLoss('');
+    setTakeProfit('');
+    setTrailingDistance('');
+  };
+
   const handleExecuteTrade = async () => {
     const validationError = validateTrade();
     if (validationError) {
@@ -95,21 +309,131 @@ export const TradingForm = React.memo<TradingFormProps>(({
     setError('');
 
     try {
-      const success = executeTrade({
+      if (activeAlgorithm) {
+        addAlgoOrder({
+          portfolioId: activePortfolio!.id,
+          symbol: selectedAsset.symbol,
+          side: tradeType,
+          algorithm: activeAlgorithm,
+          totalQuantity: quantityNum,
+          arrivalPrice: livePrice,
+          szDecimals: assetInfo?.szDecimals ?? 2,
+          reduceOnly: isReducing,
+          margin: isReducing ? undefined : marginSettings,
+          ...(activeAlgorithm === 'twap'
+            ? { durationMs: twapDurationMs, sliceCount: twapSliceCount }
+            : { limitPrice: limitPriceNum, clipQuantity: icebergClipNum }),
+        });
+
+        setSuccess(
+          `${tradeType.toUpperCase()} ${activeAlgorithm.toUpperCase()} started: ${quantity} ${selectedAsset.symbol}`
+        );
+        resetForm();
+        onTradeExecuted?.();
+        return;
+      }
+
+      if (orderType === 'limit') {
+        const entryOrder = {
+          portfolioId: activePortfolio!.id,
+          symbol: selectedAsset.symbol,
+          side: tradeType,
+          type: 'limit' as const,
+          quantity: quantityNum,
+          price: limitPriceNum,
+          trailingStop: entryTrailingStop,
+          reduceOnly: isReducing,
+          margin: isReducing ? undefined : marginSettings,
+          timeInForce,
+          expiresAt: expiresAtTime,
+          liquidity: restingLiquidity,
+        };
+
+        const postOnlyRejection = getPostOnlyRejection(entryOrder, livePrice);
+        if (postOnlyRejection) {
+          addClosedOrder(entryOrder, { status: 'rejected', statusReason: postOnlyRejection });
+          setError(postOnlyRejection);
+          return;
+        }
+
+        if (isImmediate) {
+          const result = resolveImmediateOrder(entryOrder, orderBook, livePrice);
+
+          if (result.filledQuantity > 0 && result.fillPrice !== undefined) {
+            const rejection = tryExecuteTrade({
+              symbol: selectedAsset.symbol,
+              type: tradeType,
+              quantity: result.filledQuantity,
+              price: result.fillPrice,
+              margin: isReducing ? undefined : marginSettings,
+              reduceOnly: isReducing,
+            });
+
+            if (rejection) {
+              addClosedOrder(entryOrder, { status: 'rejected', statusReason: rejection });
+              setError(rejection);
+              return;
+            }
+            attachEntryExits(result.filledQuantity, result.fillPrice);
+          }
+
+          addClosedOrder(entryOrder, {
+            status: result.status,
+            statusReason: result.reason,
+            filledAt: result.filledQuantity > 0 ? getCurrentTime() : undefined,
+            filledPrice: result.fillPrice,
+            filledQuantity: result.filledQuantity > 0 && result.filledQuantity < quantityNum
+              ? result.filledQuantity
+              : undefined,
+          });
+
+          if (result.filledQuantity > 0) {
+            setSuccess(
+              `${tradeType.toUpperCase()} ${timeInForce.toUpperCase()} order filled ${result.filledQuantity} ${selectedAsset.symbol} at ${formatCurrency(result.fillPrice ?? 0)}` +
+              (result.reason ? `. ${result.reason}` : '')
+            );
+            resetForm();
+            onTradeExecuted?.();
+          } else {
+            setError(result.reason ?? 'Order was not filled');
+          }
+          return;
+        }
+
+        if (placeLinkedExits) {
+          addBracketOrder(entryOrder, entryExits);
+        } else {
+          addOrder({ ...entryOrder, ...entryExits });
+        }
+
+        setSuccess(
+          `${tradeType.toUpperCase()} ${placeLinkedExits ? 'bracket' : 'limit'} order placed: ${quantity} ${selectedAsset.symbol} at ${formatCurrency(limitPriceNum)}`
+        );
+        resetForm();
+        onTradeExecuted?.();
+        return;
+      }
+
+      const rejection = tryExecuteTrade({
         symbol: selectedAsset.symbol,
         type: tradeType,
         quantity: quantityNum,
-        price: livePrice,
+        price: marketFillPrice,
+        margin: isReducing ? undefined : marginSettings,
+        reduceOnly: isReducing,
+        midPrice: simulatedFill?.midPrice,
       });
 
-      if (success) {
+      if (!rejection) {
+        attachEntryExits(quantityNum, marketFillPrice);
+
         setSuccess(
-          `${tradeType.toUpperCase()} order executed: ${quantity} ${selectedAsset.symbol} at ${formatCurrency(livePrice)}`
+          `${tradeType.toUpperCase()} order executed: ${quantity} ${selectedAsset.symbol} at ${formatCurrency(marketFillPrice)}`
         );
-        setQuantity('');
+        resetForm();
         onTradeExecuted?.();
       } else {
-        setError('Trade execution failed');
+        setError(rejection);
       }
     } catch (err) {
       setError('An error occurred while executing the trade');
@@ -122,11 +446,15 @@ export const TradingForm = React.memo<TradingFormProps>(({
   const getMaxQuantity = (): number => {
     if (!activePortfolio) return 0;
 
-    if (tradeType === 'buy') {
-      return Math.floor(activePortfolio.balance / livePrice * 100) / 100;
-    } else {
-      return existingPosition?.quantity || 0;
+    const szDecimals = assetInfo?.szDecimals ?? 2;
+
+    if (isReducing) {
+      return roundSize(Math.max(0, availableQuantity), szDecimals);
     }
+
+    if (!orderPrice) return 0;
+    const costPerUnit = orderPrice / marginSettings.leverage + orderPrice * feeRate;
+    return roundSize(availableBalance / costPerUnit, szDecimals);
   };
 
   const handleMaxClick = () => {
@@ -171,14 +499,15 @@ export const TradingForm = React.memo<TradingFormProps>(({
         <div className="flex justify-between items-center">
           <span className="text-text-secondary">Available Balance:</span>
           <span className="text-green-400 font-mono">
-            {formatCurrency(activePortfolio.balance)}
+            {formatCurrency(availableBalance)}
           </span>
         </div>
         {existingPosition && (
           <div className="flex justify-between items-center mt-2">
             <span className="text-text-secondary">Current Position:</span>
             <span className="text-blue-400 font-mono">
-              {existingPosition.quantity} {selectedAsset.symbol}
+              {existingPosition.type.toUpperCase()} {existingPosition.quantity} {selectedAsset.symbol}
+              {existingPosition.leverage > 1 && ` @ ${existingPosition.leverage.toFixed(1)}x`}
             </span>
           </div>
         )}
@@ -205,17 +534,222 @@ export const TradingForm = React.memo<TradingFormProps>(({
           Sell
         </button>
       </div>
+      <p className="-mt-2 mb-4 text-xs text-text-secondary">
+        {isReducing
+          ? `Reduces your ${existingPosition!.type} position`
+          : `Opens or adds to a ${openingType} position`}
+      </p>
+
+      {/* Leverage */}
+      {!isReducing && (
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-text-secondary">
+              Leverage
+            </label>
+            <span className="font-mono text-sm text-text-primary">
+              {marginSettings.leverage}x
+              <span className="text-text-secondary"> / {maxLeverage}x max</span>
+            </span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max={maxLeverage}
+            step="1"
+            value={marginSettings.leverage}
+            onChange={(e) => setLeverage(parseInt(e.target.value, 10))}
+            disabled={maxLeverage <= 1}
+            className="w-full accent-primary-500"
+          />
+          <div className="flex mt-2">
+            {(['cross', 'isolated'] as const).map((mode, index) => (
+              <button
+                key={mode}
+                onClick={() => setMarginMode(mode)}
+                disabled={mode === 'cross' && assetInfo?.onlyIsolated}
+                className={`flex-1 py-1 px-3 text-xs font-medium transition-colors border border-border-primary disabled:opacity-50 ${index === 0 ? 'rounded-l-md' : 'rounded-r-md border-l-0'
+                  } ${marginSettings.mode === mode
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-surface text-text-secondary hover:text-text-primary hover:bg-surface-hover'
+                  }`}
+              >
+                {mode === 'cross' ? 'Cross' : 'Isolated'}
+              </button>
+            ))}
+          </div>
+          {assetInfo?.onlyIsolated && (
+            <p className="mt-1 text-xs text-text-secondary">
+              {selectedAsset.symbol} trades on isolated margin only
+            </p>
+          )}
+        </div>
+      )}
 
-      {/* Order Type (Market only for now) */}
+      {/* Order Type */}
       <div className="mb-4">
         <label className="block text-sm font-medium text-text-secondary mb-2">
           Order Type
         </label>
-        <div className="bg-surface border border-border-primary rounded-md p-2 text-center text-text-secondary">
-          Market Order (Immediate Execution)
+        <div className="flex">
+          <button
+            onClick={() => setOrderType('market')}
+            className={`flex-1 py-2 px-4 rounded-l-md text-sm font-medium transition-colors border border-border-primary ${orderType === 'market'
+              ? 'bg-primary-600 text-white'
+              : 'bg-surface text-text-secondary hover:text-text-primary hover:bg-surface-hover'
+              }`}
+          >
+            Market
+          </button>
+          <button
+            onClick={() => {
+              setOrderType('limit');
+              if (!limitPrice) setLimitPrice(livePrice.toString());
+            }}
+            className={`flex-1 py-2 px-4 rounded-r-md text-sm font-medium transition-colors border border-l-0 border-border-primary ${orderType === 'limit'
+              ? 'bg-primary-600 text-white'
+              : 'bg-surface text-text-secondary hover:text-text-primary hover:bg-surface-hover'
+              }`}
+          >
+            Limit
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-text-secondary">
+          {activeAlgorithm === 'twap'
+            ? 'Even market slices spread across the duration'
+            : activeAlgorithm === 'iceberg'
+              ? 'Rests one visible clip at a time until the full size fills'
+              : orderType === 'market'
+                ? 'Immediate execution at the live price'
+                : TIME_IN_FORCE_OPTIONS.find(option => option.value === timeInForce)?.description}
+        </p>
+      </div>
+
+      {/* Execution Algorithm */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-text-secondary mb-2">
+          Execution
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={activeAlgorithm ?? 'none'}
+            onChange={(e) => setAlgorithm(e.target.value as ExecutionAlgorithm | 'none')}
+            className={`${activeAlgorithm ? '' : 'col-span-2 '}bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500`}
+          >
+            <option value="none">{orderType === 'market' ? 'Single fill' : 'Single order'}</option>
+            {orderType === 'market'
+              ? <option value="twap">TWAP</option>
+              : <option value="iceberg">Iceberg</option>}
+          </select>
+          {activeAlgorithm === 'twap' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                value={twapMinutes}
+                onChange={(e) => setTwapMinutes(e.target.value)}
+                placeholder="Minutes"
+                title="Duration (minutes)"
+                min="0"
+                step="any"
+                className="min-w-0 bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+              <input
+                type="number"
+                value={twapSlices}
+                onChange={(e) => setTwapSlices(e.target.value)}
+                placeholder="Slices"
+                title="Number of slices"
+                min="2"
+                step="1"
+                className="min-w-0 bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          )}
+          {activeAlgorithm === 'iceberg' && (
+            <input
+              type="number"
+              value={icebergClip}
+              onChange={(e) => setIcebergClip(e.target.value)}
+              placeholder="Visible size"
+              min="0"
+              step={sizeStep}
+              className="bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          )}
         </div>
       </div>
 
+      {/* Slippage Tolerance */}
+      {orderType === 'market' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-secondary mb-2">
+            Slippage Tolerance (%)
+          </label>
+          <input
+            type="number"
+            value={slippageTolerance}
+            onChange={(e) => setSlippageTolerance(e.target.value)}
+            placeholder="0.5"
+            min="0"
+            step="0.1"
+            className="w-full bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      )}
+
+      {/* Limit Price Input */}
+      {orderType === 'limit' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-secondary mb-2">
+            Limit Price
+          </label>
+          <input
+            type="number"
+            value={limitPrice}
+            onChange={(e) => setLimitPrice(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="any"
+            className="w-full bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          {correctedLimitPrice !== limitPriceNum && (
+            <button
+              onClick={() => setLimitPrice(correctedLimitPrice.toString())}
+              className="mt-1 text-xs text-amber-400 hover:text-amber-300 transition-colors"
+            >
+              Off-tick price. Use {correctedLimitPrice}
+            </button>
+          )}
+
+          {!activeAlgorithm && (
+            <div className="mt-3">
+              <label className="block text-sm font-medium text-text-secondary mb-2">
+                Time in Force
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={timeInForce}
+                  onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                  className={`${timeInForce === 'gtd' ? '' : 'col-span-2 '}bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500`}
+                >
+                  {TIME_IN_FORCE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {timeInForce === 'gtd' && (
+                  <input
+                    type="datetime-local"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                    className="bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Quantity Input */}
       <div className="mb-4">
         <label className="block text-sm font-medium text-text-secondary mb-2">
@@ -228,7 +762,7 @@ export const TradingForm = React.memo<TradingFormProps>(({
             onChange={(e) => setQuantity(e.target.value)}
             placeholder="0.00"
             min="0"
-            step="0.01"
+            step={sizeStep}
             className="flex-1 bg-background border border-border-primary rounded-l-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
           />
           <button
@@ -238,6 +772,14 @@ export const TradingForm = React.memo<TradingFormProps>(({
             Max
           </button>
         </div>
+        {correctedQuantity !== quantityNum && (
+          <button
+            onClick={() => setQuantity(correctedQuantity.toString())}
+            className="mt-1 text-xs text-amber-400 hover:text-amber-300 transition-colors"
+          >
+            {selectedAsset.symbol} trades in steps of {sizeStep}. Use {correctedQuantity}
+          </button>
+        )}
         {quantityNum > 0 && (
           <div className="mt-2 text-sm">
             <div className="flex items-center justify-between">
@@ -249,10 +791,106 @@ export const TradingForm = React.memo<TradingFormProps>(({
                 <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" title="Live pricing"></div>
               </div>
             </div>
+            {!isReducing && (
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-text-secondary">Margin required:</span>
+                <span className="font-mono text-text-primary">
+                  {formatCurrency(requiredMargin)}
+                </span>
+              </div>
+            )}
+            {orderType === 'market' && (
+              <>
+                <div className="flex items-center justify-between mt-1">
+                  <span className="text-text-secondary">Est. fill price:</span>
+                  <span className="font-mono text-text-primary">
+                    {simulatedFill
+                      ? formatCurrency(simulatedFill.averagePrice, 'USD', simulatedFill.averagePrice > 1 ? 2 : 6)
+                      : 'Mid (no order book yet)'}
+                  </span>
+                </div>
+                {slippage && (
+                  <div className="flex items-center justify-between mt-1">
+                    <span className="text-text-secondary">Slippage vs mid:</span>
+                    <span className={`font-mono ${!slippage.isAcceptable
+                      ? 'text-red-400'
+                      : slippage.slippagePercent > slippageToleranceNum / 2
+                        ? 'text-amber-400'
+                        : 'text-text-primary'
+                      }`}>
+                      {slippage.slippagePercent.toFixed(3)}% ({formatCurrency(slippage.slippageAmount * quantityNum)})
+                    </span>
+                  </div>
+                )}
+              </>
+            )}
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-text-secondary">
+                Est. fee ({liquidity}, {(feeRate * 100).toFixed(3)}%):
+              </span>
+              <span className="font-mono text-text-primary">
+                {formatCurrency(estimatedFee)}
+              </span>
+            </div>
           </div>
         )}
       </div>
 
+      {/* Protective Exits */}
+      {!isReducing && !activeAlgorithm && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-secondary mb-2">
+            Protective Exits (optional)
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              value={stopLoss}
+              onChange={(e) => setStopLoss(e.target.value)}
+              placeholder="Stop-loss"
+              min="0"
+              step="any"
+              className="bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            />
+            <input
+              type="number"
+              value={takeProfit}
+              onChange={(e) => setTakeProfit(e.target.value)}
+              placeholder="Take-profit"
+              min="0"
+              step="any"
+              className="bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            />
+            <select
+              value={trailingMode}
+              onChange={(e) => setTrailingMode(e.target.value as TrailingStop['mode'])}
+              className="bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            >
+              <option value="percent">Trailing stop (%)</option>
+              <option value="absolute">Trailing stop ($)</option>
+            </select>
+            <input
+              type="number"
+              value={trailingDistance}
+              onChange={(e) => setTrailingDistance(e.target.value)}
+              placeholder={trailingMode === 'percent' ? 'Trail percent' : 'Trail distance'}
+              min="0"
+              step="any"
+              className="bg-background border border-border-primary rounded-md px-3 py-2 text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            />
+          </div>
+          <label className="mt-2 flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={linkedExits}
+              onChange={(e) => setLinkedExits(e.target.checked)}
+              className="accent-primary-500"
+            />
+            Place stop-loss and take-profit as linked OCO orders
+          </label>
+        </div>
+      )}
+
       {/* Error/Success Messages */}
       {error && (
         <div className="mb-4 p-3 bg-red-900 border border-red-600 rounded-md text-red-200 text-sm">
@@ -277,7 +915,9 @@ export const TradingForm = React.memo<TradingFormProps>(({
       >
         {isExecuting
           ? 'Executing...'
-          : `${tradeType.toUpperCase()} ${selectedAsset.symbol}`
+          : orderType === 'limit'
+            ? `PLACE ${tradeType.toUpperCase()} LIMIT`
+            : `${tradeType.toUpperCase()} ${selectedAsset.symbol}`
         }
       </button>
 
@@ -286,7 +926,10 @@ export const TradingForm = React.memo<TradingFormProps>(({
         <div className="mt-4 p-3 bg-surface border border-border-primary rounded-md text-sm">
           <div className="text-text-secondary mb-2">Order Summary:</div>
           <div className="flex justify-between text-text-primary">
-            <span>{tradeType.toUpperCase()} {quantity} {selectedAsset.symbol}</span>
+            <span>
+              {tradeType.toUpperCase()} {quantity} {selectedAsset.symbol}
+              {orderType === 'limit' && ` @ ${formatCurrency(limitPriceNum)}`}
+            </span>
             <span>{formatCurrency(totalValue)}</span>
           </div>
         </div>
@@ -4,6 +4,7 @@ import { Trophy, Target, TrendingUp, TrendingDown, BarChart3, DollarSign } from
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { usePrices } from '@/hooks/usePriceContext';
 import { calculateTradingStatistics } from '@/utils/portfolioAnalytics';
+import { getPortfolioFeeTier } from '@/utils/fees';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 
@@ -31,6 +32,7 @@ export const TradingStatistics: React.FC = () => {
     });
 
     const stats = calculateTradingStatistics(activePortfolio);
+    const feeTier = getPortfolioFeeTier(activePortfolio);
 
     const statisticsItems = [
         {
@@ -115,6 +117,16 @@ export const TradingStatistics: React.FC = () => {
                         <span className="text-text-secondary">Average Loss</span>
                         <span className="text-loss font-medium">{formatCurrency(-stats.averageLoss)}</span>
                     </div>
+                    <div className="flex justify-between text-sm">
+                        <span className="text-text-secondary">Fees Paid</span>
+                        <span className="text-loss font-medium">{formatCurrency(-stats.totalFees)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                        <span className="text-text-secondary">Fee Tier ({activePortfolio.feeSchedule.name})</span>
+                        <span className="text-text-primary font-medium">
+                            {formatPercentage(feeTier.makerRate * 100, 3, false)} maker / {formatPercentage(feeTier.takerRate * 100, 3, false)} taker
+                        </span>
+                    </div>
                 </div>
             </CardContent>
         </Card>
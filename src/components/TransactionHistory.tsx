@@ -1,23 +1,25 @@
 import React, { useState, useMemo, useEffect, useRef, useContext } from 'react';
-import { ChevronUp, ChevronDown, Calendar, TrendingUp, TrendingDown, Hash, DollarSign, Target, Search } from 'lucide-react';
+import { ChevronUp, ChevronDown, Calendar, TrendingUp, TrendingDown, Hash, DollarSign, Target, Search, Receipt, ArrowLeftRight } from 'lucide-react';
 import { usePortfolioStore } from '@/state/portfolioStore';
 import { usePrices } from '@/hooks/usePriceContext';
 import { PriceContext } from '@/context/PriceContext';
 import { Dropdown } from '@/components/ui/Dropdown';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
+import { getTotalFees } from '@/utils/fees';
+import { formatHoldingPeriod } from '@/utils/taxLots';
 import { LivePriceValue } from '@/components/LivePriceValue';
 import type { Transaction } from '@/state/portfolioStore';
 
 interface TransactionWithMetrics extends Transaction {
   currentPrice?: number;
   currentValue?: number;
-  realizedPnL?: number;
-  realizedPnLPercent?: number;
+  unrealizedPnL?: number; // What an opening buy would have made since
+  unrealizedPnLPercent?: number;
   total: number; // Add missing property
 }
 
 type SortField = keyof TransactionWithMetrics;
-type FilterType = 'all' | 'buy' | 'sell';
+type FilterType = 'all' | 'buy' | 'sell' | 'liquidation';
 
 export const TransactionHistory = React.memo(() => {
   const [sortField, setSortField] = useState<SortField>('timestamp');
@@ -54,14 +56,12 @@ export const TransactionHistory = React.memo(() => {
         total
       };
 
-      if (currentPrice && transaction.type === 'buy') {
-        // For buy transactions, show what the position would be worth now
+      if (currentPrice && transaction.type === 'buy' && transaction.realizedPnL === undefined) {
+        // For opening buys, show what the position would be worth now
         metrics.currentPrice = currentPrice;
         metrics.currentValue = transaction.quantity * currentPrice;
-        metrics.realizedPnL = metrics.currentValue - total;
-        metrics.realizedPnLPercent = (metrics.realizedPnL / total) * 100;
-      } else if (transaction.type === 'sell') {
-        metrics.realizedPnL = 0;
+        metrics.unrealizedPnL = metrics.currentValue - total;
+        metrics.unrealizedPnLPercent = (metrics.unrealizedPnL / total) * 100;
       }
 
       return metrics;
@@ -73,7 +73,9 @@ export const TransactionHistory = React.memo(() => {
     let filtered = transactionsWithMetrics;
 
     // Filter by type
-    if (filterType !== 'all') {
+    if (filterType === 'liquidation') {
+      filtered = filtered.filter(tx => tx.liquidation);
+    } else if (filterType !== 'all') {
       filtered = filtered.filter(tx => tx.type === filterType);
     }
 
@@ -82,7 +84,8 @@ export const TransactionHistory = React.memo(() => {
       const term = searchTerm.toLowerCase();
       filtered = filtered.filter(tx =>
         tx.symbol.toLowerCase().includes(term) ||
-        tx.type.toLowerCase().includes(term)
+        tx.type.toLowerCase().includes(term) ||
+        (!!tx.liquidation && 'liquidation'.includes(term))
       );
     }
 
@@ -147,6 +150,8 @@ export const TransactionHistory = React.memo(() => {
   const buyTransactions = sortedTransactions.filter(tx => tx.type === 'buy').length;
   const sellTransactions = sortedTransactions.filter(tx => tx.type === 'sell').length;
   const totalVolume = sortedTransactions.reduce((sum, tx) => sum + tx.total, 0);
+  const totalFees = getTotalFees(sortedTransactions);
+  const transfers = [...(activePortfolio?.transfers ?? [])].sort((a, b) => b.timestamp - a.timestamp);
 
   if (!activePortfolio) {
     return (
@@ -161,7 +166,7 @@ export const TransactionHistory = React.memo(() => {
   }
 
   // Show empty state only if there are no transactions at all (not due to filtering)
-  if (!transactionsWithMetrics.length) {
+  if (!transactionsWithMetrics.length && !transfers.length) {
     return (
       <div className="bg-surface border border-border-primary rounded-lg p-8 text-center">
         <div className="text-4xl mb-4">📋</div>
@@ -180,7 +185,7 @@ export const TransactionHistory = React.memo(() => {
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 gap-2 sm:gap-0">
           <h2 className="text-lg sm:text-xl font-bold text-text-primary">Transaction History</h2>
           <div className="text-xs sm:text-sm text-text-secondary break-words">
-            {totalTransactions} transactions • {formatCurrency(totalVolume)} total volume
+            {totalTransactions} transactions • {formatCurrency(totalVolume)} total volume • {formatCurrency(totalFees)} fees
           </div>
         </div>
 
@@ -229,7 +234,8 @@ export const TransactionHistory = React.memo(() => {
               options={[
                 { value: 'all', label: 'All Types' },
                 { value: 'buy', label: 'Buy Only' },
-                { value: 'sell', label: 'Sell Only' }
+                { value: 'sell', label: 'Sell Only' },
+                { value: 'liquidation', label: 'Liquidations' }
               ]}
               value={filterType}
               onChange={(value) => setFilterType(value as FilterType)}
@@ -304,6 +310,16 @@ export const TransactionHistory = React.memo(() => {
                   <span className="ml-1">{getSortIcon('total')}</span>
                 </div>
               </th>
+              <th
+                className="text-right p-2 sm:p-3 text-text-secondary cursor-pointer hover:bg-surface-hover text-xs sm:text-sm"
+                onClick={() => handleSort('fee')}
+              >
+                <div className="flex items-center justify-end gap-1">
+                  <Receipt className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span>Fee</span>
+                  <span className="ml-1">{getSortIcon('fee')}</span>
+                </div>
+              </th>
               <th className="text-right p-2 sm:p-3 text-text-secondary text-xs sm:text-sm">
                 Current Value
               </th>
@@ -315,7 +331,7 @@ export const TransactionHistory = React.memo(() => {
           <tbody>
             {sortedTransactions.length === 0 ? (
               <tr>
-                <td colSpan={8} className="p-8 text-center">
+                <td colSpan={9} className="p-8 text-center">
                   <div className="text-4xl mb-4">🔍</div>
                   <h3 className="text-lg font-semibold mb-2 text-text-primary">No Matching Transactions</h3>
                   <p className="text-text-secondary">
@@ -338,6 +354,14 @@ export const TransactionHistory = React.memo(() => {
                       <span className={`font-semibold ${getTypeColor(transaction.type)}`}>
                         {transaction.type.toUpperCase()}
                       </span>
+                      {transaction.liquidation && (
+                        <span
+                          className="text-xs font-semibold px-1.5 py-0.5 rounded bg-red-900/40 text-red-300"
+                          title={`Liquidation penalty: ${formatCurrency(transaction.liquidation.penalty)}`}
+                        >
+                          LIQUIDATED −{formatCurrency(transaction.liquidation.penalty)}
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="p-3 text-text-primary font-semibold">
@@ -352,8 +376,17 @@ export const TransactionHistory = React.memo(() => {
                   <td className="p-3 text-right text-text-primary font-semibold">
                     {formatCurrency(transaction.total)}
                   </td>
+                  <td className="p-3 text-right">
+                    <div className="text-text-primary">{formatCurrency(transaction.fee)}</div>
+                    <div className="text-xs text-text-secondary">{transaction.liquidity.toUpperCase()}</div>
+                    {transaction.slippage !== undefined && (
+                      <div className="text-xs text-text-secondary" title="Paid against the book mid">
+                        Slippage {formatCurrency(transaction.slippage)}
+                      </div>
+                    )}
+                  </td>
                   <td className="p-3 text-right text-text-primary">
-                    {transaction.type === 'buy' ? (
+                    {transaction.type === 'buy' && transaction.realizedPnL === undefined ? (
                       <LivePriceValue
                         symbol={transaction.symbol}
                         quantity={transaction.quantity}
@@ -363,7 +396,16 @@ export const TransactionHistory = React.memo(() => {
                     ) : '-'}
                   </td>
                   <td className="p-3 text-right">
-                    {transaction.type === 'buy' ? (
+                    {transaction.realizedPnL !== undefined ? (
+                      <div>
+                        <div className={`font-mono font-semibold ${transaction.realizedPnL >= 0 ? 'text-profit' : 'text-loss'}`}>
+                          {formatCurrency(transaction.realizedPnL)}
+                        </div>
+                        <div className="text-xs text-text-secondary">
+                          Realized • held {formatHoldingPeriod(transaction.holdingPeriodMs ?? 0)}
+                        </div>
+                      </div>
+                    ) : transaction.type === 'buy' ? (
                       <LiveTransactionPnL
                         symbol={transaction.symbol}
                         quantity={transaction.quantity}
@@ -381,6 +423,48 @@ export const TransactionHistory = React.memo(() => {
         </table>
       </div>
 
+      {/* Transfers */}
+      {transfers.length > 0 && (
+        <div className="p-3 sm:p-4 border-t border-border-primary">
+          <h3 className="text-sm font-semibold text-text-primary mb-3 flex items-center gap-2">
+            <ArrowLeftRight className="w-4 h-4" />
+            Transfers
+          </h3>
+          <div className="space-y-2">
+            {transfers.map(transfer => (
+              <div key={transfer.id} className="flex items-center justify-between text-sm bg-surface-hover rounded p-2 sm:p-3">
+                <div>
+                  <div className="text-text-primary">
+                    <span className={`font-semibold ${transfer.direction === 'in' ? 'text-profit' : 'text-loss'}`}>
+                      {transfer.direction === 'in' ? 'IN' : 'OUT'}
+                    </span>
+                    {' '}
+                    {transfer.kind === 'position'
+                      ? `${transfer.quantity?.toLocaleString()} ${transfer.symbol} @ ${formatCurrency(transfer.entryPrice ?? 0)}`
+                      : 'Cash'}
+                    {' '}
+                    <span className="text-text-secondary">
+                      {transfer.direction === 'in' ? 'from' : 'to'} {transfer.counterpartyName}
+                    </span>
+                  </div>
+                  <div className="text-xs text-text-secondary">
+                    {formatDate(transfer.timestamp)}{transfer.note ? ` • ${transfer.note}` : ''}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className={`font-mono font-semibold ${transfer.direction === 'in' ? 'text-profit' : 'text-loss'}`}>
+                    {transfer.direction === 'in' ? '+' : '−'}{formatCurrency(transfer.amount)}
+                  </div>
+                  {transfer.kind === 'position' && (
+                    <div className="text-xs text-text-secondary">Margin at cost</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Footer */}
       <div className="p-4 border-t border-border-primary text-center text-sm text-text-secondary">
         Showing {sortedTransactions.length} of {totalTransactions} transactions
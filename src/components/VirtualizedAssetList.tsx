@@ -3,6 +3,10 @@ import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
 import { useOptimizedPriceStream } from '@/hooks/useOptimizedPriceStream';
 import { AssetDetailModal } from '@/components/AssetDetailModal';
+import { WatchlistBar } from '@/components/WatchlistBar';
+import { WatchlistMenu } from '@/components/WatchlistMenu';
+import { getActiveWatchlist, useWatchlistStore } from '@/state/watchlistStore';
+import { filterByWatchlist } from '@/utils/watchlists';
 import { formatCurrency, formatPercentage } from '@/utils/calculations';
 import type { CryptoAsset } from '@/types/trading';
 
@@ -30,10 +34,11 @@ export const VirtualizedAssetList = React.memo<VirtualizedAssetListProps>(({
 
     const containerRef = useRef<HTMLDivElement>(null);
     const { assetsWithPrices, isConnected, priceCount, connectionStatus } = useOptimizedPriceStream();
+    const activeWatchlist = useWatchlistStore(getActiveWatchlist);
 
     // Filter and search assets
     const filteredAssets = useMemo(() => {
-        let filtered = assetsWithPrices;
+        let filtered = filterByWatchlist(assetsWithPrices, activeWatchlist);
 
         // Apply search filter
         if (searchTerm) {
@@ -71,7 +76,7 @@ export const VirtualizedAssetList = React.memo<VirtualizedAssetListProps>(({
 
         // Apply maxItems limit
         return filtered.slice(0, maxItems);
-    }, [assetsWithPrices, searchTerm, sortBy, sortOrder, maxItems]);
+    }, [assetsWithPrices, activeWatchlist, searchTerm, sortBy, sortOrder, maxItems]);
 
     // Virtual scrolling calculations
     const visibleStart = Math.floor(scrollTop / ITEM_HEIGHT);
@@ -133,6 +138,10 @@ export const VirtualizedAssetList = React.memo<VirtualizedAssetListProps>(({
                     </div>
                 </div>
 
+                <div className="mb-4">
+                    <WatchlistBar />
+                </div>
+
                 {/* Search and controls */}
                 <div className="flex flex-col sm:flex-row gap-4 mb-4">
                     <div className="flex-1">
@@ -220,6 +229,7 @@ export const VirtualizedAssetList = React.memo<VirtualizedAssetListProps>(({
                                     </div>
 
                                     <div className="flex items-center gap-3">
+                                        <WatchlistMenu symbol={asset.symbol} />
                                         <div className="text-right">
                                             <div className="text-white font-semibold text-sm">
                                                 {formatCurrency(asset.price)}
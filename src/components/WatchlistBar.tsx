@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { getActiveWatchlist, useWatchlistStore } from '@/state/watchlistStore';
+import { validateWatchlistName } from '@/utils/watchlists';
+import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
+import { cn } from '@/utils/cn';
+
+type EditMode = { type: 'create' } | { type: 'rename'; id: string } | null;
+
+const iconButtonClass = 'p-1.5 rounded hover:bg-surface-hover text-text-secondary hover:text-text-primary disabled:opacity-40 disabled:hover:bg-transparent';
+
+// Tabs for choosing the watchlist an asset list shows, with controls to manage them
+export const WatchlistBar: React.FC = () => {
+    const watchlists = useWatchlistStore((state) => state.watchlists);
+    const activeWatchlistId = useWatchlistStore((state) => state.activeWatchlistId);
+    const activeWatchlist = useWatchlistStore(getActiveWatchlist);
+    const {
+        loadWatchlists,
+        createWatchlist,
+        renameWatchlist,
+        deleteWatchlist,
+        moveWatchlist,
+        setActiveWatchlist,
+    } = useWatchlistStore.getState();
+
+    const [editMode, setEditMode] = useState<EditMode>(null);
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    useEffect(() => {
+        loadWatchlists().catch(error => {
+            console.error('Failed to load watchlists:', error);
+        });
+    }, [loadWatchlists]);
+
+    const startEdit = (mode: EditMode, initialName = '') => {
+        setEditMode(mode);
+        setName(initialName);
+        setError(null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editMode) return;
+
+        const renamingId = editMode.type === 'rename' ? editMode.id : undefined;
+        const validationError = validateWatchlistName(name, watchlists, renamingId);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        if (renamingId) {
+            renameWatchlist(renamingId, name);
+        } else {
+            setActiveWatchlist(createWatchlist(name));
+        }
+        startEdit(null);
+    };
+
+    const activeIndex = watchlists.findIndex(w => w.id === activeWatchlistId);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-1">
+                {[{ id: null, name: 'All assets' }, ...watchlists].map(watchlist => (
+                    <button
+                        key={watchlist.id ?? 'all'}
+                        onClick={() => setActiveWatchlist(watchlist.id)}
+                        className={cn(
+                            'px-3 py-1 rounded-lg text-xs font-medium transition-colors',
+                            watchlist.id === activeWatchlistId
+                                ? 'bg-primary-600 text-white'
+                                : 'text-text-secondary hover:bg-surface-hover hover:text-text-primary'
+                        )}
+                    >
+                        {watchlist.name}
+                    </button>
+                ))}
+                <button onClick={() => startEdit({ type: 'create' })} className={iconButtonClass} title="New watchlist">
+                    <Plus className="w-4 h-4" />
+                </button>
+
+                {activeWatchlist && (
+                    <div className="ml-auto flex items-center gap-0.5">
+                        <button
+                            onClick={() => moveWatchlist(activeWatchlist.id, -1)}
+                            disabled={activeIndex <= 0}
+                            className={iconButtonClass}
+                            title="Move left"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => moveWatchlist(activeWatchlist.id, 1)}
+                            disabled={activeIndex === watchlists.length - 1}
+                            className={iconButtonClass}
+                            title="Move right"
+                        >
+                            <ChevronRight className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => startEdit({ type: 'rename', id: activeWatchlist.id }, activeWatchlist.name)}
+                            className={iconButtonClass}
+                            title="Rename watchlist"
+                        >
+                            <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setConfirmDelete(true)}
+                            className={iconButtonClass}
+                            title="Delete watchlist"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {editMode && (
+                <form onSubmit={handleSubmit} className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder={editMode.type === 'create' ? 'Watchlist name' : 'New name'}
+                        autoFocus
+                        className="flex-1 bg-background border border-border-primary rounded-lg px-3 py-1 text-sm text-text-primary focus:outline-none focus:border-primary-500"
+                    />
+                    <button type="submit" className={iconButtonClass} title="Save">
+                        <Check className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => startEdit(null)} className={iconButtonClass} title="Cancel">
+                        <X className="w-4 h-4" />
+                    </button>
+                </form>
+            )}
+            {error && <div className="text-xs text-red-400">{error}</div>}
+
+            <ConfirmationModal
+                isOpen={confirmDelete && !!activeWatchlist}
+                onClose={() => setConfirmDelete(false)}
+                onConfirm={() => activeWatchlist && deleteWatchlist(activeWatchlist.id)}
+                title="Delete Watchlist"
+                message={activeWatchlist ? `Delete the "${activeWatchlist.name}" watchlist?` : ''}
+                confirmText="Delete"
+                cancelText="Keep"
+                type="danger"
+                details={activeWatchlist ? [`Assets on the list: ${activeWatchlist.symbols.length}`] : []}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Plus, Star } from 'lucide-react';
+import { useWatchlistStore } from '@/state/watchlistStore';
+import { validateWatchlistName } from '@/utils/watchlists';
+import { cn } from '@/utils/cn';
+
+interface WatchlistMenuProps {
+    symbol: string;
+    showLabel?: boolean;
+    className?: string;
+}
+
+// Star button that adds or removes an asset from any watchlist
+export const WatchlistMenu: React.FC<WatchlistMenuProps> = ({ symbol, showLabel = false, className }) => {
+    const watchlists = useWatchlistStore((state) => state.watchlists);
+    const { createWatchlist, toggleSymbol } = useWatchlistStore.getState();
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    const isWatched = watchlists.some(w => w.symbols.includes(symbol));
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const validationError = validateWatchlistName(newName, watchlists);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        toggleSymbol(createWatchlist(newName), symbol);
+        setNewName('');
+        setError(null);
+    };
+
+    return (
+        <div ref={menuRef} className={cn('relative', className)} onClick={(e) => e.stopPropagation()}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-2 p-2 bg-surface hover:bg-surface-hover rounded-lg transition-colors border border-border-primary text-sm text-text-secondary"
+                title={isWatched ? 'On a watchlist' : 'Add to watchlist'}
+            >
+                <Star className={cn('w-4 h-4', isWatched && 'fill-yellow-400 text-yellow-400')} />
+                {showLabel && <span className="hidden sm:inline">Watchlists</span>}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 z-50 mt-1 w-56 bg-surface border border-border-primary rounded-lg shadow-lg p-2">
+                    {watchlists.length === 0 ? (
+                        <div className="px-2 py-1 text-xs text-text-secondary">No watchlists yet</div>
+                    ) : (
+                        watchlists.map(watchlist => {
+                            const isOnList = watchlist.symbols.includes(symbol);
+                            return (
+                                <button
+                                    key={watchlist.id}
+                                    onClick={() => toggleSymbol(watchlist.id, symbol)}
+                                    className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded text-left text-sm text-text-primary hover:bg-surface-hover"
+                                >
+                                    <span className="truncate">{watchlist.name}</span>
+                                    {isOnList && <Check className="w-4 h-4 text-primary-500" />}
+                                </button>
+                            );
+                        })
+                    )}
+
+                    <form onSubmit={handleCreate} className="mt-2 pt-2 border-t border-border-primary flex gap-1">
+                        <input
+                            type="text"
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="New watchlist"
+                            className="flex-1 min-w-0 bg-background border border-border-primary rounded px-2 py-1 text-xs text-text-primary focus:outline-none focus:border-primary-500"
+                        />
+                        <button type="submit" className="p-1 rounded hover:bg-surface-hover text-text-secondary" title="Create and add">
+                            <Plus className="w-4 h-4" />
+                        </button>
+                    </form>
+                    {error && <div className="mt-1 px-1 text-xs text-red-400">{error}</div>}
+                </div>
+            )}
+        </div>
+    );
+};
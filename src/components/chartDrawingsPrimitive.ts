@@ -0,0 +1,231 @@
+import type {
+    IChartApiBase,
+    IPrimitivePaneRenderer,
+    IPrimitivePaneView,
+    ISeriesApi,
+    ISeriesPrimitive,
+    Logical,
+    PrimitiveHoveredItem,
+    SeriesAttachedParameter,
+    SeriesType,
+    Time,
+} from 'lightweight-charts';
+import { getFibonacciLevels, hitTestShape, timeToLogical, DRAWING_HIT_TOLERANCE } from '@/utils/drawings';
+import type { DrawingShape, PixelPoint } from '@/utils/drawings';
+import type { ChartDrawing, ChartDrawingPoint } from '@/types/trading';
+
+type DrawTarget = Parameters<IPrimitivePaneRenderer['draw']>[0];
+
+interface PlacedDrawing {
+    drawing: ChartDrawing;
+    shape: DrawingShape;
+    labels: string[]; // Fibonacci level labels, matching shape.levels
+}
+
+const FONT = '12px sans-serif';
+const NOTE_CHAR_WIDTH = 7; // Close enough to measure notes for hit testing
+const HANDLE_SIZE = 6;
+
+/**
+ * Draws a symbol's chart drawings over the candle series and finds which
+ * drawing sits under the cursor. Drawings are placed by time, so they keep
+ * their spot whichever interval the candles use.
+ */
+export class ChartDrawingsPrimitive implements ISeriesPrimitive<Time> {
+    private chart: IChartApiBase<Time> | null = null;
+    private series: ISeriesApi<SeriesType, Time> | null = null;
+    private requestUpdate: (() => void) | null = null;
+
+    private times: number[] = [];
+    private drawings: ChartDrawing[] = [];
+    private preview: ChartDrawing | null = null; // A drawing being drawn or dragged
+    private selectedId: string | null = null;
+    private placed: PlacedDrawing[] = [];
+
+    private readonly paneView: IPrimitivePaneView = {
+        renderer: () => ({ draw: (target) => this.draw(target) }),
+    };
+
+    attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time, SeriesType>): void {
+        this.chart = chart;
+        this.series = series;
+        this.requestUpdate = requestUpdate;
+    }
+
+    detached(): void {
+        this.chart = null;
+        this.series = null;
+        this.requestUpdate = null;
+    }
+
+    setCandleTimes(times: number[]): void {
+        this.times = times;
+        this.requestUpdate?.();
+    }
+
+    setDrawings(drawings: ChartDrawing[], selectedId: string | null): void {
+        this.drawings = drawings;
+        this.selectedId = selectedId;
+        this.requestUpdate?.();
+    }
+
+    setPreview(preview: ChartDrawing | null): void {
+        this.preview = preview;
+        this.requestUpdate?.();
+    }
+
+    updateAllViews(): void {
+        const visible = this.preview
+            ? [...this.drawings.filter(d => d.id !== this.preview!.id), this.preview]
+            : this.drawings;
+        this.placed = visible
+            .map(drawing => this.place(drawing))
+            .filter((placed): placed is PlacedDrawing => placed !== null);
+    }
+
+    paneViews(): readonly IPrimitivePaneView[] {
+        return [this.paneView];
+    }
+
+    hitTest(x: number, y: number): PrimitiveHoveredItem | null {
+        const id = this.drawingAt(x, y);
+        return id ? { externalId: id, cursorStyle: 'move', zOrder: 'normal' } : null;
+    }
+
+    // Topmost drawing under a pixel
+    drawingAt(x: number, y: number): string | null {
+        for (let i = this.placed.length - 1; i >= 0; i--) {
+            if (hitTestShape(this.placed[i].shape, x, y)) return this.placed[i].drawing.id;
+        }
+        return null;
+    }
+
+    // Index of the selected drawing's point under a pixel, for dragging one end
+    handleAt(x: number, y: number): number | null {
+        const selected = this.placed.find(p => p.drawing.id === this.selectedId);
+        if (!selected || selected.shape.points.length < 2) return null;
+        const index = selected.shape.points.findIndex(point =>
+            Math.abs(point.x - x) <= DRAWING_HIT_TOLERANCE && Math.abs(point.y - y) <= DRAWING_HIT_TOLERANCE
+        );
+        return index === -1 ? null : index;
+    }
+
+    logicalAt(x: number): number | null {
+        return this.chart?.timeScale().coordinateToLogical(x) ?? null;
+    }
+
+    priceAt(y: number): number | null {
+        return this.series?.coordinateToPrice(y) ?? null;
+    }
+
+    // Time and price under a pixel
+    pointAt(x: number, y: number): ChartDrawingPoint | null {
+        const logical = this.logicalAt(x);
+        const price = this.priceAt(y);
+        if (logical === null || price === null || this.times.length < 2) return null;
+
+        const last = this.times.length - 1;
+        const time = logical <= last
+            ? this.times[Math.max(0, Math.round(logical))] // Snap to candles within the data
+            : Math.round(this.times[last] + (logical - last) * (this.times[last] - this.times[last - 1]));
+        return { time, price };
+    }
+
+    private toPixel(point: ChartDrawingPoint): PixelPoint | null {
+        const logical = timeToLogical(this.times, point.time);
+        if (logical === null || !this.chart || !this.series) return null;
+        const x = this.chart.timeScale().logicalToCoordinate(logical as Logical);
+        const y = this.series.priceToCoordinate(point.price);
+        return x === null || y === null ? null : { x, y };
+    }
+
+    private place(drawing: ChartDrawing): PlacedDrawing | null {
+        if (drawing.type === 'horizontal') {
+            const y = this.series?.priceToCoordinate(drawing.points[0].price);
+            return y == null ? null : { drawing, shape: { type: 'horizontal', points: [{ x: 0, y }] }, labels: [] };
+        }
+
+        const points = drawing.points.map(point => this.toPixel(point));
+        if (points.some(point => point === null)) return null;
+        const shape: DrawingShape = { type: drawing.type, points: points as PixelPoint[] };
+        let labels: string[] = [];
+
+        if (drawing.type === 'fibonacci') {
+            const levels = getFibonacciLevels(drawing.points[0], drawing.points[1]);
+            shape.levels = levels.map(level => this.series?.priceToCoordinate(level.price) ?? -Infinity);
+            labels = levels.map(level => `${(level.ratio * 100).toFixed(1)}% ${level.price.toFixed(2)}`);
+        } else if (drawing.type === 'text') {
+            shape.width = (drawing.text ?? '').length * NOTE_CHAR_WIDTH;
+        }
+        return { drawing, shape, labels };
+    }
+
+    private draw(target: DrawTarget): void {
+        target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+            ctx.font = FONT;
+            ctx.lineWidth = 1;
+
+            this.placed.forEach(({ drawing, shape, labels }) => {
+                const isSelected = drawing.id === this.selectedId;
+                const [a, b] = shape.points;
+
+                ctx.save();
+                ctx.strokeStyle = drawing.color;
+                ctx.fillStyle = drawing.color;
+                ctx.lineWidth = isSelected ? 2 : 1;
+                if (drawing === this.preview) ctx.globalAlpha = 0.7;
+
+                switch (shape.type) {
+                    case 'trendline':
+                        strokeLine(ctx, a, b);
+                        break;
+                    case 'horizontal':
+                        strokeLine(ctx, { x: 0, y: a.y }, { x: mediaSize.width, y: a.y });
+                        ctx.fillText(drawing.points[0].price.toFixed(2), 4, a.y - 4);
+                        break;
+                    case 'rectangle': {
+                        const x = Math.min(a.x, b.x);
+                        const y = Math.min(a.y, b.y);
+                        const width = Math.abs(b.x - a.x);
+                        const height = Math.abs(b.y - a.y);
+                        ctx.strokeRect(x, y, width, height);
+                        ctx.globalAlpha *= 0.15;
+                        ctx.fillRect(x, y, width, height);
+                        break;
+                    }
+                    case 'fibonacci': {
+                        const left = Math.min(a.x, b.x);
+                        const right = Math.max(a.x, b.x);
+                        (shape.levels ?? []).forEach((y, index) => {
+                            strokeLine(ctx, { x: left, y }, { x: right, y });
+                            ctx.fillText(labels[index], left + 4, y - 4);
+                        });
+                        ctx.setLineDash([4, 4]);
+                        strokeLine(ctx, a, b);
+                        break;
+                    }
+                    case 'text':
+                        ctx.textBaseline = 'middle';
+                        ctx.fillText(drawing.text ?? '', a.x, a.y);
+                        if (isSelected) ctx.strokeRect(a.x - 3, a.y - 9, (shape.width ?? 0) + 6, 18);
+                        break;
+                }
+
+                if (isSelected && shape.points.length > 1) {
+                    ctx.globalAlpha = 1;
+                    shape.points.forEach(point => {
+                        ctx.fillRect(point.x - HANDLE_SIZE / 2, point.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+                    });
+                }
+                ctx.restore();
+            });
+        });
+    }
+}
+
+function strokeLine(ctx: CanvasRenderingContext2D, from: PixelPoint, to: PixelPoint): void {
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+}
@@ -0,0 +1,112 @@
+import type {
+    IChartApiBase,
+    IPrimitivePaneRenderer,
+    IPrimitivePaneView,
+    ISeriesApi,
+    ISeriesPrimitive,
+    Logical,
+    SeriesAttachedParameter,
+    SeriesType,
+    Time,
+} from 'lightweight-charts';
+import { timeToLogical } from '@/utils/drawings';
+import { findFillAt, FILL_MARKER_SIZE } from '@/utils/fills';
+import type { ChartFill, PlacedFill } from '@/utils/fills';
+
+type DrawTarget = Parameters<IPrimitivePaneRenderer['draw']>[0];
+
+const BUY_COLOR = '#26a69a';
+const SELL_COLOR = '#ef5350';
+
+/**
+ * Marks fills on the candle series at the exact time and price they
+ * happened, between candles if need be. Buys point up at their price from
+ * below, sells down from above.
+ */
+export class ChartFillsPrimitive implements ISeriesPrimitive<Time> {
+    private chart: IChartApiBase<Time> | null = null;
+    private series: ISeriesApi<SeriesType, Time> | null = null;
+    private requestUpdate: (() => void) | null = null;
+
+    private times: number[] = [];
+    private fills: ChartFill[] = [];
+    private placed: PlacedFill[] = [];
+
+    private readonly paneView: IPrimitivePaneView = {
+        zOrder: () => 'top',
+        renderer: () => ({ draw: (target) => this.draw(target) }),
+    };
+
+    attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time, SeriesType>): void {
+        this.chart = chart;
+        this.series = series;
+        this.requestUpdate = requestUpdate;
+    }
+
+    detached(): void {
+        this.chart = null;
+        this.series = null;
+        this.requestUpdate = null;
+    }
+
+    setCandleTimes(times: number[]): void {
+        this.times = times;
+        this.requestUpdate?.();
+    }
+
+    setFills(fills: ChartFill[]): void {
+        this.fills = fills;
+        this.requestUpdate?.();
+    }
+
+    updateAllViews(): void {
+        const chart = this.chart;
+        const series = this.series;
+        if (!chart || !series) {
+            this.placed = [];
+            return;
+        }
+
+        this.placed = this.fills.flatMap(fill => {
+            const logical = timeToLogical(this.times, fill.time);
+            const x = logical === null ? null : chart.timeScale().logicalToCoordinate(logical as Logical);
+            const y = series.priceToCoordinate(fill.price);
+            return x === null || y === null ? [] : [{ fill, x, y }];
+        });
+    }
+
+    paneViews(): readonly IPrimitivePaneView[] {
+        return [this.paneView];
+    }
+
+    // Fill under a pixel, with where its marker points
+    fillAt(x: number, y: number): PlacedFill | null {
+        const fill = findFillAt(this.placed, x, y);
+        return this.placed.find(marker => marker.fill === fill) ?? null;
+    }
+
+    private draw(target: DrawTarget): void {
+        target.useMediaCoordinateSpace(({ context: ctx }) => {
+            const half = FILL_MARKER_SIZE * 0.6;
+
+            this.placed.forEach(({ fill, x, y }) => {
+                const base = fill.side === 'buy' ? y + FILL_MARKER_SIZE : y - FILL_MARKER_SIZE;
+
+                ctx.beginPath();
+                ctx.moveTo(x, y);
+                ctx.lineTo(x - half, base);
+                ctx.lineTo(x + half, base);
+                ctx.closePath();
+                ctx.fillStyle = fill.side === 'buy' ? BUY_COLOR : SELL_COLOR;
+                ctx.fill();
+
+                // Liquidations get an outline so forced exits stand out
+                if (fill.liquidation) {
+                    ctx.strokeStyle = '#f59e0b';
+                    ctx.lineWidth = 1.5;
+                    ctx.stroke();
+                }
+            });
+        });
+    }
+}
@@ -1,6 +1,10 @@
 import React, { createContext, useRef, useState, useEffect } from 'react';
 import { createHyperliquidWebSocketClient } from '@/services/hyperliquidWebSocket';
-import { PriceContextType } from '@/types/priceContext';
+import { createMarketReplayClient } from '@/services/marketReplay';
+import { isReplayActive, useReplayStore } from '@/state/replayStore';
+import type { ReplaySettings } from '@/state/replayStore';
+import { PriceContextType, ReplayControls } from '@/types/priceContext';
+import type { OrderBook } from '@/types/trading';
 
 const PriceContext = createContext<PriceContextType | null>(null);
 
@@ -10,8 +14,24 @@ export function PriceProvider({ children }: { children: React.ReactNode }) {
   const [isConnected, setIsConnected] = useState(false);
   const pricesRef = useRef<Record<string, number>>({});
   const wsClientRef = useRef(createHyperliquidWebSocketClient());
+  const replayClientRef = useRef(createMarketReplayClient());
   const subscribersRef = useRef<Set<(prices: Record<string, number>) => void>>(new Set());
 
+  // Live and replayed prices reach subscribers through the same path
+  const publishPrices = (newPrices: Record<string, number>) => {
+    // Update the prices reference
+    pricesRef.current = { ...pricesRef.current, ...newPrices };
+
+    // Notify all subscribers about price updates
+    subscribersRef.current.forEach(callback => {
+      try {
+        callback(newPrices);
+      } catch (error) {
+        console.error('Error in price update callback:', error);
+      }
+    });
+  };
+
   // Initialize WebSocket connection
   useEffect(() => {
     const wsClient = wsClientRef.current;
@@ -19,18 +39,9 @@ export function PriceProvider({ children }: { children: React.ReactNode }) {
     // Configure WebSocket callbacks
     wsClient.options = {
       onPriceUpdate: (newPrices: Record<string, number>) => {
-
-        // Update the prices reference
-        pricesRef.current = { ...pricesRef.current, ...newPrices };
-
-        // Notify all subscribers about price updates
-        subscribersRef.current.forEach(callback => {
-          try {
-            callback(newPrices);
-          } catch (error) {
-            console.error('Error in price update callback:', error);
-          }
-        });
+        // Live prices would fight the replayed ones while a session runs
+        if (isReplayActive()) return;
+        publishPrices(newPrices);
       },
       onConnect: () => {
         setIsConnected(true);
@@ -52,6 +63,28 @@ export function PriceProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Initialize market replay
+  useEffect(() => {
+    const replayClient = replayClientRef.current;
+
+    replayClient.options = {
+      onPriceUpdate: (newPrices: Record<string, number>) => {
+        if (!isReplayActive()) return;
+        publishPrices(newPrices);
+      },
+      onTimeUpdate: (time: number, endTime: number) => {
+        useReplayStore.getState().setProgress(time, endTime);
+      },
+      onFinish: () => {
+        useReplayStore.getState().setStatus('finished');
+      },
+    };
+
+    return () => {
+      replayClient.stop();
+    };
+  }, []);
+
   // Stable price getter
   const getPrice = (symbol: string): number | null => {
     const price = pricesRef.current[symbol] || null;
@@ -65,10 +98,70 @@ export function PriceProvider({ children }: { children: React.ReactNode }) {
     return () => subscribersRef.current.delete(callback);
   };
 
+  // Subscribe to l2Book snapshots for one asset (used by the execution simulator)
+  const subscribeOrderBook = (symbol: string, callback: (book: OrderBook) => void) => {
+    return wsClientRef.current.subscribeToOrderBook(symbol, callback);
+  };
+
+  // End the session and hand the app back to the live feed and wall clock
+  const stopReplay = (error?: string) => {
+    replayClientRef.current.stop();
+    pricesRef.current = {};
+    useReplayStore.getState().endSession(error);
+  };
+
+  const replay: ReplayControls = {
+    start: async (settings: ReplaySettings) => {
+      const replayClient = replayClientRef.current;
+      replayClient.stop();
+
+      pricesRef.current = {};
+      useReplayStore.getState().beginSession(settings);
+
+      try {
+        await replayClient.load(settings.symbols, settings.startTime, settings.interval);
+        if (!isReplayActive()) {
+          // Exited while candles were loading; loading restarted the clock
+          replayClient.stop();
+          return;
+        }
+
+        replayClient.setSpeed(useReplayStore.getState().speed);
+        if (useReplayStore.getState().status === 'loading') {
+          useReplayStore.getState().setStatus('paused');
+        }
+      } catch (error) {
+        stopReplay(error instanceof Error ? error.message : 'Failed to load replay candles');
+      }
+    },
+    play: () => {
+      replayClientRef.current.play();
+      if (replayClientRef.current.isPlaying()) {
+        useReplayStore.getState().setStatus('playing');
+      }
+    },
+    pause: () => {
+      replayClientRef.current.pause();
+      if (useReplayStore.getState().status === 'playing') {
+        useReplayStore.getState().setStatus('paused');
+      }
+    },
+    step: () => {
+      replayClientRef.current.step();
+    },
+    setSpeed: (speed: number) => {
+      replayClientRef.current.setSpeed(speed);
+      useReplayStore.getState().setSpeed(speed);
+    },
+    stop: () => stopReplay(),
+  };
+
   const contextValue: PriceContextType = {
     getPrice,
     isConnected,
     subscribe,
+    subscribeOrderBook,
+    replay,
   };
 
   return (
@@ -0,0 +1,132 @@
+import { useEffect } from 'react';
+import { usePrices } from '@/hooks/usePriceContext';
+import { usePositionStore } from '@/state/positionStore';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { isOnPriceFeed } from '@/state/replayStore';
+import {
+    getIcebergClipQuantity,
+    getTwapInterval,
+    getTwapSliceQuantity,
+    isTwapSliceDue,
+} from '@/utils/algoExecution';
+import { getCurrentTime } from '@/utils/clock';
+import { getPlacementLiquidity } from '@/utils/orderMatching';
+import type { AlgoOrder } from '@/types/trading';
+
+/**
+ * Execution engine for TWAP and iceberg algo orders.
+ * On every price update, sends any TWAP slice that has come due as a
+ * market fill and keeps one visible limit clip resting for each iceberg,
+ * folding filled clips back into the parent. Clips rest in the order book
+ * and fill through the normal matching engine.
+ */
+export function useAlgoExecution() {
+    const { subscribe } = usePrices();
+
+    useEffect(() => {
+        if (!subscribe) return;
+
+        // Batches only carry symbols that moved, so remember the last mid of each
+        const lastPrices: Record<string, number> = {};
+
+        const unsubscribe = subscribe((prices: Record<string, number>) => {
+            const now = getCurrentTime();
+            Object.assign(lastPrices, prices);
+
+            usePositionStore.getState().algoOrders
+                .filter(algo => algo.status === 'running' && isOnPriceFeed(algo.portfolioId))
+                .forEach(algo => {
+                    if (algo.algorithm === 'twap') {
+                        sendTwapSlice(algo, lastPrices[algo.symbol], now);
+                    } else {
+                        workIceberg(algo, lastPrices[algo.symbol]);
+                    }
+                });
+        });
+
+        return unsubscribe;
+    }, [subscribe]);
+}
+
+// Fill the next TWAP slice at the mid once it's due
+function sendTwapSlice(algo: AlgoOrder, price: number | undefined, now: number) {
+    if (!isTwapSliceDue(algo, now) || !price || price <= 0) return;
+
+    const { recordAlgoFill, updateAlgoOrder, cancelAlgoOrder } = usePositionStore.getState();
+    const quantity = getTwapSliceQuantity(algo);
+
+    if (quantity > 0) {
+        const trade = {
+            symbol: algo.symbol,
+            type: algo.side,
+            quantity,
+            price,
+            portfolioId: algo.portfolioId,
+            margin: algo.margin,
+            reduceOnly: algo.reduceOnly,
+        };
+        const rejection = usePortfolioStore.getState().tryExecuteTrade(trade);
+
+        if (rejection) {
+            cancelAlgoOrder(algo.id, `Slice rejected: ${rejection}`);
+            return;
+        }
+        recordAlgoFill(algo.id, quantity, price);
+    }
+
+    updateAlgoOrder(algo.id, {
+        slicesSent: (algo.slicesSent ?? 0) + 1,
+        nextSliceAt: (algo.nextSliceAt ?? now) + getTwapInterval(algo),
+    });
+}
+
+// Settle the resting clip if it filled, then post the next one
+function workIceberg(algo: AlgoOrder, price: number | undefined) {
+    const { orders, addOrder, recordAlgoFill, updateAlgoOrder, cancelAlgoOrder } = usePositionStore.getState();
+    const clip = algo.childOrderId ? orders.find(o => o.id === algo.childOrderId) : undefined;
+
+    if (clip?.status === 'pending') return;
+
+    if (clip && clip.status !== 'filled') {
+        cancelAlgoOrder(algo.id, clip.statusReason ?? 'Visible clip was cancelled');
+        return;
+    }
+
+    if (clip) {
+        recordAlgoFill(algo.id, clip.quantity, clip.filledPrice ?? clip.price ?? 0);
+        updateAlgoOrder(algo.id, { childOrderId: undefined });
+    }
+
+    const current = usePositionStore.getState().algoOrders.find(a => a.id === algo.id);
+    if (!current || current.status !== 'running') return;
+
+    const quantity = getIcebergClipQuantity(current);
+    if (quantity <= 0) return;
+
+    // Don't post a clip the portfolio's risk rules would refuse to fill
+    const riskRejection = usePortfolioStore.getState().checkTradeRisk({
+        symbol: current.symbol,
+        type: current.side,
+        quantity,
+        price: current.limitPrice ?? 0,
+        portfolioId: current.portfolioId,
+    });
+    if (riskRejection) {
+        cancelAlgoOrder(current.id, riskRejection);
+        return;
+    }
+
+    const childOrderId = addOrder({
+        portfolioId: current.portfolioId,
+        symbol: current.symbol,
+        side: current.side,
+        type: 'limit',
+        quantity,
+        price: current.limitPrice,
+        reduceOnly: current.reduceOnly,
+        margin: current.margin,
+        algoId: current.id,
+        liquidity: getPlacementLiquidity({ type: 'limit', side: current.side, price: current.limitPrice }, price ?? 0),
+    });
+    updateAlgoOrder(current.id, { childOrderId });
+}
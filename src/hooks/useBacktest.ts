@@ -0,0 +1,103 @@
+import { useMutation } from '@tanstack/react-query';
+import { fetchBacktestCandles } from '@/services/backtestData';
+import { runBacktest, validateBacktestConfig } from '@/utils/backtest';
+import type { BacktestResult } from '@/utils/backtest';
+import type { ChartDataPoint } from '@/services/chartApi';
+import type { BacktestConfig } from '@/types/trading';
+import type { BacktestResponse } from '@/workers/backtest.worker';
+
+// Runs backtests in a worker, one request at a time per message id
+class BacktestWorker {
+    private worker: Worker | null = null;
+    private messageId = 0;
+    private pendingRequests = new Map<number, {
+        resolve: (result: BacktestResult) => void;
+        reject: (error: Error) => void;
+    }>();
+
+    constructor() {
+        this.initWorker();
+    }
+
+    private initWorker() {
+        if (typeof Worker === 'undefined') {
+            console.warn('Web Workers not supported; backtests will run on the main thread');
+            return;
+        }
+
+        try {
+            this.worker = new Worker(
+                new URL('../workers/backtest.worker.ts', import.meta.url),
+                { type: 'module' }
+            );
+
+            this.worker.onmessage = (e: MessageEvent<BacktestResponse & { messageId: number }>) => {
+                const { messageId, result, error } = e.data;
+                const pending = this.pendingRequests.get(messageId);
+
+                if (pending) {
+                    this.pendingRequests.delete(messageId);
+                    if (error || !result) {
+                        pending.reject(new Error(error ?? 'Backtest returned no result'));
+                    } else {
+                        pending.resolve(result);
+                    }
+                }
+            };
+
+            this.worker.onerror = (error) => {
+                console.error('Backtest worker error:', error);
+                this.pendingRequests.forEach(({ reject }) => {
+                    reject(new Error('Backtest worker error'));
+                });
+                this.pendingRequests.clear();
+            };
+
+        } catch (error) {
+            console.error('Failed to initialize backtest worker:', error);
+        }
+    }
+
+    // No timeout: long ranges on short intervals can legitimately run for a while
+    async run(config: BacktestConfig, candles: Record<string, ChartDataPoint[]>): Promise<BacktestResult> {
+        if (!this.worker) {
+            return runBacktest(config, candles);
+        }
+
+        return new Promise<BacktestResult>((resolve, reject) => {
+            const messageId = ++this.messageId;
+            this.pendingRequests.set(messageId, { resolve, reject });
+
+            this.worker!.postMessage({
+                type: 'RUN_BACKTEST',
+                data: { config, candles },
+                messageId
+            });
+        });
+    }
+}
+
+// Singleton worker instance
+let workerInstance: BacktestWorker | null = null;
+
+function getWorkerInstance(): BacktestWorker {
+    if (!workerInstance) {
+        workerInstance = new BacktestWorker();
+    }
+    return workerInstance;
+}
+
+/**
+ * Validate a backtest, pull its candles and run it off the UI thread
+ */
+export const useBacktest = () => {
+    return useMutation({
+        mutationFn: async (config: BacktestConfig): Promise<BacktestResult> => {
+            const error = validateBacktestConfig(config);
+            if (error) throw new Error(error);
+
+            const candles = await fetchBacktestCandles(config);
+            return getWorkerInstance().run(config, candles);
+        },
+    });
+};
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { IChartApi } from 'lightweight-charts';
+import type { ChartDrawingsPrimitive } from '@/components/chartDrawingsPrimitive';
+import { useDrawingStore, useSymbolDrawings } from '@/state/drawingStore';
+import { DEFAULT_DRAWING_COLOR, DRAWING_TOOLS, moveDrawingPoints, validateDrawingText } from '@/utils/drawings';
+import type { ChartDrawing, ChartDrawingType } from '@/types/trading';
+
+export type DrawingTool = ChartDrawingType | 'select';
+
+interface DragState {
+    mode: 'create' | 'move' | 'resize';
+    drawing: ChartDrawing; // The draft being drawn, or the drawing as it was before dragging
+    preview: ChartDrawing;
+    startX: number;
+    startY: number;
+    startLogical: number;
+    startPrice: number;
+    handle?: number; // Point being dragged when resizing
+    placing?: boolean; // Clicked rather than dragged; the next click places the second point
+}
+
+interface UseChartDrawingsOptions {
+    symbol: string;
+    chartRef: RefObject<IChartApi | null>;
+    primitiveRef: RefObject<ChartDrawingsPrimitive | null>; // Attached to the candles when the chart is built
+    containerRef: RefObject<HTMLDivElement | null>;
+    candleTimes: number[] | undefined;
+}
+
+const CLICK_DISTANCE = 3; // Pixels a press can move and still count as a click
+
+/**
+ * Drawing tools for TradingChart.
+ * Places, selects, drags and deletes the symbol's drawings with the mouse.
+ * Drags only redraw a preview; the drawing is saved once the mouse is let go.
+ */
+export function useChartDrawings({ symbol, chartRef, primitiveRef, containerRef, candleTimes }: UseChartDrawingsOptions) {
+    const drawings = useSymbolDrawings(symbol);
+    const [tool, setTool] = useState<DrawingTool>('select');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [noteText, setNoteText] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const dragRef = useRef<DragState | null>(null);
+
+    const selectedDrawing = drawings.find(d => d.id === selectedId) ?? null;
+
+    useEffect(() => {
+        useDrawingStore.getState().loadDrawings(symbol).catch(error => {
+            console.error('Failed to load chart drawings:', error);
+        });
+        setSelectedId(null);
+        setTool('select');
+    }, [symbol]);
+
+    // New candles mean a new chart, which starts out without drawings
+    useEffect(() => {
+        primitiveRef.current?.setDrawings(drawings, selectedId);
+    }, [primitiveRef, drawings, selectedId, candleTimes]);
+
+    // Mouse handling over the main pane
+    useEffect(() => {
+        const container = containerRef.current;
+        const chart = chartRef.current;
+        if (!container || !chart || !candleTimes?.length) return;
+        const { addDrawing, updateDrawing } = useDrawingStore.getState();
+
+        const setChartPanning = (enabled: boolean) => {
+            chart.applyOptions({ handleScroll: { pressedMouseMove: enabled } });
+        };
+
+        const toLocal = (event: PointerEvent) => {
+            const rect = container.getBoundingClientRect();
+            const x = event.clientX - rect.left;
+            const y = event.clientY - rect.top;
+            const inMainPane = x >= 0 && x <= chart.timeScale().width() && y >= 0 && y <= chart.panes()[0].getHeight();
+            return inMainPane ? { x, y } : null;
+        };
+
+        const finishDrag = () => {
+            const drag = dragRef.current;
+            dragRef.current = null;
+            primitiveRef.current?.setPreview(null);
+            setChartPanning(true);
+            if (!drag) return;
+
+            if (drag.mode === 'create') {
+                setSelectedId(addDrawing(drag.preview));
+                setTool('select');
+            } else if (drag.preview.points !== drag.drawing.points) {
+                updateDrawing(symbol, drag.drawing.id, { points: drag.preview.points });
+            }
+        };
+
+        const handlePointerDown = (event: PointerEvent) => {
+            const primitive = primitiveRef.current;
+            const local = toLocal(event);
+            if (!primitive || !local || event.button !== 0) return;
+
+            if (dragRef.current?.placing) {
+                finishDrag();
+                return;
+            }
+
+            const point = primitive.pointAt(local.x, local.y);
+            const startLogical = primitive.logicalAt(local.x);
+            if (!point || startLogical === null) return;
+            const base = { startX: local.x, startY: local.y, startLogical, startPrice: point.price };
+
+            if (tool !== 'select') {
+                const text = tool === 'text' ? noteText.trim() : undefined;
+                if (tool === 'text') {
+                    const validationError = validateDrawingText(noteText);
+                    setError(validationError);
+                    if (validationError) return;
+                }
+
+                const draft: ChartDrawing = {
+                    id: 'draft', // Replaced when the drawing is added
+                    symbol,
+                    type: tool,
+                    points: DRAWING_TOOLS[tool].points === 1 ? [point] : [point, point],
+                    color: DEFAULT_DRAWING_COLOR,
+                    ...(text && { text }),
+                    createdAt: Date.now(),
+                    updatedAt: Date.now(),
+                };
+
+                if (DRAWING_TOOLS[tool].points === 1) {
+                    setSelectedId(addDrawing(draft));
+                    setTool('select');
+                    return;
+                }
+
+                dragRef.current = { mode: 'create', drawing: draft, preview: draft, ...base };
+                primitive.setPreview(draft);
+                setChartPanning(false);
+                return;
+            }
+
+            const handle = primitive.handleAt(local.x, local.y);
+            const id = handle !== null ? selectedId : primitive.drawingAt(local.x, local.y);
+            const drawing = drawings.find(d => d.id === id);
+            setSelectedId(drawing?.id ?? null);
+            if (!drawing) return;
+
+            dragRef.current = handle !== null
+                ? { mode: 'resize', drawing, preview: drawing, handle, ...base }
+                : { mode: 'move', drawing, preview: drawing, ...base };
+            setChartPanning(false);
+        };
+
+        const handlePointerMove = (event: PointerEvent) => {
+            const drag = dragRef.current;
+            const primitive = primitiveRef.current;
+            const local = toLocal(event);
+            if (!drag || !primitive || !local) return;
+
+            let points = drag.drawing.points;
+            if (drag.mode === 'move') {
+                const logical = primitive.logicalAt(local.x);
+                const price = primitive.priceAt(local.y);
+                if (logical === null || price === null) return;
+                points = moveDrawingPoints(points, candleTimes, logical - drag.startLogical, price - drag.startPrice);
+            } else {
+                const point = primitive.pointAt(local.x, local.y);
+                if (!point) return;
+                const index = drag.mode === 'create' ? 1 : drag.handle!;
+                points = points.map((p, i) => (i === index ? point : p));
+            }
+
+            drag.preview = { ...drag.drawing, points };
+            primitive.setPreview(drag.preview);
+        };
+
+        const handlePointerUp = (event: PointerEvent) => {
+            const drag = dragRef.current;
+            if (!drag || drag.placing) return;
+
+            const rect = container.getBoundingClientRect();
+            const moved = Math.hypot(event.clientX - rect.left - drag.startX, event.clientY - rect.top - drag.startY);
+            if (drag.mode === 'create' && moved < CLICK_DISTANCE) {
+                drag.placing = true;
+                return;
+            }
+            finishDrag();
+        };
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+            if (event.key === 'Escape') {
+                dragRef.current = null;
+                primitiveRef.current?.setPreview(null);
+                setChartPanning(true);
+                setTool('select');
+                setSelectedId(null);
+            } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+                event.preventDefault();
+                useDrawingStore.getState().deleteDrawing(symbol, selectedId);
+                setSelectedId(null);
+            }
+        };
+
+        // Capture, so a drag starts before the chart begins panning
+        container.addEventListener('pointerdown', handlePointerDown, true);
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            container.removeEventListener('pointerdown', handlePointerDown, true);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [symbol, tool, selectedId, drawings, noteText, candleTimes, chartRef, primitiveRef, containerRef]);
+
+    const deleteSelected = () => {
+        if (!selectedId) return;
+        useDrawingStore.getState().deleteDrawing(symbol, selectedId);
+        setSelectedId(null);
+    };
+
+    const updateSelected = (updates: Partial<Pick<ChartDrawing, 'color' | 'text'>>) => {
+        if (selectedId) useDrawingStore.getState().updateDrawing(symbol, selectedId, updates);
+    };
+
+    const chooseTool = (next: DrawingTool) => {
+        setTool(next);
+        setError(null);
+        if (next !== 'select') setSelectedId(null);
+    };
+
+    return {
+        tool,
+        setTool: chooseTool,
+        selectedDrawing,
+        deleteSelected,
+        updateSelected,
+        noteText,
+        setNoteText,
+        error,
+    };
+}
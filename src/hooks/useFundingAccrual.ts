@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { isOnPriceFeed } from '@/state/replayStore';
+import { getFundingHistory, getFundingRates } from '@/services/hyperliquid';
+import { chartApi } from '@/services/chartApi';
+import { queryClient, queryKeys, STALE_TIMES } from '@/services/queryClient';
+import { getFundingDueSince, getFundingPayments, getHourlyPrices } from '@/utils/funding';
+import { getCurrentTime } from '@/utils/clock';
+import type { HyperliquidFundingHistoryEntry } from '@/types/trading';
+
+const FUNDING_CHECK_INTERVAL = 60 * 1000; // Settle within a minute of each hour mark
+
+/**
+ * Funding accrual for open perp positions.
+ * Checks every minute whether an hour mark has passed for any position,
+ * fetches the settled rates since its last settlement and books the
+ * payments. Hours missed while the app was closed are caught up on load,
+ * each priced from that hour's candle.
+ * Only portfolios on the current feed accrue, against the current clock.
+ */
+export function useFundingAccrual() {
+    useEffect(() => {
+        let cancelled = false;
+        let settling = false;
+
+        const settle = async () => {
+            if (settling) return;
+            const now = getCurrentTime();
+            const dueSince = getFundingDueSince(
+                usePortfolioStore.getState().portfolios.filter(p => isOnPriceFeed(p.id)),
+                now
+            );
+            const symbols = Object.keys(dueSince);
+            if (symbols.length === 0) return;
+
+            settling = true;
+            try {
+                const rates = await queryClient.fetchQuery({
+                    queryKey: queryKeys.fundingRates,
+                    queryFn: getFundingRates,
+                    staleTime: STALE_TIMES.FUNDING_RATES,
+                });
+
+                const history: Record<string, HyperliquidFundingHistoryEntry[]> = {};
+                const hourlyPrices: Record<string, Record<number, number>> = {};
+                for (const symbol of symbols) {
+                    history[symbol] = await getFundingHistory(symbol, dueSince[symbol] + 1, now);
+                    try {
+                        const candles = await chartApi.getCandleData({
+                            coin: symbol,
+                            interval: '1h',
+                            startTime: dueSince[symbol],
+                            endTime: now,
+                        });
+                        hourlyPrices[symbol] = getHourlyPrices(candles);
+                    } catch (error) {
+                        // Settle on the oracle price rather than not at all
+                        console.warn(`Hourly prices unavailable for ${symbol}:`, error);
+                    }
+                }
+                if (cancelled) return;
+
+                // Positions may have closed or changed size while fetching, so price against fresh state
+                const { portfolios, applyFundingPayments } = usePortfolioStore.getState();
+                const feedPortfolios = portfolios.filter(p => isOnPriceFeed(p.id));
+                applyFundingPayments(getFundingPayments(feedPortfolios, history, rates, now, hourlyPrices));
+            } catch (error) {
+                console.error('Funding accrual failed:', error);
+            } finally {
+                settling = false;
+            }
+        };
+
+        settle();
+        const interval = setInterval(settle, FUNDING_CHECK_INTERVAL);
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, []);
+}
@@ -82,6 +82,24 @@ export const createNavigationShortcuts = (
             altKey: true,
             action: () => setViewMode('analytics'),
             description: 'Switch to Analytics tab'
+        },
+        {
+            key: '6',
+            altKey: true,
+            action: () => setViewMode('backtest'),
+            description: 'Switch to Backtest tab'
+        },
+        {
+            key: '7',
+            altKey: true,
+            action: () => setViewMode('bots'),
+            description: 'Switch to Bots tab'
+        },
+        {
+            key: '8',
+            altKey: true,
+            action: () => setViewMode('alerts'),
+            description: 'Switch to Alerts tab'
         }
     ];
 
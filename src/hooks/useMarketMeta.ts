@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { getFundingRates, getMarketMeta } from '@/services/hyperliquid';
+import { queryKeys, STALE_TIMES } from '@/services/queryClient';
+import type { AssetInfo, FundingRate } from '@/types/trading';
+
+// Perp universe metadata (size decimals, max leverage, isolated-only flag)
+export function useMarketMeta() {
+    return useQuery({
+        queryKey: queryKeys.marketMeta,
+        queryFn: getMarketMeta,
+        staleTime: STALE_TIMES.MARKET_META,
+    });
+}
+
+// Metadata for a single asset; undefined until the universe has loaded
+export function useAssetInfo(symbol: string): AssetInfo | undefined {
+    const { data } = useMarketMeta();
+    return data?.universe.find(asset => asset.name === symbol);
+}
+
+// Current hourly funding rates and oracle prices for every perp
+export function useFundingRates() {
+    return useQuery({
+        queryKey: queryKeys.fundingRates,
+        queryFn: getFundingRates,
+        staleTime: STALE_TIMES.FUNDING_RATES,
+        refetchInterval: STALE_TIMES.FUNDING_RATES,
+    });
+}
+
+// Funding rate of a single asset; undefined until rates have loaded
+export function useFundingRate(symbol: string): FundingRate | undefined {
+    const { data } = useFundingRates();
+    return data?.[symbol];
+}
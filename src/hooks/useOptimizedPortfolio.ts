@@ -3,6 +3,15 @@ import { useCallback, useMemo } from 'react';
 import { tradingStorage, storageUtils } from '@/services/storage';
 import { usePrices } from '@/hooks/usePriceContext';
 import type { Portfolio, Position, Transaction } from '@/state/portfolioStore';
+import {
+    DEFAULT_COST_BASIS_METHOD,
+    DEFAULT_FEE_SCHEDULE,
+    DEFAULT_MARGIN_SETTINGS,
+    DEFAULT_RISK_LIMITS,
+} from '@/types/trading';
+import { calculateTradeFee } from '@/utils/fees';
+import { getNetContributions } from '@/utils/cashLedger';
+import { createLot, getPositionLots } from '@/utils/taxLots';
 
 // Query keys for consistent caching
 export const portfolioQueryKeys = {
@@ -63,6 +72,12 @@ export const useOptimizedPortfolios = () => {
                 initialBalance: 100000,
                 positions: [],
                 transactions: [],
+                fundingPayments: [],
+                cashFlows: [],
+                transfers: [],
+                feeSchedule: DEFAULT_FEE_SCHEDULE,
+                costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+                riskLimits: DEFAULT_RISK_LIMITS,
                 createdAt: Date.now(),
             };
 
@@ -219,9 +234,10 @@ export const useOptimizedPositions = (portfolioId: string | null) => {
             if (!portfolio) throw new Error('Portfolio not found');
 
             const totalCost = trade.quantity * trade.price;
+            const { fee } = calculateTradeFee(portfolio, totalCost, 'taker');
 
             if (trade.type === 'buy') {
-                if (portfolio.balance < totalCost) {
+                if (portfolio.balance < totalCost + fee) {
                     throw new Error('Insufficient funds');
                 }
 
@@ -234,6 +250,8 @@ export const useOptimizedPositions = (portfolioId: string | null) => {
                     price: trade.price,
                     timestamp: Date.now(),
                     portfolioId,
+                    fee,
+                    liquidity: 'taker',
                 };
 
                 // Handle position
@@ -249,6 +267,8 @@ export const useOptimizedPositions = (portfolioId: string | null) => {
                         ...existingPosition,
                         quantity: totalQuantity,
                         entryPrice: newAvgPrice,
+                        lots: [...getPositionLots(existingPosition), createLot(trade.quantity, trade.price, Date.now())],
+                        margin: totalQuantity * newAvgPrice, // Unlevered: paid in full
                         portfolioId,
                     };
 
@@ -262,6 +282,13 @@ export const useOptimizedPositions = (portfolioId: string | null) => {
                         entryPrice: trade.price,
                         entryTime: Date.now(),
                         type: 'long',
+                        lots: [createLot(trade.quantity, trade.price, Date.now())],
+                        leverage: DEFAULT_MARGIN_SETTINGS.leverage,
+                        margin: totalCost,
+                        marginMode: DEFAULT_MARGIN_SETTINGS.mode,
+                        maintenanceMarginRate: DEFAULT_MARGIN_SETTINGS.maintenanceMarginRate,
+                        cumulativeFunding: 0,
+                        lastFundingTime: Date.now(),
                         portfolioId,
                     };
 
@@ -271,8 +298,8 @@ export const useOptimizedPositions = (portfolioId: string | null) => {
                 // Update portfolio balance
                 const updatedPortfolio = {
                     ...portfolio,
-                    balance: portfolio.balance - totalCost,
-                    currentBalance: portfolio.balance - totalCost,
+                    balance: portfolio.balance - totalCost - fee,
+                    currentBalance: portfolio.balance - totalCost - fee,
                     transactions: [...portfolio.transactions, transaction],
                 };
 
@@ -356,12 +383,13 @@ export const useOptimizedPortfolioValue = (portfolioId: string | null) => {
 
     const totalPnL = useMemo(() => {
         if (!portfolio) return 0;
-        return portfolioValue - portfolio.initialBalance;
+        return portfolioValue - getNetContributions(portfolio);
     }, [portfolioValue, portfolio]);
 
     const totalPnLPercent = useMemo(() => {
-        if (!portfolio || portfolio.initialBalance === 0) return 0;
-        return (totalPnL / portfolio.initialBalance) * 100;
+        if (!portfolio) return 0;
+        const netContributions = getNetContributions(portfolio);
+        return netContributions > 0 ? (totalPnL / netContributions) * 100 : 0;
     }, [totalPnL, portfolio]);
 
     return {
@@ -0,0 +1,131 @@
+import { useEffect } from 'react';
+import { usePrices } from '@/hooks/usePriceContext';
+import { usePositionStore } from '@/state/positionStore';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { isOnPriceFeed } from '@/state/replayStore';
+import {
+    findExpiredOrders,
+    findFillableOrders,
+    findOrphanedExits,
+    findTriggeredExits,
+    isReduceOnlyOrder,
+} from '@/utils/orderMatching';
+import { findLiquidation } from '@/utils/margin';
+import { getCurrentTime } from '@/utils/clock';
+import type { Order } from '@/types/trading';
+
+/**
+ * Matching engine for resting limit orders and protective exits.
+ * Listens to the live price stream, expires good-till-date orders whose
+ * time is up, fills pending orders once the mid
+ * crosses their limit or stop price, cancels the other leg of an OCO
+ * group once one exit fills and both legs once their position is gone, ratchets trailing stops, closes positions
+ * whose stop-loss, take-profit or trailing level is hit and liquidates
+ * positions that fall through maintenance margin. Every fill goes through
+ * the portfolio trade path. Only portfolios on the current feed are matched,
+ * so replayed prices never touch live portfolios and vice versa.
+ */
+export function useOrderMatching() {
+    const { subscribe } = usePrices();
+
+    useEffect(() => {
+        if (!subscribe) return;
+
+        const unsubscribe = subscribe((prices: Record<string, number>) => {
+            const getFeedOrders = () => usePositionStore.getState().orders.filter(order => isOnPriceFeed(order.portfolioId));
+            const getFeedPortfolios = () => usePortfolioStore.getState().portfolios.filter(p => isOnPriceFeed(p.id));
+
+            // Expire first so an order can't fill on a tick after its deadline
+            const { expireOrder, cancelOrder } = usePositionStore.getState();
+            findExpiredOrders(getFeedOrders(), getCurrentTime()).forEach(order => expireOrder(order.id));
+
+            // Positions can close between ticks; their exits mustn't outlive them
+            findOrphanedExits(getFeedOrders(), getFeedPortfolios()).forEach(order => cancelOrder(order.id, 'Position closed'));
+
+            const fills = findFillableOrders(getFeedOrders(), prices);
+
+            fills.forEach(({ order, fillPrice }) => {
+                const { orders, updateOrder, cancelOrder, cancelOcoSiblings } = usePositionStore.getState();
+                // An earlier fill in this batch may have cancelled the other OCO leg
+                if (orders.find(o => o.id === order.id)?.status !== 'pending') return;
+
+                const trade = {
+                    symbol: order.symbol,
+                    type: order.side,
+                    quantity: order.quantity,
+                    price: fillPrice,
+                    portfolioId: order.portfolioId,
+                    margin: order.margin,
+                    reduceOnly: isReduceOnlyOrder(order),
+                    liquidity: order.type === 'stop' ? 'taker' : order.liquidity ?? 'maker', // Resting limits add liquidity
+                } as const;
+                const rejection = usePortfolioStore.getState().tryExecuteTrade(trade);
+
+                if (!rejection) {
+                    updateOrder(order.id, {
+                        status: 'filled',
+                        filledAt: getCurrentTime(),
+                        filledPrice: fillPrice,
+                    });
+                    attachOrderExits(order, fillPrice);
+                    linkBracketExits(order);
+                    cancelOcoSiblings(order.id);
+                } else {
+                    // A risk rule tripped, or cash or position moved away, since the order was placed.
+                    // The other OCO leg stays, so the position keeps an exit.
+                    cancelOrder(order.id, rejection);
+                }
+            });
+
+            // Move high-water marks before checking, so a tick that sets a new high can't also trigger
+            usePortfolioStore.getState().advanceTrailingStops(prices, portfolio => isOnPriceFeed(portfolio.id));
+
+            const triggeredExits = findTriggeredExits(getFeedPortfolios(), prices);
+
+            triggeredExits.forEach(({ portfolioId, position, price }) => {
+                usePortfolioStore.getState().closePosition(position.id, price, portfolioId);
+            });
+
+            // Liquidate one position at a time; each close moves the remaining cross levels
+            let liquidation = findLiquidation(getFeedPortfolios(), prices);
+            while (liquidation) {
+                const { portfolioId, position, price } = liquidation;
+                if (!usePortfolioStore.getState().liquidatePosition(position.id, price, portfolioId)) break;
+                liquidation = findLiquidation(getFeedPortfolios(), prices);
+            }
+        });
+
+        return unsubscribe;
+    }, [subscribe]);
+}
+
+// Tie a filled bracket entry's exits to the position it opened or added to
+function linkBracketExits(order: Order) {
+    if (order.groupRole !== 'entry') return;
+
+    const { orders, updateOrder } = usePositionStore.getState();
+    const position = usePortfolioStore.getState().getPortfolio(order.portfolioId)?.positions
+        .find(p => p.symbol === order.symbol);
+    if (!position) return;
+
+    orders
+        .filter(o => o.parentId === order.id && o.status === 'pending')
+        .forEach(o => updateOrder(o.id, { positionId: position.id }));
+}
+
+// Carry stop-loss/take-profit and trailing stop from a filled entry order onto its position
+function attachOrderExits(order: Order, fillPrice: number) {
+    const { portfolioId, symbol, stopLoss, takeProfit, trailingStop } = order;
+    if (stopLoss === undefined && takeProfit === undefined && !trailingStop) return;
+
+    const { getPortfolio, setPositionExits, setTrailingStop } = usePortfolioStore.getState();
+    const position = getPortfolio(portfolioId)?.positions.find(p => p.symbol === symbol);
+    if (!position) return;
+
+    if (stopLoss !== undefined || takeProfit !== undefined) {
+        setPositionExits(position.id, { stopLoss, takeProfit }, portfolioId);
+    }
+    if (trailingStop) {
+        setTrailingStop(position.id, { ...trailingStop, highWaterMark: fillPrice }, portfolioId);
+    }
+}
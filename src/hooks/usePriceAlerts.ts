@@ -0,0 +1,98 @@
+import { useEffect } from 'react';
+import { usePrices } from '@/hooks/usePriceContext';
+import { useAlertStore } from '@/state/alertStore';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { isReplayActive } from '@/state/replayStore';
+import { MAX_ALERT_WINDOW_MINUTES, evaluatePriceAlert, recordPriceSample } from '@/utils/alerts';
+import type { PriceSample } from '@/utils/alerts';
+import { getPositionBreakEven } from '@/utils/fees';
+import type { PriceAlert, PriceAlertEvent } from '@/types/trading';
+
+const SAMPLE_WINDOW_MS = MAX_ALERT_WINDOW_MINUTES * 60 * 1000;
+const SAMPLE_SPACING_MS = 5 * 1000; // Keeps a day of samples small on a busy feed
+
+/**
+ * Alert engine for price alerts.
+ * Checks every active alert against each price update, shows a toast and a
+ * browser notification when one fires and logs it. Replayed prices are
+ * history, so alerts sit out a market replay.
+ */
+export function usePriceAlerts() {
+    const { subscribe } = usePrices();
+
+    useEffect(() => {
+        useAlertStore.getState().loadAlerts().catch(error => {
+            console.error('Failed to load price alerts:', error);
+        });
+    }, []);
+
+    useEffect(() => {
+        if (!subscribe) return;
+
+        const lastPrices: Record<string, number> = {};
+        const samples: Record<string, PriceSample[]> = {};
+
+        const unsubscribe = subscribe((prices: Record<string, number>) => {
+            if (isReplayActive()) return;
+            const now = Date.now();
+
+            useAlertStore.getState().alerts
+                .filter(alert => alert.status === 'active' && prices[alert.symbol] > 0)
+                .forEach(alert => checkAlert(alert, prices[alert.symbol], lastPrices[alert.symbol], samples[alert.symbol] ?? [], now));
+
+            Object.entries(prices).forEach(([symbol, price]) => {
+                lastPrices[symbol] = price;
+                const symbolSamples = samples[symbol] ?? [];
+                const latest = symbolSamples[symbolSamples.length - 1];
+                if (!latest || now - latest.time >= SAMPLE_SPACING_MS) {
+                    samples[symbol] = recordPriceSample(symbolSamples, price, now, SAMPLE_WINDOW_MS);
+                }
+            });
+        });
+
+        return unsubscribe;
+    }, [subscribe]);
+}
+
+function checkAlert(alert: PriceAlert, price: number, previousPrice: number | undefined, samples: PriceSample[], now: number) {
+    const { triggerAlert, cancelAlert } = useAlertStore.getState();
+    let breakEvenPrice: number | undefined;
+
+    if (alert.condition.type === 'break_even') {
+        const { portfolioId, positionId } = alert.condition;
+        const portfolio = usePortfolioStore.getState().getPortfolioById(portfolioId);
+        const position = portfolio?.positions.find(p => p.id === positionId);
+        if (!portfolio || !position) {
+            cancelAlert(alert.id, 'Position closed');
+            return;
+        }
+        breakEvenPrice = getPositionBreakEven(position, portfolio);
+    }
+
+    const message = evaluatePriceAlert(alert, { price, previousPrice, samples, breakEvenPrice, now });
+    if (!message) return;
+
+    const event = triggerAlert(alert.id, message, price, now);
+    if (event) showNotification(event);
+}
+
+// Browser popup, when the user has allowed notifications
+function showNotification(event: PriceAlertEvent) {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    try {
+        new Notification(`${event.symbol} price alert`, { body: event.message, tag: event.alertId });
+    } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.warn('Failed to show notification:', error);
+    }
+}
+
+/**
+ * Ask for notification permission; call from a user action
+ */
+export function requestAlertNotifications(): Promise<NotificationPermission | 'unsupported'> {
+    if (typeof Notification === 'undefined') return Promise.resolve('unsupported');
+    if (Notification.permission !== 'default') return Promise.resolve(Notification.permission);
+    return Notification.requestPermission();
+}
@@ -1,5 +1,7 @@
-import { useContext, useEffect } from 'react';
+import { useContext, useEffect, useState } from 'react';
 import { PriceContext } from '@/context/PriceContext';
+import { useReplayStore } from '@/state/replayStore';
+import type { OrderBook } from '@/types/trading';
 
 export function usePrices() {
     const context = useContext(PriceContext);
@@ -24,3 +26,21 @@ export function usePriceSubscription(symbol: string, onPriceUpdate: (price: numb
         return unsubscribe;
     }, [context, symbol, onPriceUpdate]);
 }
+
+// Hook for components that need the live order book of one asset
+export function useOrderBook(symbol: string): OrderBook | null {
+    const context = useContext(PriceContext);
+    const [book, setBook] = useState<OrderBook | null>(null);
+    const isReplaying = useReplayStore((state) => state.status !== 'off');
+
+    useEffect(() => {
+        if (!context?.subscribeOrderBook) return;
+        return context.subscribeOrderBook(symbol, setBook);
+    }, [context, symbol]);
+
+    // Live depth doesn't match replayed prices, so replay fills at the mid
+    if (isReplaying) return null;
+
+    // A snapshot of the previous asset may still be held right after switching
+    return book?.symbol === symbol ? book : null;
+}
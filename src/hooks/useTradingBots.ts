@@ -0,0 +1,324 @@
+import { useEffect, useRef } from 'react';
+import { useMarketMeta } from '@/hooks/useMarketMeta';
+import { usePrices } from '@/hooks/usePriceContext';
+import { tradingBotRunner } from '@/services/botRunner';
+import { useBotStore } from '@/state/botStore';
+import { usePositionStore } from '@/state/positionStore';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { isOnPriceFeed, useReplayStore } from '@/state/replayStore';
+import { BACKTEST_INTERVAL_MS } from '@/utils/backtest';
+import { BOT_ORDERS_PER_MINUTE, getBotAccount, isBotRateLimited, updateLiveCandle, validateBotOrder } from '@/utils/bots';
+import type { BotCandle, BotFill, BotOrderRequest, BotWorkerMessage } from '@/utils/bots';
+import { getCurrentTime } from '@/utils/clock';
+import { simulateMarketFill } from '@/utils/execution';
+import { getPlacementLiquidity, validateLimitOrder } from '@/utils/orderMatching';
+import { validateOrderRules } from '@/utils/orderRules';
+import type { AssetInfo, BotScript, OrderBook } from '@/types/trading';
+
+/**
+ * Host side of the trading bots.
+ * Feeds each running bot the prices and candles of its symbols, places the
+ * orders its script asks for in the bot's portfolio after checking them
+ * against the bot's symbols, a rate limit, the exchange's order rules, the
+ * cash and quantity its resting orders hold and the portfolio's risk rules,
+ * and reports fills back to the script. Market orders fill against the
+ * order book like the trading form's. Bots only see prices on the feed
+ * their portfolio trades on, so live bots sit out a market replay.
+ */
+export function useTradingBots() {
+    const { subscribe, subscribeOrderBook } = usePrices();
+    const { data: marketMeta } = useMarketMeta();
+
+    // Read when an order comes in; loading it mustn't restart the bots
+    const assetsRef = useRef<AssetInfo[]>([]);
+    useEffect(() => {
+        assetsRef.current = marketMeta?.universe ?? [];
+    }, [marketMeta]);
+
+    useEffect(() => {
+        useBotStore.getState().loadBots().catch(error => {
+            console.error('Failed to load bot scripts:', error);
+        });
+    }, []);
+
+    useEffect(() => {
+        if (!subscribe) return;
+
+        // Batches only carry symbols that moved, so remember the last mid of each
+        const lastPrices: Record<string, number> = {};
+        const candles = new Map<string, Record<string, BotCandle>>(); // Forming candle per bot and symbol
+        const orderTimes = new Map<string, number[]>();
+        const books = new Map<string, OrderBook>();
+        const bookSubscriptions = new Map<string, () => void>();
+
+        const findBot = (botId: string) => useBotStore.getState().bots.find(bot => bot.id === botId);
+
+        // Keep the books of the symbols running bots trade, and only those
+        const syncBooks = () => {
+            if (!subscribeOrderBook) return;
+            const symbols = new Set(tradingBotRunner.getRunningBots().flatMap(botId => findBot(botId)?.symbols ?? []));
+
+            bookSubscriptions.forEach((unsubscribeBook, symbol) => {
+                if (symbols.has(symbol)) return;
+                unsubscribeBook();
+                bookSubscriptions.delete(symbol);
+                books.delete(symbol);
+            });
+            symbols.forEach(symbol => {
+                if (bookSubscriptions.has(symbol)) return;
+                bookSubscriptions.set(symbol, subscribeOrderBook(symbol, book => books.set(symbol, book)));
+            });
+        };
+
+        const market: BotMarket = {
+            lastPrices,
+            getAsset: (symbol) => assetsRef.current.find(asset => asset.name === symbol),
+            // Live depth doesn't match replayed prices, so replay fills at the mid
+            getBook: (symbol) => (useReplayStore.getState().status === 'off' ? books.get(symbol) : undefined),
+        };
+
+        tradingBotRunner.options = {
+            onStatus: (botId, status, error) => {
+                const { setBotStatus, appendBotLog } = useBotStore.getState();
+                setBotStatus(botId, status, error);
+                appendBotLog(botId, status === 'error' ? 'error' : 'info', error ?? `Bot ${status}`);
+
+                if (status !== 'running') {
+                    candles.delete(botId);
+                    cancelBotOrders(botId, 'Bot stopped');
+                }
+                syncBooks();
+            },
+            onMessage: (botId, message) => {
+                const bot = findBot(botId);
+                if (bot) handleBotMessage(bot, message, market, orderTimes);
+            },
+        };
+
+        const unsubscribe = subscribe((prices: Record<string, number>) => {
+            const now = getCurrentTime();
+            Object.assign(lastPrices, prices);
+
+            tradingBotRunner.getRunningBots().forEach(botId => {
+                const bot = findBot(botId);
+                if (!bot || !isOnPriceFeed(bot.portfolioId)) return;
+
+                const botPrices = Object.fromEntries(
+                    Object.entries(prices).filter(([symbol]) => bot.symbols.includes(symbol))
+                );
+                if (Object.keys(botPrices).length === 0) return;
+
+                // Close out candles first so a script sees the bar before the tick that ended it
+                const forming = candles.get(botId) ?? {};
+                Object.entries(botPrices).forEach(([symbol, price]) => {
+                    const { candle, closed } = updateLiveCandle(forming[symbol], price, now, BACKTEST_INTERVAL_MS[bot.candleInterval]);
+                    forming[symbol] = candle;
+                    if (closed) {
+                        tradingBotRunner.send(botId, { type: 'candle', symbol, candle: closed, account: getAccount(bot) });
+                    }
+                });
+                candles.set(botId, forming);
+
+                tradingBotRunner.send(botId, { type: 'prices', prices: botPrices, time: now, account: getAccount(bot) });
+            });
+        });
+
+        // Resting bot orders fill through the matching engine; tell the script when they do
+        const unsubscribeOrders = usePositionStore.subscribe((state, previous) => {
+            if (state.orders === previous.orders) return;
+
+            state.orders.forEach(order => {
+                if (!order.botId || order.status !== 'filled') return;
+                if (previous.orders.find(o => o.id === order.id)?.status !== 'pending') return;
+
+                const bot = findBot(order.botId);
+                if (!bot || !tradingBotRunner.isRunning(bot.id)) return;
+
+                sendFill(bot, {
+                    orderId: order.id,
+                    symbol: order.symbol,
+                    side: order.side,
+                    quantity: order.quantity,
+                    price: order.filledPrice ?? order.price ?? 0,
+                    time: order.filledAt ?? getCurrentTime(),
+                });
+            });
+        });
+
+        return () => {
+            unsubscribe();
+            unsubscribeOrders();
+            tradingBotRunner.stopAll();
+            tradingBotRunner.options = {};
+            bookSubscriptions.forEach(unsubscribeBook => unsubscribeBook());
+        };
+    }, [subscribe, subscribeOrderBook]);
+}
+
+// What the host knows of the markets when a bot's order comes in
+interface BotMarket {
+    lastPrices: Record<string, number>; // Last mid of each symbol
+    getAsset: (symbol: string) => AssetInfo | undefined;
+    getBook: (symbol: string) => OrderBook | undefined;
+}
+
+function getAccount(bot: BotScript) {
+    const portfolio = usePortfolioStore.getState().getPortfolioById(bot.portfolioId);
+    return getBotAccount(portfolio, usePositionStore.getState().orders, bot);
+}
+
+function sendFill(bot: BotScript, fill: BotFill) {
+    useBotStore.getState().appendBotLog(
+        bot.id,
+        'trade',
+        `${fill.side.toUpperCase()} ${fill.quantity} ${fill.symbol} @ ${fill.price}`
+    );
+    tradingBotRunner.send(bot.id, { type: 'fill', fill, account: getAccount(bot) });
+}
+
+function cancelBotOrders(botId: string, reason: string, symbol?: string) {
+    const { orders, cancelOrder } = usePositionStore.getState();
+    orders
+        .filter(order => order.botId === botId && order.status === 'pending' && (!symbol || order.symbol === symbol))
+        .forEach(order => cancelOrder(order.id, reason));
+}
+
+function handleBotMessage(
+    bot: BotScript,
+    message: BotWorkerMessage,
+    market: BotMarket,
+    orderTimes: Map<string, number[]>
+) {
+    const { appendBotLog } = useBotStore.getState();
+
+    switch (message.type) {
+        case 'ready':
+            appendBotLog(bot.id, 'info', 'Script loaded');
+            break;
+
+        case 'log':
+            // Trade entries are the host's to write
+            appendBotLog(bot.id, message.level === 'warn' || message.level === 'error' ? message.level : 'info', String(message.message));
+            break;
+
+        case 'error':
+            appendBotLog(bot.id, 'error', String(message.message));
+            break;
+
+        case 'cancel':
+            cancelBotOrders(bot.id, 'Cancelled by bot', typeof message.symbol === 'string' ? message.symbol : undefined);
+            break;
+
+        case 'order': {
+            if (typeof message.order !== 'object' || message.order === null) break;
+            const rejection = placeBotOrder(bot, message.order, market, orderTimes);
+            if (rejection) appendBotLog(bot.id, 'warn', `Order rejected: ${rejection}`);
+            break;
+        }
+    }
+}
+
+// Place a script's order in the bot's portfolio, or say why it can't be
+function placeBotOrder(
+    bot: BotScript,
+    order: BotOrderRequest,
+    market: BotMarket,
+    orderTimes: Map<string, number[]>
+): string | null {
+    const invalid = validateBotOrder(order, bot);
+    if (invalid) return invalid;
+
+    const portfolio = usePortfolioStore.getState().getPortfolioById(bot.portfolioId);
+    if (!portfolio) return 'The bot\'s portfolio no longer exists';
+    if (!isOnPriceFeed(portfolio.id)) return 'The bot\'s portfolio is not on the current price feed';
+
+    // Rate limits run on the wall clock, which replay speed-ups can't fool
+    const now = Date.now();
+    const times = (orderTimes.get(bot.id) ?? []).filter(time => time > now - 60 * 1000);
+    if (isBotRateLimited(times, now)) return `Too many orders; the limit is ${BOT_ORDERS_PER_MINUTE} a minute`;
+    orderTimes.set(bot.id, [...times, now]);
+
+    const mid = market.lastPrices[order.symbol];
+    if (!mid || mid <= 0) return `No price for ${order.symbol} yet`;
+
+    // Market orders walk the book when there is one, as the trading form's do
+    const book = order.type === 'market' ? market.getBook(order.symbol) : undefined;
+    const simulatedFill = book ? simulateMarketFill(book, order.side, order.quantity) : null;
+    if (book && !simulatedFill?.isComplete) {
+        return `Not enough book depth. Fillable now: ${simulatedFill?.filledQuantity ?? 0}`;
+    }
+    const price = order.type === 'limit' ? order.price! : simulatedFill?.averagePrice ?? mid;
+
+    // Trading against the bot's position reduces it; otherwise the order opens or adds
+    const position = portfolio.positions.find(p => p.symbol === order.symbol);
+    const reduceOnly = !!position && position.type !== (order.side === 'buy' ? 'long' : 'short');
+
+    const rulesError = validateOrderRules({
+        symbol: order.symbol,
+        type: order.type,
+        quantity: order.quantity,
+        price,
+        reduceOnly,
+    }, market.getAsset(order.symbol));
+    if (rulesError) return rulesError;
+
+    if (order.type === 'limit') {
+        const { orders, addOrder } = usePositionStore.getState();
+        const limitError = validateLimitOrder(portfolio, orders, {
+            symbol: order.symbol,
+            side: order.side,
+            quantity: order.quantity,
+            price,
+            reduceOnly,
+        });
+        if (limitError) return limitError;
+
+        const { checkTradeRisk } = usePortfolioStore.getState();
+        const riskRejection = checkTradeRisk({
+            symbol: order.symbol,
+            type: order.side,
+            quantity: order.quantity,
+            price,
+            portfolioId: portfolio.id,
+        });
+        if (riskRejection) return riskRejection;
+
+        addOrder({
+            portfolioId: portfolio.id,
+            symbol: order.symbol,
+            side: order.side,
+            type: 'limit',
+            quantity: order.quantity,
+            price: order.price,
+            reduceOnly,
+            botId: bot.id,
+            liquidity: getPlacementLiquidity(order, mid),
+        });
+        useBotStore.getState().appendBotLog(
+            bot.id,
+            'trade',
+            `Placed ${order.side} limit ${order.quantity} ${order.symbol} @ ${order.price}`
+        );
+        return null;
+    }
+
+    const trade = {
+        symbol: order.symbol,
+        type: order.side,
+        quantity: order.quantity,
+        price,
+        portfolioId: portfolio.id,
+        midPrice: simulatedFill?.midPrice,
+    };
+    const rejection = usePortfolioStore.getState().tryExecuteTrade(trade);
+    if (rejection) return rejection;
+
+    sendFill(bot, {
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        price,
+        time: getCurrentTime(),
+    });
+    return null;
+}
@@ -0,0 +1,37 @@
+import { chartApi } from '@/services/chartApi';
+import type { ChartDataPoint } from '@/services/chartApi';
+import { BACKTEST_INTERVAL_MS } from '@/utils/backtest';
+import type { BacktestConfig } from '@/types/trading';
+
+const CANDLES_PER_REQUEST = 5000; // Hyperliquid caps each candle snapshot
+
+/**
+ * Candles for every symbol of a backtest, paging through ranges longer
+ * than one snapshot allows
+ */
+export async function fetchBacktestCandles(
+  config: Pick<BacktestConfig, 'symbols' | 'interval' | 'startTime' | 'endTime'>
+): Promise<Record<string, ChartDataPoint[]>> {
+  const { symbols, interval, startTime, endTime } = config;
+  const pageMs = CANDLES_PER_REQUEST * BACKTEST_INTERVAL_MS[interval];
+
+  const fetchSymbol = async (coin: string): Promise<ChartDataPoint[]> => {
+    const candles = new Map<number, ChartDataPoint>();
+    for (let pageStart = startTime; pageStart < endTime; pageStart += pageMs) {
+      const page = await chartApi.getCandleData({
+        coin,
+        interval,
+        startTime: pageStart,
+        endTime: Math.min(endTime, pageStart + pageMs),
+      });
+      page.forEach(candle => candles.set(candle.time, candle)); // Pages share their boundary candle
+    }
+    return [...candles.values()].sort((a, b) => a.time - b.time);
+  };
+
+  const results = await Promise.all(symbols.map(fetchSymbol));
+  if (results.every(candles => candles.length === 0)) {
+    throw new Error('No candles found for that range');
+  }
+  return Object.fromEntries(symbols.map((symbol, index) => [symbol, results[index]]));
+}
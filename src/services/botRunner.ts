@@ -0,0 +1,135 @@
+import { BOT_RESPONSE_TIMEOUT_MS } from '@/utils/bots';
+import type { BotHostMessage, BotWorkerMessage } from '@/utils/bots';
+import type { BotScript, BotStatus } from '@/types/trading';
+
+export interface TradingBotRunnerOptions {
+  onMessage?: (botId: string, message: BotWorkerMessage) => void;
+  onStatus?: (botId: string, status: BotStatus, error?: string) => void;
+}
+
+interface RunningBot {
+  worker: Worker;
+  busy: boolean; // Handling a message; price updates are skipped until it finishes
+  queue: BotHostMessage[]; // Candles and fills waiting for the bot to finish
+  watchdog: ReturnType<typeof setTimeout> | null;
+}
+
+const WORKER_MESSAGE_TYPES = new Set<BotWorkerMessage['type']>(['ready', 'idle', 'order', 'cancel', 'log', 'error']);
+
+/**
+ * Runs each trading bot in a worker of its own. A script that throws is
+ * reported and keeps running; one that stops answering is terminated, so
+ * no script can hold up the app or another bot.
+ */
+export class TradingBotRunner {
+  private bots = new Map<string, RunningBot>();
+
+  public options: TradingBotRunnerOptions;
+
+  constructor(options: TradingBotRunnerOptions = {}) {
+    this.options = options;
+  }
+
+  start(bot: Pick<BotScript, 'id' | 'code'>): void {
+    this.stop(bot.id);
+
+    if (typeof Worker === 'undefined') {
+      this.options.onStatus?.(bot.id, 'error', 'Web Workers are not supported in this browser');
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/tradingBot.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      this.options.onStatus?.(bot.id, 'error', error instanceof Error ? error.message : 'Failed to start the bot');
+      return;
+    }
+
+    const running: RunningBot = { worker, busy: false, queue: [], watchdog: null };
+    this.bots.set(bot.id, running);
+
+    worker.onmessage = (e: MessageEvent<BotWorkerMessage>) => this.handleMessage(bot.id, running, e.data);
+    worker.onerror = (e) => {
+      // Errors thrown outside a handler, such as in a script's own timers
+      e.preventDefault();
+      this.options.onMessage?.(bot.id, { type: 'error', message: e.message || 'Script error' });
+    };
+
+    this.options.onStatus?.(bot.id, 'running');
+    this.dispatch(bot.id, running, { type: 'start', code: bot.code });
+  }
+
+  stop(botId: string, status: BotStatus = 'stopped', error?: string): void {
+    const running = this.bots.get(botId);
+    if (!running) return;
+
+    if (running.watchdog) clearTimeout(running.watchdog);
+    running.worker.terminate();
+    this.bots.delete(botId);
+    this.options.onStatus?.(botId, status, error);
+  }
+
+  stopAll(): void {
+    [...this.bots.keys()].forEach(botId => this.stop(botId));
+  }
+
+  /**
+   * Send an event to a bot. Price updates are dropped while the bot is
+   * still busy with the last event; the next one carries fresher prices.
+   */
+  send(botId: string, message: BotHostMessage): void {
+    const running = this.bots.get(botId);
+    if (!running) return;
+
+    if (running.busy) {
+      if (message.type !== 'prices') running.queue.push(message);
+      return;
+    }
+    this.dispatch(botId, running, message);
+  }
+
+  isRunning(botId: string): boolean {
+    return this.bots.has(botId);
+  }
+
+  getRunningBots(): string[] {
+    return [...this.bots.keys()];
+  }
+
+  private dispatch(botId: string, running: RunningBot, message: BotHostMessage): void {
+    running.busy = true;
+    running.watchdog = setTimeout(
+      () => this.stop(botId, 'error', 'Script stopped responding'),
+      BOT_RESPONSE_TIMEOUT_MS
+    );
+    running.worker.postMessage(message);
+  }
+
+  private handleMessage(botId: string, running: RunningBot, message: BotWorkerMessage): void {
+    if (this.bots.get(botId) !== running) return; // Late message from a stopped worker
+    if (!message || !WORKER_MESSAGE_TYPES.has(message.type)) return;
+
+    switch (message.type) {
+      case 'idle': {
+        if (running.watchdog) clearTimeout(running.watchdog);
+        running.watchdog = null;
+        running.busy = false;
+
+        const next = running.queue.shift();
+        if (next) this.dispatch(botId, running, next);
+        break;
+      }
+
+      case 'error':
+        this.options.onMessage?.(botId, message);
+        if (message.fatal) this.stop(botId, 'error', message.message);
+        break;
+
+      default:
+        this.options.onMessage?.(botId, message);
+    }
+  }
+}
+
+export const tradingBotRunner = new TradingBotRunner();
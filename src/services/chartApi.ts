@@ -1,4 +1,6 @@
 
+import { getCurrentTime } from '@/utils/clock';
+
 export interface CandleRequest {
     coin: string;
     interval: '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
@@ -201,12 +203,11 @@ class HyperliquidChartAPI {
     }
 
     // Get different time ranges (rounded to prevent constant changes)
-    getTimeRange(interval: CandleRequest['interval'], periods: number = 100): {
+    getTimeRange(interval: CandleRequest['interval'], periods: number = 100, now: number = getCurrentTime()): {
         startTime: number;
         endTime: number;
     } {
         const intervalMs = this.getIntervalMs(interval);
-        const now = Date.now();
 
         // Ensure we're requesting PAST data, not future data
         // Round down to the most recent completed interval
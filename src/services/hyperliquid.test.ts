@@ -5,6 +5,9 @@ import {
   getCandleSnapshot,
   transformPriceData,
   transformCandleData,
+  transformL2Book,
+  transformFundingRates,
+  getFundingHistory,
   getMajorCryptoAssets,
   HyperliquidAPIError,
   isMetaResponse,
@@ -13,7 +16,7 @@ import {
   rateLimiter,
   batchApiRequests,
 } from './hyperliquid';
-import { HyperliquidMetaResponse, HyperliquidPricesResponse, HyperliquidCandleResponse } from '@/types/trading';
+import { HyperliquidMetaResponse, HyperliquidPricesResponse, HyperliquidCandleResponse, HyperliquidL2BookResponse } from '@/types/trading';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -93,6 +96,23 @@ describe('Hyperliquid API Service', () => {
       });
     });
 
+    describe('getFundingHistory', () => {
+      it('should request settled funding for a coin since a start time', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: vi.fn().mockResolvedValueOnce([]),
+        });
+
+        await getFundingHistory('BTC', 1640995200000);
+
+        expect(mockFetch).toHaveBeenCalledWith('https://api.hyperliquid.xyz/info', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: 'fundingHistory', coin: 'BTC', startTime: 1640995200000 }),
+        });
+      });
+    });
+
     describe('getCandleSnapshot', () => {
       it('should fetch candle data with default parameters', async () => {
         const mockResponse: HyperliquidCandleResponse = {
@@ -206,6 +226,46 @@ describe('Hyperliquid API Service', () => {
       });
     });
 
+    describe('transformFundingRates', () => {
+      it('should pair asset contexts with the universe by index', () => {
+        const meta: HyperliquidMetaResponse = {
+          universe: [
+            { name: 'BTC', szDecimals: 5, maxLeverage: 40, onlyIsolated: false },
+            { name: 'ETH', szDecimals: 4, maxLeverage: 25, onlyIsolated: false },
+          ],
+        };
+        const ctx = { openInterest: '0', premium: null, dayNtlVlm: '0', prevDayPx: '0' };
+
+        const rates = transformFundingRates([meta, [
+          { ...ctx, funding: '0.0000125', oraclePx: '50000', markPx: '50010' },
+          { ...ctx, funding: '-0.00002', oraclePx: '3000', markPx: '2999' },
+        ]]);
+
+        expect(rates.BTC).toEqual({ symbol: 'BTC', rate: 0.0000125, oraclePrice: 50000, markPrice: 50010 });
+        expect(rates.ETH.rate).toBe(-0.00002);
+      });
+    });
+
+    describe('transformL2Book', () => {
+      it('should parse bid and ask levels', () => {
+        const rawData: HyperliquidL2BookResponse = {
+          coin: 'BTC',
+          time: 1640995200000,
+          levels: [
+            [{ px: '49990', sz: '1.5', n: 3 }, { px: '49980', sz: '0', n: 0 }],
+            [{ px: '50010', sz: '0.25', n: 1 }],
+          ],
+        };
+
+        expect(transformL2Book(rawData)).toEqual({
+          symbol: 'BTC',
+          bids: [{ price: 49990, size: 1.5, orders: 3 }],
+          asks: [{ price: 50010, size: 0.25, orders: 1 }],
+          timestamp: 1640995200000,
+        });
+      });
+    });
+
     describe('transformCandleData', () => {
       it('should transform candle data correctly', () => {
         const rawData: HyperliquidCandleResponse = {
@@ -2,8 +2,15 @@ import {
   HyperliquidMetaResponse,
   HyperliquidPricesResponse,
   HyperliquidCandleResponse,
+  HyperliquidL2BookResponse,
+  HyperliquidL2Level,
+  HyperliquidMetaAndAssetCtxsResponse,
+  HyperliquidFundingHistoryEntry,
+  FundingRate,
   CryptoAsset,
   CandleData,
+  BookLevel,
+  OrderBook,
   ApiError
 } from '@/types/trading';
 
@@ -61,6 +68,43 @@ export async function getMarketMeta(): Promise<HyperliquidMetaResponse> {
   });
 }
 
+/**
+ * Get market metadata together with live per-asset context (funding, oracle price)
+ */
+export async function getMetaAndAssetCtxs(): Promise<HyperliquidMetaAndAssetCtxsResponse> {
+  return apiRequest<HyperliquidMetaAndAssetCtxsResponse>({
+    type: 'metaAndAssetCtxs'
+  });
+}
+
+/**
+ * Get settled hourly funding rates for an asset since a point in time
+ */
+export async function getFundingHistory(
+  coin: string,
+  startTime: number,
+  endTime?: number
+): Promise<HyperliquidFundingHistoryEntry[]> {
+  const payload: any = {
+    type: 'fundingHistory',
+    coin,
+    startTime,
+  };
+
+  if (endTime) {
+    payload.endTime = endTime;
+  }
+
+  return apiRequest<HyperliquidFundingHistoryEntry[]>(payload);
+}
+
+/**
+ * Get current funding rates keyed by symbol
+ */
+export async function getFundingRates(): Promise<Record<string, FundingRate>> {
+  return transformFundingRates(await getMetaAndAssetCtxs());
+}
+
 /**
  * Get current prices for all assets
  */
@@ -165,6 +209,50 @@ export function transformCandleData(
   return candles;
 }
 
+/**
+ * Pair each asset in the universe with its funding context
+ */
+export function transformFundingRates(
+  [meta, assetCtxs]: HyperliquidMetaAndAssetCtxsResponse
+): Record<string, FundingRate> {
+  const rates: Record<string, FundingRate> = {};
+
+  meta.universe.forEach((asset, index) => {
+    const ctx = assetCtxs[index];
+    if (!ctx) return;
+
+    rates[asset.name] = {
+      symbol: asset.name,
+      rate: parseFloat(ctx.funding) || 0,
+      oraclePrice: parseFloat(ctx.oraclePx) || 0,
+      markPrice: parseFloat(ctx.markPx) || 0,
+    };
+  });
+
+  return rates;
+}
+
+/**
+ * Transform a raw l2Book snapshot into an OrderBook
+ */
+export function transformL2Book(rawData: HyperliquidL2BookResponse): OrderBook {
+  const toLevels = (levels: HyperliquidL2Level[] = []): BookLevel[] =>
+    levels
+      .map(level => ({
+        price: parseFloat(level.px),
+        size: parseFloat(level.sz),
+        orders: level.n,
+      }))
+      .filter(level => level.price > 0 && level.size > 0);
+
+  return {
+    symbol: rawData.coin,
+    bids: toLevels(rawData.levels[0]),
+    asks: toLevels(rawData.levels[1]),
+    timestamp: rawData.time,
+  };
+}
+
 /**
  * Get major crypto assets (filter for popular coins)
  */
@@ -1,3 +1,6 @@
+import { transformL2Book } from '@/services/hyperliquid';
+import type { OrderBook } from '@/types/trading';
+
 export interface HyperliquidPriceData {
   symbol: string;
   price: number;
@@ -17,6 +20,7 @@ export class HyperliquidWebSocketClient {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private bookListeners = new Map<string, Set<(book: OrderBook) => void>>();
 
   public options: HyperliquidWebSocketOptions;
 
@@ -40,6 +44,7 @@ export class HyperliquidWebSocketClient {
         this.isConnected = true;
         this.reconnectAttempts = 0;
         this.subscribeToAllMids();
+        this.bookListeners.forEach((_, symbol) => this.sendL2BookSubscription('subscribe', symbol));
         this.options.onConnect?.();
       };
 
@@ -85,8 +90,48 @@ export class HyperliquidWebSocketClient {
     this.ws.send(JSON.stringify(subscribeMessage));
   }
 
+  /**
+   * Stream l2Book snapshots for a coin. The server subscription is shared by
+   * all listeners of a coin and dropped when the last one leaves.
+   */
+  subscribeToOrderBook(symbol: string, callback: (book: OrderBook) => void): () => void {
+    let listeners = this.bookListeners.get(symbol);
+    if (!listeners) {
+      listeners = new Set();
+      this.bookListeners.set(symbol, listeners);
+      this.sendL2BookSubscription('subscribe', symbol);
+    }
+    listeners.add(callback);
+
+    return () => {
+      listeners.delete(callback);
+      if (listeners.size === 0 && this.bookListeners.get(symbol) === listeners) {
+        this.bookListeners.delete(symbol);
+        this.sendL2BookSubscription('unsubscribe', symbol);
+      }
+    };
+  }
+
+  private sendL2BookSubscription(method: 'subscribe' | 'unsubscribe', coin: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify({
+      method,
+      subscription: {
+        type: 'l2Book',
+        coin
+      }
+    }));
+  }
+
   private handleMessage(data: any): void {
 
+    // Order book snapshots carry levels, not mids
+    if (data.channel === 'l2Book' && data.data) {
+      this.processL2Book(data.data);
+      return;
+    }
+
     // Handle Hyperliquid WebSocket message format
     if (data.channel === 'allMids' && data.data && data.data.mids) {
       this.processAllMids(data.data.mids);
@@ -126,6 +171,15 @@ export class HyperliquidWebSocketClient {
     }
   }
 
+  private processL2Book(bookData: any): void {
+    try {
+      const book = transformL2Book(bookData);
+      this.bookListeners.get(book.symbol)?.forEach(callback => callback(book));
+    } catch (error) {
+      console.error('Error processing l2Book data:', error);
+    }
+  }
+
   private scheduleReconnect(): void {
     setTimeout(() => {
       this.reconnectAttempts++;
@@ -0,0 +1,121 @@
+import { chartApi } from '@/services/chartApi';
+import { setSimulatedTime } from '@/utils/clock';
+import {
+  REPLAY_CANDLE_LIMIT,
+  REPLAY_FRAME_MS,
+  buildReplayTimeline,
+  getReplayIntervalMs,
+  getReplaySessionStart,
+  takeDueTicks,
+} from '@/utils/replay';
+import type { ReplayInterval, ReplayTick } from '@/utils/replay';
+
+export interface MarketReplayOptions {
+  onPriceUpdate?: (data: Record<string, number>) => void;
+  onTimeUpdate?: (time: number, endTime: number) => void;
+  onFinish?: () => void;
+}
+
+/**
+ * Plays historical candles back as a price stream on a simulated clock.
+ * Each tick sets the app clock before its prices are published, so
+ * anything a tick triggers is stamped with the replayed time.
+ */
+export class MarketReplayClient {
+  private timeline: ReplayTick[] = [];
+  private cursor = 0;
+  private time = 0;
+  private speed = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  public options: MarketReplayOptions;
+
+  constructor(options: MarketReplayOptions = {}) {
+    this.options = options;
+  }
+
+  async load(symbols: string[], startTime: number, interval: ReplayInterval): Promise<void> {
+    this.stop();
+    // Hold the clock at the session's start while candles load, so anything
+    // done meanwhile is stamped before the first tick
+    setSimulatedTime(getReplaySessionStart(startTime, interval));
+
+    const intervalMs = getReplayIntervalMs(interval);
+    const endTime = Math.min(Date.now(), startTime + REPLAY_CANDLE_LIMIT * intervalMs);
+    const candles = await Promise.all(
+      symbols.map(coin => chartApi.getCandleData({ coin, interval, startTime, endTime }))
+    );
+
+    this.timeline = buildReplayTimeline(
+      Object.fromEntries(symbols.map((symbol, index) => [symbol, candles[index]])),
+      intervalMs
+    );
+    if (this.timeline.length === 0) {
+      throw new Error('No candles found from that date');
+    }
+
+    // Publish the opening prices so every symbol has a mid before the clock moves
+    this.cursor = 0;
+    this.advanceTo(this.timeline[0].time);
+  }
+
+  play(): void {
+    if (this.timer || this.isFinished()) return;
+    this.timer = setInterval(() => this.advanceTo(this.time + REPLAY_FRAME_MS * this.speed), REPLAY_FRAME_MS);
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Jump straight to the next price point
+  step(): void {
+    if (this.isFinished()) return;
+    this.advanceTo(this.timeline[this.cursor].time);
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  stop(): void {
+    this.pause();
+    this.timeline = [];
+    this.cursor = 0;
+    setSimulatedTime(null);
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  private isFinished(): boolean {
+    return this.cursor >= this.timeline.length;
+  }
+
+  private advanceTo(time: number): void {
+    const { ticks, cursor } = takeDueTicks(this.timeline, this.cursor, time);
+    this.cursor = cursor;
+
+    ticks.forEach(tick => {
+      setSimulatedTime(tick.time);
+      this.options.onPriceUpdate?.(tick.prices);
+    });
+
+    this.time = time;
+    setSimulatedTime(time);
+    this.options.onTimeUpdate?.(time, this.timeline[this.timeline.length - 1]?.time ?? time);
+
+    if (this.isFinished()) {
+      this.pause();
+      this.options.onFinish?.();
+    }
+  }
+}
+
+export function createMarketReplayClient(options: MarketReplayOptions = {}): MarketReplayClient {
+  return new MarketReplayClient(options);
+}
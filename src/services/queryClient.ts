@@ -2,10 +2,11 @@ import { QueryClient } from '@tanstack/react-query';
 import { HyperliquidAPIError } from './hyperliquid';
 
 // Default stale time for different types of data
-const STALE_TIMES = {
+export const STALE_TIMES = {
   MARKET_META: 5 * 60 * 1000, // 5 minutes - market data changes infrequently
   PRICE_DATA: 10 * 1000, // 10 seconds - prices update frequently
   CANDLE_DATA: 60 * 1000, // 1 minute - historical data updates less frequently
+  FUNDING_RATES: 60 * 1000, // 1 minute - predicted funding drifts within the hour
 } as const;
 
 // Create and configure React Query client
@@ -37,6 +38,7 @@ export const queryKeys = {
   // Market data queries
   marketMeta: ['market', 'meta'] as const,
   allPrices: ['market', 'prices'] as const,
+  fundingRates: ['market', 'funding'] as const,
   
   // Asset-specific queries
   asset: (symbol: string) => ['asset', symbol] as const,
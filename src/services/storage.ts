@@ -1,5 +1,8 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import type { Portfolio, Position, Transaction } from '@/state/portfolioStore';
+import { sortLedgerEvents } from '@/state/ledger';
+import type { LedgerEvent } from '@/state/ledger';
+import type { BotScript, ChartDrawing, Watchlist } from '@/types/trading';
 
 // Database schema definition
 interface TradingDB extends DBSchema {
@@ -33,12 +36,35 @@ interface TradingDB extends DBSchema {
         key: string;
         value: unknown;
     };
+    ledger: {
+        key: string;
+        value: LedgerEvent;
+        indexes: {
+            'by-portfolio': string;
+            'by-timestamp': number;
+        };
+    };
+    bots: {
+        key: string;
+        value: BotScript;
+    };
+    watchlists: {
+        key: string;
+        value: Watchlist;
+    };
+    drawings: {
+        key: string;
+        value: ChartDrawing;
+        indexes: {
+            'by-symbol': string;
+        };
+    };
 }
 
 class TradingStorage {
     private db: IDBPDatabase<TradingDB> | null = null;
     private readonly dbName = 'trading-platform-db';
-    private readonly version = 1;
+    private readonly version = 5;
 
     async init(): Promise<void> {
         if (this.db) return;
@@ -72,6 +98,29 @@ class TradingStorage {
                 if (!db.objectStoreNames.contains('settings')) {
                     db.createObjectStore('settings', { keyPath: 'key' });
                 }
+
+                // Ledger store: append-only trading events
+                if (!db.objectStoreNames.contains('ledger')) {
+                    const ledgerStore = db.createObjectStore('ledger', { keyPath: 'id' });
+                    ledgerStore.createIndex('by-portfolio', 'portfolioId');
+                    ledgerStore.createIndex('by-timestamp', 'timestamp');
+                }
+
+                // Bots store: saved trading bot scripts
+                if (!db.objectStoreNames.contains('bots')) {
+                    db.createObjectStore('bots', { keyPath: 'id' });
+                }
+
+                // Watchlists store: named symbol lists for the asset list
+                if (!db.objectStoreNames.contains('watchlists')) {
+                    db.createObjectStore('watchlists', { keyPath: 'id' });
+                }
+
+                // Drawings store: chart annotations, looked up per symbol
+                if (!db.objectStoreNames.contains('drawings')) {
+                    const drawingStore = db.createObjectStore('drawings', { keyPath: 'id' });
+                    drawingStore.createIndex('by-symbol', 'symbol');
+                }
             },
         });
     }
@@ -148,6 +197,73 @@ class TradingStorage {
         await Promise.all(transactions.map(t => tx.store.delete(t.id)));
     }
 
+    // Ledger operations
+    async appendLedgerEvents(events: LedgerEvent[]): Promise<void> {
+        await this.init();
+        const tx = this.db!.transaction('ledger', 'readwrite');
+        // add() rather than put(): recorded events are never rewritten
+        await Promise.all([...events.map(event => tx.store.add(event)), tx.done]);
+    }
+
+    async getLedgerEvents(portfolioId?: string): Promise<LedgerEvent[]> {
+        await this.init();
+        const events = portfolioId
+            ? await this.db!.getAllFromIndex('ledger', 'by-portfolio', portfolioId)
+            : await this.db!.getAll('ledger');
+        return sortLedgerEvents(events);
+    }
+
+    // Bot script operations
+    async getBotScripts(): Promise<BotScript[]> {
+        await this.init();
+        return this.db!.getAll('bots');
+    }
+
+    async saveBotScript(bot: BotScript): Promise<void> {
+        await this.init();
+        await this.db!.put('bots', bot);
+    }
+
+    async deleteBotScript(id: string): Promise<void> {
+        await this.init();
+        await this.db!.delete('bots', id);
+    }
+
+    // Watchlist operations
+    async getWatchlists(): Promise<Watchlist[]> {
+        await this.init();
+        const watchlists = await this.db!.getAll('watchlists');
+        return watchlists.sort((a, b) => a.order - b.order);
+    }
+
+    async saveWatchlists(watchlists: Watchlist[]): Promise<void> {
+        await this.init();
+        const tx = this.db!.transaction('watchlists', 'readwrite');
+        await Promise.all([...watchlists.map(watchlist => tx.store.put(watchlist)), tx.done]);
+    }
+
+    async deleteWatchlist(id: string): Promise<void> {
+        await this.init();
+        await this.db!.delete('watchlists', id);
+    }
+
+    // Chart drawing operations
+    async getDrawings(symbol: string): Promise<ChartDrawing[]> {
+        await this.init();
+        const drawings = await this.db!.getAllFromIndex('drawings', 'by-symbol', symbol);
+        return drawings.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async saveDrawing(drawing: ChartDrawing): Promise<void> {
+        await this.init();
+        await this.db!.put('drawings', drawing);
+    }
+
+    async deleteDrawing(id: string): Promise<void> {
+        await this.init();
+        await this.db!.delete('drawings', id);
+    }
+
     // Settings operations
     async getSetting<T>(key: string): Promise<T | undefined> {
         await this.init();
@@ -202,14 +318,22 @@ class TradingStorage {
         portfolios: Portfolio[];
         positions: (Position & { portfolioId: string })[];
         transactions: Transaction[];
+        ledger: LedgerEvent[];
+        bots: BotScript[];
+        watchlists: Watchlist[];
+        drawings: ChartDrawing[];
         settings: Record<string, unknown>;
     }> {
         await this.init();
 
-        const [portfolios, positions, transactions] = await Promise.all([
+        const [portfolios, positions, transactions, ledger, bots, watchlists, drawings] = await Promise.all([
             this.db!.getAll('portfolios'),
             this.db!.getAll('positions'),
-            this.db!.getAll('transactions')
+            this.db!.getAll('transactions'),
+            this.db!.getAll('ledger'),
+            this.db!.getAll('bots'),
+            this.db!.getAll('watchlists'),
+            this.db!.getAll('drawings')
         ]);
 
         const settings = await this.getSetting('activePortfolioId');
@@ -218,6 +342,10 @@ class TradingStorage {
             portfolios,
             positions,
             transactions,
+            ledger,
+            bots,
+            watchlists,
+            drawings,
             settings: { activePortfolioId: settings }
         };
     }
@@ -226,24 +354,36 @@ class TradingStorage {
         portfolios: Portfolio[];
         positions: (Position & { portfolioId: string })[];
         transactions: Transaction[];
+        ledger?: LedgerEvent[];
+        bots?: BotScript[];
+        watchlists?: Watchlist[];
+        drawings?: ChartDrawing[];
         settings?: Record<string, unknown>;
     }): Promise<void> {
         await this.init();
 
-        const tx = this.db!.transaction(['portfolios', 'positions', 'transactions', 'settings'], 'readwrite');
+        const tx = this.db!.transaction(['portfolios', 'positions', 'transactions', 'ledger', 'bots', 'watchlists', 'drawings', 'settings'], 'readwrite');
 
         // Clear existing data
         await Promise.all([
             tx.objectStore('portfolios').clear(),
             tx.objectStore('positions').clear(),
-            tx.objectStore('transactions').clear()
+            tx.objectStore('transactions').clear(),
+            tx.objectStore('ledger').clear(),
+            tx.objectStore('bots').clear(),
+            tx.objectStore('watchlists').clear(),
+            tx.objectStore('drawings').clear()
         ]);
 
         // Import new data
         await Promise.all([
             ...data.portfolios.map(p => tx.objectStore('portfolios').put(p)),
             ...data.positions.map(p => tx.objectStore('positions').put(p)),
-            ...data.transactions.map(t => tx.objectStore('transactions').put(t))
+            ...data.transactions.map(t => tx.objectStore('transactions').put(t)),
+            ...(data.ledger ?? []).map(e => tx.objectStore('ledger').put(e)),
+            ...(data.bots ?? []).map(b => tx.objectStore('bots').put(b)),
+            ...(data.watchlists ?? []).map(w => tx.objectStore('watchlists').put(w)),
+            ...(data.drawings ?? []).map(d => tx.objectStore('drawings').put(d))
         ]);
 
         if (data.settings?.activePortfolioId) {
@@ -254,12 +394,16 @@ class TradingStorage {
     // Clear all data (for testing/reset)
     async clearAll(): Promise<void> {
         await this.init();
-        const tx = this.db!.transaction(['portfolios', 'positions', 'transactions', 'settings'], 'readwrite');
+        const tx = this.db!.transaction(['portfolios', 'positions', 'transactions', 'ledger', 'bots', 'watchlists', 'drawings', 'settings'], 'readwrite');
 
         await Promise.all([
             tx.objectStore('portfolios').clear(),
             tx.objectStore('positions').clear(),
             tx.objectStore('transactions').clear(),
+            tx.objectStore('ledger').clear(),
+            tx.objectStore('bots').clear(),
+            tx.objectStore('watchlists').clear(),
+            tx.objectStore('drawings').clear(),
             tx.objectStore('settings').clear()
         ]);
     }
@@ -296,6 +440,16 @@ export const storageUtils = {
         }
     },
 
+    // Append events to the trading ledger without blocking the caller
+    appendLedgerEvents(events: LedgerEvent[]): void {
+        // No IndexedDB outside the browser (tests, SSR); the in-memory state still applies
+        if (events.length === 0 || typeof indexedDB === 'undefined') return;
+
+        tradingStorage.appendLedgerEvents(events).catch(error => {
+            console.error('Failed to persist ledger events:', error);
+        });
+    },
+
     // Backup to downloadable file
     async downloadBackup(): Promise<void> {
         const data = await tradingStorage.exportData();
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useAlertStore } from './alertStore';
+import { tradingStorage } from '@/services/storage';
+import type { PriceAlert } from '@/types/trading';
+
+beforeEach(() => {
+  useAlertStore.setState({ alerts: [], history: [], toasts: [], loaded: false });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('Alert Store', () => {
+  it('should fire an alert once, logging it and showing a toast', () => {
+    const id = useAlertStore.getState().addAlert(' btc ', { type: 'above', price: 100 });
+
+    const event = useAlertStore.getState().triggerAlert(id, 'BTC is above $100.00', 101, 1000);
+    expect(event).toMatchObject({ alertId: id, symbol: 'BTC', price: 101, time: 1000 });
+    expect(useAlertStore.getState().triggerAlert(id, 'again', 102, 2000)).toBeNull();
+
+    const { alerts, history, toasts } = useAlertStore.getState();
+    expect(alerts[0]).toMatchObject({ status: 'triggered', triggeredAt: 1000 });
+    expect(history).toHaveLength(1);
+    expect(toasts).toHaveLength(1);
+  });
+
+  it('should fire again once re-armed', () => {
+    const id = useAlertStore.getState().addAlert('BTC', { type: 'below', price: 100 });
+    useAlertStore.getState().triggerAlert(id, 'first', 99, 1000);
+    useAlertStore.getState().rearmAlert(id);
+
+    expect(useAlertStore.getState().alerts[0].status).toBe('active');
+    expect(useAlertStore.getState().triggerAlert(id, 'second', 98, 2000)).not.toBeNull();
+    expect(useAlertStore.getState().history.map(e => e.message)).toEqual(['second', 'first']);
+  });
+
+  it('should keep stored alerts when one is added while they load', async () => {
+    vi.stubGlobal('indexedDB', {});
+    const stored: PriceAlert = { id: 'alert-1', symbol: 'ETH', condition: { type: 'above', price: 4000 }, status: 'active', createdAt: 0 };
+    const reads: (() => void)[] = [];
+    vi.spyOn(tradingStorage, 'getSetting').mockImplementation(key => new Promise(resolve => {
+      reads.push(() => resolve(key === 'priceAlerts' ? [stored] : undefined));
+    }));
+    const save = vi.spyOn(tradingStorage, 'setSetting').mockResolvedValue(undefined);
+
+    const loading = useAlertStore.getState().loadAlerts();
+    const id = useAlertStore.getState().addAlert('BTC', { type: 'above', price: 100 });
+    expect(save).not.toHaveBeenCalled();
+
+    reads.forEach(finish => finish());
+    await loading;
+    expect(save).toHaveBeenCalledWith('priceAlerts', [stored, expect.objectContaining({ id })]);
+  });
+});
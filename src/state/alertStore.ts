@@ -0,0 +1,132 @@
+import { create } from 'zustand';
+import { tradingStorage } from '@/services/storage';
+import { ALERT_HISTORY_LIMIT } from '@/utils/alerts';
+import type { PriceAlert, PriceAlertCondition, PriceAlertEvent } from '@/types/trading';
+
+const ALERTS_SETTING = 'priceAlerts';
+const HISTORY_SETTING = 'priceAlertHistory';
+
+interface AlertState {
+  alerts: PriceAlert[];
+  history: PriceAlertEvent[]; // Newest first
+  toasts: PriceAlertEvent[]; // Fired alerts still on screen; not persisted
+  loaded: boolean;
+
+  loadAlerts: () => Promise<void>;
+  addAlert: (symbol: string, condition: PriceAlertCondition) => string;
+  removeAlert: (id: string) => void;
+  rearmAlert: (id: string) => void;
+  cancelAlert: (id: string, reason: string) => void;
+  triggerAlert: (id: string, message: string, price: number, time: number) => PriceAlertEvent | null;
+  dismissToast: (eventId: string) => void;
+  clearHistory: () => void;
+}
+
+// No IndexedDB outside the browser (tests, SSR); the in-memory state still applies
+const hasStorage = () => typeof indexedDB !== 'undefined';
+
+const saveSetting = (key: string, value: unknown) => {
+  if (!hasStorage()) return;
+  tradingStorage.setSetting(key, value).catch(error => {
+    console.error(`Failed to save ${key}:`, error);
+  });
+};
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Price alerts and the log of alerts that fired. Both persist in the
+ * TradingStorage settings store; the alert engine evaluates them.
+ */
+export const useAlertStore = create<AlertState>()((set, get) => {
+  // Until storage has loaded a write would replace what it holds, so
+  // loadAlerts saves the merged lists instead
+  const persist = (key: string, value: unknown) => {
+    if (get().loaded) saveSetting(key, value);
+  };
+
+  // Write alerts after every change so a reload picks up where it left off
+  const setAlerts = (update: (alerts: PriceAlert[]) => PriceAlert[]) => {
+    set(state => ({ alerts: update(state.alerts) }));
+    persist(ALERTS_SETTING, get().alerts);
+  };
+
+  return {
+    alerts: [],
+    history: [],
+    toasts: [],
+    loaded: false,
+
+    loadAlerts: async () => {
+      if (get().loaded) return;
+      const [alerts, history] = hasStorage()
+        ? await Promise.all([
+            tradingStorage.getSetting<PriceAlert[]>(ALERTS_SETTING),
+            tradingStorage.getSetting<PriceAlertEvent[]>(HISTORY_SETTING),
+          ])
+        : [undefined, undefined];
+
+      const pending = get();
+      set(state => ({
+        // Keep anything added while storage was loading
+        alerts: [...(alerts ?? []).filter(alert => !state.alerts.some(a => a.id === alert.id)), ...state.alerts],
+        history: [...state.history, ...(history ?? [])].slice(0, ALERT_HISTORY_LIMIT),
+        loaded: true,
+      }));
+      if (pending.alerts.length > 0) saveSetting(ALERTS_SETTING, get().alerts);
+      if (pending.history.length > 0) saveSetting(HISTORY_SETTING, get().history);
+    },
+
+    addAlert: (symbol, condition) => {
+      const alert: PriceAlert = {
+        id: generateId('alert'),
+        symbol: symbol.trim().toUpperCase(),
+        condition,
+        status: 'active',
+        createdAt: Date.now(),
+      };
+      setAlerts(alerts => [...alerts, alert]);
+      return alert.id;
+    },
+
+    removeAlert: (id) => {
+      setAlerts(alerts => alerts.filter(alert => alert.id !== id));
+    },
+
+    rearmAlert: (id) => {
+      setAlerts(alerts => alerts.map(alert =>
+        alert.id === id ? { ...alert, status: 'active', statusReason: undefined, triggeredAt: undefined } : alert
+      ));
+    },
+
+    cancelAlert: (id, reason) => {
+      setAlerts(alerts => alerts.map(alert =>
+        alert.id === id && alert.status === 'active' ? { ...alert, status: 'cancelled', statusReason: reason } : alert
+      ));
+    },
+
+    // Alerts fire once; re-arm one to have it fire again
+    triggerAlert: (id, message, price, time) => {
+      const alert = get().alerts.find(a => a.id === id);
+      if (!alert || alert.status !== 'active') return null;
+
+      const event: PriceAlertEvent = { id: generateId('alert_event'), alertId: id, symbol: alert.symbol, message, price, time };
+      setAlerts(alerts => alerts.map(a => (a.id === id ? { ...a, status: 'triggered', triggeredAt: time } : a)));
+      set(state => ({
+        history: [event, ...state.history].slice(0, ALERT_HISTORY_LIMIT),
+        toasts: [...state.toasts, event],
+      }));
+      persist(HISTORY_SETTING, get().history);
+      return event;
+    },
+
+    dismissToast: (eventId) => {
+      set(state => ({ toasts: state.toasts.filter(toast => toast.id !== eventId) }));
+    },
+
+    clearHistory: () => {
+      set({ history: [] });
+      persist(HISTORY_SETTING, []);
+    },
+  };
+});
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import { tradingStorage } from '@/services/storage';
+import { BOT_LOG_LIMIT } from '@/utils/bots';
+import type { BotLogEntry, BotLogLevel, BotScript, BotStatus } from '@/types/trading';
+
+export interface BotRuntime {
+  status: BotStatus;
+  error?: string;
+  logs: BotLogEntry[];
+}
+
+export type BotDraft = Omit<BotScript, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+interface BotState {
+  bots: BotScript[];
+  runtime: Record<string, BotRuntime>; // Keyed by bot id; gone on reload, like the workers
+  loaded: boolean;
+
+  loadBots: () => Promise<void>;
+  saveBot: (draft: BotDraft) => string;
+  deleteBot: (id: string) => void;
+  setBotStatus: (id: string, status: BotStatus, error?: string) => void;
+  appendBotLog: (id: string, level: BotLogLevel, message: string) => void;
+  clearBotLog: (id: string) => void;
+}
+
+// No IndexedDB outside the browser (tests, SSR); the in-memory list still applies
+const hasStorage = () => typeof indexedDB !== 'undefined';
+
+const getRuntime = (runtime: Record<string, BotRuntime>, id: string): BotRuntime =>
+  runtime[id] ?? { status: 'stopped', logs: [] };
+
+/**
+ * Saved trading bot scripts and the status and console of each bot.
+ * Scripts persist in TradingStorage; running bots live in the bot runner.
+ */
+export const useBotStore = create<BotState>()((set, get) => ({
+  bots: [],
+  runtime: {},
+  loaded: false,
+
+  loadBots: async () => {
+    if (get().loaded) return;
+    const bots = hasStorage() ? await tradingStorage.getBotScripts() : [];
+    set(state => ({
+      // Keep anything saved while storage was loading
+      bots: [...bots.filter(bot => !state.bots.some(b => b.id === bot.id)), ...state.bots]
+        .sort((a, b) => a.createdAt - b.createdAt),
+      loaded: true,
+    }));
+  },
+
+  saveBot: (draft) => {
+    const now = Date.now();
+    const existing = draft.id ? get().bots.find(bot => bot.id === draft.id) : undefined;
+    const bot: BotScript = {
+      ...draft,
+      id: existing?.id ?? `bot_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    set(state => ({
+      bots: existing ? state.bots.map(b => (b.id === bot.id ? bot : b)) : [...state.bots, bot],
+    }));
+
+    if (hasStorage()) {
+      tradingStorage.saveBotScript(bot).catch(error => {
+        console.error('Failed to save bot script:', error);
+      });
+    }
+    return bot.id;
+  },
+
+  deleteBot: (id) => {
+    set(state => {
+      const runtime = { ...state.runtime };
+      delete runtime[id];
+      return { bots: state.bots.filter(bot => bot.id !== id), runtime };
+    });
+
+    if (hasStorage()) {
+      tradingStorage.deleteBotScript(id).catch(error => {
+        console.error('Failed to delete bot script:', error);
+      });
+    }
+  },
+
+  setBotStatus: (id, status, error) => {
+    set(state => ({
+      runtime: { ...state.runtime, [id]: { ...getRuntime(state.runtime, id), status, error } },
+    }));
+  },
+
+  appendBotLog: (id, level, message) => {
+    set(state => {
+      const current = getRuntime(state.runtime, id);
+      const logs = [...current.logs, { time: Date.now(), level, message }].slice(-BOT_LOG_LIMIT);
+      return { runtime: { ...state.runtime, [id]: { ...current, logs } } };
+    });
+  },
+
+  clearBotLog: (id) => {
+    set(state => ({
+      runtime: { ...state.runtime, [id]: { ...getRuntime(state.runtime, id), logs: [] } },
+    }));
+  },
+}));
+
+export const getBotRuntime = (id: string): BotRuntime => getRuntime(useBotStore.getState().runtime, id);
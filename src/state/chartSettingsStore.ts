@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { createDefaultIndicator } from '@/utils/indicatorEngine';
+import type { IndicatorType, TechnicalIndicator } from '@/types/trading';
+
+const NO_INDICATORS: TechnicalIndicator[] = [];
+
+interface ChartSettingsState {
+  indicatorsBySymbol: Record<string, TechnicalIndicator[]>;
+
+  addIndicator: (symbol: string, name: IndicatorType) => string;
+  updateIndicator: (symbol: string, id: string, updates: Partial<Omit<TechnicalIndicator, 'id' | 'name'>>) => void;
+  removeIndicator: (symbol: string, id: string) => void;
+}
+
+/**
+ * Chart indicator settings, kept per symbol so each market keeps its own
+ * studies
+ */
+export const useChartSettingsStore = create<ChartSettingsState>()(
+  persist(
+    (set, get) => {
+      const setIndicators = (symbol: string, update: (indicators: TechnicalIndicator[]) => TechnicalIndicator[]) => {
+        set(state => ({
+          indicatorsBySymbol: {
+            ...state.indicatorsBySymbol,
+            [symbol]: update(state.indicatorsBySymbol[symbol] ?? NO_INDICATORS),
+          },
+        }));
+      };
+
+      return {
+        indicatorsBySymbol: {},
+
+        addIndicator: (symbol, name) => {
+          const indicator = createDefaultIndicator(name, get().indicatorsBySymbol[symbol] ?? NO_INDICATORS);
+          setIndicators(symbol, indicators => [...indicators, indicator]);
+          return indicator.id;
+        },
+
+        updateIndicator: (symbol, id, updates) => {
+          setIndicators(symbol, indicators => indicators.map(indicator =>
+            indicator.id === id
+              ? { ...indicator, ...updates, params: { ...indicator.params, ...updates.params } }
+              : indicator
+          ));
+        },
+
+        removeIndicator: (symbol, id) => {
+          setIndicators(symbol, indicators => indicators.filter(indicator => indicator.id !== id));
+        },
+      };
+    },
+    {
+      name: 'chart-settings', // localStorage key
+      storage: createJSONStorage(() => localStorage),
+      version: 1,
+    }
+  )
+);
+
+// Stable empty list, so symbols without indicators don't re-render charts
+export const useSymbolIndicators = (symbol: string) =>
+  useChartSettingsStore((state) => state.indicatorsBySymbol[symbol] ?? NO_INDICATORS);
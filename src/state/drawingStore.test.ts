@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useDrawingStore } from './drawingStore';
+
+beforeEach(() => {
+  useDrawingStore.setState({ drawingsBySymbol: {}, loadedSymbols: [] });
+});
+
+const trendline = {
+  symbol: 'BTC',
+  type: 'trendline' as const,
+  points: [{ time: 0, price: 100 }, { time: 3600, price: 110 }],
+  color: '#3b82f6',
+};
+
+describe('Drawing Store', () => {
+  it('should keep drawings apart per symbol', () => {
+    const { addDrawing } = useDrawingStore.getState();
+    const btc = addDrawing(trendline);
+    addDrawing({ ...trendline, symbol: 'ETH', type: 'horizontal', points: [{ time: 0, price: 2000 }] });
+
+    const { drawingsBySymbol } = useDrawingStore.getState();
+    expect(drawingsBySymbol.BTC.map(d => d.id)).toEqual([btc]);
+    expect(drawingsBySymbol.ETH[0].type).toBe('horizontal');
+  });
+
+  it('should move and delete a drawing', () => {
+    const { addDrawing, updateDrawing, deleteDrawing } = useDrawingStore.getState();
+    const id = addDrawing(trendline);
+    const points = [{ time: 3600, price: 105 }, { time: 7200, price: 115 }];
+
+    updateDrawing('BTC', id, { points });
+    expect(useDrawingStore.getState().drawingsBySymbol.BTC[0].points).toEqual(points);
+
+    deleteDrawing('BTC', id);
+    expect(useDrawingStore.getState().drawingsBySymbol.BTC).toEqual([]);
+  });
+
+  it('should ignore updates to drawings on another symbol', () => {
+    const { addDrawing, updateDrawing } = useDrawingStore.getState();
+    const id = addDrawing(trendline);
+    updateDrawing('ETH', id, { color: '#ef4444' });
+    expect(useDrawingStore.getState().drawingsBySymbol.BTC[0].color).toBe('#3b82f6');
+  });
+});
@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { tradingStorage } from '@/services/storage';
+import type { ChartDrawing } from '@/types/trading';
+
+const NO_DRAWINGS: ChartDrawing[] = [];
+
+interface DrawingState {
+  drawingsBySymbol: Record<string, ChartDrawing[]>; // Oldest first, so newer drawings paint on top
+  loadedSymbols: string[];
+
+  loadDrawings: (symbol: string) => Promise<void>;
+  addDrawing: (drawing: Omit<ChartDrawing, 'id' | 'createdAt' | 'updatedAt'>) => string;
+  updateDrawing: (symbol: string, id: string, updates: Partial<Pick<ChartDrawing, 'points' | 'color' | 'text'>>) => void;
+  deleteDrawing: (symbol: string, id: string) => void;
+}
+
+// No IndexedDB outside the browser (tests, SSR); the in-memory state still applies
+const hasStorage = () => typeof indexedDB !== 'undefined';
+
+const persist = (task: () => Promise<void>) => {
+  if (!hasStorage()) return;
+  task().catch(error => {
+    console.error('Failed to save chart drawings:', error);
+  });
+};
+
+/**
+ * Chart drawings per symbol. Each symbol's drawings load from TradingStorage
+ * the first time its chart opens, and every change is saved back.
+ */
+export const useDrawingStore = create<DrawingState>()((set, get) => {
+  const setDrawings = (symbol: string, update: (drawings: ChartDrawing[]) => ChartDrawing[]) => {
+    set(state => ({
+      drawingsBySymbol: {
+        ...state.drawingsBySymbol,
+        [symbol]: update(state.drawingsBySymbol[symbol] ?? NO_DRAWINGS),
+      },
+    }));
+  };
+
+  return {
+    drawingsBySymbol: {},
+    loadedSymbols: [],
+
+    loadDrawings: async (symbol) => {
+      if (get().loadedSymbols.includes(symbol) || !hasStorage()) return;
+      const stored = await tradingStorage.getDrawings(symbol);
+
+      set(state => {
+        // Keep anything drawn while storage was loading
+        const current = state.drawingsBySymbol[symbol] ?? NO_DRAWINGS;
+        return {
+          drawingsBySymbol: {
+            ...state.drawingsBySymbol,
+            [symbol]: [...stored, ...current.filter(d => !stored.some(s => s.id === d.id))],
+          },
+          loadedSymbols: [...state.loadedSymbols, symbol],
+        };
+      });
+    },
+
+    addDrawing: (draft) => {
+      const now = Date.now();
+      const drawing: ChartDrawing = {
+        ...draft,
+        id: `drawing_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      setDrawings(drawing.symbol, drawings => [...drawings, drawing]);
+      persist(() => tradingStorage.saveDrawing(drawing));
+      return drawing.id;
+    },
+
+    updateDrawing: (symbol, id, updates) => {
+      const existing = get().drawingsBySymbol[symbol]?.find(d => d.id === id);
+      if (!existing) return;
+
+      const drawing = { ...existing, ...updates, updatedAt: Date.now() };
+      setDrawings(symbol, drawings => drawings.map(d => (d.id === id ? drawing : d)));
+      persist(() => tradingStorage.saveDrawing(drawing));
+    },
+
+    deleteDrawing: (symbol, id) => {
+      setDrawings(symbol, drawings => drawings.filter(d => d.id !== id));
+      persist(() => tradingStorage.deleteDrawing(id));
+    },
+  };
+});
+
+// Stable empty list, so symbols without drawings don't re-render charts
+export const useSymbolDrawings = (symbol: string) =>
+  useDrawingStore((state) => state.drawingsBySymbol[symbol] ?? NO_DRAWINGS);
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  applyLedgerEvent,
+  createLedgerEvent,
+  getOrderLedgerEvents,
+  replayLedger,
+  replayOrders,
+  replayPortfolio,
+} from './ledger';
+import type { LedgerEvent } from './ledger';
+import { usePortfolioStore } from './portfolioStore';
+import { storageUtils } from '@/services/storage';
+import { ZERO_FEE_SCHEDULE } from '@/types/trading';
+import type { Order } from '@/types/trading';
+
+const created = (timestamp = 1000) => createLedgerEvent('portfolio-1', {
+  type: 'portfolio_created',
+  name: 'Test Portfolio',
+  initialBalance: 100000,
+  feeSchedule: ZERO_FEE_SCHEDULE,
+  costBasisMethod: 'fifo',
+}, timestamp);
+
+const fill = (type: 'buy' | 'sell', quantity: number, price: number, timestamp: number, fee = 0) =>
+  createLedgerEvent('portfolio-1', {
+    type: 'fill',
+    trade: { symbol: 'BTC', type, quantity, price, liquidity: 'taker' },
+    fee,
+  }, timestamp);
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 'order-1',
+  portfolioId: 'portfolio-1',
+  symbol: 'BTC',
+  side: 'buy',
+  type: 'limit',
+  quantity: 1,
+  price: 50000,
+  status: 'pending',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('ledger', () => {
+  describe('replayLedger', () => {
+    it('rebuilds balances, positions and history from events', () => {
+      const events: LedgerEvent[] = [
+        created(),
+        createLedgerEvent('portfolio-1', { type: 'cash', flowType: 'deposit', amount: 5000 }, 2000),
+        fill('buy', 1, 50000, 3000, 25),
+        fill('sell', 0.5, 60000, 4000, 15),
+      ];
+
+      const [portfolio] = replayLedger(events);
+      expect(portfolio.balance).toBe(100000 + 5000 - 50000 - 25 + 25000 + 5000 - 15);
+      expect(portfolio.positions[0].quantity).toBe(0.5);
+      expect(portfolio.transactions.map(tx => tx.type)).toEqual(['buy', 'sell']);
+      expect(portfolio.transactions[1].realizedPnL).toBe(5000);
+      expect(portfolio.cashFlows).toHaveLength(1);
+    });
+
+    it('reproduces identical state on every replay', () => {
+      const events = [created(), fill('buy', 1, 50000, 2000)];
+      expect(replayLedger(events)).toEqual(replayLedger([...events].reverse()));
+    });
+
+    it('reconstructs state as of a point in time', () => {
+      const events = [created(), fill('buy', 1, 50000, 2000), fill('sell', 1, 55000, 3000)];
+
+      expect(replayPortfolio(events, 'portfolio-1', 2500)?.positions).toHaveLength(1);
+      expect(replayPortfolio(events, 'portfolio-1', 3000)?.positions).toHaveLength(0);
+      expect(replayPortfolio(events, 'portfolio-1', 500)).toBeNull();
+    });
+
+    it('skips events that do not apply', () => {
+      const events = [created(), fill('buy', 10, 50000, 2000)];
+      const [portfolio] = replayLedger(events);
+
+      expect(applyLedgerEvent(replayLedger([created()]), events[1])).toBeNull();
+      expect(portfolio.positions).toHaveLength(0);
+      expect(portfolio.balance).toBe(100000);
+    });
+
+    it('removes deleted portfolios', () => {
+      const events = [
+        created(),
+        createLedgerEvent('portfolio-1', { type: 'portfolio_deleted' }, 2000),
+      ];
+      expect(replayLedger(events)).toEqual([]);
+    });
+  });
+
+  describe('orders', () => {
+    it('records placed and changed orders', () => {
+      const order = createOrder();
+      const filled = { ...order, status: 'filled' as const, filledPrice: 49990 };
+      const untouched = createOrder({ id: 'order-2' });
+
+      const placed = getOrderLedgerEvents([], [order, untouched]);
+      const updated = getOrderLedgerEvents([order, untouched], [filled, untouched]);
+
+      expect(placed.map(event => event.type)).toEqual(['order_placed', 'order_placed']);
+      expect(updated.map(event => event.type)).toEqual(['order_updated']);
+      expect(replayOrders([...placed, ...updated]).find(o => o.id === 'order-1')?.status).toBe('filled');
+    });
+  });
+
+  describe('store', () => {
+    let recorded: LedgerEvent[];
+
+    beforeEach(() => {
+      usePortfolioStore.getState().resetPortfolios();
+      recorded = [];
+      vi.spyOn(storageUtils, 'appendLedgerEvents').mockImplementation(events => {
+        recorded.push(...events);
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('matches a replay of the events it recorded', () => {
+      const store = usePortfolioStore.getState();
+      const portfolioId = store.createPortfolio('Test Portfolio', 50000);
+      store.depositCash(portfolioId, 10000);
+      store.executeTrade({ symbol: 'BTC', type: 'buy', quantity: 0.5, price: 50000 });
+      store.executeTrade({ symbol: 'ETH', type: 'sell', quantity: 2, price: 3000, margin: { leverage: 5, mode: 'isolated', maintenanceMarginRate: 0.01 } });
+      const positionId = usePortfolioStore.getState().getPortfolioById(portfolioId)!.positions[0].id;
+      store.setPositionExits(positionId, { stopLoss: 45000 });
+      store.executeTrade({ symbol: 'BTC', type: 'sell', quantity: 0.2, price: 52000 });
+      store.withdrawCash(portfolioId, 1000);
+
+      expect(replayLedger(recorded)).toEqual(usePortfolioStore.getState().portfolios);
+    });
+
+    it('replays transfers on both sides', () => {
+      const store = usePortfolioStore.getState();
+      const fromId = store.createPortfolio('From', 50000);
+      const toId = store.createPortfolio('To', 10000);
+      store.executeTrade({ symbol: 'BTC', type: 'buy', quantity: 0.5, price: 50000, portfolioId: fromId });
+      const positionId = usePortfolioStore.getState().getPortfolioById(fromId)!.positions[0].id;
+      store.transferCash(fromId, toId, 5000);
+      store.transferPosition(fromId, toId, positionId);
+
+      expect(recorded.filter(event => event.type === 'transfer')).toHaveLength(4);
+      expect(replayLedger(recorded)).toEqual(usePortfolioStore.getState().portfolios);
+      expect(replayPortfolio(recorded, toId)).toEqual(usePortfolioStore.getState().getPortfolioById(toId));
+    });
+
+    it('records nothing for a rejected trade', () => {
+      const store = usePortfolioStore.getState();
+      store.createPortfolio('Test Portfolio', 1000);
+      const before = recorded.length;
+
+      expect(store.executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 })).toBe(false);
+      expect(recorded).toHaveLength(before);
+    });
+  });
+});
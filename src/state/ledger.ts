@@ -0,0 +1,539 @@
+import {
+  getLiquidationPenalty,
+  getPositionDirection,
+  getPositionEquity,
+} from '@/utils/margin';
+import { calculateInitialMargin } from '@/utils/calculations';
+import { getSlippageCost } from '@/utils/execution';
+import { closeLots, createLot, getLotsAverageCost, getPositionLots } from '@/utils/taxLots';
+import { getCurrentTime } from '@/utils/clock';
+import { DEFAULT_COST_BASIS_METHOD, DEFAULT_MARGIN_SETTINGS, DEFAULT_RISK_LIMITS } from '@/types/trading';
+import type { CostBasisMethod, FeeLiquidity, FeeSchedule, Order } from '@/types/trading';
+import type {
+  CashFlow,
+  FundingPayment,
+  Portfolio,
+  Position,
+  TradeRequest,
+  Transfer,
+  TransferAsset,
+} from '@/state/portfolioStore';
+
+// ============================================================================
+// LEDGER EVENTS
+// ============================================================================
+
+interface LedgerEventBase {
+  id: string;
+  portfolioId: string;
+  timestamp: number;
+  sequence: number; // Orders events recorded in the same millisecond
+}
+
+export type LedgerFill = Omit<TradeRequest, 'portfolioId' | 'liquidity'> & { liquidity: FeeLiquidity };
+
+export type PositionExitChanges = Partial<Pick<Position, 'stopLoss' | 'takeProfit' | 'trailingStop'>>;
+
+export type LedgerEventPayload =
+  | {
+    type: 'portfolio_created';
+    name: string;
+    initialBalance: number;
+    feeSchedule: FeeSchedule;
+    costBasisMethod: CostBasisMethod;
+    replay?: boolean;
+  }
+  | { type: 'portfolio_snapshot'; portfolio: Portfolio } // Full state: the ledger's starting point or a manual adjustment
+  | { type: 'portfolio_deleted' }
+  | {
+    type: 'settings_changed';
+    changes: Partial<Pick<Portfolio, 'name' | 'feeSchedule' | 'costBasisMethod' | 'riskLimits'>>;
+  }
+  | { type: 'fill'; trade: LedgerFill; fee: number; liquidation?: boolean }
+  | { type: 'funding'; payments: FundingPayment[] }
+  | { type: 'cash'; flowType: CashFlow['type']; amount: number; note?: string }
+  | { type: 'exits_changed'; positionId: string; changes: PositionExitChanges }
+  | {
+    type: 'transfer';
+    transferId: string;
+    direction: Transfer['direction'];
+    counterpartyId: string;
+    counterpartyName: string;
+    asset: TransferAsset;
+    note?: string;
+  }
+  | { type: 'order_placed'; order: Order }
+  | { type: 'order_updated'; order: Order };
+
+export type LedgerEvent = LedgerEventBase & LedgerEventPayload;
+
+let lastSequence = 0;
+
+/**
+ * Stamp a payload as the next event in the ledger
+ */
+export function createLedgerEvent(
+  portfolioId: string,
+  payload: LedgerEventPayload,
+  timestamp: number = getCurrentTime()
+): LedgerEvent {
+  return {
+    ...payload,
+    id: `evt_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
+    portfolioId,
+    timestamp,
+    sequence: ++lastSequence,
+  };
+}
+
+/**
+ * Order events for replay: by time, then by the order they were recorded in
+ */
+export function sortLedgerEvents(events: LedgerEvent[]): LedgerEvent[] {
+  return [...events].sort((a, b) => a.timestamp - b.timestamp || a.sequence - b.sequence);
+}
+
+// Ids created by an event derive from it so replays reproduce them exactly
+function getEventKey(event: LedgerEvent): string {
+  return event.id.replace(/^evt_/, '');
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Apply one event to a set of portfolios. Returns null when the event can't
+ * apply, such as a fill the portfolio can't afford or an unknown portfolio.
+ */
+export function applyLedgerEvent(portfolios: Portfolio[], event: LedgerEvent): Portfolio[] | null {
+  switch (event.type) {
+    case 'portfolio_created': {
+      if (portfolios.some(p => p.id === event.portfolioId)) return null;
+      return [...portfolios, {
+        id: event.portfolioId,
+        name: event.name,
+        balance: event.initialBalance,
+        currentBalance: event.initialBalance, // Same as balance for compatibility
+        initialBalance: event.initialBalance,
+        positions: [],
+        transactions: [],
+        fundingPayments: [],
+        cashFlows: [],
+        transfers: [],
+        feeSchedule: event.feeSchedule,
+        costBasisMethod: event.costBasisMethod,
+        riskLimits: DEFAULT_RISK_LIMITS,
+        ...(event.replay && { replay: true }),
+        createdAt: event.timestamp,
+      }];
+    }
+
+    case 'portfolio_snapshot':
+      return portfolios.some(p => p.id === event.portfolioId)
+        ? portfolios.map(p => (p.id === event.portfolioId ? event.portfolio : p))
+        : [...portfolios, event.portfolio];
+
+    case 'portfolio_deleted':
+      return portfolios.filter(p => p.id !== event.portfolioId);
+
+    // Orders live in the position store; see replayOrders
+    case 'order_placed':
+    case 'order_updated':
+      return portfolios;
+  }
+
+  const portfolio = portfolios.find(p => p.id === event.portfolioId);
+  if (!portfolio) return null;
+
+  const updated = applyPortfolioEvent(portfolio, event);
+  if (!updated) return null;
+
+  return portfolios.map(p => (p.id === event.portfolioId ? updated : p));
+}
+
+function applyPortfolioEvent(portfolio: Portfolio, event: LedgerEvent): Portfolio | null {
+  switch (event.type) {
+    case 'settings_changed':
+      return { ...portfolio, ...event.changes };
+
+    case 'fill': {
+      const fill = { key: getEventKey(event), timestamp: event.timestamp, fee: event.fee };
+      if (!event.liquidation) return applyTrade(portfolio, event.trade, fill);
+
+      const position = portfolio.positions.find(p => p.symbol === event.trade.symbol);
+      const updated = applyTrade(portfolio, { ...event.trade, reduceOnly: true }, fill);
+      return position && updated ? applyLiquidationPenalty(updated, position, event.trade.price) : null;
+    }
+
+    case 'funding':
+      return applyFunding(portfolio, event.payments);
+
+    case 'cash':
+      return applyCashFlow(portfolio, event.flowType, event.amount, event.note, {
+        key: getEventKey(event),
+        timestamp: event.timestamp,
+      });
+
+    case 'transfer':
+      return applyTransfer(portfolio, event, {
+        key: getEventKey(event),
+        timestamp: event.timestamp,
+      });
+
+    case 'exits_changed':
+      if (!portfolio.positions.some(p => p.id === event.positionId)) return null;
+      return {
+        ...portfolio,
+        positions: portfolio.positions.map(position =>
+          position.id === event.positionId ? { ...position, ...event.changes } : position
+        ),
+      };
+
+    default:
+      return portfolio;
+  }
+}
+
+/**
+ * Rebuild every portfolio from its events, optionally as of a point in time.
+ * Events that didn't apply when recorded are skipped again.
+ */
+export function replayLedger(events: LedgerEvent[], until?: number): Portfolio[] {
+  return sortLedgerEvents(events)
+    .filter(event => until === undefined || event.timestamp <= until)
+    .reduce((portfolios, event) => applyLedgerEvent(portfolios, event) ?? portfolios, [] as Portfolio[]);
+}
+
+/**
+ * Rebuild one portfolio from its events, or null if it didn't exist at that time
+ */
+export function replayPortfolio(events: LedgerEvent[], portfolioId: string, until?: number): Portfolio | null {
+  const portfolioEvents = events.filter(event => event.portfolioId === portfolioId);
+  return replayLedger(portfolioEvents, until).find(p => p.id === portfolioId) ?? null;
+}
+
+/**
+ * Rebuild order history from its events, optionally as of a point in time
+ */
+export function replayOrders(events: LedgerEvent[], until?: number): Order[] {
+  const orders = new Map<string, Order>();
+
+  sortLedgerEvents(events)
+    .filter(event => until === undefined || event.timestamp <= until)
+    .forEach(event => {
+      if (event.type === 'order_placed' || event.type === 'order_updated') {
+        orders.set(event.order.id, event.order);
+      }
+    });
+
+  return [...orders.values()];
+}
+
+/**
+ * Events describing how the order book changed between two snapshots
+ */
+export function getOrderLedgerEvents(previous: Order[], next: Order[]): LedgerEvent[] {
+  const previousById = new Map(previous.map(order => [order.id, order]));
+
+  return next.flatMap(order => {
+    const before = previousById.get(order.id);
+    if (before === order) return [];
+    return [createLedgerEvent(order.portfolioId, {
+      type: before ? 'order_updated' : 'order_placed',
+      order,
+    })];
+  });
+}
+
+// ============================================================================
+// TRADE APPLICATION
+// ============================================================================
+
+interface FillContext {
+  key: string; // Seeds the ids of the transaction, position and lot the fill creates
+  timestamp: number;
+  fee: number;
+}
+
+/**
+ * Apply a fill to a portfolio, netting against any opposite position.
+ * Opening or adding posts initial margin from the cash balance and opens a
+ * lot; reducing closes lots under the portfolio's cost basis method and
+ * releases margin pro rata plus their realized P&L. A fill larger than the
+ * opposite position flips it. The fee recorded with the fill comes out of
+ * the balance. Returns null when the trade can't be applied.
+ */
+function applyTrade(source: Portfolio, trade: LedgerFill, fill: FillContext): Portfolio | null {
+  if (trade.quantity <= 0 || trade.price <= 0) return null;
+
+  // Work on a copy so subscribers see new position/transaction references
+  const portfolio: Portfolio = {
+    ...source,
+    positions: source.positions.map(p => ({ ...p })),
+    transactions: [...source.transactions],
+  };
+  const tradeDirection = trade.type === 'buy' ? 1 : -1;
+  const { key, timestamp: now, fee } = fill;
+  let remaining = trade.quantity;
+  let closing: ReturnType<typeof closeLots> | null = null;
+
+  const existingIndex = portfolio.positions.findIndex(p => p.symbol === trade.symbol);
+  const existing = existingIndex >= 0 ? portfolio.positions[existingIndex] : null;
+
+  // Reduce an opposite position first
+  if (existing && getPositionDirection(existing) !== tradeDirection) {
+    const closeQuantity = Math.min(remaining, existing.quantity);
+    const releasedMargin = existing.margin * (closeQuantity / existing.quantity);
+    closing = closeLots(
+      existing,
+      closeQuantity,
+      trade.price,
+      source.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD,
+      now
+    );
+
+    if (closeQuantity === existing.quantity) {
+      portfolio.positions.splice(existingIndex, 1);
+    } else {
+      portfolio.positions[existingIndex] = {
+        ...existing,
+        quantity: existing.quantity - closeQuantity,
+        entryPrice: getLotsAverageCost(closing.remainingLots),
+        lots: closing.remainingLots,
+        margin: existing.margin - releasedMargin,
+      };
+    }
+
+    portfolio.balance += releasedMargin + closing.realizedPnL;
+    remaining -= closeQuantity;
+  } else if (trade.reduceOnly) {
+    return null; // Nothing to reduce
+  }
+
+  if (remaining > 0) {
+    if (trade.reduceOnly) return null; // Would flip the position
+
+    const settings = trade.margin ?? DEFAULT_MARGIN_SETTINGS;
+    const requiredMargin = calculateInitialMargin(remaining * trade.price, settings.leverage);
+    if (portfolio.balance < requiredMargin + fee) {
+      return null; // Insufficient funds
+    }
+
+    const sameSideIndex = portfolio.positions.findIndex(p => p.symbol === trade.symbol);
+
+    if (sameSideIndex >= 0) {
+      // Add to the position (average price, margin accumulates)
+      const position = portfolio.positions[sameSideIndex];
+      const totalQuantity = position.quantity + remaining;
+      const newAvgPrice = ((position.quantity * position.entryPrice) + (remaining * trade.price)) / totalQuantity;
+      const totalMargin = position.margin + requiredMargin;
+
+      portfolio.positions[sameSideIndex] = {
+        ...position,
+        quantity: totalQuantity,
+        entryPrice: newAvgPrice,
+        lots: [...getPositionLots(position), createLot(remaining, trade.price, now, `lot_${key}`)],
+        margin: totalMargin,
+        leverage: (totalQuantity * newAvgPrice) / totalMargin,
+        maintenanceMarginRate: Math.max(position.maintenanceMarginRate, settings.maintenanceMarginRate),
+      };
+    } else {
+      // Create new position
+      const newPosition: Position = {
+        id: `pos_${key}`,
+        symbol: trade.symbol,
+        quantity: remaining,
+        entryPrice: trade.price,
+        entryTime: now,
+        type: tradeDirection === 1 ? 'long' : 'short',
+        lots: [createLot(remaining, trade.price, now, `lot_${key}`)],
+        leverage: settings.leverage,
+        margin: requiredMargin,
+        marginMode: settings.mode,
+        maintenanceMarginRate: settings.maintenanceMarginRate,
+        cumulativeFunding: 0,
+        lastFundingTime: now,
+      };
+      portfolio.positions.push(newPosition);
+    }
+
+    portfolio.balance -= requiredMargin;
+  }
+
+  portfolio.balance -= fee;
+  portfolio.currentBalance = portfolio.balance; // Keep in sync
+  portfolio.transactions.push({
+    id: `tx_${key}`,
+    symbol: trade.symbol,
+    type: trade.type,
+    quantity: trade.quantity,
+    price: trade.price,
+    timestamp: now,
+    portfolioId: portfolio.id,
+    fee,
+    liquidity: trade.liquidity,
+    ...(trade.midPrice !== undefined && {
+      slippage: getSlippageCost(trade.type, trade.quantity, trade.price, trade.midPrice),
+    }),
+    ...(closing && {
+      realizedPnL: closing.realizedPnL,
+      holdingPeriodMs: closing.holdingPeriodMs,
+      closedLots: closing.closedLots,
+    }),
+  });
+
+  return portfolio;
+}
+
+/**
+ * Settle a forced close: cap isolated losses at the position's margin and
+ * charge the liquidation penalty, marking it on the closing transaction
+ */
+function applyLiquidationPenalty(portfolio: Portfolio, position: Position, markPrice: number): Portfolio {
+  // Isolated losses stop at the position's margin; cross losses stop at the account
+  const settledEquity = getPositionEquity(position, markPrice);
+  let balance = portfolio.balance;
+  let penaltyCap = Math.max(0, balance);
+  if (position.marginMode === 'isolated') {
+    balance -= Math.min(0, settledEquity);
+    penaltyCap = Math.max(0, settledEquity);
+  }
+  const penalty = Math.min(getLiquidationPenalty(position, markPrice), penaltyCap);
+  balance = Math.max(0, balance - penalty);
+
+  const lastIndex = portfolio.transactions.length - 1;
+  portfolio.transactions[lastIndex] = {
+    ...portfolio.transactions[lastIndex],
+    liquidation: { penalty },
+  };
+  portfolio.balance = balance;
+  portfolio.currentBalance = balance;
+
+  return portfolio;
+}
+
+/**
+ * Settle funding payments against their positions. Returns null when every
+ * payment was for an hour already settled or a position no longer open.
+ */
+function applyFunding(portfolio: Portfolio, payments: FundingPayment[]): Portfolio | null {
+  let balance = portfolio.balance;
+  const applied: FundingPayment[] = [];
+
+  const positions = portfolio.positions.map(position => {
+    let updated = position;
+
+    payments
+      .filter(payment => payment.positionId === position.id)
+      .sort((a, b) => a.time - b.time)
+      .forEach(payment => {
+        // Each hour settles once, even if a payment is delivered twice
+        if (payment.time <= updated.lastFundingTime) return;
+
+        // Isolated funding stays with the position's margin; cross funding hits the account
+        updated = {
+          ...updated,
+          cumulativeFunding: updated.cumulativeFunding + payment.amount,
+          lastFundingTime: payment.time,
+          margin: updated.marginMode === 'isolated' ? updated.margin + payment.amount : updated.margin,
+        };
+        if (updated.marginMode === 'cross') balance += payment.amount;
+        applied.push(payment);
+      });
+
+    return updated;
+  });
+
+  if (applied.length === 0) return null;
+
+  return {
+    ...portfolio,
+    positions,
+    balance,
+    currentBalance: balance,
+    fundingPayments: [...portfolio.fundingPayments, ...applied],
+  };
+}
+
+/**
+ * Move cash in or out of a portfolio and record it in the cash ledger
+ */
+function applyCashFlow(
+  portfolio: Portfolio,
+  type: CashFlow['type'],
+  amount: number,
+  note: string | undefined,
+  context: Pick<FillContext, 'key' | 'timestamp'>
+): Portfolio {
+  const balance = portfolio.balance + (type === 'deposit' ? amount : -amount);
+  const flow: CashFlow = {
+    id: `cash_${context.key}`,
+    portfolioId: portfolio.id,
+    type,
+    amount,
+    balanceAfter: balance,
+    timestamp: context.timestamp,
+    note,
+  };
+
+  return {
+    ...portfolio,
+    balance,
+    currentBalance: balance,
+    cashFlows: [...(portfolio.cashFlows ?? []), flow],
+  };
+}
+
+/**
+ * Apply one side of a transfer. Cash can't leave beyond the free balance; a
+ * position leaves whole and arrives with its lots, margin and exits intact,
+ * so its cost basis carries over. The receiving side can't already hold the
+ * symbol. Returns null when the transfer can't apply.
+ */
+function applyTransfer(
+  portfolio: Portfolio,
+  event: Extract<LedgerEventPayload, { type: 'transfer' }>,
+  context: Pick<FillContext, 'key' | 'timestamp'>
+): Portfolio | null {
+  const { asset, direction } = event;
+  let { balance, positions } = portfolio;
+
+  if (asset.kind === 'cash') {
+    if (asset.amount <= 0) return null;
+    if (direction === 'out' && asset.amount > balance) return null;
+    balance += direction === 'in' ? asset.amount : -asset.amount;
+  } else if (direction === 'out') {
+    if (!positions.some(p => p.id === asset.position.id)) return null;
+    positions = positions.filter(p => p.id !== asset.position.id);
+  } else {
+    if (positions.some(p => p.symbol === asset.position.symbol)) return null;
+    positions = [...positions, { ...asset.position, id: `pos_${context.key}` }];
+  }
+
+  const transfer: Transfer = {
+    id: `transfer_${context.key}`,
+    transferId: event.transferId,
+    portfolioId: portfolio.id,
+    counterpartyId: event.counterpartyId,
+    counterpartyName: event.counterpartyName,
+    direction,
+    kind: asset.kind,
+    amount: asset.kind === 'cash' ? asset.amount : asset.position.margin,
+    ...(asset.kind === 'position' && {
+      symbol: asset.position.symbol,
+      quantity: asset.position.quantity,
+      entryPrice: asset.position.entryPrice,
+    }),
+    timestamp: context.timestamp,
+    note: event.note,
+  };
+
+  return {
+    ...portfolio,
+    balance,
+    currentBalance: balance,
+    positions,
+    transfers: [...(portfolio.transfers ?? []), transfer],
+  };
+}
@@ -1,12 +1,22 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { usePortfolioStore } from './portfolioStore';
-import { INITIAL_PORTFOLIO_BALANCE } from '@/types/trading';
+import { storageUtils } from '@/services/storage';
+import { setSimulatedTime } from '@/utils/clock';
+import { INITIAL_PORTFOLIO_BALANCE, ZERO_FEE_SCHEDULE } from '@/types/trading';
 
 // Helper to reset store before each test
 beforeEach(() => {
   usePortfolioStore.getState().resetPortfolios();
 });
 
+// Margin and P&L tests assert exact balances, so they trade without fees
+const createFeeFreePortfolio = (name: string) => {
+  const { createPortfolio, setFeeSchedule } = usePortfolioStore.getState();
+  const portfolioId = createPortfolio(name);
+  setFeeSchedule(portfolioId, ZERO_FEE_SCHEDULE);
+  return portfolioId;
+};
+
 describe('Portfolio Store', () => {
   describe('Initial State', () => {
     it('should start with empty portfolios', () => {
@@ -145,6 +155,130 @@ describe('Portfolio Store', () => {
     });
   });
 
+  describe('Cash Ledger', () => {
+    it('should start a portfolio with the chosen capital', () => {
+      const { createPortfolio } = usePortfolioStore.getState();
+      const portfolioId = createPortfolio('Small Account', 2500);
+
+      const portfolio = usePortfolioStore.getState().getPortfolioById(portfolioId);
+      expect(portfolio?.initialBalance).toBe(2500);
+      expect(portfolio?.balance).toBe(2500);
+      expect(portfolio?.cashFlows).toEqual([]);
+    });
+
+    it('should record deposits and withdrawals with the resulting balance', () => {
+      const { createPortfolio, depositCash, withdrawCash } = usePortfolioStore.getState();
+      const portfolioId = createPortfolio('Test Portfolio');
+
+      expect(depositCash(portfolioId, 5000, 'Bonus')).toBe(true);
+      expect(withdrawCash(portfolioId, 2000)).toBe(true);
+
+      const portfolio = usePortfolioStore.getState().getPortfolioById(portfolioId)!;
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE + 3000);
+      expect(portfolio.cashFlows.map(f => [f.type, f.amount, f.balanceAfter])).toEqual([
+        ['deposit', 5000, INITIAL_PORTFOLIO_BALANCE + 5000],
+        ['withdrawal', 2000, INITIAL_PORTFOLIO_BALANCE + 3000],
+      ]);
+      expect(portfolio.cashFlows[0].note).toBe('Bonus');
+    });
+
+    it('should refuse withdrawals beyond available cash and non-positive amounts', () => {
+      const { createPortfolio, depositCash, withdrawCash } = usePortfolioStore.getState();
+      const portfolioId = createPortfolio('Test Portfolio', 1000);
+
+      expect(withdrawCash(portfolioId, 1500)).toBe(false);
+      expect(depositCash(portfolioId, 0)).toBe(false);
+      expect(depositCash(portfolioId, -50)).toBe(false);
+
+      const portfolio = usePortfolioStore.getState().getPortfolioById(portfolioId)!;
+      expect(portfolio.balance).toBe(1000);
+      expect(portfolio.cashFlows).toHaveLength(0);
+    });
+
+    it('should record balance adjustments in the ledger', () => {
+      const { createPortfolio, updatePortfolioBalance } = usePortfolioStore.getState();
+      const portfolioId = createPortfolio('Test Portfolio');
+
+      updatePortfolioBalance(portfolioId, -5000);
+
+      const portfolio = usePortfolioStore.getState().getPortfolioById(portfolioId)!;
+      expect(portfolio.cashFlows).toHaveLength(1);
+      expect(portfolio.cashFlows[0].type).toBe('withdrawal');
+      expect(portfolio.cashFlows[0].amount).toBe(5000);
+    });
+
+    it('should not count deposits as profit', () => {
+      const { createPortfolio, depositCash, getTotalPnL } = usePortfolioStore.getState();
+      const portfolioId = createPortfolio('Test Portfolio');
+
+      depositCash(portfolioId, 25000);
+
+      expect(getTotalPnL(portfolioId, {})).toBe(0);
+    });
+  });
+
+  describe('Transfers', () => {
+    const createPair = () => {
+      const { createPortfolio, setFeeSchedule } = usePortfolioStore.getState();
+      const fromId = createPortfolio('Momentum');
+      const toId = createPortfolio('Carry', 10000);
+      setFeeSchedule(fromId, ZERO_FEE_SCHEDULE);
+      return { fromId, toId };
+    };
+
+    it('should move cash with paired entries on both sides', () => {
+      const { fromId, toId } = createPair();
+
+      expect(usePortfolioStore.getState().transferCash(fromId, toId, 4000, 'Rebalance')).toBe(true);
+
+      const { getPortfolioById } = usePortfolioStore.getState();
+      const from = getPortfolioById(fromId)!;
+      const to = getPortfolioById(toId)!;
+      expect(from.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 4000);
+      expect(to.balance).toBe(14000);
+      expect(from.transfers[0]).toMatchObject({ direction: 'out', kind: 'cash', amount: 4000, counterpartyName: 'Carry' });
+      expect(to.transfers[0]).toMatchObject({ direction: 'in', kind: 'cash', amount: 4000, counterpartyName: 'Momentum' });
+      expect(from.transfers[0].transferId).toBe(to.transfers[0].transferId);
+    });
+
+    it('should move a whole position at its cost basis', () => {
+      const { fromId, toId } = createPair();
+      const { executeTrade, transferPosition } = usePortfolioStore.getState();
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 0.1, price: 40000, portfolioId: fromId });
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 0.1, price: 60000, portfolioId: fromId });
+      const position = usePortfolioStore.getState().getPortfolioById(fromId)!.positions[0];
+
+      expect(transferPosition(fromId, toId, position.id)).toBe(true);
+
+      const { getPortfolioById, getTotalPnL } = usePortfolioStore.getState();
+      const moved = getPortfolioById(toId)!.positions[0];
+      expect(getPortfolioById(fromId)!.positions).toHaveLength(0);
+      expect(moved.entryPrice).toBe(50000);
+      expect(moved.lots.map(lot => lot.price)).toEqual([40000, 60000]);
+      expect(getPortfolioById(toId)!.balance).toBe(10000);
+      // Neither side books the move as profit; the receiver owns the gain from here
+      expect(getTotalPnL(fromId, { BTC: 55000 })).toBe(0);
+      expect(getTotalPnL(toId, { BTC: 55000 })).toBe(1000);
+    });
+
+    it('should move nothing when either side refuses', () => {
+      const { fromId, toId } = createPair();
+      const { executeTrade, transferCash, transferPosition } = usePortfolioStore.getState();
+      executeTrade({ symbol: 'ETH', type: 'buy', quantity: 1, price: 3000, portfolioId: fromId });
+      executeTrade({ symbol: 'ETH', type: 'buy', quantity: 1, price: 3000, portfolioId: toId });
+      const position = usePortfolioStore.getState().getPortfolioById(fromId)!.positions[0];
+
+      expect(transferCash(fromId, toId, INITIAL_PORTFOLIO_BALANCE)).toBe(false);
+      expect(transferCash(fromId, fromId, 100)).toBe(false);
+      expect(transferPosition(fromId, toId, position.id)).toBe(false);
+
+      const { getPortfolioById } = usePortfolioStore.getState();
+      expect(getPortfolioById(fromId)!.positions).toHaveLength(1);
+      expect(getPortfolioById(fromId)!.transfers).toHaveLength(0);
+      expect(getPortfolioById(toId)!.transfers).toHaveLength(0);
+    });
+  });
+
   describe('Portfolio Calculations', () => {
     it('should calculate portfolio value with positions', () => {
       const { createPortfolio, calculatePortfolioValue } = usePortfolioStore.getState();
@@ -214,4 +348,378 @@ describe('Portfolio Store', () => {
       expect(state.activePortfolioId).toBe(null);
     });
   });
-});
\ No newline at end of file
+
+  describe('Protective Exits', () => {
+    it('should attach and clear stop-loss and take-profit on a position', () => {
+      const { executeTrade, setPositionExits } = usePortfolioStore.getState();
+      createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      expect(setPositionExits(positionId, { stopLoss: 45000, takeProfit: 60000 })).toBe(true);
+
+      let position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      expect(position.stopLoss).toBe(45000);
+      expect(position.takeProfit).toBe(60000);
+
+      setPositionExits(positionId, {});
+      position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      expect(position.stopLoss).toBeUndefined();
+      expect(position.takeProfit).toBeUndefined();
+    });
+
+    it('should close a position in a non-active portfolio', () => {
+      const { executeTrade, closePosition } = usePortfolioStore.getState();
+      createFeeFreePortfolio('Active Portfolio');
+      const otherId = createFeeFreePortfolio('Other Portfolio');
+      executeTrade({ symbol: 'ETH', type: 'buy', quantity: 2, price: 3000, portfolioId: otherId });
+
+      const other = usePortfolioStore.getState().getPortfolioById(otherId)!;
+      expect(closePosition(other.positions[0].id, 3300, otherId)).toBe(true);
+
+      const closed = usePortfolioStore.getState().getPortfolioById(otherId)!;
+      expect(closed.positions).toHaveLength(0);
+      expect(closed.balance).toBe(INITIAL_PORTFOLIO_BALANCE + 600);
+    });
+  });
+
+  describe('Shorts and Leverage', () => {
+    const margin = { leverage: 5, mode: 'cross' as const, maintenanceMarginRate: 0.01 };
+
+    it('should open a short when selling without a position', () => {
+      const { executeTrade } = usePortfolioStore.getState();
+      createFeeFreePortfolio('Test Portfolio');
+
+      expect(executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 50000 })).toBe(true);
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.positions[0].type).toBe('short');
+      expect(portfolio.positions[0].margin).toBe(50000);
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 50000);
+    });
+
+    it('should post only initial margin for leveraged positions', () => {
+      const { executeTrade, getPortfolioValue } = usePortfolioStore.getState();
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 2, price: 50000, margin });
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.positions[0].margin).toBe(20000);
+      expect(portfolio.positions[0].leverage).toBe(5);
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 20000);
+      expect(getPortfolioValue(portfolioId, { BTC: 51000 })).toBe(INITIAL_PORTFOLIO_BALANCE + 2000);
+    });
+
+    it('should realize short P&L and release margin when covering', () => {
+      const { executeTrade, closePosition } = usePortfolioStore.getState();
+      createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'ETH', type: 'sell', quantity: 10, price: 3000, margin });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      expect(closePosition(positionId, 2800)).toBe(true);
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.positions).toHaveLength(0);
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE + 2000);
+      expect(portfolio.transactions[1].type).toBe('buy');
+    });
+
+    it('should flip a position when a fill exceeds it', () => {
+      const { executeTrade } = usePortfolioStore.getState();
+      createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+      executeTrade({ symbol: 'BTC', type: 'sell', quantity: 3, price: 50000, margin });
+
+      const position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      expect(position.type).toBe('short');
+      expect(position.quantity).toBe(2);
+      expect(position.margin).toBe(20000);
+    });
+
+    it('should refuse reduce-only trades that would open or flip', () => {
+      const { executeTrade } = usePortfolioStore.getState();
+      createFeeFreePortfolio('Test Portfolio');
+
+      expect(executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 50000, reduceOnly: true })).toBe(false);
+
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+      expect(executeTrade({ symbol: 'BTC', type: 'sell', quantity: 2, price: 50000, reduceOnly: true })).toBe(false);
+      expect(usePortfolioStore.getState().getActivePortfolio()!.positions[0].quantity).toBe(1);
+    });
+  });
+
+  describe('Tax Lots', () => {
+    const buyTwoLots = () => {
+      const { executeTrade } = usePortfolioStore.getState();
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 40000 });
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 60000 });
+      return portfolioId;
+    };
+
+    it('should open one lot per buy', () => {
+      buyTwoLots();
+
+      const position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      expect(position.lots.map(lot => [lot.quantity, lot.price])).toEqual([[1, 40000], [1, 60000]]);
+      expect(position.entryPrice).toBe(50000);
+    });
+
+    it('should realize P&L on the oldest lot first under FIFO', () => {
+      buyTwoLots();
+      usePortfolioStore.getState().executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 55000 });
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      const sell = portfolio.transactions[2];
+      expect(sell.realizedPnL).toBe(15000);
+      expect(sell.closedLots?.[0].entryPrice).toBe(40000);
+      expect(sell.holdingPeriodMs).toBeGreaterThanOrEqual(0);
+      expect(portfolio.positions[0].entryPrice).toBe(60000);
+      // Half the margin comes back plus the P&L of the lot actually closed
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 100000 + 50000 + 15000);
+    });
+
+    it('should close the highest-cost lot first under HIFO', () => {
+      const portfolioId = buyTwoLots();
+      usePortfolioStore.getState().setCostBasisMethod(portfolioId, 'hifo');
+      usePortfolioStore.getState().executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 55000 });
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.transactions[2].realizedPnL).toBe(-5000);
+      expect(portfolio.positions[0].entryPrice).toBe(40000);
+    });
+
+    it('should realize against the average under average cost', () => {
+      const portfolioId = buyTwoLots();
+      usePortfolioStore.getState().setCostBasisMethod(portfolioId, 'average');
+      usePortfolioStore.getState().executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 55000 });
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.transactions[2].realizedPnL).toBe(5000);
+      expect(portfolio.positions[0].entryPrice).toBe(50000);
+    });
+
+    it('should leave opening fills without realized P&L', () => {
+      buyTwoLots();
+
+      const transactions = usePortfolioStore.getState().getActivePortfolio()!.transactions;
+      expect(transactions.every(tx => tx.realizedPnL === undefined)).toBe(true);
+    });
+  });
+
+  describe('Risk Limits', () => {
+    it('should start without limits', () => {
+      createFeeFreePortfolio('Test Portfolio');
+      expect(usePortfolioStore.getState().getActivePortfolio()!.riskLimits).toEqual({});
+    });
+
+    it('should reject trades that break a rule with a reason', () => {
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      const { setRiskLimits, executeTrade, checkTradeRisk } = usePortfolioStore.getState();
+      setRiskLimits(portfolioId, { maxPositionPercent: 20 });
+
+      const trade = { symbol: 'BTC', type: 'buy' as const, quantity: 1, price: 50000 };
+      expect(checkTradeRisk(trade)).toContain('50.0% of equity');
+      expect(executeTrade(trade)).toBe(false);
+      expect(executeTrade({ ...trade, quantity: 0.2 })).toBe(true);
+    });
+
+    it('should say why a trade was rejected when executing it', () => {
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      const { setRiskLimits, tryExecuteTrade } = usePortfolioStore.getState();
+      expect(tryExecuteTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 50000, reduceOnly: true }))
+        .toBe('Insufficient cash or position');
+
+      setRiskLimits(portfolioId, { maxPositionPercent: 20 });
+      expect(tryExecuteTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 })).toContain('50.0% of equity');
+      expect(tryExecuteTrade({ symbol: 'BTC', type: 'buy', quantity: 0.2, price: 50000 })).toBeNull();
+    });
+
+    it('should still let a locked-out portfolio close positions', () => {
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      const { setRiskLimits, executeTrade } = usePortfolioStore.getState();
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+      setRiskLimits(portfolioId, { maxTradesPerDay: 1 });
+
+      expect(executeTrade({ symbol: 'ETH', type: 'buy', quantity: 1, price: 3000 })).toBe(false);
+      expect(executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 48000 })).toBe(true);
+    });
+  });
+
+  describe('Liquidation', () => {
+    const margin = { leverage: 5, mode: 'isolated' as const, maintenanceMarginRate: 0.01 };
+
+    it('should force-close and charge the maintenance margin as penalty', () => {
+      const { executeTrade, liquidatePosition } = usePortfolioStore.getState();
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000, margin });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      expect(liquidatePosition(positionId, 41000, portfolioId)).toBe(true);
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      const transaction = portfolio.transactions[1];
+      expect(portfolio.positions).toHaveLength(0);
+      expect(transaction.type).toBe('sell');
+      expect(transaction.liquidation?.penalty).toBeCloseTo(410);
+      expect(portfolio.balance).toBeCloseTo(INITIAL_PORTFOLIO_BALANCE - 9000 - 410);
+    });
+
+    it('should cap isolated losses at the posted margin', () => {
+      const { executeTrade, liquidatePosition } = usePortfolioStore.getState();
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000, margin });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      liquidatePosition(positionId, 35000, portfolioId);
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 10000);
+      expect(portfolio.transactions[1].liquidation?.penalty).toBe(0);
+    });
+  });
+
+  describe('Fees', () => {
+    it('should charge the taker rate on market fills and record it', () => {
+      const { createPortfolio, executeTrade } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.transactions[0].fee).toBeCloseTo(22.5); // 0.045%
+      expect(portfolio.transactions[0].liquidity).toBe('taker');
+      expect(portfolio.balance).toBeCloseTo(INITIAL_PORTFOLIO_BALANCE - 50000 - 22.5);
+    });
+
+    it('should charge the maker rate on resting order fills', () => {
+      const { createPortfolio, executeTrade } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000, liquidity: 'maker' });
+
+      const transaction = usePortfolioStore.getState().getActivePortfolio()!.transactions[0];
+      expect(transaction.fee).toBeCloseTo(7.5); // 0.015%
+      expect(transaction.liquidity).toBe('maker');
+    });
+
+    it('should record slippage against the mid on book fills', () => {
+      const { createPortfolio, executeTrade } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50010, midPrice: 50000 });
+      executeTrade({ symbol: 'BTC', type: 'sell', quantity: 1, price: 49990 });
+
+      const [buy, sell] = usePortfolioStore.getState().getActivePortfolio()!.transactions;
+      expect(buy.slippage).toBe(10);
+      expect(sell.slippage).toBeUndefined();
+    });
+
+    it('should refuse opening trades that cannot cover margin plus fee', () => {
+      const { createPortfolio, executeTrade } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+
+      expect(executeTrade({ symbol: 'BTC', type: 'buy', quantity: 2, price: 50000 })).toBe(false);
+    });
+  });
+
+  describe('Funding', () => {
+    const createPayment = (positionId: string, portfolioId: string, amount: number, time: number) => ({
+      id: `funding_${positionId}_${time}`,
+      portfolioId,
+      positionId,
+      symbol: 'BTC',
+      rate: 0.0001,
+      price: 50000,
+      quantity: 1,
+      amount,
+      time,
+    });
+
+    it('should book funding against the balance and the position once per hour', () => {
+      const { executeTrade, applyFundingPayments } = usePortfolioStore.getState();
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+
+      const position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      const payment = createPayment(position.id, portfolioId, -5, position.lastFundingTime + 1);
+      applyFundingPayments([payment]);
+      applyFundingPayments([payment]);
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.positions[0].cumulativeFunding).toBe(-5);
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 50000 - 5);
+      expect(portfolio.fundingPayments).toHaveLength(1);
+    });
+
+    it('should keep isolated funding in the position margin', () => {
+      const { executeTrade, applyFundingPayments } = usePortfolioStore.getState();
+      const portfolioId = createFeeFreePortfolio('Test Portfolio');
+      executeTrade({
+        symbol: 'BTC',
+        type: 'sell',
+        quantity: 1,
+        price: 50000,
+        margin: { leverage: 5, mode: 'isolated', maintenanceMarginRate: 0.01 },
+      });
+
+      const position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      applyFundingPayments([createPayment(position.id, portfolioId, 5, position.lastFundingTime + 1)]);
+
+      const portfolio = usePortfolioStore.getState().getActivePortfolio()!;
+      expect(portfolio.positions[0].margin).toBe(10005);
+      expect(portfolio.balance).toBe(INITIAL_PORTFOLIO_BALANCE - 10000);
+    });
+  });
+
+  describe('Trailing Stops', () => {
+    it('should ratchet the high-water mark only in the position\'s favour', () => {
+      const { createPortfolio, executeTrade, setTrailingStop, advanceTrailingStops } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      expect(setTrailingStop(positionId, { mode: 'percent', distance: 5, highWaterMark: 50000 })).toBe(true);
+
+      advanceTrailingStops({ BTC: 52000 });
+      advanceTrailingStops({ BTC: 51000 });
+
+      const position = usePortfolioStore.getState().getActivePortfolio()!.positions[0];
+      expect(position.trailingStop?.highWaterMark).toBe(52000);
+    });
+
+    it('should record every ratcheted high-water mark in the ledger', () => {
+      const { createPortfolio, executeTrade, setTrailingStop, advanceTrailingStops } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      setTrailingStop(positionId, { mode: 'percent', distance: 5, highWaterMark: 50000 });
+
+      const append = vi.spyOn(storageUtils, 'appendLedgerEvents');
+      setSimulatedTime(1_700_000_000_000);
+      advanceTrailingStops({ BTC: 52000 });
+      advanceTrailingStops({ BTC: 53000 });
+      setSimulatedTime(null);
+
+      const recorded = append.mock.calls.flatMap(([events]) => events);
+      append.mockRestore();
+      expect(recorded).toHaveLength(2);
+      expect(recorded.every(event => event.timestamp === 1_700_000_000_000)).toBe(true);
+      expect(recorded.map(event => event.type === 'exits_changed' && event.changes.trailingStop?.highWaterMark))
+        .toEqual([52000, 53000]);
+      expect(usePortfolioStore.getState().getActivePortfolio()!.positions[0].trailingStop?.highWaterMark).toBe(53000);
+    });
+
+    it('should not rewrite state when no high-water mark moves', () => {
+      const { createPortfolio, executeTrade, setTrailingStop, advanceTrailingStops } = usePortfolioStore.getState();
+      createPortfolio('Test Portfolio');
+      executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 50000 });
+
+      const positionId = usePortfolioStore.getState().getActivePortfolio()!.positions[0].id;
+      setTrailingStop(positionId, { mode: 'absolute', distance: 1000, highWaterMark: 50000 });
+
+      const before = usePortfolioStore.getState().portfolios;
+      advanceTrailingStops({ BTC: 49500, ETH: 3000 });
+      expect(usePortfolioStore.getState().portfolios).toBe(before);
+    });
+  });
+});
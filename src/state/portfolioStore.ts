@@ -1,13 +1,74 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { getNextHighWaterMark } from '@/utils/orderMatching';
+import { getPositionEquity } from '@/utils/margin';
+import { calculateTradeFee } from '@/utils/fees';
+import { getNetContributions } from '@/utils/cashLedger';
+import { getPositionLots } from '@/utils/taxLots';
+import { checkRiskLimits } from '@/utils/riskLimits';
+import { getCurrentTime } from '@/utils/clock';
+import { applyLedgerEvent, createLedgerEvent, replayPortfolio } from '@/state/ledger';
+import type { LedgerEvent, LedgerEventPayload } from '@/state/ledger';
+import { storageUtils, tradingStorage } from '@/services/storage';
+import {
+  DEFAULT_COST_BASIS_METHOD,
+  DEFAULT_FEE_SCHEDULE,
+  DEFAULT_MARGIN_SETTINGS,
+  DEFAULT_RISK_LIMITS,
+  INITIAL_PORTFOLIO_BALANCE,
+} from '@/types/trading';
+import type {
+  CostBasisMethod,
+  FeeLiquidity,
+  FeeSchedule,
+  MarginMode,
+  MarginSettings,
+  RiskLimits,
+} from '@/types/trading';
 
 export interface Position {
   id: string;
   symbol: string;
   quantity: number;
-  entryPrice: number;
+  entryPrice: number; // Average cost of the open lots
   entryTime: number;
   type: 'long' | 'short';
+  lots: TaxLot[]; // One per opening fill, oldest first
+  leverage: number; // Effective leverage: entry notional over posted margin
+  margin: number; // Initial margin posted from the cash balance
+  marginMode: MarginMode;
+  maintenanceMarginRate: number; // Fraction of notional required to keep the position open
+  cumulativeFunding: number; // Funding received (positive) or paid (negative) while open
+  lastFundingTime: number; // Hour mark of the last funding settlement, or entry time
+  stopLoss?: number; // Exit when the live mid trades through this level against the position
+  takeProfit?: number; // Exit when the live mid reaches this level in favour of the position
+  trailingStop?: TrailingStop;
+}
+
+export interface TaxLot {
+  id: string;
+  quantity: number; // Still open
+  price: number; // Entry price of the lot
+  openedAt: number;
+}
+
+export interface ClosedLot {
+  lotId: string;
+  quantity: number;
+  entryPrice: number;
+  openedAt: number;
+  realizedPnL: number; // Before fees
+}
+
+export interface TrailingStop {
+  mode: 'percent' | 'absolute';
+  distance: number; // Percent (e.g. 5 for 5%) or dollar distance from the high-water mark
+  highWaterMark: number; // Best mid seen since the trail was set (lowest mid for shorts)
+}
+
+export interface PositionExits {
+  stopLoss?: number;
+  takeProfit?: number;
 }
 
 export interface Transaction {
@@ -18,6 +79,56 @@ export interface Transaction {
   price: number;
   timestamp: number;
   portfolioId: string;
+  fee: number; // Trading fee charged on the fill, already taken from the balance
+  liquidity: FeeLiquidity;
+  liquidation?: { penalty: number }; // Set when the fill was a forced close
+  slippage?: number; // Cost against the book mid of a market fill; negative when it filled better
+  realizedPnL?: number; // Gross P&L on the lots the fill closed, before fees
+  holdingPeriodMs?: number; // Quantity-weighted age of the lots the fill closed
+  closedLots?: ClosedLot[];
+}
+
+export interface FundingPayment {
+  id: string;
+  portfolioId: string;
+  positionId: string;
+  symbol: string;
+  rate: number; // Hourly rate settled
+  price: number; // Oracle price the notional was valued at
+  quantity: number;
+  amount: number; // Received (positive) or paid (negative)
+  time: number; // Funding hour mark
+}
+
+export interface CashFlow {
+  id: string;
+  portfolioId: string;
+  type: 'deposit' | 'withdrawal';
+  amount: number; // Always positive; the type gives the direction
+  balanceAfter: number; // Cash balance once the entry was applied
+  timestamp: number;
+  note?: string;
+}
+
+// What a transfer moves: cash, or a whole position at its cost basis
+export type TransferAsset =
+  | { kind: 'cash'; amount: number }
+  | { kind: 'position'; position: Position };
+
+export interface Transfer {
+  id: string;
+  transferId: string; // Shared by the paired entries in both portfolios
+  portfolioId: string;
+  counterpartyId: string; // The portfolio on the other side
+  counterpartyName: string;
+  direction: 'in' | 'out';
+  kind: TransferAsset['kind'];
+  amount: number; // Cash moved, or the position's posted margin at cost
+  symbol?: string; // Set for position transfers
+  quantity?: number;
+  entryPrice?: number;
+  timestamp: number;
+  note?: string;
 }
 
 export interface Portfolio {
@@ -25,35 +136,67 @@ export interface Portfolio {
   name: string;
   balance: number; // Available cash
   currentBalance: number; // Current available balance (alias for balance for compatibility)
-  initialBalance: number; // Starting balance ($100,000)
+  initialBalance: number; // Starting capital chosen at creation
   positions: Position[];
   transactions: Transaction[];
+  fundingPayments: FundingPayment[];
+  cashFlows: CashFlow[]; // Deposits and withdrawals after the starting capital
+  transfers: Transfer[]; // Cash and positions moved to or from other portfolios
+  feeSchedule: FeeSchedule;
+  costBasisMethod: CostBasisMethod;
+  riskLimits: RiskLimits;
+  replay?: boolean; // Created for market replay; trades only on the replay feed
   createdAt: number;
 }
 
+export interface TradeRequest {
+  symbol: string;
+  type: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  portfolioId?: string; // Defaults to the active portfolio
+  margin?: MarginSettings; // Defaults to unlevered cross margin
+  reduceOnly?: boolean; // Fail rather than open or flip a position
+  liquidity?: FeeLiquidity; // Defaults to taker
+  midPrice?: number; // Book mid a market order was filled against, to record its slippage
+}
+
 interface PortfolioState {
   portfolios: Portfolio[];
   activePortfolioId: string | null;
 
   // Portfolio management
-  createPortfolio: (name: string) => string;
+  createPortfolio: (name: string, initialBalance?: number, options?: { replay?: boolean; createdAt?: number }) => string;
   deletePortfolio: (portfolioId: string) => void;
   setActivePortfolio: (portfolioId: string) => void;
   getActivePortfolio: () => Portfolio | null;
   updatePortfolio: (portfolioId: string, updates: Partial<Portfolio>) => void;
+  setFeeSchedule: (portfolioId: string, feeSchedule: FeeSchedule) => void;
+  setCostBasisMethod: (portfolioId: string, method: CostBasisMethod) => void;
+  setRiskLimits: (portfolioId: string, riskLimits: RiskLimits) => void;
   getPortfolioById: (portfolioId: string) => Portfolio | null;
   resetPortfolios: () => void;
 
   // Trading actions
-  executeTrade: (trade: {
-    symbol: string;
-    type: 'buy' | 'sell';
-    quantity: number;
-    price: number;
-  }) => boolean;
+  executeTrade: (trade: TradeRequest) => boolean;
+  tryExecuteTrade: (trade: TradeRequest) => string | null; // Why the trade was rejected, or null once filled
+  checkTradeRisk: (trade: TradeRequest) => string | null;
 
   // Position management
-  closePosition: (positionId: string, currentPrice: number) => boolean;
+  closePosition: (positionId: string, currentPrice: number, portfolioId?: string) => boolean;
+  liquidatePosition: (positionId: string, markPrice: number, portfolioId: string) => boolean;
+  setPositionExits: (positionId: string, exits: PositionExits, portfolioId?: string) => boolean;
+  setTrailingStop: (positionId: string, trailingStop: TrailingStop | undefined, portfolioId?: string) => boolean;
+  advanceTrailingStops: (currentPrices: Record<string, number>, includePortfolio?: (portfolio: Portfolio) => boolean) => void;
+  applyFundingPayments: (payments: FundingPayment[]) => void;
+
+  // Cash ledger
+  depositCash: (portfolioId: string, amount: number, note?: string) => boolean;
+  withdrawCash: (portfolioId: string, amount: number, note?: string) => boolean;
+
+  // Transfers between portfolios
+  transferCash: (fromPortfolioId: string, toPortfolioId: string, amount: number, note?: string) => boolean;
+  transferPosition: (fromPortfolioId: string, toPortfolioId: string, positionId: string) => boolean;
 
   // Portfolio calculations
   getPortfolioValue: (portfolioId: string, currentPrices: Record<string, number>) => number;
@@ -61,6 +204,10 @@ interface PortfolioState {
   updatePortfolioBalance: (portfolioId: string, amount: number) => void;
   calculatePortfolioValue: (portfolioId: string, currentPrices: Record<string, number>) => number;
   getPortfolio: (portfolioId: string) => Portfolio | null;
+
+  // Ledger replay
+  rebuildPortfolio: (portfolioId: string) => Promise<boolean>;
+  getPortfolioAt: (portfolioId: string, timestamp: number) => Promise<Portfolio | null>;
 }
 
 export const usePortfolioStore = create<PortfolioState>()(
@@ -69,21 +216,15 @@ export const usePortfolioStore = create<PortfolioState>()(
       portfolios: [],
       activePortfolioId: null,
 
-      createPortfolio: (name: string) => {
+      createPortfolio: (name: string, initialBalance: number = INITIAL_PORTFOLIO_BALANCE, options = {}) => {
         const portfolioId = `portfolio_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const newPortfolio: Portfolio = {
-          id: portfolioId,
-          name,
-          balance: 100000, // $100k starting balance
-          currentBalance: 100000, // Same as balance for compatibility
-          initialBalance: 100000,
-          positions: [],
-          transactions: [],
-          createdAt: Date.now(),
-        };
+        commitLedgerEvent(createLedgerEvent(
+          portfolioId,
+          createPortfolioPayload(name, initialBalance, options.replay),
+          options.createdAt
+        ));
 
         set((state) => ({
-          portfolios: [...state.portfolios, newPortfolio],
           activePortfolioId: state.activePortfolioId || portfolioId, // Set as active if first portfolio
         }));
 
@@ -91,36 +232,22 @@ export const usePortfolioStore = create<PortfolioState>()(
       },
 
       deletePortfolio: (portfolioId: string) => {
-        set((state) => {
-          const remainingPortfolios = state.portfolios.filter(p => p.id !== portfolioId);
-
-          // If this was the last portfolio, create a default one
-          if (remainingPortfolios.length === 0) {
-            const defaultPortfolioId = `portfolio_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-            const defaultPortfolio: Portfolio = {
-              id: defaultPortfolioId,
-              name: 'Default Portfolio',
-              balance: 100000,
-              currentBalance: 100000,
-              initialBalance: 100000,
-              positions: [],
-              transactions: [],
-              createdAt: Date.now(),
-            };
-
-            return {
-              portfolios: [defaultPortfolio],
-              activePortfolioId: defaultPortfolioId,
-            };
-          }
-
-          return {
-            portfolios: remainingPortfolios,
-            activePortfolioId: state.activePortfolioId === portfolioId
-              ? remainingPortfolios[0]?.id || null
-              : state.activePortfolioId,
-          };
-        });
+        if (!commitLedgerEvent(createLedgerEvent(portfolioId, { type: 'portfolio_deleted' }))) return;
+
+        const remainingPortfolios = get().portfolios;
+
+        // If this was the last portfolio, create a default one
+        if (remainingPortfolios.length === 0) {
+          const defaultPortfolioId = get().createPortfolio('Default Portfolio');
+          set({ activePortfolioId: defaultPortfolioId });
+          return;
+        }
+
+        set((state) => ({
+          activePortfolioId: state.activePortfolioId === portfolioId
+            ? remainingPortfolios[0]?.id || null
+            : state.activePortfolioId,
+        }));
       },
 
       setActivePortfolio: (portfolioId: string) => {
@@ -136,114 +263,36 @@ export const usePortfolioStore = create<PortfolioState>()(
         return portfolios.find(p => p.id === activePortfolioId) || null;
       },
 
-      executeTrade: (trade) => {
+      executeTrade: (trade) => get().tryExecuteTrade(trade) === null,
+
+      tryExecuteTrade: (trade) => {
         const { portfolios, activePortfolioId } = get();
-        if (!activePortfolioId) return false;
+        const portfolioId = trade.portfolioId ?? activePortfolioId;
+        const portfolio = portfolios.find(p => p.id === portfolioId);
+        if (!portfolioId || !portfolio) return 'Portfolio not found';
 
-        const portfolioIndex = portfolios.findIndex(p => p.id === activePortfolioId);
-        if (portfolioIndex === -1) return false;
+        // Every path that opens exposure passes the portfolio's risk rules
+        const riskRejection = get().checkTradeRisk({ ...trade, portfolioId });
+        if (riskRejection) return riskRejection;
 
-        const portfolio = portfolios[portfolioIndex];
-        const totalCost = trade.quantity * trade.price;
-
-        if (trade.type === 'buy') {
-          // Check if enough balance for purchase
-          if (portfolio.balance < totalCost) {
-            return false; // Insufficient funds
-          }
-
-          // Create transaction
-          const transaction: Transaction = {
-            id: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            symbol: trade.symbol,
-            type: 'buy',
-            quantity: trade.quantity,
-            price: trade.price,
-            timestamp: Date.now(),
-            portfolioId: activePortfolioId,
-          };
-
-          // Check if position exists
-          const existingPositionIndex = portfolio.positions.findIndex(p => p.symbol === trade.symbol);
-
-          if (existingPositionIndex >= 0) {
-            // Update existing position (average price)
-            const existingPosition = portfolio.positions[existingPositionIndex];
-            const totalQuantity = existingPosition.quantity + trade.quantity;
-            const newAvgPrice = ((existingPosition.quantity * existingPosition.entryPrice) + totalCost) / totalQuantity;
-
-            portfolio.positions[existingPositionIndex] = {
-              ...existingPosition,
-              quantity: totalQuantity,
-              entryPrice: newAvgPrice,
-            };
-          } else {
-            // Create new position
-            const newPosition: Position = {
-              id: `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              symbol: trade.symbol,
-              quantity: trade.quantity,
-              entryPrice: trade.price,
-              entryTime: Date.now(),
-              type: 'long',
-            };
-            portfolio.positions.push(newPosition);
-          }
-
-          // Update balance and add transaction
-          portfolio.balance -= totalCost;
-          portfolio.currentBalance = portfolio.balance; // Keep in sync
-          portfolio.transactions.push(transaction);
-
-        } else if (trade.type === 'sell') {
-          // Find position to sell from
-          const positionIndex = portfolio.positions.findIndex(p => p.symbol === trade.symbol);
-          if (positionIndex === -1) return false; // No position to sell
-
-          const position = portfolio.positions[positionIndex];
-          if (position.quantity < trade.quantity) return false; // Insufficient quantity
-
-          // Create transaction
-          const transaction: Transaction = {
-            id: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            symbol: trade.symbol,
-            type: 'sell',
-            quantity: trade.quantity,
-            price: trade.price,
-            timestamp: Date.now(),
-            portfolioId: activePortfolioId,
-          };
-
-          // Update position
-          if (position.quantity === trade.quantity) {
-            // Close position completely
-            portfolio.positions.splice(positionIndex, 1);
-          } else {
-            // Reduce position quantity
-            portfolio.positions[positionIndex].quantity -= trade.quantity;
-          }
-
-          // Update balance and add transaction
-          portfolio.balance += totalCost;
-          portfolio.currentBalance = portfolio.balance; // Keep in sync
-          portfolio.transactions.push(transaction);
-        }
+        return commitLedgerEvent(createFillEvent(portfolio, trade)) ? null : 'Insufficient cash or position';
+      },
 
-        // Update state
-        set((state) => ({
-          portfolios: state.portfolios.map((p, index) =>
-            index === portfolioIndex ? portfolio : p
-          ),
-        }));
+      checkTradeRisk: (trade) => {
+        const portfolioId = trade.portfolioId ?? get().activePortfolioId;
+        const portfolio = get().portfolios.find(p => p.id === portfolioId);
+        if (!portfolio) return null;
 
-        return true;
+        // Other positions are valued at entry; the trade's own symbol at its price
+        return checkRiskLimits(portfolio, trade, { [trade.symbol]: trade.price });
       },
 
-      closePosition: (positionId: string, currentPrice: number) => {
+      closePosition: (positionId: string, currentPrice: number, portfolioId?: string) => {
         const { portfolios, activePortfolioId } = get();
-        if (!activePortfolioId) return false;
+        const targetPortfolioId = portfolioId ?? activePortfolioId;
+        if (!targetPortfolioId) return false;
 
-        const portfolioIndex = portfolios.findIndex(p => p.id === activePortfolioId);
+        const portfolioIndex = portfolios.findIndex(p => p.id === targetPortfolioId);
         if (portfolioIndex === -1) return false;
 
         const portfolio = portfolios[portfolioIndex];
@@ -252,25 +301,145 @@ export const usePortfolioStore = create<PortfolioState>()(
 
         const position = portfolio.positions[positionIndex];
 
-        // Execute sell trade to close position
+        // Trade against the position's direction to close it
         return get().executeTrade({
           symbol: position.symbol,
-          type: 'sell',
+          type: position.type === 'long' ? 'sell' : 'buy',
           quantity: position.quantity,
           price: currentPrice,
+          portfolioId: targetPortfolioId,
+          reduceOnly: true,
         });
       },
 
+      liquidatePosition: (positionId: string, markPrice: number, portfolioId: string) => {
+        const portfolio = get().portfolios.find(p => p.id === portfolioId);
+        const position = portfolio?.positions.find(p => p.id === positionId);
+        if (!portfolio || !position) return false;
+
+        return commitLedgerEvent(createFillEvent(portfolio, {
+          symbol: position.symbol,
+          type: position.type === 'long' ? 'sell' : 'buy',
+          quantity: position.quantity,
+          price: markPrice,
+          reduceOnly: true,
+        }, true));
+      },
+
+      setPositionExits: (positionId: string, exits: PositionExits, portfolioId?: string) => {
+        const targetPortfolioId = portfolioId ?? get().activePortfolioId;
+        if (!targetPortfolioId) return false;
+
+        return commitLedgerEvent(createLedgerEvent(targetPortfolioId, {
+          type: 'exits_changed',
+          positionId,
+          changes: { stopLoss: exits.stopLoss, takeProfit: exits.takeProfit },
+        }));
+      },
+
+      setTrailingStop: (positionId: string, trailingStop: TrailingStop | undefined, portfolioId?: string) => {
+        const targetPortfolioId = portfolioId ?? get().activePortfolioId;
+        if (!targetPortfolioId) return false;
+
+        return commitLedgerEvent(createLedgerEvent(targetPortfolioId, {
+          type: 'exits_changed',
+          positionId,
+          changes: { trailingStop },
+        }));
+      },
+
+      advanceTrailingStops: (currentPrices: Record<string, number>, includePortfolio = () => true) => {
+        const { portfolios } = get();
+        const now = getCurrentTime();
+        const events: LedgerEvent[] = [];
+        let changed = false;
+
+        const updatedPortfolios = portfolios.map(portfolio => {
+          if (!includePortfolio(portfolio)) return portfolio;
+
+          let portfolioChanged = false;
+
+          const positions = portfolio.positions.map(position => {
+            const price = currentPrices[position.symbol];
+            if (!position.trailingStop || price === undefined) return position;
+
+            const highWaterMark = getNextHighWaterMark(position, price);
+            if (highWaterMark === position.trailingStop.highWaterMark) return position;
+
+            portfolioChanged = true;
+            const trailingStop = { ...position.trailingStop, highWaterMark };
+            events.push(createLedgerEvent(
+              portfolio.id,
+              { type: 'exits_changed', positionId: position.id, changes: { trailingStop } },
+              now
+            ));
+            return { ...position, trailingStop };
+          });
+
+          if (!portfolioChanged) return portfolio;
+          changed = true;
+          return { ...portfolio, positions };
+        });
+
+        // Only write when a high-water mark moved so persistence isn't hit on every tick.
+        // Every ratchet is recorded, so a replay trails the stop exactly where it was.
+        if (changed) {
+          set({ portfolios: updatedPortfolios });
+          storageUtils.appendLedgerEvents(events);
+        }
+      },
+
+      applyFundingPayments: (payments: FundingPayment[]) => {
+        const portfolioIds = new Set(payments.map(payment => payment.portfolioId));
+
+        portfolioIds.forEach(portfolioId => {
+          commitLedgerEvent(createLedgerEvent(portfolioId, {
+            type: 'funding',
+            payments: payments.filter(payment => payment.portfolioId === portfolioId),
+          }));
+        });
+      },
+
+      depositCash: (portfolioId: string, amount: number, note?: string) => {
+        if (!Number.isFinite(amount) || amount <= 0) return false;
+
+        return commitLedgerEvent(createLedgerEvent(portfolioId, { type: 'cash', flowType: 'deposit', amount, note }));
+      },
+
+      withdrawCash: (portfolioId: string, amount: number, note?: string) => {
+        if (!Number.isFinite(amount) || amount <= 0) return false;
+        const portfolio = get().portfolios.find(p => p.id === portfolioId);
+        // Only free cash can leave; posted margin stays with its positions
+        if (!portfolio || amount > portfolio.balance) return false;
+
+        return commitLedgerEvent(createLedgerEvent(portfolioId, { type: 'cash', flowType: 'withdrawal', amount, note }));
+      },
+
+      transferCash: (fromPortfolioId: string, toPortfolioId: string, amount: number, note?: string) => {
+        if (!Number.isFinite(amount) || amount <= 0) return false;
+
+        return commitTransfer(fromPortfolioId, toPortfolioId, { kind: 'cash', amount }, note);
+      },
+
+      transferPosition: (fromPortfolioId: string, toPortfolioId: string, positionId: string) => {
+        const position = get().portfolios
+          .find(p => p.id === fromPortfolioId)?.positions
+          .find(p => p.id === positionId);
+        if (!position) return false;
+
+        return commitTransfer(fromPortfolioId, toPortfolioId, { kind: 'position', position });
+      },
+
       getPortfolioValue: (portfolioId: string, currentPrices: Record<string, number>) => {
         const portfolio = get().portfolios.find(p => p.id === portfolioId);
         if (!portfolio) return 0;
 
         let totalValue = portfolio.balance; // Start with cash balance
 
-        // Add value of all positions
+        // Add posted margin and unrealized P&L of all positions
         portfolio.positions.forEach(position => {
           const currentPrice = currentPrices[position.symbol] || position.entryPrice;
-          totalValue += position.quantity * currentPrice;
+          totalValue += getPositionEquity(position, currentPrice);
         });
 
         return totalValue;
@@ -281,43 +450,60 @@ export const usePortfolioStore = create<PortfolioState>()(
         if (!portfolio) return 0;
 
         const currentValue = get().getPortfolioValue(portfolioId, currentPrices);
-        return currentValue - portfolio.initialBalance;
+        return currentValue - getNetContributions(portfolio);
       },
 
       // Additional methods for tests and compatibility
       updatePortfolio: (portfolioId: string, updates: Partial<Portfolio>) => {
-        set((state) => ({
-          portfolios: state.portfolios.map(p =>
-            p.id === portfolioId
-              ? {
-                ...p,
-                ...updates,
-                currentBalance: updates.currentBalance !== undefined ? updates.currentBalance : (updates.balance !== undefined ? updates.balance : p.currentBalance)
-              }
-              : p
-          )
+        const portfolio = get().portfolios.find(p => p.id === portfolioId);
+        if (!portfolio) return;
+
+        // Arbitrary edits can't be replayed field by field, so the ledger keeps the result
+        commitLedgerEvent(createLedgerEvent(portfolioId, {
+          type: 'portfolio_snapshot',
+          portfolio: {
+            ...portfolio,
+            ...updates,
+            currentBalance: updates.currentBalance !== undefined ? updates.currentBalance : (updates.balance !== undefined ? updates.balance : portfolio.currentBalance)
+          },
         }));
       },
 
+      setFeeSchedule: (portfolioId: string, feeSchedule: FeeSchedule) => {
+        commitLedgerEvent(createLedgerEvent(portfolioId, { type: 'settings_changed', changes: { feeSchedule } }));
+      },
+
+      setCostBasisMethod: (portfolioId: string, method: CostBasisMethod) => {
+        commitLedgerEvent(createLedgerEvent(portfolioId, {
+          type: 'settings_changed',
+          changes: { costBasisMethod: method },
+        }));
+      },
+
+      setRiskLimits: (portfolioId: string, riskLimits: RiskLimits) => {
+        commitLedgerEvent(createLedgerEvent(portfolioId, { type: 'settings_changed', changes: { riskLimits } }));
+      },
+
       getPortfolioById: (portfolioId: string) => {
         return get().portfolios.find(p => p.id === portfolioId) || null;
       },
 
       resetPortfolios: () => {
+        get().portfolios.forEach(portfolio => {
+          commitLedgerEvent(createLedgerEvent(portfolio.id, { type: 'portfolio_deleted' }));
+        });
         set({ portfolios: [], activePortfolioId: null });
       },
 
       updatePortfolioBalance: (portfolioId: string, amount: number) => {
-        set((state) => ({
-          portfolios: state.portfolios.map(p =>
-            p.id === portfolioId
-              ? {
-                ...p,
-                balance: p.balance + amount,
-                currentBalance: p.balance + amount
-              }
-              : p
-          )
+        if (amount === 0) return;
+
+        // Adjustments go through the ledger unchecked, so they can overdraw
+        commitLedgerEvent(createLedgerEvent(portfolioId, {
+          type: 'cash',
+          flowType: amount > 0 ? 'deposit' : 'withdrawal',
+          amount: Math.abs(amount),
+          note: 'Balance adjustment',
         }));
       },
 
@@ -329,10 +515,216 @@ export const usePortfolioStore = create<PortfolioState>()(
       getPortfolio: (portfolioId: string) => {
         return get().portfolios.find(p => p.id === portfolioId) || null;
       },
+
+      rebuildPortfolio: async (portfolioId: string) => {
+        const events = await tradingStorage.getLedgerEvents(portfolioId);
+        if (events.length === 0) return false;
+
+        const rebuilt = replayPortfolio(events, portfolioId);
+        set((state) => ({
+          portfolios: rebuilt
+            ? state.portfolios.map(p => (p.id === portfolioId ? rebuilt : p))
+            : state.portfolios.filter(p => p.id !== portfolioId),
+        }));
+
+        return true;
+      },
+
+      getPortfolioAt: async (portfolioId: string, timestamp: number) => {
+        const events = await tradingStorage.getLedgerEvents(portfolioId);
+        return replayPortfolio(events, portfolioId, timestamp);
+      },
     }),
     {
       name: 'portfolio-storage',
-      version: 1,
+      version: 9,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Pick<PortfolioState, 'portfolios' | 'activePortfolioId'>;
+
+        // v1 positions were unlevered longs paid for in full
+        if (version < 2) {
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            positions: portfolio.positions.map(position => ({
+              ...position,
+              leverage: DEFAULT_MARGIN_SETTINGS.leverage,
+              margin: position.quantity * position.entryPrice,
+              marginMode: DEFAULT_MARGIN_SETTINGS.mode,
+              maintenanceMarginRate: DEFAULT_MARGIN_SETTINGS.maintenanceMarginRate,
+            })),
+          }));
+        }
+
+        // v2 portfolios traded without fees
+        if (version < 3) {
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            feeSchedule: DEFAULT_FEE_SCHEDULE,
+            transactions: portfolio.transactions.map(transaction => ({
+              ...transaction,
+              fee: 0,
+              liquidity: 'taker' as const,
+            })),
+          }));
+        }
+
+        // v3 positions never accrued funding; start settling from the migration hour
+        if (version < 4) {
+          const now = Date.now();
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            fundingPayments: [],
+            positions: portfolio.positions.map(position => ({
+              ...position,
+              cumulativeFunding: 0,
+              lastFundingTime: now,
+            })),
+          }));
+        }
+
+        // v4 cash moved without a record; start the ledger empty
+        if (version < 5) {
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            cashFlows: [],
+          }));
+        }
+
+        // v5 merged fills into one averaged entry; each position becomes a single lot
+        if (version < 6) {
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+            positions: portfolio.positions.map(position => ({
+              ...position,
+              lots: getPositionLots(position),
+            })),
+          }));
+        }
+
+        // v7 portfolios had no risk rules
+        if (version < 8) {
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            riskLimits: DEFAULT_RISK_LIMITS,
+          }));
+        }
+
+        // v8 portfolios couldn't move capital between each other
+        if (version < 9) {
+          state.portfolios = state.portfolios.map(portfolio => ({
+            ...portfolio,
+            transfers: [],
+          }));
+        }
+
+        // v6 kept no ledger; each portfolio's fully migrated state becomes its first event
+        if (version < 7) {
+          storageUtils.appendLedgerEvents(state.portfolios.map(portfolio =>
+            createLedgerEvent(portfolio.id, { type: 'portfolio_snapshot', portfolio })
+          ));
+        }
+
+        return state as PortfolioState;
+      },
     }
   )
-);
\ No newline at end of file
+);
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Apply an event to the store and append it to the persisted ledger.
+ * Returns false, recording nothing, when the event doesn't apply.
+ */
+function commitLedgerEvent(event: LedgerEvent): boolean {
+  return commitLedgerEvents([event]);
+}
+
+/**
+ * Apply events together: either all of them apply and are recorded, or none
+ */
+function commitLedgerEvents(events: LedgerEvent[]): boolean {
+  let portfolios: Portfolio[] | null = usePortfolioStore.getState().portfolios;
+  for (const event of events) {
+    portfolios = applyLedgerEvent(portfolios, event);
+    if (!portfolios) return false;
+  }
+
+  usePortfolioStore.setState({ portfolios });
+  storageUtils.appendLedgerEvents(events);
+  return true;
+}
+
+/**
+ * Move an asset between portfolios as a pair of ledger entries, one on each side
+ */
+function commitTransfer(fromPortfolioId: string, toPortfolioId: string, asset: TransferAsset, note?: string): boolean {
+  const { portfolios } = usePortfolioStore.getState();
+  const from = portfolios.find(p => p.id === fromPortfolioId);
+  const to = portfolios.find(p => p.id === toPortfolioId);
+  if (!from || !to || from.id === to.id) return false;
+
+  const transferId = `transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const timestamp = getCurrentTime();
+
+  return commitLedgerEvents([
+    createLedgerEvent(from.id, {
+      type: 'transfer',
+      transferId,
+      direction: 'out',
+      counterpartyId: to.id,
+      counterpartyName: to.name,
+      asset,
+      note,
+    }, timestamp),
+    createLedgerEvent(to.id, {
+      type: 'transfer',
+      transferId,
+      direction: 'in',
+      counterpartyId: from.id,
+      counterpartyName: from.name,
+      asset,
+      note,
+    }, timestamp),
+  ]);
+}
+
+function createPortfolioPayload(name: string, initialBalance: number, replay?: boolean): LedgerEventPayload {
+  return {
+    type: 'portfolio_created',
+    name,
+    initialBalance,
+    feeSchedule: DEFAULT_FEE_SCHEDULE,
+    costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+    ...(replay && { replay }),
+  };
+}
+
+/**
+ * Price a fill at the portfolio's current fee tier; the fee is part of the
+ * event so a replay charges exactly what was charged live
+ */
+function createFillEvent(portfolio: Portfolio, trade: TradeRequest, liquidation = false): LedgerEvent {
+  const timestamp = getCurrentTime();
+  const liquidity = trade.liquidity ?? 'taker';
+  const { fee } = calculateTradeFee(portfolio, trade.quantity * trade.price, liquidity, timestamp);
+
+  return createLedgerEvent(portfolio.id, {
+    type: 'fill',
+    trade: {
+      symbol: trade.symbol,
+      type: trade.type,
+      quantity: trade.quantity,
+      price: trade.price,
+      margin: trade.margin,
+      reduceOnly: trade.reduceOnly,
+      liquidity,
+      ...(trade.midPrice !== undefined && { midPrice: trade.midPrice }),
+    },
+    fee,
+    ...(liquidation && { liquidation }),
+  }, timestamp);
+}
@@ -234,6 +234,152 @@ describe('Position Store', () => {
     });
   });
 
+  describe('Order Groups', () => {
+    const entryData = {
+      portfolioId: mockPortfolioId,
+      symbol: 'BTC',
+      side: 'buy' as const,
+      type: 'limit' as const,
+      quantity: 1,
+      price: 50000,
+    };
+
+    it('should link a bracket entry to its exit legs', () => {
+      const groupId = usePositionStore.getState().addBracketOrder(entryData, { takeProfit: 55000, stopLoss: 45000 });
+
+      const { orders } = usePositionStore.getState();
+      const entry = orders.find(o => o.groupRole === 'entry');
+      const stop = orders.find(o => o.groupRole === 'stop_loss');
+      expect(orders).toHaveLength(3);
+      expect(orders.every(o => o.groupId === groupId)).toBe(true);
+      expect(stop?.type).toBe('stop');
+      expect(stop?.side).toBe('sell');
+      expect(stop?.reduceOnly).toBe(true);
+      expect(stop?.parentId).toBe(entry?.id);
+    });
+
+    it('should cascade cancelling the entry to its exits', () => {
+      usePositionStore.getState().addBracketOrder(entryData, { takeProfit: 55000, stopLoss: 45000 });
+      const entry = usePositionStore.getState().orders.find(o => o.groupRole === 'entry')!;
+
+      usePositionStore.getState().cancelOrder(entry.id);
+
+      expect(usePositionStore.getState().orders.every(o => o.status === 'cancelled')).toBe(true);
+    });
+
+    it('should expire an entry with a reason and cancel its exits', () => {
+      usePositionStore.getState().addBracketOrder(
+        { ...entryData, timeInForce: 'gtd', expiresAt: Date.now() + 1000 },
+        { takeProfit: 55000 }
+      );
+      const entry = usePositionStore.getState().orders.find(o => o.groupRole === 'entry')!;
+
+      usePositionStore.getState().expireOrder(entry.id);
+
+      const { orders } = usePositionStore.getState();
+      expect(orders.find(o => o.id === entry.id)?.status).toBe('expired');
+      expect(orders.find(o => o.id === entry.id)?.statusReason).toBeTruthy();
+      expect(orders.find(o => o.groupRole === 'take_profit')?.status).toBe('cancelled');
+    });
+
+    it('should cancel the other exit once one fills', () => {
+      const { addOcoOrder, updateOrder, cancelOcoSiblings } = usePositionStore.getState();
+      addOcoOrder(
+        { portfolioId: mockPortfolioId, symbol: 'BTC', side: 'sell', quantity: 1 },
+        { takeProfit: 55000, stopLoss: 45000 }
+      );
+      const takeProfit = usePositionStore.getState().orders.find(o => o.groupRole === 'take_profit')!;
+
+      updateOrder(takeProfit.id, { status: 'filled' });
+      cancelOcoSiblings(takeProfit.id);
+
+      const stop = usePositionStore.getState().orders.find(o => o.groupRole === 'stop_loss');
+      expect(stop?.status).toBe('cancelled');
+    });
+
+    it('should cancel a whole group with a reason', () => {
+      const groupId = usePositionStore.getState().addBracketOrder(entryData, { takeProfit: 55000, stopLoss: 45000 });
+
+      usePositionStore.getState().cancelOrderGroup(groupId);
+
+      const { orders } = usePositionStore.getState();
+      expect(orders.every(o => o.status === 'cancelled' && o.statusReason === 'Order group cancelled')).toBe(true);
+    });
+  });
+
+  describe('Algo Orders', () => {
+    const algoData = {
+      portfolioId: mockPortfolioId,
+      symbol: 'BTC',
+      side: 'buy' as const,
+      algorithm: 'iceberg' as const,
+      totalQuantity: 1,
+      arrivalPrice: 50000,
+      szDecimals: 3,
+      limitPrice: 49900,
+      clipQuantity: 0.5,
+    };
+
+    it('should complete once child fills cover the total', () => {
+      const { addAlgoOrder, recordAlgoFill } = usePositionStore.getState();
+      const id = addAlgoOrder(algoData);
+
+      recordAlgoFill(id, 0.5, 49900);
+      expect(usePositionStore.getState().algoOrders[0].status).toBe('running');
+
+      recordAlgoFill(id, 0.5, 49800);
+      const algo = usePositionStore.getState().algoOrders[0];
+      expect(algo.status).toBe('completed');
+      expect(algo.averagePrice).toBe(49850);
+    });
+
+    it('should pull the visible clip when paused or cancelled', () => {
+      const { addAlgoOrder, addOrder, updateAlgoOrder, pauseAlgoOrder, resumeAlgoOrder, cancelAlgoOrder } = usePositionStore.getState();
+      const id = addAlgoOrder(algoData);
+      const clipId = addOrder({
+        portfolioId: mockPortfolioId, symbol: 'BTC', side: 'buy', type: 'limit', quantity: 0.5, price: 49900, algoId: id,
+      });
+      updateAlgoOrder(id, { childOrderId: clipId });
+
+      pauseAlgoOrder(id);
+      let state = usePositionStore.getState();
+      expect(state.algoOrders[0].status).toBe('paused');
+      expect(state.algoOrders[0].childOrderId).toBeUndefined();
+      expect(state.orders[0].status).toBe('cancelled');
+
+      resumeAlgoOrder(id);
+      cancelAlgoOrder(id, 'Cancelled by user');
+      state = usePositionStore.getState();
+      expect(state.algoOrders[0].status).toBe('cancelled');
+      expect(state.algoOrders[0].statusReason).toBe('Cancelled by user');
+    });
+
+    it('should count a clip that filled before it could be pulled', () => {
+      const { addAlgoOrder, addOrder, updateOrder, updateAlgoOrder, pauseAlgoOrder, cancelAlgoOrder } = usePositionStore.getState();
+      const id = addAlgoOrder(algoData);
+      const fillClip = () => {
+        const clipId = addOrder({
+          portfolioId: mockPortfolioId, symbol: 'BTC', side: 'buy', type: 'limit', quantity: 0.5, price: 49900, algoId: id,
+        });
+        updateAlgoOrder(id, { childOrderId: clipId });
+        updateOrder(clipId, { status: 'filled', filledPrice: 49900 });
+      };
+
+      fillClip();
+      pauseAlgoOrder(id);
+      let algo = usePositionStore.getState().algoOrders[0];
+      expect(algo.status).toBe('paused');
+      expect(algo.filledQuantity).toBe(0.5);
+
+      usePositionStore.getState().resumeAlgoOrder(id);
+      fillClip();
+      cancelAlgoOrder(id, 'Cancelled by user');
+      algo = usePositionStore.getState().algoOrders[0];
+      expect(algo.status).toBe('completed');
+      expect(algo.filledQuantity).toBe(1);
+    });
+  });
+
   describe('Trading Execution', () => {
     it('should execute new buy trade', () => {
       const { executeTrade } = usePositionStore.getState();
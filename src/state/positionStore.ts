@@ -4,17 +4,23 @@ import {
   Position, 
   Transaction, 
   Order, 
+  AlgoOrder,
   OrderSide,
   OrderType,
   OrderStatus,
   DEFAULT_TRADING_FEE_PERCENT 
 } from '@/types/trading';
+import { applyAlgoFill } from '@/utils/algoExecution';
+import { getOrderLedgerEvents } from '@/state/ledger';
+import { storageUtils } from '@/services/storage';
+import { getCurrentTime } from '@/utils/clock';
 
 export interface PositionStoreState {
   // State
   positions: Position[];
   transactions: Transaction[];
   orders: Order[];
+  algoOrders: AlgoOrder[];
   
   // Position Management Actions
   addPosition: (positionData: Omit<Position, 'id' | 'createdAt' | 'updatedAt'>) => string;
@@ -29,7 +35,32 @@ export interface PositionStoreState {
   addOrder: (orderData: Omit<Order, 'id' | 'createdAt' | 'status'>) => string;
   updateOrder: (id: string, updates: Partial<Order>) => void;
   fillOrder: (id: string, fillPrice: number) => void;
-  cancelOrder: (id: string) => void;
+  cancelOrder: (id: string, reason?: string) => void;
+  expireOrder: (id: string) => void;
+  addClosedOrder: (
+    orderData: Omit<Order, 'id' | 'createdAt' | 'status'>,
+    outcome: Pick<Order, 'status' | 'statusReason' | 'filledAt' | 'filledPrice' | 'filledQuantity'>
+  ) => string;
+  addBracketOrder: (
+    entryData: Omit<Order, 'id' | 'createdAt' | 'status'>,
+    exits: Pick<Order, 'stopLoss' | 'takeProfit'>
+  ) => string;
+  addOcoOrder: (
+    exitData: Pick<Order, 'portfolioId' | 'symbol' | 'side' | 'quantity' | 'positionId'>,
+    exits: Pick<Order, 'stopLoss' | 'takeProfit'>
+  ) => string;
+  cancelOrderGroup: (groupId: string, reason?: string) => void;
+  cancelOcoSiblings: (id: string) => void;
+  
+  // Algo Order Actions
+  addAlgoOrder: (
+    algoData: Omit<AlgoOrder, 'id' | 'createdAt' | 'status' | 'filledQuantity' | 'averagePrice' | 'slicesSent' | 'nextSliceAt' | 'childOrderId'>
+  ) => string;
+  updateAlgoOrder: (id: string, updates: Partial<AlgoOrder>) => void;
+  recordAlgoFill: (id: string, quantity: number, price: number) => void;
+  pauseAlgoOrder: (id: string) => void;
+  resumeAlgoOrder: (id: string) => void;
+  cancelAlgoOrder: (id: string, reason?: string) => void;
   
   // Query Actions
   getPositionsByPortfolio: (portfolioId: string) => Position[];
@@ -68,6 +99,57 @@ function generateId(prefix: string): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Build the reduce-only take-profit (limit) and stop-loss (stop) legs of an order group
+function createExitOrders(
+  exitData: Pick<Order, 'portfolioId' | 'symbol' | 'side' | 'quantity' | 'positionId'>,
+  exits: Pick<Order, 'stopLoss' | 'takeProfit'>,
+  groupId: string,
+  parentId?: string
+): Order[] {
+  const now = getCurrentTime();
+  const legs: Order[] = [];
+  const base = { ...exitData, reduceOnly: true, status: 'pending' as const, createdAt: now, groupId, parentId };
+
+  if (exits.takeProfit !== undefined) {
+    legs.push({ ...base, id: generateId('order'), type: 'limit', price: exits.takeProfit, groupRole: 'take_profit' });
+  }
+  if (exits.stopLoss !== undefined) {
+    legs.push({ ...base, id: generateId('order'), type: 'stop', price: exits.stopLoss, groupRole: 'stop_loss' });
+  }
+
+  return legs;
+}
+
+// Close a pending order and cascade to the bracket exits still waiting on it
+function closeOrderWithExits(
+  orders: Order[],
+  id: string,
+  status: Extract<OrderStatus, 'cancelled' | 'expired'>,
+  reason?: string
+): Order[] {
+  return orders.map((order) => {
+    if (order.status !== 'pending') return order;
+    if (order.id === id) return { ...order, status, statusReason: reason };
+    if (order.parentId === id) return { ...order, status: 'cancelled', statusReason: `Entry order ${status}` };
+    return order;
+  });
+}
+
+// Take an iceberg's visible clip off the book. A clip that filled before it
+// could be pulled still counts towards the iceberg; returns whether that
+// fill completed it.
+function releaseAlgoClip(get: () => PositionStoreState, algo: AlgoOrder, reason: string): boolean {
+  const clip = algo.childOrderId ? get().orders.find((o) => o.id === algo.childOrderId) : undefined;
+
+  if (clip?.status === 'filled') {
+    get().recordAlgoFill(algo.id, clip.quantity, clip.filledPrice ?? clip.price ?? 0);
+  } else if (clip) {
+    get().cancelOrder(clip.id, reason);
+  }
+  get().updateAlgoOrder(algo.id, { childOrderId: undefined });
+  return get().algoOrders.find((a) => a.id === algo.id)?.status === 'completed';
+}
+
 // Calculate position P&L
 function calculatePositionPnL(position: Position, currentPrice: number) {
   const multiplier = position.side === 'buy' ? 1 : -1;
@@ -85,10 +167,11 @@ export const usePositionStore = create<PositionStoreState>()(
       positions: [],
       transactions: [],
       orders: [],
+      algoOrders: [],
 
       // Position Management Actions
       addPosition: (positionData) => {
-        const now = Date.now();
+        const now = getCurrentTime();
         const id = generateId('pos');
         
         const newPosition: Position = {
@@ -109,7 +192,7 @@ export const usePositionStore = create<PositionStoreState>()(
         set((state) => ({
           positions: state.positions.map((position) =>
             position.id === id
-              ? { ...position, ...updates, updatedAt: Date.now() }
+              ? { ...position, ...updates, updatedAt: getCurrentTime() }
               : position
           ),
         }));
@@ -136,7 +219,7 @@ export const usePositionStore = create<PositionStoreState>()(
             price: closePrice,
             fee,
             total: netAmount,
-            timestamp: Date.now(),
+            timestamp: getCurrentTime(),
             orderId: undefined,
           };
 
@@ -160,7 +243,7 @@ export const usePositionStore = create<PositionStoreState>()(
               currentPrice,
               unrealizedPnL,
               unrealizedPnLPercent,
-              updatedAt: Date.now(),
+              updatedAt: getCurrentTime(),
             };
           }),
         }));
@@ -188,7 +271,7 @@ export const usePositionStore = create<PositionStoreState>()(
           id,
           ...orderData,
           status: 'pending',
-          createdAt: Date.now(),
+          createdAt: getCurrentTime(),
         };
         
         set((state) => ({
@@ -215,7 +298,7 @@ export const usePositionStore = create<PositionStoreState>()(
         // Update order status
         get().updateOrder(id, {
           status: 'filled',
-          filledAt: Date.now(),
+          filledAt: getCurrentTime(),
           filledPrice: fillPrice,
         });
 
@@ -230,8 +313,174 @@ export const usePositionStore = create<PositionStoreState>()(
         );
       },
 
-      cancelOrder: (id) => {
-        get().updateOrder(id, { status: 'cancelled' });
+      cancelOrder: (id, reason) => {
+        // Cancelling a bracket entry takes its dormant exits with it
+        set((state) => ({
+          orders: closeOrderWithExits(state.orders, id, 'cancelled', reason),
+        }));
+      },
+
+      expireOrder: (id) => {
+        set((state) => ({
+          orders: closeOrderWithExits(state.orders, id, 'expired', 'Good-till-date expiry reached'),
+        }));
+      },
+
+      addClosedOrder: (orderData, outcome) => {
+        const id = generateId('order');
+        const closedOrder: Order = {
+          id,
+          ...orderData,
+          ...outcome,
+          createdAt: getCurrentTime(),
+        };
+
+        set((state) => ({
+          orders: [...state.orders, closedOrder],
+        }));
+
+        return id;
+      },
+
+      addBracketOrder: (entryData, exits) => {
+        const groupId = generateId('group');
+        const entry: Order = {
+          id: generateId('order'),
+          ...entryData,
+          status: 'pending',
+          createdAt: getCurrentTime(),
+          groupId,
+          groupRole: 'entry',
+        };
+        const legs = createExitOrders(
+          {
+            portfolioId: entry.portfolioId,
+            symbol: entry.symbol,
+            side: entry.side === 'buy' ? 'sell' : 'buy',
+            quantity: entry.quantity,
+          },
+          exits,
+          groupId,
+          entry.id
+        );
+
+        set((state) => ({
+          orders: [...state.orders, entry, ...legs],
+        }));
+
+        return groupId;
+      },
+
+      addOcoOrder: (exitData, exits) => {
+        const groupId = generateId('group');
+        const legs = createExitOrders(exitData, exits, groupId);
+
+        set((state) => ({
+          orders: [...state.orders, ...legs],
+        }));
+
+        return groupId;
+      },
+
+      cancelOrderGroup: (groupId, reason = 'Order group cancelled') => {
+        set((state) => ({
+          orders: state.orders.map((order) =>
+            order.groupId === groupId && order.status === 'pending'
+              ? { ...order, status: 'cancelled', statusReason: reason }
+              : order
+          ),
+        }));
+      },
+
+      cancelOcoSiblings: (id) => {
+        const order = get().orders.find((o) => o.id === id);
+        if (!order?.groupId || !order.groupRole || order.groupRole === 'entry') return;
+
+        set((state) => ({
+          orders: state.orders.map((o) =>
+            o.groupId === order.groupId && o.id !== id && o.groupRole !== 'entry' && o.status === 'pending'
+              ? { ...o, status: 'cancelled', statusReason: 'Other OCO leg closed' }
+              : o
+          ),
+        }));
+      },
+
+      // Algo Order Actions
+      addAlgoOrder: (algoData) => {
+        const now = getCurrentTime();
+        const id = generateId('algo');
+        const newAlgo: AlgoOrder = {
+          id,
+          ...algoData,
+          status: 'running',
+          filledQuantity: 0,
+          averagePrice: 0,
+          createdAt: now,
+          ...(algoData.algorithm === 'twap' && {
+            slicesSent: 0,
+            nextSliceAt: now, // First slice goes out on the next price update
+          }),
+        };
+
+        set((state) => ({
+          algoOrders: [...state.algoOrders, newAlgo],
+        }));
+
+        return id;
+      },
+
+      updateAlgoOrder: (id, updates) => {
+        set((state) => ({
+          algoOrders: state.algoOrders.map((algo) =>
+            algo.id === id ? { ...algo, ...updates } : algo
+          ),
+        }));
+      },
+
+      recordAlgoFill: (id, quantity, price) => {
+        set((state) => ({
+          algoOrders: state.algoOrders.map((algo) => {
+            if (algo.id !== id) return algo;
+
+            const filled = { ...algo, ...applyAlgoFill(algo, quantity, price) };
+            const isComplete = filled.filledQuantity >= algo.totalQuantity - 1e-9;
+            return isComplete
+              ? { ...filled, status: 'completed', completedAt: getCurrentTime() }
+              : filled;
+          }),
+        }));
+      },
+
+      pauseAlgoOrder: (id) => {
+        const algo = get().algoOrders.find((a) => a.id === id);
+        if (!algo || algo.status !== 'running') return;
+
+        // Pull the visible clip so nothing fills while paused
+        if (releaseAlgoClip(get, algo, 'Iceberg paused')) return;
+        get().updateAlgoOrder(id, { status: 'paused' });
+      },
+
+      resumeAlgoOrder: (id) => {
+        const algo = get().algoOrders.find((a) => a.id === id);
+        if (!algo || algo.status !== 'paused') return;
+
+        // The schedule restarts from now; time spent paused extends the duration
+        get().updateAlgoOrder(id, {
+          status: 'running',
+          ...(algo.algorithm === 'twap' && { nextSliceAt: getCurrentTime() }),
+        });
+      },
+
+      cancelAlgoOrder: (id, reason) => {
+        const algo = get().algoOrders.find((a) => a.id === id);
+        if (!algo || algo.status === 'completed' || algo.status === 'cancelled') return;
+
+        if (releaseAlgoClip(get, algo, 'Iceberg cancelled')) return;
+        get().updateAlgoOrder(id, {
+          status: 'cancelled',
+          statusReason: reason,
+          completedAt: getCurrentTime(),
+        });
       },
 
       // Query Actions
@@ -278,7 +527,7 @@ export const usePositionStore = create<PositionStoreState>()(
             price,
             fee,
             total: netAmount,
-            timestamp: Date.now(),
+            timestamp: getCurrentTime(),
           });
 
           // Check if we have an existing position for this symbol
@@ -447,6 +696,7 @@ export const usePositionStore = create<PositionStoreState>()(
           positions: [],
           transactions: [],
           orders: [],
+          algoOrders: [],
         });
       },
     }),
@@ -466,6 +716,12 @@ export const usePositionStore = create<PositionStoreState>()(
   )
 );
 
+// Mirror every order placed or changed into the trading ledger
+usePositionStore.subscribe((state, previous) => {
+  if (state.orders === previous.orders) return;
+  storageUtils.appendLedgerEvents(getOrderLedgerEvents(previous.orders, state.orders));
+});
+
 // Selectors for better performance
 export const usePositionsByPortfolio = (portfolioId: string) =>
   usePositionStore((state) => state.getPositionsByPortfolio(portfolioId));
@@ -496,4 +752,7 @@ export const useTradingActions = () => ({
   addOrder: usePositionStore((state) => state.addOrder),
   fillOrder: usePositionStore((state) => state.fillOrder),
   cancelOrder: usePositionStore((state) => state.cancelOrder),
+  addBracketOrder: usePositionStore((state) => state.addBracketOrder),
+  addOcoOrder: usePositionStore((state) => state.addOcoOrder),
+  cancelOrderGroup: usePositionStore((state) => state.cancelOrderGroup),
 });
\ No newline at end of file
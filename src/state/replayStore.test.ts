@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { isOnPriceFeed, isReplayActive, useReplayStore } from './replayStore';
+import { usePortfolioStore } from './portfolioStore';
+import { usePositionStore } from './positionStore';
+import type { LedgerEvent } from './ledger';
+import { storageUtils, tradingStorage } from '@/services/storage';
+import { setSimulatedTime } from '@/utils/clock';
+
+const SETTINGS = { startTime: new Date(2024, 0, 15).getTime(), interval: '5m' as const, symbols: ['BTC'] };
+
+beforeEach(() => {
+  useReplayStore.getState().endSession();
+  usePortfolioStore.getState().resetPortfolios();
+  usePositionStore.getState().resetAllData();
+});
+
+afterEach(() => {
+  setSimulatedTime(null);
+  vi.restoreAllMocks();
+});
+
+describe('Replay Store', () => {
+  it('should trade a session in its own replay portfolio', () => {
+    const liveId = usePortfolioStore.getState().createPortfolio('Live');
+    const replayId = useReplayStore.getState().beginSession(SETTINGS);
+
+    const { portfolios, activePortfolioId } = usePortfolioStore.getState();
+    expect(portfolios.find(p => p.id === replayId)?.replay).toBe(true);
+    expect(activePortfolioId).toBe(replayId);
+    expect(isReplayActive()).toBe(true);
+
+    expect(isOnPriceFeed(replayId)).toBe(true);
+    expect(isOnPriceFeed(liveId)).toBe(false);
+  });
+
+  it('should restore the live portfolio and keep replay portfolios off the live feed', () => {
+    const liveId = usePortfolioStore.getState().createPortfolio('Live');
+    const replayId = useReplayStore.getState().beginSession(SETTINGS);
+
+    useReplayStore.getState().endSession();
+
+    expect(usePortfolioStore.getState().activePortfolioId).toBe(liveId);
+    expect(isReplayActive()).toBe(false);
+    expect(isOnPriceFeed(liveId)).toBe(true);
+    expect(isOnPriceFeed(replayId)).toBe(false);
+  });
+
+  it('should cancel working orders when the session ends', () => {
+    const replayId = useReplayStore.getState().beginSession(SETTINGS);
+    const orderId = usePositionStore.getState().addOrder({
+      portfolioId: replayId,
+      symbol: 'BTC',
+      side: 'buy',
+      type: 'limit',
+      quantity: 0.1,
+      price: 40000,
+    });
+
+    useReplayStore.getState().endSession('No candles found from that date');
+
+    const order = usePositionStore.getState().orders.find(o => o.id === orderId);
+    expect(order?.status).toBe('cancelled');
+    expect(order?.statusReason).toBe('Replay ended');
+    expect(useReplayStore.getState().error).toBe('No candles found from that date');
+  });
+
+  it('should rebuild a replay portfolio with its fills from the ledger', async () => {
+    const events: LedgerEvent[] = [];
+    vi.spyOn(storageUtils, 'appendLedgerEvents').mockImplementation(appended => {
+      events.push(...appended);
+    });
+    vi.spyOn(tradingStorage, 'getLedgerEvents').mockImplementation(async () => events);
+
+    // The session begins on the wall clock; its first tick is the open of the candle it starts in
+    const replayId = useReplayStore.getState().beginSession({ ...SETTINGS, startTime: SETTINGS.startTime + 60 * 1000 });
+    setSimulatedTime(SETTINGS.startTime);
+    const { executeTrade, depositCash, rebuildPortfolio, getPortfolioById } = usePortfolioStore.getState();
+    depositCash(replayId, 1000);
+    executeTrade({ symbol: 'BTC', type: 'buy', quantity: 1, price: 40000, portfolioId: replayId });
+    const live = getPortfolioById(replayId)!;
+
+    expect(await rebuildPortfolio(replayId)).toBe(true);
+
+    const rebuilt = usePortfolioStore.getState().getPortfolioById(replayId)!;
+    expect(rebuilt.createdAt).toBe(SETTINGS.startTime);
+    expect(rebuilt.positions).toHaveLength(1);
+    expect(rebuilt.transactions).toHaveLength(1);
+    expect(rebuilt.balance).toBe(live.balance);
+  });
+});
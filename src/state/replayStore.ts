@@ -0,0 +1,120 @@
+import { create } from 'zustand';
+import { usePortfolioStore } from '@/state/portfolioStore';
+import { usePositionStore } from '@/state/positionStore';
+import { getReplaySessionStart } from '@/utils/replay';
+import type { ReplayInterval } from '@/utils/replay';
+
+export type ReplayStatus = 'off' | 'loading' | 'paused' | 'playing' | 'finished';
+
+export interface ReplaySettings {
+  startTime: number;
+  interval: ReplayInterval;
+  symbols: string[];
+}
+
+interface ReplayState {
+  status: ReplayStatus;
+  settings: ReplaySettings | null;
+  currentTime: number | null; // Simulated clock, once candles have loaded
+  endTime: number | null; // Last replayed price point
+  speed: number;
+  portfolioId: string | null; // Portfolio trading this session
+  previousPortfolioId: string | null; // Active portfolio to restore when the session ends
+  error: string | null;
+
+  beginSession: (settings: ReplaySettings) => string;
+  endSession: (error?: string) => void;
+  setStatus: (status: ReplayStatus) => void;
+  setProgress: (currentTime: number, endTime: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/**
+ * Session state for market replay. Each session trades in a portfolio of
+ * its own, so practice fills never mix with the live portfolios.
+ */
+export const useReplayStore = create<ReplayState>()((set, get) => ({
+  status: 'off',
+  settings: null,
+  currentTime: null,
+  endTime: null,
+  speed: 1,
+  portfolioId: null,
+  previousPortfolioId: null,
+  error: null,
+
+  beginSession: (settings) => {
+    const { activePortfolioId, createPortfolio, setActivePortfolio } = usePortfolioStore.getState();
+    const name = `Replay ${new Date(settings.startTime).toLocaleDateString()}`;
+    // Stamped on the replayed timeline, not the wall clock, so a rebuild from the ledger keeps its fills
+    const portfolioId = createPortfolio(name, undefined, {
+      replay: true,
+      createdAt: getReplaySessionStart(settings.startTime, settings.interval),
+    });
+    setActivePortfolio(portfolioId);
+
+    set({
+      status: 'loading',
+      settings,
+      currentTime: null,
+      endTime: null,
+      portfolioId,
+      previousPortfolioId: activePortfolioId,
+      error: null,
+    });
+    return portfolioId;
+  },
+
+  endSession: (error) => {
+    const { portfolioId, previousPortfolioId } = get();
+
+    // Nothing from the session may keep working once prices go live again
+    if (portfolioId) {
+      const { orders, algoOrders, cancelOrder, cancelAlgoOrder } = usePositionStore.getState();
+      algoOrders
+        .filter(algo => algo.portfolioId === portfolioId && (algo.status === 'running' || algo.status === 'paused'))
+        .forEach(algo => cancelAlgoOrder(algo.id, 'Replay ended'));
+      orders
+        .filter(order => order.portfolioId === portfolioId && order.status === 'pending')
+        .forEach(order => cancelOrder(order.id, 'Replay ended'));
+    }
+
+    if (previousPortfolioId) {
+      usePortfolioStore.getState().setActivePortfolio(previousPortfolioId);
+    }
+
+    set({
+      status: 'off',
+      settings: null,
+      currentTime: null,
+      endTime: null,
+      portfolioId: null,
+      previousPortfolioId: null,
+      error: error ?? null,
+    });
+  },
+
+  setStatus: (status) => set({ status }),
+
+  setProgress: (currentTime, endTime) => set({ currentTime, endTime }),
+
+  setSpeed: (speed) => set({ speed }),
+}));
+
+/**
+ * Whether a replay session is running; the price feed is historical while it is
+ */
+export function isReplayActive(): boolean {
+  return useReplayStore.getState().status !== 'off';
+}
+
+/**
+ * Whether a portfolio trades on the current price feed. During replay only
+ * the session's portfolio does; otherwise every portfolio but replay ones.
+ */
+export function isOnPriceFeed(portfolioId: string): boolean {
+  const { status, portfolioId: replayPortfolioId } = useReplayStore.getState();
+  if (status !== 'off') return portfolioId === replayPortfolioId;
+
+  return !usePortfolioStore.getState().portfolios.find(p => p.id === portfolioId)?.replay;
+}
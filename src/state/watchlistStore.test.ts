@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getActiveWatchlist, useWatchlistStore } from './watchlistStore';
+
+beforeEach(() => {
+  useWatchlistStore.setState({ watchlists: [], activeWatchlistId: null });
+});
+
+describe('Watchlist Store', () => {
+  it('should create, fill, rename and reorder watchlists', () => {
+    const { createWatchlist, toggleSymbol, renameWatchlist, moveWatchlist } = useWatchlistStore.getState();
+    const majors = createWatchlist(' Majors ');
+    const memes = createWatchlist('Memes');
+
+    toggleSymbol(majors, 'BTC');
+    toggleSymbol(majors, 'ETH');
+    toggleSymbol(majors, 'BTC');
+    renameWatchlist(memes, 'Meme coins');
+    moveWatchlist(memes, -1);
+
+    const { watchlists } = useWatchlistStore.getState();
+    expect(watchlists.map(w => w.name)).toEqual(['Meme coins', 'Majors']);
+    expect(watchlists.find(w => w.id === majors)?.symbols).toEqual(['ETH']);
+  });
+
+  it('should fall back to all assets when the selected watchlist is deleted', () => {
+    const { createWatchlist, setActiveWatchlist, deleteWatchlist } = useWatchlistStore.getState();
+    const id = createWatchlist('Majors');
+    setActiveWatchlist(id);
+    expect(getActiveWatchlist(useWatchlistStore.getState())?.id).toBe(id);
+
+    deleteWatchlist(id);
+    expect(useWatchlistStore.getState().activeWatchlistId).toBeNull();
+    expect(getActiveWatchlist(useWatchlistStore.getState())).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { create } from 'zustand';
+import { tradingStorage } from '@/services/storage';
+import { moveWatchlist } from '@/utils/watchlists';
+import type { Watchlist } from '@/types/trading';
+
+const ACTIVE_WATCHLIST_SETTING = 'activeWatchlistId';
+
+interface WatchlistState {
+  watchlists: Watchlist[]; // In display order
+  activeWatchlistId: string | null; // Null shows every asset
+  loaded: boolean;
+
+  loadWatchlists: () => Promise<void>;
+  createWatchlist: (name: string) => string;
+  renameWatchlist: (id: string, name: string) => void;
+  deleteWatchlist: (id: string) => void;
+  moveWatchlist: (id: string, offset: -1 | 1) => void;
+  setActiveWatchlist: (id: string | null) => void;
+  toggleSymbol: (id: string, symbol: string) => void;
+}
+
+// No IndexedDB outside the browser (tests, SSR); the in-memory state still applies
+const hasStorage = () => typeof indexedDB !== 'undefined';
+
+const persist = (task: () => Promise<void>) => {
+  if (!hasStorage()) return;
+  task().catch(error => {
+    console.error('Failed to save watchlists:', error);
+  });
+};
+
+/**
+ * Named watchlists that narrow the asset lists. Watchlists persist in
+ * TradingStorage, along with which one is selected.
+ */
+export const useWatchlistStore = create<WatchlistState>()((set, get) => {
+  // Replace the watchlists and save the ones that changed
+  const saveWatchlists = (watchlists: Watchlist[]) => {
+    const previous = get().watchlists;
+    set({ watchlists });
+    const changed = watchlists.filter(watchlist => !previous.includes(watchlist));
+    if (changed.length > 0) persist(() => tradingStorage.saveWatchlists(changed));
+  };
+
+  return {
+    watchlists: [],
+    activeWatchlistId: null,
+    loaded: false,
+
+    loadWatchlists: async () => {
+      if (get().loaded || !hasStorage()) return;
+      const [watchlists, activeWatchlistId] = await Promise.all([
+        tradingStorage.getWatchlists(),
+        tradingStorage.getSetting<string | null>(ACTIVE_WATCHLIST_SETTING),
+      ]);
+
+      set(state => {
+        // Keep anything created while storage was loading
+        const merged = [...watchlists, ...state.watchlists.filter(w => !watchlists.some(s => s.id === w.id))];
+        const activeId = state.activeWatchlistId ?? activeWatchlistId ?? null;
+        return {
+          watchlists: merged,
+          activeWatchlistId: merged.some(w => w.id === activeId) ? activeId : null,
+          loaded: true,
+        };
+      });
+    },
+
+    // Names are checked with validateWatchlistName before they get here
+    createWatchlist: (name) => {
+      const watchlist: Watchlist = {
+        id: `watchlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: name.trim(),
+        symbols: [],
+        order: get().watchlists.reduce((max, w) => Math.max(max, w.order + 1), 0),
+        createdAt: Date.now(),
+      };
+      saveWatchlists([...get().watchlists, watchlist]);
+      return watchlist.id;
+    },
+
+    renameWatchlist: (id, name) => {
+      saveWatchlists(get().watchlists.map(w => (w.id === id ? { ...w, name: name.trim() } : w)));
+    },
+
+    deleteWatchlist: (id) => {
+      set(state => ({
+        watchlists: state.watchlists.filter(w => w.id !== id),
+        activeWatchlistId: state.activeWatchlistId === id ? null : state.activeWatchlistId,
+      }));
+      persist(() => tradingStorage.deleteWatchlist(id));
+    },
+
+    moveWatchlist: (id, offset) => {
+      saveWatchlists(moveWatchlist(get().watchlists, id, offset));
+    },
+
+    setActiveWatchlist: (id) => {
+      set({ activeWatchlistId: id });
+      persist(() => tradingStorage.setSetting(ACTIVE_WATCHLIST_SETTING, id));
+    },
+
+    toggleSymbol: (id, symbol) => {
+      saveWatchlists(get().watchlists.map(w => {
+        if (w.id !== id) return w;
+        const symbols = w.symbols.includes(symbol)
+          ? w.symbols.filter(s => s !== symbol)
+          : [...w.symbols, symbol];
+        return { ...w, symbols };
+      }));
+    },
+  };
+});
+
+export const getActiveWatchlist = (state: Pick<WatchlistState, 'watchlists' | 'activeWatchlistId'>): Watchlist | null =>
+  state.watchlists.find(w => w.id === state.activeWatchlistId) ?? null;
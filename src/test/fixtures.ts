@@ -0,0 +1,47 @@
+import type { Portfolio, Position } from '@/state/portfolioStore';
+import { DEFAULT_FEE_SCHEDULE } from '@/types/trading';
+
+// Shared test data. New Portfolio and Position fields get their defaults here
+// only, so tests that don't care about them stay untouched.
+
+/**
+ * An unlevered 1 BTC long entered at 50,000
+ */
+export const createTestPosition = (overrides: Partial<Position> = {}): Position => ({
+  id: 'pos-1',
+  symbol: 'BTC',
+  quantity: 1,
+  entryPrice: 50000,
+  entryTime: 0,
+  type: 'long',
+  lots: [],
+  leverage: 1,
+  margin: 50000,
+  marginMode: 'cross',
+  maintenanceMarginRate: 0,
+  cumulativeFunding: 0,
+  lastFundingTime: 0,
+  ...overrides,
+});
+
+/**
+ * An empty portfolio holding 100,000 in cash. Setting the balance sets the
+ * current balance with it.
+ */
+export const createTestPortfolio = (overrides: Partial<Portfolio> = {}): Portfolio => ({
+  id: 'portfolio-1',
+  name: 'Test',
+  balance: overrides.balance ?? 100000,
+  currentBalance: overrides.balance ?? 100000,
+  initialBalance: 100000,
+  positions: [],
+  transactions: [],
+  fundingPayments: [],
+  cashFlows: [],
+  transfers: [],
+  feeSchedule: DEFAULT_FEE_SCHEDULE,
+  costBasisMethod: 'fifo',
+  riskLimits: {},
+  createdAt: 0,
+  ...overrides,
+});
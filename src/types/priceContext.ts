@@ -1,5 +1,19 @@
+import type { OrderBook } from '@/types/trading';
+import type { ReplaySettings } from '@/state/replayStore';
+
+export interface ReplayControls {
+    start: (settings: ReplaySettings) => Promise<void>;
+    play: () => void;
+    pause: () => void;
+    step: () => void;
+    setSpeed: (speed: number) => void;
+    stop: () => void;
+}
+
 export interface PriceContextType {
     getPrice: (symbol: string) => number | null;
     isConnected: boolean;
     subscribe?: (callback: (prices: Record<string, number>) => void) => () => void;
+    subscribeOrderBook?: (symbol: string, callback: (book: OrderBook) => void) => () => void;
+    replay?: ReplayControls;
 }
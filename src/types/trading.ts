@@ -23,6 +23,44 @@ export interface AssetInfo {
   onlyIsolated: boolean;
 }
 
+// Margin Types
+export type MarginMode = 'cross' | 'isolated';
+
+export interface MarginSettings {
+  leverage: number;
+  mode: MarginMode;
+  maintenanceMarginRate: number; // Fraction of notional, derived from the asset's max leverage
+}
+
+// Fee Types
+export type FeeLiquidity = 'maker' | 'taker'; // Resting orders add liquidity; market and triggered fills take it
+
+export interface FeeTier {
+  minVolume: number; // Rolling volume (USD) at which the tier starts
+  takerRate: number; // Fraction of notional
+  makerRate: number;
+}
+
+export interface FeeSchedule {
+  id: string;
+  name: string;
+  volumeWindowDays: number; // Trailing window that decides the tier
+  tiers: FeeTier[]; // Ascending by minVolume, first tier starting at 0
+}
+
+// Cost basis method deciding which lots a closing fill consumes
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+// Pre-trade risk rules for a portfolio; a missing field means no limit
+export interface RiskLimits {
+  maxPositionPercent?: number; // Largest position notional as % of equity
+  maxOpenPositions?: number;
+  maxDailyLoss?: number; // Realized loss net of fees since local midnight
+  maxTradesPerDay?: number;
+  maxConsecutiveLosses?: number; // Losing closes in a row that start a cooldown
+  lossCooldownMinutes?: number;
+}
+
 // Price Data Types
 export interface PriceData {
   [symbol: string]: string; // Price as string from API
@@ -47,9 +85,10 @@ export interface CandleSnapshot {
 }
 
 // Trading Types
-export type OrderType = 'market' | 'limit';
+export type OrderType = 'market' | 'limit' | 'stop'; // Stop orders fill at market once the mid crosses their price
 export type OrderSide = 'buy' | 'sell';
-export type OrderStatus = 'pending' | 'filled' | 'cancelled';
+export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'expired' | 'rejected';
+export type TimeInForce = 'gtc' | 'ioc' | 'fok' | 'post_only' | 'gtd';
 
 export interface Order {
   id: string;
@@ -63,6 +102,151 @@ export interface Order {
   createdAt: number;
   filledAt?: number;
   filledPrice?: number;
+  filledQuantity?: number; // Set when an IOC order fills only part of its quantity
+  timeInForce?: TimeInForce; // Undefined rests until cancelled, like GTC
+  expiresAt?: number; // Good-till-date expiry
+  statusReason?: string; // Why the order was cancelled, expired or rejected
+  stopLoss?: number; // Protective exits attached to the position once filled
+  takeProfit?: number;
+  trailingStop?: { mode: 'percent' | 'absolute'; distance: number }; // Trails from the fill price
+  reduceOnly?: boolean; // Only shrinks an opposing position; legacy orders infer it from the side
+  margin?: MarginSettings; // Leverage used when the order opens or adds to a position
+  groupId?: string; // Links the legs of a bracket or OCO group
+  groupRole?: OrderGroupRole;
+  parentId?: string; // Exit legs stay dormant until this entry order fills
+  positionId?: string; // Position an exit leg protects, once it exists
+  algoId?: string; // Visible clip of an iceberg algo order
+  botId?: string; // Placed by a scripted trading bot
+  liquidity?: FeeLiquidity; // Taker when a limit order crossed the market as it was placed
+}
+
+// Execution Algorithm Types
+export type ExecutionAlgorithm = 'twap' | 'iceberg';
+export type AlgoOrderStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface AlgoOrder {
+  id: string;
+  portfolioId: string;
+  symbol: string;
+  side: OrderSide;
+  algorithm: ExecutionAlgorithm;
+  totalQuantity: number;
+  filledQuantity: number;
+  averagePrice: number; // Volume-weighted across child fills
+  arrivalPrice: number; // Mid when the algo was submitted, the benchmark for its fills
+  szDecimals: number; // Child quantities are rounded to the asset's lot size
+  status: AlgoOrderStatus;
+  statusReason?: string;
+  createdAt: number;
+  completedAt?: number;
+  reduceOnly?: boolean;
+  margin?: MarginSettings;
+  // TWAP: even market slices spread across the duration
+  durationMs?: number;
+  sliceCount?: number;
+  slicesSent?: number;
+  nextSliceAt?: number;
+  // Iceberg: one visible limit clip rests at a time
+  limitPrice?: number;
+  clipQuantity?: number;
+  childOrderId?: string;
+}
+
+// Backtest Types
+export type BacktestInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export type BacktestRule =
+  | { type: 'buy_and_hold' }
+  | { type: 'sma_cross'; fastPeriod: number; slowPeriod: number } // Long while the fast average is above the slow
+  | { type: 'rsi'; period: number; oversold: number; overbought: number } // Buy oversold, sell overbought
+  | { type: 'breakout'; lookback: number }; // Enter past the prior high or low of the lookback
+
+export interface BacktestStrategy {
+  rule: BacktestRule;
+  positionPercent: number; // Equity committed to each entry
+  allowShort: boolean; // Take the opposite side on exit signals instead of going flat
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+}
+
+export interface BacktestConfig {
+  strategy: BacktestStrategy;
+  symbols: string[];
+  interval: BacktestInterval;
+  startTime: number;
+  endTime: number;
+  initialBalance: number;
+  feeSchedule: FeeSchedule;
+}
+
+// Trading Bot Types
+export type BotStatus = 'stopped' | 'running' | 'error';
+export type BotLogLevel = 'info' | 'warn' | 'error' | 'trade';
+
+export interface BotScript {
+  id: string;
+  name: string;
+  code: string; // JavaScript defining onPrice, onCandle and onFill handlers
+  portfolioId: string; // The only portfolio the bot may trade
+  symbols: string[]; // The only markets the bot sees and trades
+  candleInterval: BacktestInterval; // Period of the candles passed to onCandle
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BotLogEntry {
+  time: number;
+  level: BotLogLevel;
+  message: string;
+}
+
+// Price Alert Types
+export type PriceAlertCondition =
+  | { type: 'above'; price: number }
+  | { type: 'below'; price: number }
+  | { type: 'percent_move'; percent: number; windowMinutes: number } // Either direction
+  | { type: 'break_even'; portfolioId: string; positionId: string }; // Price crosses the position's break-even
+
+export type PriceAlertStatus = 'active' | 'triggered' | 'cancelled';
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  condition: PriceAlertCondition;
+  status: PriceAlertStatus;
+  statusReason?: string; // Why the alert was cancelled
+  createdAt: number;
+  triggeredAt?: number;
+}
+
+export interface PriceAlertEvent {
+  id: string;
+  alertId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  time: number;
+}
+
+// Watchlist Types
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[];
+  order: number; // Position among the watchlists
+  createdAt: number;
+}
+
+// Order Group Types
+export type OrderGroupRole = 'entry' | 'take_profit' | 'stop_loss';
+export type OrderGroupStatus = 'pending' | 'active' | 'filled' | 'cancelled';
+
+export interface OrderGroup {
+  id: string;
+  entry?: Order; // Absent for an OCO pair placed against an existing position
+  takeProfit?: Order;
+  stopLoss?: Order;
+  status: OrderGroupStatus;
 }
 
 export interface Position {
@@ -124,6 +308,37 @@ export interface HyperliquidPricesResponse {
   [symbol: string]: string;
 }
 
+export interface HyperliquidAssetCtx {
+  funding: string; // Current hourly funding rate
+  openInterest: string;
+  oraclePx: string;
+  markPx: string;
+  premium: string | null;
+  dayNtlVlm: string;
+  prevDayPx: string;
+}
+
+export type HyperliquidMetaAndAssetCtxsResponse = [HyperliquidMetaResponse, HyperliquidAssetCtx[]];
+
+export interface HyperliquidFundingHistoryEntry {
+  coin: string;
+  fundingRate: string;
+  premium: string;
+  time: number;
+}
+
+export interface HyperliquidL2Level {
+  px: string;
+  sz: string;
+  n: number;
+}
+
+export interface HyperliquidL2BookResponse {
+  coin: string;
+  time: number;
+  levels: [HyperliquidL2Level[], HyperliquidL2Level[]]; // [bids, asks]
+}
+
 export interface HyperliquidCandleResponse {
   T: number[];
   c: string[];
@@ -147,6 +362,28 @@ export interface WebSocketMessage {
   data: any;
 }
 
+// Funding Types
+export interface FundingRate {
+  symbol: string;
+  rate: number; // Hourly; longs pay shorts when positive
+  oraclePrice: number;
+  markPrice: number;
+}
+
+// Order Book Types
+export interface BookLevel {
+  price: number;
+  size: number;
+  orders: number;
+}
+
+export interface OrderBook {
+  symbol: string;
+  bids: BookLevel[]; // Best (highest) first
+  asks: BookLevel[]; // Best (lowest) first
+  timestamp: number;
+}
+
 // Chart Types
 export interface ChartConfig {
   symbol: string;
@@ -154,10 +391,33 @@ export interface ChartConfig {
   theme: 'dark' | 'light';
 }
 
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd';
+
 export interface TechnicalIndicator {
-  name: string;
+  id: string;
+  name: IndicatorType;
   enabled: boolean;
-  params?: Record<string, any>;
+  params: Record<string, number>; // Periods and multipliers, keyed as in INDICATOR_DEFINITIONS
+  color: string;
+}
+
+// Chart Drawing Types
+export type ChartDrawingType = 'trendline' | 'horizontal' | 'rectangle' | 'fibonacci' | 'text';
+
+export interface ChartDrawingPoint {
+  time: number; // Seconds; need not fall on a candle, so drawings survive interval changes
+  price: number;
+}
+
+export interface ChartDrawing {
+  id: string;
+  symbol: string;
+  type: ChartDrawingType;
+  points: ChartDrawingPoint[]; // One for horizontal levels and notes, two otherwise
+  color: string;
+  text?: string; // Note contents
+  createdAt: number;
+  updatedAt: number;
 }
 
 // UI State Types
@@ -230,5 +490,42 @@ export interface PortfolioStoreState {
 // Constants
 export const INITIAL_PORTFOLIO_BALANCE = 100000;
 export const DEFAULT_TRADING_FEE_PERCENT = 0.001; // 0.1%
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+export const DEFAULT_RISK_LIMITS: RiskLimits = {};
+export const DEFAULT_MARGIN_SETTINGS: MarginSettings = {
+  leverage: 1,
+  mode: 'cross',
+  maintenanceMarginRate: 0, // Unlevered positions can't be liquidated
+};
+
+// Hyperliquid perpetuals schedule, tiered on 14-day volume
+export const HYPERLIQUID_FEE_SCHEDULE: FeeSchedule = {
+  id: 'hyperliquid',
+  name: 'Hyperliquid tiers',
+  volumeWindowDays: 14,
+  tiers: [
+    { minVolume: 0, takerRate: 0.00045, makerRate: 0.00015 },
+    { minVolume: 5000000, takerRate: 0.0004, makerRate: 0.00012 },
+    { minVolume: 25000000, takerRate: 0.00035, makerRate: 0.00008 },
+    { minVolume: 100000000, takerRate: 0.0003, makerRate: 0.00004 },
+    { minVolume: 500000000, takerRate: 0.00028, makerRate: 0 },
+    { minVolume: 2000000000, takerRate: 0.00026, makerRate: 0 },
+    { minVolume: 7000000000, takerRate: 0.00024, makerRate: 0 },
+  ],
+};
+export const FLAT_FEE_SCHEDULE: FeeSchedule = {
+  id: 'flat',
+  name: 'Flat 0.1%',
+  volumeWindowDays: 14,
+  tiers: [{ minVolume: 0, takerRate: DEFAULT_TRADING_FEE_PERCENT, makerRate: DEFAULT_TRADING_FEE_PERCENT }],
+};
+export const ZERO_FEE_SCHEDULE: FeeSchedule = {
+  id: 'zero',
+  name: 'No fees',
+  volumeWindowDays: 14,
+  tiers: [{ minVolume: 0, takerRate: 0, makerRate: 0 }],
+};
+export const FEE_SCHEDULES: FeeSchedule[] = [HYPERLIQUID_FEE_SCHEDULE, FLAT_FEE_SCHEDULE, ZERO_FEE_SCHEDULE];
+export const DEFAULT_FEE_SCHEDULE = HYPERLIQUID_FEE_SCHEDULE;
 export const PRICE_UPDATE_INTERVAL = 1000; // 1 second
 export const CHART_UPDATE_INTERVAL = 60000; // 1 minute
\ No newline at end of file
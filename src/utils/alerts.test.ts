@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePriceAlert, getWindowMove, recordPriceSample, validatePriceAlert } from './alerts';
+import type { PriceAlert, PriceAlertCondition } from '@/types/trading';
+
+const MINUTE = 60 * 1000;
+
+const alert = (condition: PriceAlertCondition): PriceAlert => ({
+  id: 'alert-1',
+  symbol: 'BTC',
+  condition,
+  status: 'active',
+  createdAt: 0,
+});
+
+describe('Price Alerts', () => {
+  describe('recordPriceSample', () => {
+    it('should drop samples older than the window', () => {
+      const samples = [{ time: 0, price: 100 }, { time: 5 * MINUTE, price: 101 }];
+      expect(recordPriceSample(samples, 102, 12 * MINUTE, 10 * MINUTE)).toEqual([
+        { time: 5 * MINUTE, price: 101 },
+        { time: 12 * MINUTE, price: 102 },
+      ]);
+    });
+  });
+
+  describe('getWindowMove', () => {
+    it('should measure from the window\'s low or high, whichever moved more', () => {
+      const samples = [{ time: 0, price: 100 }, { time: MINUTE, price: 110 }, { time: 2 * MINUTE, price: 105 }];
+
+      expect(getWindowMove(samples, 99, 0)).toBeCloseTo(-10);
+      expect(getWindowMove(samples, 112, 0)).toBeCloseTo(12);
+      expect(getWindowMove(samples, 104, 0)).toBeCloseTo(-5.4545, 3);
+      expect(getWindowMove(samples, 107.1, 2 * MINUTE)).toBeCloseTo(2);
+    });
+  });
+
+  describe('evaluatePriceAlert', () => {
+    it('should fire level alerts at or through their price', () => {
+      expect(evaluatePriceAlert(alert({ type: 'above', price: 100 }), { price: 99, samples: [], now: 0 })).toBeNull();
+      expect(evaluatePriceAlert(alert({ type: 'above', price: 100 }), { price: 100, samples: [], now: 0 })).toMatch(/above/);
+      expect(evaluatePriceAlert(alert({ type: 'below', price: 100 }), { price: 95, samples: [], now: 0 })).toMatch(/below/);
+    });
+
+    it('should fire percent moves only within the window', () => {
+      const condition: PriceAlertCondition = { type: 'percent_move', percent: 5, windowMinutes: 10 };
+      const samples = [{ time: 0, price: 100 }, { time: 8 * MINUTE, price: 103 }];
+
+      expect(evaluatePriceAlert(alert(condition), { price: 106, samples, now: 9 * MINUTE })).toMatch(/rose 6\.00%/);
+      expect(evaluatePriceAlert(alert(condition), { price: 106, samples, now: 15 * MINUTE })).toBeNull();
+    });
+
+    it('should fire break-even alerts when the price crosses the level', () => {
+      const condition: PriceAlertCondition = { type: 'break_even', portfolioId: 'p1', positionId: 'pos-1' };
+      const base = { samples: [], breakEvenPrice: 100.2, now: 0 };
+
+      expect(evaluatePriceAlert(alert(condition), { ...base, price: 100.1 })).toBeNull(); // No previous price
+      expect(evaluatePriceAlert(alert(condition), { ...base, price: 100.1, previousPrice: 99 })).toBeNull();
+      expect(evaluatePriceAlert(alert(condition), { ...base, price: 100.3, previousPrice: 100.1 })).toMatch(/crossed above/);
+      expect(evaluatePriceAlert(alert(condition), { ...base, price: 100, previousPrice: 101 })).toMatch(/crossed below/);
+    });
+  });
+
+  describe('validatePriceAlert', () => {
+    it('should reject incomplete alerts', () => {
+      expect(validatePriceAlert({ symbol: 'BTC', condition: { type: 'above', price: 100 } })).toBeNull();
+      expect(validatePriceAlert({ symbol: '', condition: { type: 'above', price: 100 } })).toMatch(/symbol/);
+      expect(validatePriceAlert({ symbol: 'BTC', condition: { type: 'below', price: NaN } })).toMatch(/price/);
+      expect(validatePriceAlert({ symbol: 'BTC', condition: { type: 'percent_move', percent: 5, windowMinutes: 2000 } })).toMatch(/24 hours/);
+    });
+  });
+});
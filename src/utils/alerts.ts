@@ -0,0 +1,118 @@
+import { formatCurrency } from '@/utils/calculations';
+import type { PriceAlert, PriceAlertCondition } from '@/types/trading';
+
+// ============================================================================
+// PRICE ALERTS
+// ============================================================================
+
+export const ALERT_HISTORY_LIMIT = 200; // Fired alerts kept in the log
+export const MAX_ALERT_WINDOW_MINUTES = 24 * 60;
+
+export interface PriceSample {
+  time: number;
+  price: number;
+}
+
+export interface AlertEvaluation {
+  price: number;
+  previousPrice?: number; // Last price seen for the symbol, for crossings
+  samples: PriceSample[]; // Recent prices for the symbol, oldest first
+  breakEvenPrice?: number; // Break-even alerts only
+  now: number;
+}
+
+/**
+ * Add a price to a symbol's recent samples, dropping any older than the
+ * window
+ */
+export function recordPriceSample(
+  samples: PriceSample[],
+  price: number,
+  time: number,
+  windowMs: number
+): PriceSample[] {
+  return [...samples.filter(sample => sample.time >= time - windowMs), { time, price }];
+}
+
+/**
+ * Largest move into the current price from any price in the window, as a
+ * signed percentage
+ */
+export function getWindowMove(samples: PriceSample[], price: number, since: number): number {
+  const inWindow = samples.filter(sample => sample.time >= since);
+  if (inWindow.length === 0) return 0;
+
+  const low = Math.min(...inWindow.map(sample => sample.price));
+  const high = Math.max(...inWindow.map(sample => sample.price));
+  const rise = low > 0 ? (price / low - 1) * 100 : 0;
+  const fall = high > 0 ? (price / high - 1) * 100 : 0;
+  return rise >= -fall ? rise : fall;
+}
+
+/**
+ * Describe an alert's condition for lists and notifications
+ */
+export function describeAlertCondition(condition: PriceAlertCondition): string {
+  switch (condition.type) {
+    case 'above':
+      return `Above ${formatCurrency(condition.price)}`;
+    case 'below':
+      return `Below ${formatCurrency(condition.price)}`;
+    case 'percent_move':
+      return `Moves ${condition.percent}% within ${condition.windowMinutes} min`;
+    case 'break_even':
+      return 'Crosses position break-even';
+  }
+}
+
+/**
+ * Check an active alert against the latest price. Returns the message to
+ * show when it fires, or null.
+ */
+export function evaluatePriceAlert(alert: PriceAlert, evaluation: AlertEvaluation): string | null {
+  const { condition, symbol } = alert;
+  const { price, previousPrice, samples, breakEvenPrice, now } = evaluation;
+
+  switch (condition.type) {
+    case 'above':
+      return price >= condition.price ? `${symbol} is above ${formatCurrency(condition.price)} at ${formatCurrency(price)}` : null;
+
+    case 'below':
+      return price <= condition.price ? `${symbol} is below ${formatCurrency(condition.price)} at ${formatCurrency(price)}` : null;
+
+    case 'percent_move': {
+      const move = getWindowMove(samples, price, now - condition.windowMinutes * 60 * 1000);
+      if (Math.abs(move) < condition.percent) return null;
+      return `${symbol} ${move > 0 ? 'rose' : 'fell'} ${Math.abs(move).toFixed(2)}% within ${condition.windowMinutes} min to ${formatCurrency(price)}`;
+    }
+
+    case 'break_even': {
+      if (breakEvenPrice === undefined || previousPrice === undefined) return null;
+      const wasAbove = previousPrice >= breakEvenPrice;
+      const isAbove = price >= breakEvenPrice;
+      if (wasAbove === isAbove) return null;
+      return `${symbol} crossed ${isAbove ? 'above' : 'below'} its break-even of ${formatCurrency(breakEvenPrice)} at ${formatCurrency(price)}`;
+    }
+  }
+}
+
+/**
+ * Validate an alert before creating it
+ */
+export function validatePriceAlert(alert: Pick<PriceAlert, 'symbol' | 'condition'>): string | null {
+  const { symbol, condition } = alert;
+  if (!symbol.trim()) return 'Choose a symbol';
+
+  switch (condition.type) {
+    case 'above':
+    case 'below':
+      return Number.isFinite(condition.price) && condition.price > 0 ? null : 'Enter a price greater than zero';
+    case 'percent_move':
+      if (!(Number.isFinite(condition.percent) && condition.percent > 0)) return 'Enter a move greater than zero';
+      if (!(Number.isFinite(condition.windowMinutes) && condition.windowMinutes > 0)) return 'Enter a window greater than zero';
+      if (condition.windowMinutes > MAX_ALERT_WINDOW_MINUTES) return 'The window can be at most 24 hours';
+      return null;
+    case 'break_even':
+      return condition.positionId ? null : 'Choose a position';
+  }
+}
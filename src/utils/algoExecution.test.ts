@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTwapSliceQuantity,
+  isTwapSliceDue,
+  getIcebergClipQuantity,
+  applyAlgoFill,
+  getAlgoProgress,
+  validateAlgoOrder,
+} from './algoExecution';
+import type { AlgoOrder } from '@/types/trading';
+
+const createAlgo = (overrides: Partial<AlgoOrder> = {}): AlgoOrder => ({
+  id: 'algo-1',
+  portfolioId: 'portfolio-1',
+  symbol: 'BTC',
+  side: 'buy',
+  algorithm: 'twap',
+  totalQuantity: 1,
+  filledQuantity: 0,
+  averagePrice: 0,
+  arrivalPrice: 50000,
+  szDecimals: 3,
+  status: 'running',
+  createdAt: 0,
+  durationMs: 60000,
+  sliceCount: 3,
+  slicesSent: 0,
+  nextSliceAt: 0,
+  ...overrides,
+});
+
+describe('Algo Execution', () => {
+  it('should slice TWAP evenly and give the last slice the remainder', () => {
+    expect(getTwapSliceQuantity(createAlgo())).toBe(0.333);
+    expect(getTwapSliceQuantity(createAlgo({ slicesSent: 2, filledQuantity: 0.666 }))).toBe(0.334);
+  });
+
+  it('should only send a slice once it is due and running', () => {
+    expect(isTwapSliceDue(createAlgo({ nextSliceAt: 1000 }), 999)).toBe(false);
+    expect(isTwapSliceDue(createAlgo({ nextSliceAt: 1000 }), 1000)).toBe(true);
+    expect(isTwapSliceDue(createAlgo({ status: 'paused' }), 1000)).toBe(false);
+  });
+
+  it('should cap the iceberg clip at the remaining quantity', () => {
+    const iceberg = createAlgo({ algorithm: 'iceberg', clipQuantity: 0.4 });
+    expect(getIcebergClipQuantity(iceberg)).toBe(0.4);
+    expect(getIcebergClipQuantity({ ...iceberg, filledQuantity: 0.8 })).toBe(0.2);
+  });
+
+  it('should volume-weight fills and measure them against arrival', () => {
+    let algo = createAlgo();
+    algo = { ...algo, ...applyAlgoFill(algo, 0.5, 50000) };
+    algo = { ...algo, ...applyAlgoFill(algo, 0.5, 50100) };
+
+    expect(algo.averagePrice).toBe(50050);
+    const progress = getAlgoProgress(algo);
+    expect(progress.filledPercent).toBe(100);
+    expect(progress.slippageBps).toBeCloseTo(10);
+    expect(getAlgoProgress({ ...algo, side: 'sell' }).slippageBps).toBeCloseTo(-10);
+  });
+
+  it('should keep every child above the venue minimums', () => {
+    expect(validateAlgoOrder('twap', { quantity: 1, price: 50000, durationMs: 60000, sliceCount: 1 })).toContain('at least 2');
+    expect(validateAlgoOrder('twap', { quantity: 1, price: 50000, durationMs: 10000, sliceCount: 10 })).toContain('apart');
+    expect(validateAlgoOrder('twap', { quantity: 0.001, price: 50000, durationMs: 60000, sliceCount: 10 })).toContain('slice must be worth');
+    expect(validateAlgoOrder('twap', { quantity: 1, price: 50000, durationMs: 60000, sliceCount: 10 })).toBeNull();
+
+    expect(validateAlgoOrder('iceberg', { quantity: 1, price: 50000, clipQuantity: 1 })).toContain('smaller');
+    expect(validateAlgoOrder('iceberg', { quantity: 1, price: 50000, clipQuantity: 0.1234, szDecimals: 3 })).toContain('steps');
+    expect(validateAlgoOrder('iceberg', { quantity: 1, price: 50000, clipQuantity: 0.1, szDecimals: 3 })).toBeNull();
+  });
+});
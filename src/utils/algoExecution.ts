@@ -0,0 +1,126 @@
+import type { AlgoOrder, ExecutionAlgorithm } from '@/types/trading';
+import { formatCurrency } from '@/utils/calculations';
+import { MIN_ORDER_NOTIONAL, getSizeStep, isValidSize, roundSize } from '@/utils/orderRules';
+
+// ============================================================================
+// ALGORITHMIC EXECUTION
+// ============================================================================
+
+export const MAX_TWAP_SLICES = 100;
+export const MIN_TWAP_SLICE_INTERVAL_MS = 5 * 1000; // Price updates arrive about every second
+
+export interface AlgoProgress {
+  filledPercent: number;
+  remainingQuantity: number;
+  slippageBps: number; // Average fill against arrival; positive is worse for the trader
+}
+
+/**
+ * Quantity still to be worked
+ */
+export function getAlgoRemaining(algo: AlgoOrder): number {
+  return roundSize(Math.max(0, algo.totalQuantity - algo.filledQuantity), algo.szDecimals);
+}
+
+/**
+ * Spacing between TWAP slices
+ */
+export function getTwapInterval(algo: Pick<AlgoOrder, 'durationMs' | 'sliceCount'>): number {
+  return (algo.durationMs ?? 0) / Math.max(1, algo.sliceCount ?? 1);
+}
+
+/**
+ * Whether the next TWAP slice is due
+ */
+export function isTwapSliceDue(algo: AlgoOrder, now: number): boolean {
+  return algo.status === 'running' && algo.nextSliceAt !== undefined && now >= algo.nextSliceAt;
+}
+
+/**
+ * Size of the next TWAP slice: the remainder spread evenly over the slices
+ * left, with the last slice taking whatever rounding left behind
+ */
+export function getTwapSliceQuantity(algo: AlgoOrder): number {
+  const remaining = getAlgoRemaining(algo);
+  const slicesLeft = Math.max(1, (algo.sliceCount ?? 1) - (algo.slicesSent ?? 0));
+  return slicesLeft === 1 ? remaining : roundSize(remaining / slicesLeft, algo.szDecimals);
+}
+
+/**
+ * Size of the next visible iceberg clip
+ */
+export function getIcebergClipQuantity(algo: AlgoOrder): number {
+  return Math.min(algo.clipQuantity ?? 0, getAlgoRemaining(algo));
+}
+
+/**
+ * Fold a child fill into the algo's filled quantity and average price
+ */
+export function applyAlgoFill(
+  algo: AlgoOrder,
+  quantity: number,
+  price: number
+): Pick<AlgoOrder, 'filledQuantity' | 'averagePrice'> {
+  const filledQuantity = algo.filledQuantity + quantity;
+  const averagePrice = filledQuantity > 0
+    ? (algo.averagePrice * algo.filledQuantity + price * quantity) / filledQuantity
+    : 0;
+  return { filledQuantity, averagePrice };
+}
+
+/**
+ * Filled share and execution quality against the arrival price
+ */
+export function getAlgoProgress(algo: AlgoOrder): AlgoProgress {
+  const direction = algo.side === 'buy' ? 1 : -1;
+  const slippageBps = algo.filledQuantity > 0 && algo.arrivalPrice > 0
+    ? direction * (algo.averagePrice - algo.arrivalPrice) / algo.arrivalPrice * 10000
+    : 0;
+
+  return {
+    filledPercent: algo.totalQuantity > 0 ? (algo.filledQuantity / algo.totalQuantity) * 100 : 0,
+    remainingQuantity: getAlgoRemaining(algo),
+    slippageBps,
+  };
+}
+
+/**
+ * Validate algo parameters so every child order clears the venue minimums
+ */
+export function validateAlgoOrder(
+  algorithm: ExecutionAlgorithm,
+  params: {
+    quantity: number;
+    price: number;
+    szDecimals?: number;
+    durationMs?: number;
+    sliceCount?: number;
+    clipQuantity?: number;
+  }
+): string | null {
+  const { quantity, price } = params;
+
+  if (algorithm === 'twap') {
+    const { durationMs = 0, sliceCount = 0 } = params;
+    if (!Number.isInteger(sliceCount) || sliceCount < 2) return 'TWAP needs at least 2 slices';
+    if (sliceCount > MAX_TWAP_SLICES) return `TWAP is limited to ${MAX_TWAP_SLICES} slices`;
+    if (durationMs / sliceCount < MIN_TWAP_SLICE_INTERVAL_MS) {
+      return `Slices must be at least ${MIN_TWAP_SLICE_INTERVAL_MS / 1000}s apart`;
+    }
+    if ((quantity / sliceCount) * price < MIN_ORDER_NOTIONAL) {
+      return `Each slice must be worth at least ${formatCurrency(MIN_ORDER_NOTIONAL)}`;
+    }
+    return null;
+  }
+
+  const { clipQuantity = 0 } = params;
+  if (clipQuantity <= 0) return 'Please enter a visible size';
+  if (clipQuantity >= quantity) return 'Visible size must be smaller than the order';
+  if (params.szDecimals !== undefined && !isValidSize(clipQuantity, params.szDecimals)) {
+    return `Visible size must be in steps of ${getSizeStep(params.szDecimals)}`;
+  }
+  if (clipQuantity * price < MIN_ORDER_NOTIONAL) {
+    return `Each clip must be worth at least ${formatCurrency(MIN_ORDER_NOTIONAL)}`;
+  }
+  return null;
+}
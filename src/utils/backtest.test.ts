@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDailyReturns,
+  getProtectiveExit,
+  getRuleSignals,
+  runBacktest,
+  validateBacktestConfig,
+} from './backtest';
+import type { ChartDataPoint } from '@/services/chartApi';
+import type { BacktestConfig, BacktestStrategy } from '@/types/trading';
+import { FLAT_FEE_SCHEDULE, ZERO_FEE_SCHEDULE } from '@/types/trading';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const START = Date.UTC(2024, 0, 1);
+
+// Flat candles, one per hour, at the given closes; each opens at the previous close
+const createCandles = (closes: number[]): ChartDataPoint[] =>
+  closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    return {
+      time: (START + i * HOUR) / 1000,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: 0,
+    };
+  });
+
+const createConfig = (strategy: Partial<BacktestStrategy> = {}, overrides: Partial<BacktestConfig> = {}): BacktestConfig => ({
+  strategy: {
+    rule: { type: 'buy_and_hold' },
+    positionPercent: 100,
+    allowShort: false,
+    ...strategy,
+  },
+  symbols: ['BTC'],
+  interval: '1h',
+  startTime: START,
+  endTime: START + 10 * HOUR,
+  initialBalance: 10000,
+  feeSchedule: ZERO_FEE_SCHEDULE,
+  ...overrides,
+});
+
+describe('Backtest', () => {
+  describe('getRuleSignals', () => {
+    it('should follow the faster average across the slower one', () => {
+      const signals = getRuleSignals(
+        { type: 'sma_cross', fastPeriod: 2, slowPeriod: 3 },
+        createCandles([10, 10, 10, 13, 16, 10, 4])
+      );
+      expect(signals).toEqual([null, null, -1, 1, 1, -1, -1]);
+    });
+
+    it('should break out past the prior range', () => {
+      const signals = getRuleSignals({ type: 'breakout', lookback: 2 }, createCandles([10, 12, 11, 13, 9]));
+      expect(signals).toEqual([null, null, null, 1, -1]);
+    });
+  });
+
+  describe('runBacktest', () => {
+    it('should fill at the next open and settle at the end', () => {
+      const result = runBacktest(createConfig(), { BTC: createCandles([100, 100, 110, 120]) });
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({
+        entryPrice: 100, // Signalled at the first close, filled at the second open
+        exitPrice: 120,
+        quantity: 100,
+        pnl: 2000,
+        exitReason: 'end',
+      });
+      expect(result.equityCurve.map(p => p.equity)).toEqual([10000, 10000, 11000, 12000]);
+      expect(result.metrics.totalReturnPercent).toBe(20);
+      expect(result.metrics.winRate).toBe(100);
+    });
+
+    it('should charge fees on both fills', () => {
+      const result = runBacktest(
+        createConfig({ positionPercent: 50 }, { feeSchedule: FLAT_FEE_SCHEDULE }),
+        { BTC: createCandles([100, 100, 100]) }
+      );
+      const rate = FLAT_FEE_SCHEDULE.tiers[0].takerRate;
+
+      expect(result.trades[0].fees).toBeCloseTo(2 * 5000 * rate);
+      expect(result.metrics.finalEquity).toBeCloseTo(10000 - 2 * 5000 * rate);
+      expect(result.metrics.totalFees).toBeCloseTo(result.trades[0].fees);
+    });
+
+    it('should exit at the stop and sell short when allowed', () => {
+      const candles = createCandles([100, 100, 95, 80, 70]);
+
+      const stopped = runBacktest(createConfig({ stopLossPercent: 10 }), { BTC: candles });
+      expect(stopped.trades[0]).toMatchObject({ exitPrice: 90, exitReason: 'stop_loss' });
+
+      const short = runBacktest(
+        createConfig({ rule: { type: 'breakout', lookback: 1 }, allowShort: true }),
+        { BTC: candles }
+      );
+      expect(short.trades[0]).toMatchObject({ side: 'short', entryPrice: 95, exitPrice: 70 });
+      expect(short.trades[0].pnl).toBeCloseTo(25 * (10000 / 95));
+    });
+
+    it('should measure drawdown and daily returns from the equity curve', () => {
+      const result = runBacktest(createConfig(), { BTC: createCandles([100, 100, 50, 75]) });
+
+      expect(result.metrics.maxDrawdownPercent).toBe(50);
+      expect(result.metrics.profitFactor).toBe(0);
+      expect(getDailyReturns([
+        { time: START, equity: 100 },
+        { time: START + DAY, equity: 110 },
+        { time: START + DAY + HOUR, equity: 121 },
+      ])).toEqual([0.21]);
+    });
+  });
+
+  describe('getProtectiveExit', () => {
+    it('should fill a gap through the stop at the open', () => {
+      expect(getProtectiveExit(
+        { direction: 1, entryPrice: 100 },
+        { open: 85, high: 86, low: 80 },
+        { stopLossPercent: 10 }
+      )).toEqual({ price: 85, reason: 'stop_loss' });
+    });
+  });
+
+  describe('validateBacktestConfig', () => {
+    const now = START + 30 * DAY;
+
+    it('should accept a sound run', () => {
+      expect(validateBacktestConfig(createConfig(), now)).toBeNull();
+    });
+
+    it('should reject bad ranges and rules', () => {
+      expect(validateBacktestConfig(createConfig({}, { endTime: START }), now)).toContain('before the end');
+      expect(validateBacktestConfig(createConfig({}, { interval: '1m', endTime: now }), now)).toContain('candles');
+      expect(validateBacktestConfig(
+        createConfig({ rule: { type: 'sma_cross', fastPeriod: 20, slowPeriod: 10 } }),
+        now
+      )).toContain('fast average');
+    });
+  });
+});
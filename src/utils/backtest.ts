@@ -0,0 +1,409 @@
+import type { ChartDataPoint } from '@/services/chartApi';
+import type { BacktestConfig, BacktestInterval, BacktestRule, BacktestStrategy } from '@/types/trading';
+import { calculateCAGR, calculateMaxDrawdown, calculateSharpeRatio } from '@/utils/calculations';
+import { getFeeRate, getFeeTier } from '@/utils/fees';
+import { calculateRSI, calculateSMA } from '@/utils/indicators';
+
+// ============================================================================
+// BACKTESTING
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+export const MAX_BACKTEST_CANDLES = 20000; // Per symbol, to keep runs and downloads bounded
+
+export const BACKTEST_INTERVAL_MS: Record<BacktestInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': DAY_MS,
+};
+
+type Direction = 1 | 0 | -1; // Long, flat, short
+
+export type BacktestExitReason = 'signal' | 'stop_loss' | 'take_profit' | 'end';
+
+export interface BacktestTrade {
+  symbol: string;
+  side: 'long' | 'short';
+  quantity: number;
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  fees: number; // Entry and exit together
+  pnl: number; // Net of fees
+  pnlPercent: number; // Net P&L against the entry notional
+  exitReason: BacktestExitReason;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface BacktestMetrics {
+  finalEquity: number;
+  totalReturn: number;
+  totalReturnPercent: number;
+  cagr: number;
+  sharpeRatio: number; // From daily returns
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  totalTrades: number;
+  winRate: number;
+  profitFactor: number; // Gross wins over gross losses; Infinity without a loss
+  totalFees: number;
+}
+
+export interface BacktestResult {
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  metrics: BacktestMetrics;
+}
+
+interface OpenTrade {
+  direction: 1 | -1;
+  quantity: number;
+  entryTime: number;
+  entryPrice: number;
+  entryFee: number;
+}
+
+interface SymbolState {
+  symbol: string;
+  candles: ChartDataPoint[];
+  signals: (Direction | null)[]; // Target at each candle's close, null to hold
+  cursor: number;
+  pending: Direction | null; // Filled at the next candle's open
+  position: OpenTrade | null;
+  lastPrice: number;
+}
+
+// ============================================================================
+// SIGNALS
+// ============================================================================
+
+/**
+ * Direction each candle's close asks for under a rule, or null to keep the
+ * current one. Short signals are returned as-is; the strategy decides
+ * whether they open a short or just exit.
+ */
+export function getRuleSignals(rule: BacktestRule, candles: ChartDataPoint[]): (1 | -1 | null)[] {
+  const closes = candles.map(candle => candle.close);
+
+  switch (rule.type) {
+    case 'buy_and_hold':
+      return candles.map(() => 1);
+
+    case 'sma_cross': {
+      const fast = calculateSMA(closes, rule.fastPeriod);
+      const slow = calculateSMA(closes, rule.slowPeriod);
+      return candles.map((_, i) => {
+        const [f, s] = [fast[i], slow[i]];
+        if (f === null || s === null) return null;
+        return f > s ? 1 : -1;
+      });
+    }
+
+    case 'rsi': {
+      const rsi = calculateRSI(closes, rule.period);
+      return rsi.map(value => {
+        if (value === null) return null;
+        if (value < rule.oversold) return 1;
+        if (value > rule.overbought) return -1;
+        return null;
+      });
+    }
+
+    case 'breakout':
+      return candles.map((candle, i) => {
+        if (i < rule.lookback) return null;
+        const prior = candles.slice(i - rule.lookback, i);
+        if (candle.close > Math.max(...prior.map(c => c.high))) return 1;
+        if (candle.close < Math.min(...prior.map(c => c.low))) return -1;
+        return null;
+      });
+  }
+}
+
+function getStrategySignals(strategy: BacktestStrategy, candles: ChartDataPoint[]): (Direction | null)[] {
+  return getRuleSignals(strategy.rule, candles).map(signal =>
+    signal === -1 && !strategy.allowShort ? 0 : signal
+  );
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Price a candle hit one of the position's protective exits at, if any.
+ * When both sit inside the candle the stop is assumed to hit first, and a
+ * candle that gaps through a level fills at its open.
+ */
+export function getProtectiveExit(
+  trade: Pick<OpenTrade, 'direction' | 'entryPrice'>,
+  candle: Pick<ChartDataPoint, 'open' | 'high' | 'low'>,
+  strategy: Pick<BacktestStrategy, 'stopLossPercent' | 'takeProfitPercent'>
+): { price: number; reason: 'stop_loss' | 'take_profit' } | null {
+  const { direction, entryPrice } = trade;
+  const { stopLossPercent, takeProfitPercent } = strategy;
+
+  if (stopLossPercent) {
+    const stop = entryPrice * (1 - direction * stopLossPercent / 100);
+    const hit = direction === 1 ? candle.low <= stop : candle.high >= stop;
+    if (hit) {
+      const price = direction === 1 ? Math.min(candle.open, stop) : Math.max(candle.open, stop);
+      return { price, reason: 'stop_loss' };
+    }
+  }
+
+  if (takeProfitPercent) {
+    const target = entryPrice * (1 + direction * takeProfitPercent / 100);
+    const hit = direction === 1 ? candle.high >= target : candle.low <= target;
+    if (hit) {
+      const price = direction === 1 ? Math.max(candle.open, target) : Math.min(candle.open, target);
+      return { price, reason: 'take_profit' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a strategy over historical candles. Signals are read at each candle's
+ * close and filled at the next candle's open, so a rule never trades on a
+ * price it couldn't have seen. Every fill pays the taker rate of the fee
+ * tier the test's own rolling volume has reached.
+ */
+export function runBacktest(
+  config: BacktestConfig,
+  candlesBySymbol: Record<string, ChartDataPoint[]>
+): BacktestResult {
+  const { strategy, feeSchedule, initialBalance } = config;
+
+  const symbols: SymbolState[] = config.symbols
+    .map(symbol => {
+      const candles = [...(candlesBySymbol[symbol] ?? [])].sort((a, b) => a.time - b.time);
+      return {
+        symbol,
+        candles,
+        signals: getStrategySignals(strategy, candles),
+        cursor: 0,
+        pending: null,
+        position: null,
+        lastPrice: 0,
+      };
+    })
+    .filter(state => state.candles.length > 0);
+
+  const times = [...new Set(symbols.flatMap(state => state.candles.map(candle => candle.time)))]
+    .sort((a, b) => a - b);
+
+  let cash = initialBalance;
+  const fills: { time: number; notional: number }[] = [];
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const getEquity = () => symbols.reduce(
+    (equity, state) => equity + (state.position ? state.position.direction * state.position.quantity * state.lastPrice : 0),
+    cash
+  );
+
+  const getFee = (time: number, notional: number) => {
+    const since = time - feeSchedule.volumeWindowDays * DAY_MS;
+    const volume = fills.filter(fill => fill.time >= since).reduce((sum, fill) => sum + fill.notional, 0);
+    fills.push({ time, notional });
+    return notional * getFeeRate(getFeeTier(feeSchedule, volume), 'taker');
+  };
+
+  const open = (state: SymbolState, direction: 1 | -1, price: number, time: number) => {
+    const rate = getFeeRate(getFeeTier(feeSchedule, 0), 'taker'); // Entry tier, the dearest, bounds the fee
+    let quantity = (getEquity() * strategy.positionPercent / 100) / price;
+    if (direction === 1) quantity = Math.min(quantity, cash / (price * (1 + rate))); // Longs are cash-funded
+    if (!(quantity > 0)) return;
+
+    const fee = getFee(time, quantity * price);
+    cash -= direction * quantity * price + fee;
+    state.position = { direction, quantity, entryTime: time, entryPrice: price, entryFee: fee };
+  };
+
+  const close = (state: SymbolState, price: number, time: number, exitReason: BacktestExitReason) => {
+    const trade = state.position;
+    if (!trade) return;
+
+    const exitFee = getFee(time, trade.quantity * price);
+    cash += trade.direction * trade.quantity * price - exitFee;
+    state.position = null;
+
+    const fees = trade.entryFee + exitFee;
+    const pnl = trade.direction * (price - trade.entryPrice) * trade.quantity - fees;
+    trades.push({
+      symbol: state.symbol,
+      side: trade.direction === 1 ? 'long' : 'short',
+      quantity: trade.quantity,
+      entryTime: trade.entryTime,
+      entryPrice: trade.entryPrice,
+      exitTime: time,
+      exitPrice: price,
+      fees,
+      pnl,
+      pnlPercent: (pnl / (trade.quantity * trade.entryPrice)) * 100,
+      exitReason,
+    });
+  };
+
+  times.forEach(seconds => {
+    const time = seconds * 1000; // Chart candles are stamped in seconds
+
+    symbols.forEach(state => {
+      const candle = state.candles[state.cursor];
+      if (!candle || candle.time !== seconds) return;
+      const index = state.cursor++;
+
+      // Act on the previous close's signal at this open
+      if (state.pending !== null && state.pending !== (state.position?.direction ?? 0)) {
+        state.lastPrice = candle.open;
+        close(state, candle.open, time, 'signal');
+        if (state.pending !== 0) open(state, state.pending, candle.open, time);
+      }
+      state.pending = null;
+
+      if (state.position) {
+        const exit = getProtectiveExit(state.position, candle, strategy);
+        if (exit) close(state, exit.price, time, exit.reason);
+      }
+
+      state.lastPrice = candle.close;
+      const signal = state.signals[index];
+      if (signal !== null && signal !== (state.position?.direction ?? 0)) {
+        state.pending = signal;
+      }
+    });
+
+    equityCurve.push({ time, equity: getEquity() });
+  });
+
+  // Settle whatever is still open at the last price so every trade is counted
+  const endTime = equityCurve[equityCurve.length - 1]?.time;
+  if (endTime !== undefined) {
+    symbols.forEach(state => close(state, state.lastPrice, endTime, 'end'));
+    equityCurve[equityCurve.length - 1] = { time: endTime, equity: cash };
+  }
+
+  return {
+    equityCurve,
+    trades,
+    metrics: getBacktestMetrics(config, equityCurve, trades),
+  };
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Returns between the last equity of each day
+ */
+export function getDailyReturns(equityCurve: EquityPoint[]): number[] {
+  const dailyCloses = new Map<number, number>();
+  equityCurve.forEach(point => dailyCloses.set(Math.floor(point.time / DAY_MS), point.equity));
+
+  const closes = [...dailyCloses.values()];
+  return closes.slice(1).map((equity, i) => (closes[i] > 0 ? (equity - closes[i]) / closes[i] : 0));
+}
+
+/**
+ * Performance of a finished run
+ */
+export function getBacktestMetrics(
+  config: Pick<BacktestConfig, 'initialBalance' | 'startTime' | 'endTime'>,
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[]
+): BacktestMetrics {
+  const { initialBalance } = config;
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? initialBalance;
+  const totalReturn = finalEquity - initialBalance;
+  const { maxDrawdown, maxDrawdownPercent } = calculateMaxDrawdown([initialBalance, ...equityCurve.map(p => p.equity)]);
+
+  const grossWins = trades.filter(t => t.pnl > 0).reduce((sum, t) => sum + t.pnl, 0);
+  const grossLosses = -trades.filter(t => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0);
+  const winningTrades = trades.filter(t => t.pnl > 0).length;
+
+  return {
+    finalEquity,
+    totalReturn,
+    totalReturnPercent: initialBalance > 0 ? (totalReturn / initialBalance) * 100 : 0,
+    cagr: calculateCAGR(initialBalance, finalEquity, (config.endTime - config.startTime) / YEAR_MS),
+    sharpeRatio: calculateSharpeRatio(getDailyReturns(equityCurve)),
+    maxDrawdown,
+    maxDrawdownPercent,
+    totalTrades: trades.length,
+    winRate: trades.length > 0 ? (winningTrades / trades.length) * 100 : 0,
+    profitFactor: grossLosses > 0 ? grossWins / grossLosses : grossWins > 0 ? Infinity : 0,
+    totalFees: trades.reduce((sum, t) => sum + t.fees, 0),
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Number of candles a range spans at an interval
+ */
+export function getBacktestCandleCount(interval: BacktestInterval, startTime: number, endTime: number): number {
+  return Math.ceil((endTime - startTime) / BACKTEST_INTERVAL_MS[interval]);
+}
+
+function validateRule(rule: BacktestRule): string | null {
+  const isPeriod = (value: number) => Number.isInteger(value) && value >= 2;
+
+  switch (rule.type) {
+    case 'buy_and_hold':
+      return null;
+    case 'sma_cross':
+      if (!isPeriod(rule.fastPeriod) || !isPeriod(rule.slowPeriod)) return 'Moving average periods must be whole numbers of at least 2';
+      if (rule.fastPeriod >= rule.slowPeriod) return 'The fast average must be shorter than the slow one';
+      return null;
+    case 'rsi':
+      if (!isPeriod(rule.period)) return 'RSI period must be a whole number of at least 2';
+      if (!(rule.oversold > 0 && rule.oversold < rule.overbought && rule.overbought < 100)) {
+        return 'RSI levels must satisfy 0 < oversold < overbought < 100';
+      }
+      return null;
+    case 'breakout':
+      if (!Number.isInteger(rule.lookback) || rule.lookback < 1) return 'Breakout lookback must be a whole number of candles';
+      return null;
+  }
+}
+
+/**
+ * Validate a run before fetching any candles for it
+ */
+export function validateBacktestConfig(config: BacktestConfig, now: number = Date.now()): string | null {
+  const { strategy } = config;
+
+  if (config.symbols.length === 0) return 'Choose at least one symbol';
+  if (!(config.startTime < config.endTime)) return 'The start date must be before the end date';
+  if (config.endTime > now) return 'The end date cannot be in the future';
+  if (getBacktestCandleCount(config.interval, config.startTime, config.endTime) > MAX_BACKTEST_CANDLES) {
+    return `That range is over ${MAX_BACKTEST_CANDLES.toLocaleString()} candles; shorten it or use a longer interval`;
+  }
+  if (!(config.initialBalance > 0)) return 'Starting balance must be greater than zero';
+  if (!(strategy.positionPercent > 0 && strategy.positionPercent <= 100)) {
+    return 'Position size must be between 0% and 100% of equity';
+  }
+  if (strategy.stopLossPercent !== undefined && !(strategy.stopLossPercent > 0 && strategy.stopLossPercent < 100)) {
+    return 'Stop loss must be between 0% and 100%';
+  }
+  if (strategy.takeProfitPercent !== undefined && !(strategy.takeProfitPercent > 0)) {
+    return 'Take profit must be greater than zero';
+  }
+
+  return validateRule(strategy.rule);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BOT_ORDERS_PER_MINUTE,
+  getBotAccount,
+  isBotRateLimited,
+  updateLiveCandle,
+  validateBotOrder,
+  validateBotScript,
+} from './bots';
+import type { Order } from '@/types/trading';
+
+const MINUTE = 60 * 1000;
+const BOT = { id: 'bot-1', symbols: ['BTC', 'ETH'] };
+
+describe('Trading Bots', () => {
+  describe('updateLiveCandle', () => {
+    it('should fold prices into the forming candle', () => {
+      let { candle } = updateLiveCandle(undefined, 100, 10 * MINUTE + 5000, MINUTE);
+      ({ candle } = updateLiveCandle(candle, 104, 10 * MINUTE + 20000, MINUTE));
+      const result = updateLiveCandle(candle, 98, 10 * MINUTE + 40000, MINUTE);
+
+      expect(result.closed).toBeUndefined();
+      expect(result.candle).toEqual({ time: 10 * MINUTE, open: 100, high: 104, low: 98, close: 98 });
+    });
+
+    it('should close the candle when a price opens the next period', () => {
+      const { candle } = updateLiveCandle(undefined, 100, 10 * MINUTE, MINUTE);
+      const result = updateLiveCandle(candle, 101, 11 * MINUTE + 1000, MINUTE);
+
+      expect(result.closed).toEqual(candle);
+      expect(result.candle).toEqual({ time: 11 * MINUTE, open: 101, high: 101, low: 101, close: 101 });
+    });
+  });
+
+  describe('validateBotOrder', () => {
+    it('should accept market and priced limit orders in the bot\'s symbols', () => {
+      expect(validateBotOrder({ symbol: 'BTC', side: 'buy', type: 'market', quantity: 0.1 }, BOT)).toBeNull();
+      expect(validateBotOrder({ symbol: 'ETH', side: 'sell', type: 'limit', quantity: 1, price: 3000 }, BOT)).toBeNull();
+    });
+
+    it('should reject orders outside the bot\'s limits', () => {
+      expect(validateBotOrder({ symbol: 'SOL', side: 'buy', type: 'market', quantity: 1 }, BOT)).toMatch(/not one of/);
+      expect(validateBotOrder({ symbol: 'BTC', side: 'buy', type: 'market', quantity: 0 }, BOT)).toMatch(/quantity/);
+      expect(validateBotOrder({ symbol: 'BTC', side: 'buy', type: 'limit', quantity: 1 }, BOT)).toMatch(/price/);
+      expect(validateBotOrder({ symbol: 'BTC', side: 'buy', type: 'stop' as 'market', quantity: 1 }, BOT)).toMatch(/market and limit/);
+    });
+  });
+
+  describe('isBotRateLimited', () => {
+    it('should only count orders from the trailing minute', () => {
+      const now = 10 * MINUTE;
+      const recent = Array.from({ length: BOT_ORDERS_PER_MINUTE }, (_, i) => now - i * 1000);
+      const stale = Array.from({ length: BOT_ORDERS_PER_MINUTE }, () => now - 2 * MINUTE);
+
+      expect(isBotRateLimited(recent, now)).toBe(true);
+      expect(isBotRateLimited(recent.slice(1), now)).toBe(false);
+      expect(isBotRateLimited(stale, now)).toBe(false);
+    });
+  });
+
+  describe('getBotAccount', () => {
+    it('should show only the bot\'s symbols and its own pending orders', () => {
+      const position = (symbol: string) => ({
+        id: symbol, symbol, type: 'long' as const, quantity: 1, entryPrice: 100, currentPrice: 100, openedAt: 0,
+      });
+      const order = (id: string, botId: string | undefined, status: Order['status']): Order => ({
+        id, portfolioId: 'p1', symbol: 'BTC', side: 'buy', type: 'limit', quantity: 1, price: 90, status, createdAt: 0, botId,
+      });
+
+      const account = getBotAccount(
+        { balance: 500, positions: [position('BTC'), position('SOL')] } as never,
+        [order('o1', 'bot-1', 'pending'), order('o2', 'bot-1', 'filled'), order('o3', undefined, 'pending')],
+        BOT
+      );
+
+      expect(account.balance).toBe(500);
+      expect(account.positions.map(p => p.symbol)).toEqual(['BTC']);
+      expect(account.openOrders.map(o => o.id)).toEqual(['o1']);
+    });
+  });
+
+  describe('validateBotScript', () => {
+    it('should require a name, portfolio, symbols and code', () => {
+      const bot = { name: 'Dip buyer', code: 'function onPrice() {}', portfolioId: 'p1', symbols: ['BTC'] };
+
+      expect(validateBotScript(bot)).toBeNull();
+      expect(validateBotScript({ ...bot, name: ' ' })).toMatch(/name/);
+      expect(validateBotScript({ ...bot, portfolioId: '' })).toMatch(/portfolio/);
+      expect(validateBotScript({ ...bot, symbols: [] })).toMatch(/symbol/);
+      expect(validateBotScript({ ...bot, code: '' })).toMatch(/empty/);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import type { Portfolio } from '@/state/portfolioStore';
+import type { BotLogLevel, BotScript, Order, OrderSide } from '@/types/trading';
+
+// ============================================================================
+// TRADING BOTS
+// ============================================================================
+
+export const BOT_LOG_LIMIT = 200; // Entries kept per bot console
+export const BOT_ORDERS_PER_MINUTE = 30; // Stops a runaway loop from spraying orders
+export const BOT_RESPONSE_TIMEOUT_MS = 5000; // A script busy longer than this is terminated
+
+export const BOT_TEMPLATE = `// Runs on every price update for the bot's symbols
+function onPrice(prices, ctx) {
+  const price = prices.BTC;
+  if (price === undefined) return;
+
+  const position = ctx.getPosition('BTC');
+  if (!position && ctx.state.lastPrice && price < ctx.state.lastPrice * 0.995) {
+    ctx.buy('BTC', 0.01);
+  }
+  ctx.state.lastPrice = price;
+}
+
+// Runs when a candle of the bot's interval closes
+function onCandle(symbol, candle, ctx) {
+  ctx.log(symbol, 'closed at', candle.close);
+}
+
+// Runs when one of the bot's orders fills
+function onFill(fill, ctx) {
+  ctx.log('Filled', fill.side, fill.quantity, fill.symbol, '@', fill.price);
+}
+`;
+
+export interface BotCandle {
+  time: number; // Candle open, in ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface BotOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  type: 'market' | 'limit';
+  quantity: number;
+  price?: number; // Limit orders only
+}
+
+export interface BotFill {
+  orderId?: string; // Resting orders; market orders fill on the spot
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  time: number;
+}
+
+// What a script can see of its portfolio
+export interface BotAccount {
+  balance: number;
+  positions: { symbol: string; side: 'long' | 'short'; quantity: number; entryPrice: number }[];
+  openOrders: { id: string; symbol: string; side: OrderSide; quantity: number; price?: number }[];
+}
+
+// Messages the app sends to a bot worker
+export type BotHostMessage =
+  | { type: 'start'; code: string }
+  | { type: 'prices'; prices: Record<string, number>; time: number; account: BotAccount }
+  | { type: 'candle'; symbol: string; candle: BotCandle; account: BotAccount }
+  | { type: 'fill'; fill: BotFill; account: BotAccount };
+
+// Messages a bot worker may send back; anything else is ignored
+export type BotWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'idle' } // Finished handling the last event
+  | { type: 'order'; order: BotOrderRequest }
+  | { type: 'cancel'; symbol?: string }
+  | { type: 'log'; level: BotLogLevel; message: string }
+  | { type: 'error'; message: string; fatal?: boolean };
+
+/**
+ * Fold a price into the candle forming for its interval. Returns the candle
+ * now forming and, when the price opened a new period, the one that closed.
+ */
+export function updateLiveCandle(
+  current: BotCandle | undefined,
+  price: number,
+  time: number,
+  intervalMs: number
+): { candle: BotCandle; closed?: BotCandle } {
+  const start = Math.floor(time / intervalMs) * intervalMs;
+
+  if (!current || start > current.time) {
+    return {
+      candle: { time: start, open: price, high: price, low: price, close: price },
+      closed: current,
+    };
+  }
+
+  return {
+    candle: {
+      ...current,
+      high: Math.max(current.high, price),
+      low: Math.min(current.low, price),
+      close: price,
+    },
+  };
+}
+
+/**
+ * The slice of a portfolio a bot is shown: its cash, its positions in the
+ * bot's symbols and the bot's own resting orders
+ */
+export function getBotAccount(
+  portfolio: Pick<Portfolio, 'balance' | 'positions'> | null,
+  orders: Order[],
+  bot: Pick<BotScript, 'id' | 'symbols'>
+): BotAccount {
+  return {
+    balance: portfolio?.balance ?? 0,
+    positions: (portfolio?.positions ?? [])
+      .filter(p => bot.symbols.includes(p.symbol))
+      .map(p => ({ symbol: p.symbol, side: p.type, quantity: p.quantity, entryPrice: p.entryPrice })),
+    openOrders: orders
+      .filter(o => o.botId === bot.id && o.status === 'pending')
+      .map(o => ({ id: o.id, symbol: o.symbol, side: o.side, quantity: o.quantity, price: o.price })),
+  };
+}
+
+/**
+ * Check an order a script sent before it reaches the portfolio
+ */
+export function validateBotOrder(order: BotOrderRequest, bot: Pick<BotScript, 'symbols'>): string | null {
+  if (order.type !== 'market' && order.type !== 'limit') return 'Bots can place market and limit orders only';
+  if (!bot.symbols.includes(order.symbol)) return `${order.symbol} is not one of this bot's symbols`;
+  if (order.side !== 'buy' && order.side !== 'sell') return 'Order side must be buy or sell';
+  if (!Number.isFinite(order.quantity) || order.quantity <= 0) return 'Order quantity must be greater than zero';
+  if (order.type === 'limit' && !(Number.isFinite(order.price) && (order.price ?? 0) > 0)) {
+    return 'Limit orders need a price greater than zero';
+  }
+  return null;
+}
+
+/**
+ * Whether a bot has used up its orders for the trailing minute
+ */
+export function isBotRateLimited(orderTimes: number[], now: number): boolean {
+  return orderTimes.filter(time => time > now - 60 * 1000).length >= BOT_ORDERS_PER_MINUTE;
+}
+
+/**
+ * Validate a bot before saving it
+ */
+export function validateBotScript(bot: Pick<BotScript, 'name' | 'code' | 'portfolioId' | 'symbols'>): string | null {
+  if (!bot.name.trim()) return 'Give the bot a name';
+  if (!bot.portfolioId) return 'Choose a portfolio for the bot to trade';
+  if (bot.symbols.length === 0) return 'Choose at least one symbol';
+  if (!bot.code.trim()) return 'The script is empty';
+  return null;
+}
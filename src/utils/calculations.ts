@@ -5,6 +5,7 @@ import {
   OrderSide, 
   DEFAULT_TRADING_FEE_PERCENT 
 } from '@/types/trading';
+import { getCurrentTime } from '@/utils/clock';
 
 // ============================================================================
 // P&L CALCULATIONS
@@ -74,6 +75,31 @@ export function calculateBreakEvenPrice(
   return entryPrice * feeMultiplier;
 }
 
+// ============================================================================
+// MARGIN CALCULATIONS
+// ============================================================================
+
+/**
+ * Calculate initial margin required to hold a notional at the given leverage
+ */
+export function calculateInitialMargin(notional: number, leverage: number): number {
+  return Math.abs(notional) / Math.max(1, leverage);
+}
+
+/**
+ * Calculate maintenance margin for a notional
+ */
+export function calculateMaintenanceMargin(notional: number, maintenanceMarginRate: number): number {
+  return Math.abs(notional) * maintenanceMarginRate;
+}
+
+/**
+ * Maintenance margin rate for an asset: half the initial margin at max leverage
+ */
+export function calculateMaintenanceMarginRate(maxLeverage: number): number {
+  return maxLeverage > 0 ? 1 / (2 * maxLeverage) : 0;
+}
+
 // ============================================================================
 // PORTFOLIO METRICS
 // ============================================================================
@@ -200,7 +226,7 @@ export function calculateDailyPnL(
   transactions: Transaction[],
   timeframe: number = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
 ): number {
-  const cutoffTime = Date.now() - timeframe;
+  const cutoffTime = getCurrentTime() - timeframe;
   const recentTransactions = transactions.filter(tx => tx.timestamp >= cutoffTime);
   
   return recentTransactions.reduce((total, tx) => {
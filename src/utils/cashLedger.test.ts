@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { getNetContributions, getNetDeposits, getNetTransfers, validateCashFlow, validateTransfer } from './cashLedger';
+import type { CashFlow, Portfolio, Transfer } from '@/state/portfolioStore';
+import { ZERO_FEE_SCHEDULE } from '@/types/trading';
+import { createTestPortfolio, createTestPosition } from '@/test/fixtures';
+
+const createFlow = (overrides: Partial<CashFlow> = {}): CashFlow => ({
+  id: 'cash-1',
+  portfolioId: 'portfolio-1',
+  type: 'deposit',
+  amount: 1000,
+  balanceAfter: 11000,
+  timestamp: 1000,
+  ...overrides,
+});
+
+const createTransfer = (overrides: Partial<Transfer> = {}): Transfer => ({
+  id: 'transfer-1',
+  transferId: 'pair-1',
+  portfolioId: 'portfolio-1',
+  counterpartyId: 'portfolio-2',
+  counterpartyName: 'Other',
+  direction: 'in',
+  kind: 'cash',
+  amount: 1000,
+  timestamp: 1000,
+  ...overrides,
+});
+
+const createPortfolio = (id: string, symbols: string[] = []): Portfolio =>
+  createTestPortfolio({
+    id,
+    name: id,
+    balance: 1000,
+    initialBalance: 1000,
+    positions: symbols.map(symbol => createTestPosition({ id: `${id}-${symbol}`, symbol, entryPrice: 100, margin: 100 })),
+    feeSchedule: ZERO_FEE_SCHEDULE,
+  });
+
+describe('cashLedger', () => {
+  describe('getNetDeposits', () => {
+    it('adds deposits and subtracts withdrawals', () => {
+      const flows = [
+        createFlow({ amount: 5000 }),
+        createFlow({ id: 'cash-2', type: 'withdrawal', amount: 1500 }),
+      ];
+      expect(getNetDeposits(flows)).toBe(3500);
+    });
+
+    it('only counts entries up to the given time', () => {
+      const flows = [
+        createFlow({ amount: 5000, timestamp: 1000 }),
+        createFlow({ id: 'cash-2', amount: 2000, timestamp: 3000 }),
+      ];
+      expect(getNetDeposits(flows, 2000)).toBe(5000);
+    });
+  });
+
+  describe('getNetContributions', () => {
+    it('adds net deposits to the starting capital', () => {
+      const portfolio = {
+        initialBalance: 10000,
+        cashFlows: [createFlow({ amount: 2000 }), createFlow({ id: 'cash-2', type: 'withdrawal', amount: 500 })],
+      };
+      expect(getNetContributions(portfolio)).toBe(11500);
+    });
+
+    it('is the starting capital when nothing has moved', () => {
+      expect(getNetContributions({ initialBalance: 10000, cashFlows: [] })).toBe(10000);
+    });
+
+    it('counts transfers between portfolios', () => {
+      const portfolio = {
+        initialBalance: 10000,
+        cashFlows: [],
+        transfers: [createTransfer({ amount: 3000 }), createTransfer({ id: 'transfer-2', direction: 'out', amount: 1000 })],
+      };
+      expect(getNetTransfers(portfolio.transfers)).toBe(2000);
+      expect(getNetContributions(portfolio)).toBe(12000);
+    });
+  });
+
+  describe('validateTransfer', () => {
+    it('needs a different destination', () => {
+      const from = createPortfolio('a');
+      expect(validateTransfer(from, undefined, { kind: 'cash', amount: 100 })).toMatch(/choose a portfolio/);
+      expect(validateTransfer(from, from, { kind: 'cash', amount: 100 })).toMatch(/different portfolio/);
+    });
+
+    it('limits cash to the free balance', () => {
+      expect(validateTransfer(createPortfolio('a'), createPortfolio('b'), { kind: 'cash', amount: 1500 }))
+        .toMatch(/Insufficient cash/);
+    });
+
+    it('refuses positions the destination already holds', () => {
+      const from = createPortfolio('a', ['BTC']);
+      expect(validateTransfer(from, createPortfolio('b'), { kind: 'position', symbol: 'BTC' })).toBeNull();
+      expect(validateTransfer(from, createPortfolio('b', ['BTC']), { kind: 'position', symbol: 'BTC' }))
+        .toMatch(/already holds BTC/);
+      expect(validateTransfer(from, createPortfolio('b'), { kind: 'position', symbol: 'ETH' })).toMatch(/No ETH/);
+    });
+  });
+
+  describe('validateCashFlow', () => {
+    it('rejects non-positive amounts', () => {
+      expect(validateCashFlow('deposit', 0, 1000)).toMatch(/greater than zero/);
+      expect(validateCashFlow('deposit', NaN, 1000)).toMatch(/greater than zero/);
+    });
+
+    it('rejects withdrawals beyond available cash', () => {
+      expect(validateCashFlow('withdrawal', 1500, 1000)).toMatch(/Insufficient cash/);
+      expect(validateCashFlow('withdrawal', 1000, 1000)).toBeNull();
+    });
+
+    it('allows any positive deposit', () => {
+      expect(validateCashFlow('deposit', 1e6, 0)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { CashFlow, Portfolio, Transfer } from '@/state/portfolioStore';
+import { formatCurrency } from '@/utils/calculations';
+
+// ============================================================================
+// CASH LEDGER
+// ============================================================================
+
+/**
+ * Signed effect of a ledger entry on cash: deposits add, withdrawals subtract
+ */
+export function getSignedCashFlow(flow: CashFlow): number {
+  return flow.type === 'deposit' ? flow.amount : -flow.amount;
+}
+
+/**
+ * Deposits less withdrawals, optionally only those up to a time
+ */
+export function getNetDeposits(cashFlows: CashFlow[], until?: number): number {
+  return cashFlows
+    .filter(flow => until === undefined || flow.timestamp <= until)
+    .reduce((total, flow) => total + getSignedCashFlow(flow), 0);
+}
+
+/**
+ * Capital moved in from other portfolios less capital moved out. Positions
+ * count at their posted margin, so gains they carry across stay unrealized.
+ */
+export function getNetTransfers(transfers: Transfer[]): number {
+  return transfers.reduce(
+    (total, transfer) => total + (transfer.direction === 'in' ? transfer.amount : -transfer.amount),
+    0
+  );
+}
+
+/**
+ * Capital the trader has put in: starting balance plus net deposits and transfers.
+ * Returns are measured against this so moving cash in or out isn't profit.
+ */
+export function getNetContributions(
+  portfolio: Pick<Portfolio, 'initialBalance' | 'cashFlows'> & Partial<Pick<Portfolio, 'transfers'>>
+): number {
+  return portfolio.initialBalance +
+    getNetDeposits(portfolio.cashFlows ?? []) +
+    getNetTransfers(portfolio.transfers ?? []);
+}
+
+/**
+ * Validate a deposit or withdrawal amount; withdrawals can't exceed free cash
+ */
+export function validateCashFlow(
+  type: CashFlow['type'],
+  amount: number,
+  availableCash: number
+): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) return 'Please enter an amount greater than zero';
+  if (type === 'withdrawal' && amount > availableCash) {
+    return `Insufficient cash. Available: ${formatCurrency(availableCash)}`;
+  }
+  return null;
+}
+
+// ============================================================================
+// TRANSFERS
+// ============================================================================
+
+/**
+ * Validate moving cash or a position from one portfolio to another
+ */
+export function validateTransfer(
+  from: Portfolio,
+  to: Portfolio | undefined,
+  asset: { kind: 'cash'; amount: number } | { kind: 'position'; symbol: string }
+): string | null {
+  if (!to) return 'Please choose a portfolio to transfer to';
+  if (to.id === from.id) return 'Choose a different portfolio to transfer to';
+
+  if (asset.kind === 'cash') return validateCashFlow('withdrawal', asset.amount, from.balance);
+
+  if (!from.positions.some(p => p.symbol === asset.symbol)) return `No ${asset.symbol} position to transfer`;
+  if (to.positions.some(p => p.symbol === asset.symbol)) {
+    return `${to.name} already holds ${asset.symbol}. Close it before transferring`;
+  }
+  return null;
+}
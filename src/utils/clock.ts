@@ -0,0 +1,28 @@
+// ============================================================================
+// CLOCK
+// ============================================================================
+
+// Set while market replay drives the app; null follows the wall clock
+let simulatedTime: number | null = null;
+
+/**
+ * The app's current time. Everything that stamps or schedules trading
+ * activity reads this instead of Date.now() so replay can move it.
+ */
+export function getCurrentTime(): number {
+  return simulatedTime ?? Date.now();
+}
+
+/**
+ * Run the app on a simulated time, or pass null to return to the wall clock
+ */
+export function setSimulatedTime(time: number | null): void {
+  simulatedTime = time;
+}
+
+/**
+ * Whether the clock is simulated rather than following the wall clock
+ */
+export function isSimulatedClock(): boolean {
+  return simulatedTime !== null;
+}
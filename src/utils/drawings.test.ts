@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getFibonacciLevels,
+  hitTestShape,
+  logicalToTime,
+  moveDrawingPoints,
+  timeToLogical,
+  validateDrawingText,
+} from './drawings';
+
+const hour = 3600;
+const times = [0, hour, 2 * hour, 3 * hour];
+
+describe('Chart drawings', () => {
+  describe('timeToLogical', () => {
+    it('should place times between candles at fractional bars', () => {
+      expect(timeToLogical(times, hour)).toBe(1);
+      expect(timeToLogical(times, 1.5 * hour)).toBe(1.5);
+    });
+
+    it('should extrapolate outside the candles', () => {
+      expect(timeToLogical(times, -hour)).toBe(-1);
+      expect(timeToLogical(times, 5 * hour)).toBe(5);
+    });
+
+    it('should keep a drawing at the same time when the interval changes', () => {
+      const fourHourly = [0, 4 * hour, 8 * hour];
+      expect(timeToLogical(fourHourly, 2 * hour)).toBe(0.5);
+      expect(logicalToTime(fourHourly, 0.5)).toBe(2 * hour);
+    });
+
+    it('should need at least two candles', () => {
+      expect(timeToLogical([0], 0)).toBeNull();
+      expect(logicalToTime([0], 0)).toBeNull();
+    });
+  });
+
+  describe('logicalToTime', () => {
+    it('should invert timeToLogical', () => {
+      [-2, 0, 0.25, 2.5, 3, 7].forEach(logical => {
+        expect(timeToLogical(times, logicalToTime(times, logical)!)).toBeCloseTo(logical);
+      });
+    });
+  });
+
+  describe('moveDrawingPoints', () => {
+    it('should shift every point by bars and price', () => {
+      const moved = moveDrawingPoints([{ time: 0, price: 100 }, { time: 2 * hour, price: 110 }], times, 1, -5);
+      expect(moved).toEqual([{ time: hour, price: 95 }, { time: 3 * hour, price: 105 }]);
+    });
+  });
+
+  describe('getFibonacciLevels', () => {
+    it('should retrace from the end of the move towards its start', () => {
+      const levels = getFibonacciLevels({ time: 0, price: 100 }, { time: hour, price: 200 });
+      expect(levels[0]).toEqual({ ratio: 0, price: 200 });
+      expect(levels.find(l => l.ratio === 0.5)?.price).toBe(150);
+      expect(levels[levels.length - 1]).toEqual({ ratio: 1, price: 100 });
+    });
+  });
+
+  describe('hitTestShape', () => {
+    it('should hit near a trendline but not past its ends', () => {
+      const shape = { type: 'trendline' as const, points: [{ x: 0, y: 0 }, { x: 100, y: 100 }] };
+      expect(hitTestShape(shape, 50, 53)).toBe(true);
+      expect(hitTestShape(shape, 50, 70)).toBe(false);
+      expect(hitTestShape(shape, 120, 120)).toBe(false);
+    });
+
+    it('should hit a horizontal level anywhere along it', () => {
+      const shape = { type: 'horizontal' as const, points: [{ x: 0, y: 40 }] };
+      expect(hitTestShape(shape, 500, 44)).toBe(true);
+      expect(hitTestShape(shape, 500, 50)).toBe(false);
+    });
+
+    it('should hit inside a rectangle', () => {
+      const shape = { type: 'rectangle' as const, points: [{ x: 100, y: 100 }, { x: 0, y: 0 }] };
+      expect(hitTestShape(shape, 50, 50)).toBe(true);
+      expect(hitTestShape(shape, 150, 50)).toBe(false);
+    });
+
+    it('should hit Fibonacci levels but not the gaps between them', () => {
+      const shape = { type: 'fibonacci' as const, points: [{ x: 0, y: 0 }, { x: 100, y: 100 }], levels: [0, 50, 100] };
+      expect(hitTestShape(shape, 50, 52)).toBe(true);
+      expect(hitTestShape(shape, 50, 25)).toBe(false);
+    });
+
+    it('should hit the text of a note', () => {
+      const shape = { type: 'text' as const, points: [{ x: 10, y: 10 }], width: 40 };
+      expect(hitTestShape(shape, 45, 12)).toBe(true);
+      expect(hitTestShape(shape, 70, 12)).toBe(false);
+    });
+  });
+
+  describe('validateDrawingText', () => {
+    it('should require a short, non-empty note', () => {
+      expect(validateDrawingText('Support')).toBeNull();
+      expect(validateDrawingText('  ')).not.toBeNull();
+      expect(validateDrawingText('x'.repeat(81))).not.toBeNull();
+    });
+  });
+});
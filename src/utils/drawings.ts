@@ -0,0 +1,138 @@
+import type { ChartDrawingPoint, ChartDrawingType } from '@/types/trading';
+
+// ============================================================================
+// CHART DRAWINGS
+// ============================================================================
+
+export const DRAWING_TOOLS: Record<ChartDrawingType, { label: string; points: 1 | 2 }> = {
+  trendline: { label: 'Trendline', points: 2 },
+  horizontal: { label: 'Horizontal level', points: 1 },
+  rectangle: { label: 'Rectangle', points: 2 },
+  fibonacci: { label: 'Fibonacci retracement', points: 2 },
+  text: { label: 'Text note', points: 1 },
+};
+
+export const FIBONACCI_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+export const DEFAULT_DRAWING_COLOR = '#3b82f6';
+export const DRAWING_HIT_TOLERANCE = 6; // Pixels
+export const MAX_NOTE_LENGTH = 80;
+
+/**
+ * Retracement levels from the end of a move back towards its start
+ */
+export function getFibonacciLevels(start: ChartDrawingPoint, end: ChartDrawingPoint): { ratio: number; price: number }[] {
+  return FIBONACCI_RATIOS.map(ratio => ({ ratio, price: end.price - (end.price - start.price) * ratio }));
+}
+
+// Drawings keep absolute times so they stay put when the interval changes.
+// Times between candles map to fractional bar positions, and times outside
+// the data extrapolate from the spacing of the nearest two candles.
+
+/**
+ * Bar position of a time among ascending candle times
+ */
+export function timeToLogical(times: number[], time: number): number | null {
+  if (times.length < 2) return null;
+  const last = times.length - 1;
+
+  if (time <= times[0]) return (time - times[0]) / (times[1] - times[0]);
+  if (time >= times[last]) return last + (time - times[last]) / (times[last] - times[last - 1]);
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) low = mid;
+    else high = mid;
+  }
+  return low + (time - times[low]) / (times[low + 1] - times[low]);
+}
+
+/**
+ * Time at a bar position, the inverse of timeToLogical
+ */
+export function logicalToTime(times: number[], logical: number): number | null {
+  if (times.length < 2) return null;
+  const last = times.length - 1;
+
+  if (logical <= 0) return Math.round(times[0] + logical * (times[1] - times[0]));
+  if (logical >= last) return Math.round(times[last] + (logical - last) * (times[last] - times[last - 1]));
+
+  const index = Math.floor(logical);
+  return Math.round(times[index] + (logical - index) * (times[index + 1] - times[index]));
+}
+
+/**
+ * Shift drawing points by a number of bars and a price difference
+ */
+export function moveDrawingPoints(
+  points: ChartDrawingPoint[],
+  times: number[],
+  logicalOffset: number,
+  priceOffset: number
+): ChartDrawingPoint[] {
+  return points.map(point => {
+    const logical = timeToLogical(times, point.time);
+    const time = logical === null ? null : logicalToTime(times, logical + logicalOffset);
+    return { time: time ?? point.time, price: point.price + priceOffset };
+  });
+}
+
+// ============================================================================
+// HIT TESTING
+// ============================================================================
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface DrawingShape {
+  type: ChartDrawingType;
+  points: PixelPoint[];
+  levels?: number[]; // Y of each Fibonacci level
+  width?: number; // Width of a note's text
+}
+
+export function distanceToSegment(p: PixelPoint, a: PixelPoint, b: PixelPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Whether a pixel falls on a drawing, within a tolerance
+ */
+export function hitTestShape(shape: DrawingShape, x: number, y: number, tolerance: number = DRAWING_HIT_TOLERANCE): boolean {
+  const [a, b] = shape.points;
+  if (!a) return false;
+
+  switch (shape.type) {
+    case 'horizontal':
+      return Math.abs(y - a.y) <= tolerance;
+    case 'text':
+      return x >= a.x - tolerance && x <= a.x + (shape.width ?? 0) + tolerance && Math.abs(y - a.y) <= 8 + tolerance;
+    case 'trendline':
+      return !!b && distanceToSegment({ x, y }, a, b) <= tolerance;
+    case 'rectangle':
+      return !!b
+        && x >= Math.min(a.x, b.x) - tolerance && x <= Math.max(a.x, b.x) + tolerance
+        && y >= Math.min(a.y, b.y) - tolerance && y <= Math.max(a.y, b.y) + tolerance;
+    case 'fibonacci':
+      return !!b
+        && x >= Math.min(a.x, b.x) - tolerance && x <= Math.max(a.x, b.x) + tolerance
+        && (shape.levels ?? []).some(level => Math.abs(y - level) <= tolerance);
+  }
+}
+
+/**
+ * Validate the contents of a text note
+ */
+export function validateDrawingText(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) return 'Write something for the note';
+  if (trimmed.length > MAX_NOTE_LENGTH) return `Notes can be at most ${MAX_NOTE_LENGTH} characters`;
+  return null;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getBookMid, simulateMarketFill } from './execution';
+import { checkSlippage } from './calculations';
+import type { OrderBook } from '@/types/trading';
+
+const book: OrderBook = {
+  symbol: 'BTC',
+  bids: [
+    { price: 49990, size: 1, orders: 3 },
+    { price: 49900, size: 2, orders: 5 },
+  ],
+  asks: [
+    { price: 50010, size: 1, orders: 2 },
+    { price: 50100, size: 2, orders: 4 },
+  ],
+  timestamp: 0,
+};
+
+describe('Execution Simulation', () => {
+  it('should measure from the mid of the best bid and ask', () => {
+    expect(getBookMid(book)).toBe(50000);
+    expect(getBookMid({ ...book, asks: [] })).toBeNull();
+  });
+
+  it('should fill small orders at the touch', () => {
+    const buy = simulateMarketFill(book, 'buy', 0.5)!;
+    const sell = simulateMarketFill(book, 'sell', 0.5)!;
+
+    expect(buy.averagePrice).toBe(50010);
+    expect(sell.averagePrice).toBe(49990);
+    expect(buy.levelsConsumed).toBe(1);
+  });
+
+  it('should walk the book and volume-weight larger orders', () => {
+    const fill = simulateMarketFill(book, 'buy', 2)!;
+
+    expect(fill.averagePrice).toBe(50055); // (50010 + 50100) / 2
+    expect(fill.worstPrice).toBe(50100);
+    expect(fill.isComplete).toBe(true);
+    expect(checkSlippage(fill.midPrice, fill.averagePrice, 0.1).slippagePercent).toBeCloseTo(0.11);
+  });
+
+  it('should report partial fills when the book runs out', () => {
+    const fill = simulateMarketFill(book, 'sell', 5)!;
+
+    expect(fill.isComplete).toBe(false);
+    expect(fill.filledQuantity).toBe(3);
+  });
+
+  it('should stop at the limit price', () => {
+    const fill = simulateMarketFill(book, 'buy', 3, 50050)!;
+
+    expect(fill.filledQuantity).toBe(1);
+    expect(fill.isComplete).toBe(false);
+    expect(simulateMarketFill(book, 'sell', 1, 50000)).toBeNull();
+  });
+
+  it('should not fill against an empty side', () => {
+    expect(simulateMarketFill({ ...book, bids: [] }, 'sell', 1)).toBeNull();
+    expect(simulateMarketFill(book, 'buy', 0)).toBeNull();
+  });
+});
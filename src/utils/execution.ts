@@ -0,0 +1,74 @@
+import type { BookLevel, OrderBook, OrderSide } from '@/types/trading';
+
+// ============================================================================
+// EXECUTION SIMULATION
+// ============================================================================
+
+export interface SimulatedFill {
+  averagePrice: number; // Volume-weighted across the levels consumed
+  worstPrice: number; // Deepest level touched
+  midPrice: number; // Reference the slippage is measured from
+  filledQuantity: number;
+  levelsConsumed: number;
+  isComplete: boolean; // False when the book ran out before the order did
+}
+
+/**
+ * Mid between the best bid and ask, or null when either side is empty
+ */
+export function getBookMid(book: OrderBook): number | null {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (!bestBid || !bestAsk) return null;
+  return (bestBid + bestAsk) / 2;
+}
+
+/**
+ * What a fill cost against the mid: positive when it paid up, negative when it did better
+ */
+export function getSlippageCost(side: OrderSide, quantity: number, price: number, midPrice: number): number {
+  return (side === 'buy' ? price - midPrice : midPrice - price) * quantity;
+}
+
+/**
+ * Simulate a market order walking the book: buys lift asks, sells hit bids.
+ * With a limit price, levels beyond it are left alone, as for an IOC or FOK
+ * limit order. Returns null when there's nothing to trade against.
+ */
+export function simulateMarketFill(
+  book: OrderBook,
+  side: OrderSide,
+  quantity: number,
+  limitPrice?: number
+): SimulatedFill | null {
+  const levels: BookLevel[] = (side === 'buy' ? book.asks : book.bids).filter(level =>
+    limitPrice === undefined || (side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice));
+  const midPrice = getBookMid(book);
+  if (quantity <= 0 || levels.length === 0 || midPrice === null) return null;
+
+  let remaining = quantity;
+  let notional = 0;
+  let worstPrice = levels[0].price;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(remaining, level.size);
+    notional += take * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+    levelsConsumed++;
+  }
+
+  const filledQuantity = quantity - Math.max(0, remaining);
+
+  return {
+    averagePrice: notional / filledQuantity,
+    worstPrice,
+    midPrice,
+    filledQuantity,
+    levelsConsumed,
+    isComplete: remaining <= 0,
+  };
+}
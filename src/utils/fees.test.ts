@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRollingVolume,
+  getFeeTier,
+  getFeeRate,
+  calculateTradeFee,
+  getTotalFees,
+} from './fees';
+import type { Portfolio, Transaction } from '@/state/portfolioStore';
+import { HYPERLIQUID_FEE_SCHEDULE } from '@/types/trading';
+import { createTestPortfolio } from '@/test/fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const createTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx-1',
+  symbol: 'BTC',
+  type: 'buy',
+  quantity: 100,
+  price: 50000,
+  timestamp: NOW - DAY_MS,
+  portfolioId: 'portfolio-1',
+  fee: 0,
+  liquidity: 'taker',
+  ...overrides,
+});
+
+const createPortfolio = (transactions: Transaction[]): Portfolio =>
+  createTestPortfolio({ transactions, feeSchedule: HYPERLIQUID_FEE_SCHEDULE });
+
+describe('Fees', () => {
+  it('should only count volume inside the trailing window', () => {
+    const transactions = [
+      createTransaction(),
+      createTransaction({ id: 'tx-2', timestamp: NOW - 20 * DAY_MS }),
+    ];
+
+    expect(getRollingVolume(transactions, 14, NOW)).toBe(5000000);
+  });
+
+  it('should pick the highest tier reached', () => {
+    expect(getFeeTier(HYPERLIQUID_FEE_SCHEDULE, 0).takerRate).toBe(0.00045);
+    expect(getFeeTier(HYPERLIQUID_FEE_SCHEDULE, 5000000).takerRate).toBe(0.0004);
+    expect(getFeeTier(HYPERLIQUID_FEE_SCHEDULE, 30000000).makerRate).toBe(0.00008);
+  });
+
+  it('should charge maker and taker rates separately', () => {
+    const tier = HYPERLIQUID_FEE_SCHEDULE.tiers[0];
+    expect(getFeeRate(tier, 'maker')).toBe(0.00015);
+    expect(getFeeRate(tier, 'taker')).toBe(0.00045);
+  });
+
+  it('should price fills at the portfolio tier', () => {
+    const portfolio = createPortfolio([createTransaction()]);
+    const { fee, rate } = calculateTradeFee(portfolio, 100000, 'taker', NOW);
+
+    expect(rate).toBe(0.0004);
+    expect(fee).toBeCloseTo(40);
+  });
+
+  it('should total recorded fees', () => {
+    expect(getTotalFees([createTransaction({ fee: 10 }), createTransaction({ fee: 2.5 })])).toBe(12.5);
+  });
+});
@@ -0,0 +1,85 @@
+import { calculateBreakEvenPrice } from '@/utils/calculations';
+import { getCurrentTime } from '@/utils/clock';
+import type { Portfolio, Position, Transaction } from '@/state/portfolioStore';
+import type { FeeLiquidity, FeeSchedule, FeeTier } from '@/types/trading';
+
+// ============================================================================
+// FEE SCHEDULE
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TradeFee {
+  fee: number;
+  rate: number;
+  tier: FeeTier;
+}
+
+/**
+ * Traded notional over the schedule's trailing window
+ */
+export function getRollingVolume(
+  transactions: Transaction[],
+  volumeWindowDays: number,
+  now: number = getCurrentTime()
+): number {
+  const since = now - volumeWindowDays * DAY_MS;
+  return transactions
+    .filter(tx => tx.timestamp >= since)
+    .reduce((total, tx) => total + tx.quantity * tx.price, 0);
+}
+
+/**
+ * Highest tier whose volume threshold has been reached
+ */
+export function getFeeTier(schedule: FeeSchedule, volume: number): FeeTier {
+  return schedule.tiers.reduce(
+    (current, tier) => (volume >= tier.minVolume ? tier : current),
+    schedule.tiers[0]
+  );
+}
+
+/**
+ * Fee rate charged for a liquidity side of a tier
+ */
+export function getFeeRate(tier: FeeTier, liquidity: FeeLiquidity): number {
+  return liquidity === 'maker' ? tier.makerRate : tier.takerRate;
+}
+
+/**
+ * Tier a portfolio currently trades at, from its own recent volume
+ */
+export function getPortfolioFeeTier(portfolio: Portfolio, now: number = getCurrentTime()): FeeTier {
+  const { feeSchedule } = portfolio;
+  return getFeeTier(feeSchedule, getRollingVolume(portfolio.transactions, feeSchedule.volumeWindowDays, now));
+}
+
+/**
+ * Fee for a fill of the given notional on a portfolio's schedule
+ */
+export function calculateTradeFee(
+  portfolio: Portfolio,
+  notional: number,
+  liquidity: FeeLiquidity,
+  now: number = getCurrentTime()
+): TradeFee {
+  const tier = getPortfolioFeeTier(portfolio, now);
+  const rate = getFeeRate(tier, liquidity);
+  return { fee: notional * rate, rate, tier };
+}
+
+/**
+ * Break-even of a position after paying the portfolio's taker fee to open
+ * and to close
+ */
+export function getPositionBreakEven(position: Position, portfolio: Portfolio): number {
+  const feeRate = getFeeRate(getPortfolioFeeTier(portfolio), 'taker');
+  return calculateBreakEvenPrice(position.entryPrice, position.type === 'long' ? 'buy' : 'sell', feeRate);
+}
+
+/**
+ * Total fees paid across a set of transactions
+ */
+export function getTotalFees(transactions: Transaction[]): number {
+  return transactions.reduce((total, tx) => total + tx.fee, 0);
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { findFillAt, getChartFills, FILL_MARKER_SIZE } from './fills';
+import type { Transaction } from '@/state/portfolioStore';
+
+const createTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx-1',
+  symbol: 'BTC',
+  type: 'buy',
+  quantity: 0.5,
+  price: 50000,
+  timestamp: 1_700_000_000_500,
+  portfolioId: 'portfolio-1',
+  fee: 12.5,
+  liquidity: 'taker',
+  ...overrides,
+});
+
+describe('Chart fills', () => {
+  describe('getChartFills', () => {
+    it("should keep the symbol's fills, oldest first, with times in seconds", () => {
+      const fills = getChartFills([
+        createTransaction({ id: 'close', type: 'sell', timestamp: 1_700_003_600_000, realizedPnL: 250 }),
+        createTransaction({ id: 'eth', symbol: 'ETH' }),
+        createTransaction({ id: 'open' }),
+      ], 'BTC');
+
+      expect(fills.map(f => f.id)).toEqual(['open', 'close']);
+      expect(fills[0].time).toBe(1_700_000_000.5);
+      expect(fills[0].realizedPnL).toBeUndefined();
+      expect(fills[1]).toMatchObject({ side: 'sell', realizedPnL: 250, liquidation: false });
+    });
+
+    it('should flag liquidations', () => {
+      const [fill] = getChartFills([createTransaction({ liquidation: { penalty: 10 } })], 'BTC');
+      expect(fill.liquidation).toBe(true);
+    });
+  });
+
+  describe('findFillAt', () => {
+    const [buy, sell] = getChartFills([
+      createTransaction({ id: 'buy' }),
+      createTransaction({ id: 'sell', type: 'sell', timestamp: 1_700_003_600_000 }),
+    ], 'BTC');
+
+    it('should find buys below their price and sells above it', () => {
+      const placed = [{ fill: buy, x: 100, y: 100 }, { fill: sell, x: 200, y: 100 }];
+      expect(findFillAt(placed, 100, 100 + FILL_MARKER_SIZE / 2)?.id).toBe('buy');
+      expect(findFillAt(placed, 200, 100 - FILL_MARKER_SIZE / 2)?.id).toBe('sell');
+      expect(findFillAt(placed, 150, 100)).toBeNull();
+    });
+
+    it('should prefer the nearest marker, then the latest', () => {
+      const placed = [{ fill: buy, x: 100, y: 100 }, { fill: sell, x: 104, y: 110 }];
+      expect(findFillAt(placed, 100, 105)?.id).toBe('buy');
+      expect(findFillAt([{ fill: buy, x: 100, y: 100 }, { fill: { ...buy, id: 'later' }, x: 100, y: 100 }], 100, 105)?.id).toBe('later');
+    });
+  });
+});
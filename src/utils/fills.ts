@@ -0,0 +1,72 @@
+import type { Transaction } from '@/state/portfolioStore';
+
+// ============================================================================
+// CHART FILLS
+// ============================================================================
+
+export const FILL_MARKER_SIZE = 10; // Pixels from the tip of a marker to its base
+
+export interface ChartFill {
+  id: string;
+  side: 'buy' | 'sell';
+  time: number; // Seconds, to match the chart's candles
+  timestamp: number; // Milliseconds, as the transaction recorded it
+  price: number;
+  quantity: number;
+  fee: number;
+  realizedPnL?: number; // Gross P&L on the lots the fill closed
+  liquidation: boolean;
+}
+
+export interface PlacedFill {
+  fill: ChartFill;
+  x: number;
+  y: number; // The fill price; markers point at it
+}
+
+/**
+ * A symbol's fills, oldest first, ready to mark on its chart
+ */
+export function getChartFills(transactions: Transaction[], symbol: string): ChartFill[] {
+  return transactions
+    .filter(transaction => transaction.symbol === symbol)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(transaction => ({
+      id: transaction.id,
+      side: transaction.type,
+      time: transaction.timestamp / 1000,
+      timestamp: transaction.timestamp,
+      price: transaction.price,
+      quantity: transaction.quantity,
+      fee: transaction.fee,
+      realizedPnL: transaction.realizedPnL,
+      liquidation: !!transaction.liquidation,
+    }));
+}
+
+/**
+ * Middle of a fill's marker: buys sit below their price, sells above it
+ */
+export function getFillMarkerCenter({ fill, x, y }: PlacedFill): { x: number; y: number } {
+  const offset = FILL_MARKER_SIZE / 2;
+  return { x, y: fill.side === 'buy' ? y + offset : y - offset };
+}
+
+/**
+ * The fill whose marker is nearest a pixel, if any is close enough. Later
+ * fills win ties, as their markers are drawn on top.
+ */
+export function findFillAt(placed: PlacedFill[], x: number, y: number, radius: number = FILL_MARKER_SIZE): ChartFill | null {
+  let nearest: ChartFill | null = null;
+  let nearestDistance = radius;
+
+  for (const marker of placed) {
+    const center = getFillMarkerCenter(marker);
+    const distance = Math.hypot(center.x - x, center.y - y);
+    if (distance <= nearestDistance) {
+      nearest = marker.fill;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
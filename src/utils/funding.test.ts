@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FUNDING_INTERVAL_MS,
+  getFundingHour,
+  isFundingDue,
+  calculateFundingPayment,
+  getFundingDueSince,
+  getFundingPayments,
+  getHourlyPrices,
+} from './funding';
+import type { Portfolio, Position } from '@/state/portfolioStore';
+import { createTestPortfolio, createTestPosition } from '@/test/fixtures';
+
+const HOUR = FUNDING_INTERVAL_MS;
+
+const createPosition = (overrides: Partial<Position> = {}): Position =>
+  createTestPosition({
+    quantity: 2,
+    entryTime: 10 * HOUR + 1000,
+    margin: 100000,
+    lastFundingTime: 10 * HOUR + 1000,
+    ...overrides,
+  });
+
+const createPortfolio = (positions: Position[]): Portfolio =>
+  createTestPortfolio({ balance: 0, positions });
+
+describe('Funding', () => {
+  it('should settle once an hour mark passes after entry', () => {
+    const position = createPosition();
+
+    expect(getFundingHour(10 * HOUR + 5000)).toBe(10 * HOUR);
+    expect(isFundingDue(position, 10 * HOUR + 5000)).toBe(false);
+    expect(isFundingDue(position, 11 * HOUR)).toBe(true);
+  });
+
+  it('should charge longs and pay shorts when the rate is positive', () => {
+    expect(calculateFundingPayment(createPosition(), 0.0001, 50000)).toBeCloseTo(-10);
+    expect(calculateFundingPayment(createPosition({ type: 'short' }), 0.0001, 50000)).toBeCloseTo(10);
+  });
+
+  it('should ask for history from the oldest unsettled position per symbol', () => {
+    const portfolio = createPortfolio([
+      createPosition(),
+      createPosition({ id: 'pos-2', lastFundingTime: 9 * HOUR }),
+      createPosition({ id: 'pos-3', symbol: 'ETH', lastFundingTime: 12 * HOUR }),
+    ]);
+
+    expect(getFundingDueSince([portfolio], 12 * HOUR + 10)).toEqual({ BTC: 9 * HOUR });
+  });
+
+  it('should build one payment per settled hour after the last settlement', () => {
+    const portfolio = createPortfolio([createPosition()]);
+    const history = {
+      BTC: [
+        { coin: 'BTC', fundingRate: '0.0001', premium: '0', time: 10 * HOUR },
+        { coin: 'BTC', fundingRate: '0.0001', premium: '0', time: 11 * HOUR },
+        { coin: 'BTC', fundingRate: '-0.0002', premium: '0', time: 12 * HOUR },
+      ],
+    };
+    const rates = { BTC: { symbol: 'BTC', rate: 0, oraclePrice: 50000, markPrice: 50000 } };
+
+    const payments = getFundingPayments([portfolio], history, rates, 12 * HOUR + 10);
+    expect(payments.map(p => p.time)).toEqual([11 * HOUR, 12 * HOUR]);
+    expect(payments[0].amount).toBeCloseTo(-10);
+    expect(payments[1].amount).toBeCloseTo(20);
+  });
+
+  it('should catch up each hour on the size held and the price at that hour', () => {
+    // Doubled from 1 BTC to 2 BTC between the 11:00 and 12:00 settlements
+    const portfolio = createTestPortfolio({
+      balance: 0,
+      positions: [createPosition()],
+      transactions: [{
+        id: 'tx-1', symbol: 'BTC', type: 'buy', quantity: 1, price: 51000,
+        timestamp: 11 * HOUR + 1000, portfolioId: 'portfolio-1', fee: 0, liquidity: 'taker',
+      }],
+    });
+    const history = {
+      BTC: [
+        { coin: 'BTC', fundingRate: '0.0001', premium: '0', time: 11 * HOUR },
+        { coin: 'BTC', fundingRate: '0.0001', premium: '0', time: 12 * HOUR },
+      ],
+    };
+    const rates = { BTC: { symbol: 'BTC', rate: 0, oraclePrice: 60000, markPrice: 60000 } };
+    const hourlyPrices = {
+      BTC: getHourlyPrices([
+        { time: 11 * HOUR / 1000, open: 50000, high: 51000, low: 49000, close: 51000, volume: 1 },
+      ]),
+    };
+
+    const payments = getFundingPayments([portfolio], history, rates, 12 * HOUR + 10, hourlyPrices);
+    expect(payments.map(p => [p.quantity, p.price])).toEqual([[1, 50000], [2, 60000]]);
+    expect(payments[0].amount).toBeCloseTo(-5);
+    expect(payments[1].amount).toBeCloseTo(-12);
+  });
+});
@@ -0,0 +1,133 @@
+import type { FundingPayment, Portfolio, Position } from '@/state/portfolioStore';
+import type { FundingRate, HyperliquidFundingHistoryEntry } from '@/types/trading';
+import type { ChartDataPoint } from '@/services/chartApi';
+import { getPositionDirection } from '@/utils/margin';
+
+// ============================================================================
+// FUNDING
+// ============================================================================
+
+export const FUNDING_INTERVAL_MS = 60 * 60 * 1000; // Hyperliquid settles funding hourly
+
+/**
+ * Most recent funding hour mark at or before a time
+ */
+export function getFundingHour(time: number): number {
+  return Math.floor(time / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS;
+}
+
+/**
+ * Whether an hour mark has passed since the position last settled funding
+ */
+export function isFundingDue(position: Position, now: number): boolean {
+  return getFundingHour(now) > position.lastFundingTime;
+}
+
+/**
+ * One hour of funding on a position: longs pay shorts when the rate is positive
+ */
+export function calculateFundingPayment(
+  position: Position,
+  rate: number,
+  price: number,
+  quantity: number = position.quantity
+): number {
+  return -getPositionDirection(position) * quantity * price * rate;
+}
+
+/**
+ * Price at each hour mark, taken from the open of hourly candles
+ */
+export function getHourlyPrices(candles: ChartDataPoint[]): Record<number, number> {
+  const prices: Record<number, number> = {};
+  candles.forEach(candle => {
+    prices[candle.time * 1000] = candle.open; // Candle times are in seconds
+  });
+  return prices;
+}
+
+/**
+ * Size a position had at a past time, by unwinding the portfolio's fills in
+ * its symbol since then
+ */
+export function getPositionQuantityAt(portfolio: Portfolio, position: Position, time: number): number {
+  const filledSince = portfolio.transactions
+    .filter(tx => tx.symbol === position.symbol && tx.timestamp > time)
+    .reduce((sum, tx) => sum + (tx.type === 'buy' ? tx.quantity : -tx.quantity), 0);
+
+  return position.quantity - getPositionDirection(position) * filledSince;
+}
+
+/**
+ * Symbols with positions due funding, mapped to the earliest settlement still owed
+ */
+export function getFundingDueSince(portfolios: Portfolio[], now: number): Record<string, number> {
+  const dueSince: Record<string, number> = {};
+
+  portfolios.forEach(portfolio => {
+    portfolio.positions.forEach(position => {
+      if (!isFundingDue(position, now)) return;
+      const since = dueSince[position.symbol];
+      dueSince[position.symbol] = since === undefined
+        ? position.lastFundingTime
+        : Math.min(since, position.lastFundingTime);
+    });
+  });
+
+  return dueSince;
+}
+
+/**
+ * Build a payment for every settled funding hour a position held through
+ * since it last settled, on the size it had and the price at that hour.
+ * Hours without a known price fall back to the current oracle price, then
+ * the entry price.
+ */
+export function getFundingPayments(
+  portfolios: Portfolio[],
+  history: Record<string, HyperliquidFundingHistoryEntry[]>,
+  rates: Record<string, FundingRate>,
+  now: number,
+  hourlyPrices: Record<string, Record<number, number>> = {}
+): FundingPayment[] {
+  const payments: FundingPayment[] = [];
+
+  portfolios.forEach(portfolio => {
+    portfolio.positions.forEach(position => {
+      const fallbackPrice = rates[position.symbol]?.oraclePrice || position.entryPrice;
+
+      (history[position.symbol] ?? [])
+        .filter(entry => entry.time > position.lastFundingTime && entry.time <= now)
+        .forEach(entry => {
+          const rate = parseFloat(entry.fundingRate);
+          if (!Number.isFinite(rate)) return;
+
+          const quantity = getPositionQuantityAt(portfolio, position, entry.time);
+          if (quantity <= 0) return;
+
+          const price = hourlyPrices[position.symbol]?.[getFundingHour(entry.time)] || fallbackPrice;
+
+          payments.push({
+            id: `funding_${position.id}_${entry.time}`,
+            portfolioId: portfolio.id,
+            positionId: position.id,
+            symbol: position.symbol,
+            rate,
+            price,
+            quantity,
+            amount: calculateFundingPayment(position, rate, price, quantity),
+            time: entry.time,
+          });
+        });
+    });
+  });
+
+  return payments;
+}
+
+/**
+ * Net funding across a set of payments
+ */
+export function getTotalFunding(payments: FundingPayment[]): number {
+  return payments.reduce((total, payment) => total + payment.amount, 0);
+}
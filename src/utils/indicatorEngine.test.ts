@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampIndicatorParam,
+  createDefaultIndicator,
+  createIndicatorEngine,
+  getIndicatorLabel,
+  INDICATOR_DEFINITIONS,
+} from './indicatorEngine';
+import { calculateBollingerBands, calculateEMA, calculateRSI } from './indicators';
+
+const closes = [10, 11, 12, 11, 13, 14, 13, 15, 16, 15, 17, 18];
+const candles = closes.map((close, i) => ({
+  time: 1_700_000_000 + i * 3600,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume: 100 + i,
+}));
+
+describe('Indicator engine', () => {
+  describe('load', () => {
+    it('should match the batch calculations', () => {
+      const ema = createIndicatorEngine({ name: 'ema', params: { period: 3 } }).load(candles);
+      const expected = calculateEMA(closes, 3);
+      expect(ema).toHaveLength(closes.length - 2);
+      ema.forEach(point => {
+        const index = candles.findIndex(c => c.time === point.time);
+        expect(point.values.value).toBeCloseTo(expected[index]!);
+      });
+
+      const bands = createIndicatorEngine({ name: 'bollinger', params: { period: 4, stdDev: 2 } }).load(candles);
+      expect(bands[bands.length - 1].values).toEqual(calculateBollingerBands(closes, 4, 2)[closes.length - 1]);
+    });
+
+    it('should leave out MACD outputs that have no history yet', () => {
+      const points = createIndicatorEngine({ name: 'macd', params: { fastPeriod: 2, slowPeriod: 4, signalPeriod: 3 } }).load(candles);
+      expect(Object.keys(points[0].values)).toEqual(['macd']);
+      expect(Object.keys(points[points.length - 1].values)).toEqual(['macd', 'signal', 'histogram']);
+    });
+  });
+
+  describe('update', () => {
+    it('should redraw the forming candle without disturbing the history', () => {
+      const engine = createIndicatorEngine({ name: 'rsi', params: { period: 4 } });
+      engine.load(candles);
+      const last = candles[candles.length - 1];
+
+      engine.update({ ...last, close: 5 });
+      const point = engine.update({ ...last, close: 20 });
+      expect(point?.values.value).toBeCloseTo(calculateRSI([...closes.slice(0, -1), 20], 4)[closes.length - 1]!);
+    });
+
+    it('should commit the forming candle once a later one arrives', () => {
+      const engine = createIndicatorEngine({ name: 'ema', params: { period: 3 } });
+      engine.load(candles);
+      const last = candles[candles.length - 1];
+      const point = engine.update({ ...last, time: last.time + 3600, close: 20 });
+      expect(point?.values.value).toBeCloseTo(calculateEMA([...closes, 20], 3)[closes.length]!);
+    });
+
+    it('should ignore candles older than the forming one', () => {
+      const engine = createIndicatorEngine({ name: 'sma', params: { period: 2 } });
+      engine.load(candles);
+      expect(engine.update(candles[0])).toBeNull();
+    });
+  });
+
+  describe('settings', () => {
+    it('should create indicators with default params and an unused color', () => {
+      const first = createDefaultIndicator('macd', []);
+      const second = createDefaultIndicator('sma', [first]);
+      expect(first.params).toEqual({ fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 });
+      expect(second.color).not.toBe(first.color);
+      expect(getIndicatorLabel(first)).toBe('MACD 12 26 9');
+      expect(getIndicatorLabel({ name: 'bollinger', params: { period: 20, stdDev: 2.5 } })).toBe('BB 20 2.5');
+    });
+
+    it('should clamp params into range and to their step', () => {
+      const [period, stdDev] = INDICATOR_DEFINITIONS.bollinger.params;
+      expect(clampIndicatorParam(period, 0)).toBe(2);
+      expect(clampIndicatorParam(period, 20.4)).toBe(20);
+      expect(clampIndicatorParam(stdDev, 2.3)).toBe(2.5);
+      expect(clampIndicatorParam(stdDev, NaN)).toBe(2);
+    });
+  });
+});
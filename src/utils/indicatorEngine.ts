@@ -0,0 +1,194 @@
+import {
+  createBollingerStepper,
+  createEMAStepper,
+  createMACDStepper,
+  createRSIStepper,
+  createSMAStepper,
+  createVWAPStepper,
+} from '@/utils/indicators';
+import type { IndicatorCandle } from '@/utils/indicators';
+import type { IndicatorType, TechnicalIndicator } from '@/types/trading';
+
+// ============================================================================
+// CHART INDICATOR ENGINE
+// ============================================================================
+
+export interface IndicatorParamDefinition {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number; // Whole numbers unless set
+}
+
+export interface IndicatorDefinition {
+  label: string;
+  pane: 'overlay' | 'separate'; // Drawn over the candles or in a pane of its own
+  params: IndicatorParamDefinition[];
+  outputs: string[]; // Keys of the values each point carries
+}
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    label: 'SMA',
+    pane: 'overlay',
+    params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 1, max: 500 }],
+    outputs: ['value'],
+  },
+  ema: {
+    label: 'EMA',
+    pane: 'overlay',
+    params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 1, max: 500 }],
+    outputs: ['value'],
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    pane: 'overlay',
+    params: [
+      { key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 500 },
+      { key: 'stdDev', label: 'Std dev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 },
+    ],
+    outputs: ['upper', 'middle', 'lower'],
+  },
+  vwap: {
+    label: 'VWAP',
+    pane: 'overlay',
+    params: [],
+    outputs: ['value'],
+  },
+  rsi: {
+    label: 'RSI',
+    pane: 'separate',
+    params: [{ key: 'period', label: 'Period', defaultValue: 14, min: 2, max: 100 }],
+    outputs: ['value'],
+  },
+  macd: {
+    label: 'MACD',
+    pane: 'separate',
+    params: [
+      { key: 'fastPeriod', label: 'Fast', defaultValue: 12, min: 1, max: 200 },
+      { key: 'slowPeriod', label: 'Slow', defaultValue: 26, min: 2, max: 400 },
+      { key: 'signalPeriod', label: 'Signal', defaultValue: 9, min: 1, max: 100 },
+    ],
+    outputs: ['macd', 'signal', 'histogram'],
+  },
+};
+
+export const INDICATOR_COLORS = ['#f59e0b', '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#84cc16'];
+
+export interface IndicatorPoint {
+  time: number;
+  values: Record<string, number>; // Only the outputs the indicator has history for
+}
+
+export interface IndicatorEngine {
+  load: (candles: IndicatorCandle[]) => IndicatorPoint[];
+  update: (candle: IndicatorCandle) => IndicatorPoint | null;
+}
+
+type ValueStepper = (candle: IndicatorCandle, commit: boolean) => Record<string, number> | null;
+
+const single = (value: number | null) => (value === null ? null : { value });
+
+function createValueStepper({ name, params }: Pick<TechnicalIndicator, 'name' | 'params'>): ValueStepper {
+  const param = (key: string) =>
+    params[key] ?? INDICATOR_DEFINITIONS[name].params.find(p => p.key === key)?.defaultValue ?? 0;
+
+  switch (name) {
+    case 'sma': {
+      const stepper = createSMAStepper(param('period'));
+      return (candle, commit) => single(stepper.next(candle.close, commit));
+    }
+    case 'ema': {
+      const stepper = createEMAStepper(param('period'));
+      return (candle, commit) => single(stepper.next(candle.close, commit));
+    }
+    case 'bollinger': {
+      const stepper = createBollingerStepper(param('period'), param('stdDev'));
+      return (candle, commit) => stepper.next(candle.close, commit) as Record<string, number> | null;
+    }
+    case 'vwap': {
+      const stepper = createVWAPStepper();
+      return (candle, commit) => single(stepper.next(candle, commit));
+    }
+    case 'rsi': {
+      const stepper = createRSIStepper(param('period'));
+      return (candle, commit) => single(stepper.next(candle.close, commit));
+    }
+    case 'macd': {
+      const stepper = createMACDStepper(param('fastPeriod'), param('slowPeriod'), param('signalPeriod'));
+      return (candle, commit) => {
+        const point = stepper.next(candle.close, commit);
+        if (!point) return null;
+        return Object.fromEntries(
+          Object.entries(point).filter((entry): entry is [string, number] => entry[1] !== null)
+        );
+      };
+    }
+  }
+}
+
+/**
+ * Compute an indicator over a candle history, then keep it current one
+ * live candle at a time. The last candle counts as forming until a candle
+ * with a later time arrives, so updates to it never disturb the history.
+ */
+export function createIndicatorEngine(indicator: Pick<TechnicalIndicator, 'name' | 'params'>): IndicatorEngine {
+  let step = createValueStepper(indicator);
+  let forming: IndicatorCandle | null = null;
+
+  const toPoint = (candle: IndicatorCandle, commit: boolean): IndicatorPoint | null => {
+    const values = step(candle, commit);
+    return values ? { time: candle.time, values } : null;
+  };
+
+  return {
+    load: (candles) => {
+      step = createValueStepper(indicator);
+      forming = candles.length > 0 ? candles[candles.length - 1] : null;
+
+      const points = candles.map((candle, index) => toPoint(candle, index < candles.length - 1));
+      return points.filter((point): point is IndicatorPoint => point !== null);
+    },
+
+    update: (candle) => {
+      if (forming && candle.time < forming.time) return null;
+      if (forming && candle.time > forming.time) step(forming, true);
+      forming = candle;
+      return toPoint(candle, false);
+    },
+  };
+}
+
+/**
+ * A new indicator of a type, with default settings and the next free color
+ */
+export function createDefaultIndicator(name: IndicatorType, existing: TechnicalIndicator[]): TechnicalIndicator {
+  const usedColors = new Set(existing.map(indicator => indicator.color));
+  return {
+    id: `indicator_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    enabled: true,
+    params: Object.fromEntries(INDICATOR_DEFINITIONS[name].params.map(p => [p.key, p.defaultValue])),
+    color: INDICATOR_COLORS.find(color => !usedColors.has(color)) ?? INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length],
+  };
+}
+
+/**
+ * Short label for legends, such as "EMA 50" or "MACD 12 26 9"
+ */
+export function getIndicatorLabel(indicator: Pick<TechnicalIndicator, 'name' | 'params'>): string {
+  const definition = INDICATOR_DEFINITIONS[indicator.name];
+  const short = indicator.name === 'bollinger' ? 'BB' : definition.label;
+  return [short, ...definition.params.map(p => indicator.params[p.key] ?? p.defaultValue)].join(' ');
+}
+
+/**
+ * Clamp a parameter into its allowed range, rounding periods to whole numbers
+ */
+export function clampIndicatorParam(definition: IndicatorParamDefinition, value: number): number {
+  if (!Number.isFinite(value)) return definition.defaultValue;
+  const stepped = definition.step ? Math.round(value / definition.step) * definition.step : Math.round(value);
+  return Math.min(definition.max, Math.max(definition.min, stepped));
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  calculateVWAP,
+  createRSIStepper,
+  createSMAStepper,
+} from './indicators';
+
+const closes = [10, 11, 12, 11, 13, 14, 13, 15, 16, 15, 17, 18];
+
+describe('Indicators', () => {
+  describe('calculateSMA', () => {
+    it('should average each window once it is full', () => {
+      expect(calculateSMA([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+  });
+
+  describe('calculateRSI', () => {
+    it('should read 100 after only gains and 0 after only losses', () => {
+      expect(calculateRSI([1, 2, 3, 4], 3)).toEqual([null, null, null, 100]);
+      expect(calculateRSI([4, 3, 2, 1], 3)[3]).toBe(0);
+    });
+
+    it('should balance equal gains and losses at 50', () => {
+      expect(calculateRSI([10, 11, 10, 11, 10], 4)[4]).toBeCloseTo(50);
+    });
+  });
+
+  describe('calculateEMA', () => {
+    it('should seed with the simple average and then weight recent values', () => {
+      expect(calculateEMA([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+      expect(calculateEMA([2, 2, 2, 8], 3)[3]).toBeCloseTo(5);
+    });
+  });
+
+  describe('calculateBollingerBands', () => {
+    it('should place the bands a number of standard deviations around the average', () => {
+      const bands = calculateBollingerBands([1, 2, 3], 3, 2);
+      expect(bands[1]).toBeNull();
+      expect(bands[2]?.middle).toBeCloseTo(2);
+      expect(bands[2]?.upper).toBeCloseTo(2 + 2 * Math.sqrt(2 / 3));
+      expect(bands[2]?.lower).toBeCloseTo(2 - 2 * Math.sqrt(2 / 3));
+    });
+  });
+
+  describe('calculateMACD', () => {
+    it('should start the signal line once enough MACD values exist', () => {
+      const macd = calculateMACD(closes, 2, 4, 3);
+      expect(macd[2]).toBeNull();
+      expect(macd[3]?.signal).toBeNull();
+      expect(macd[5]?.signal).not.toBeNull();
+
+      const fast = calculateEMA(closes, 2);
+      const slow = calculateEMA(closes, 4);
+      expect(macd[8]?.macd).toBeCloseTo(fast[8]! - slow[8]!);
+      expect(macd[8]?.histogram).toBeCloseTo(macd[8]!.macd - macd[8]!.signal!);
+    });
+  });
+
+  describe('calculateVWAP', () => {
+    const day = 86400;
+
+    it('should weight the typical price by volume', () => {
+      const vwap = calculateVWAP([
+        { time: day, high: 12, low: 8, close: 10, volume: 1 },
+        { time: day + 3600, high: 22, low: 18, close: 20, volume: 3 },
+      ]);
+      expect(vwap).toEqual([10, 17.5]);
+    });
+
+    it('should restart at each UTC day', () => {
+      const vwap = calculateVWAP([
+        { time: day, high: 10, low: 10, close: 10, volume: 5 },
+        { time: 2 * day, high: 20, low: 20, close: 20, volume: 1 },
+      ]);
+      expect(vwap[1]).toBe(20);
+    });
+  });
+
+  describe('steppers', () => {
+    it('should match the batch results when every value is committed', () => {
+      const sma = createSMAStepper(4);
+      const rsi = createRSIStepper(4);
+      expect(closes.map(value => sma.next(value, true))).toEqual(calculateSMA(closes, 4));
+      expect(closes.map(value => rsi.next(value, true))).toEqual(calculateRSI(closes, 4));
+    });
+
+    it('should handle an SMA period of one', () => {
+      const sma = createSMAStepper(1);
+      expect(closes.map(value => sma.next(value, true))).toEqual(closes);
+      expect(sma.next(7, false)).toBe(7);
+    });
+
+    it('should leave their state alone when previewing', () => {
+      const sma = createSMAStepper(2);
+      sma.next(10, true);
+      expect(sma.next(20, false)).toBe(15);
+      expect(sma.next(30, false)).toBe(20);
+      expect(sma.next(12, true)).toBe(11);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+// ============================================================================
+// TECHNICAL INDICATORS
+// ============================================================================
+
+// Series are aligned with their input; null marks a point before the indicator has enough history
+
+/**
+ * Simple moving average over a period
+ */
+export function calculateSMA(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= period) sum -= values[index - period];
+    return index >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Relative strength index with Wilder's smoothing, from 0 to 100
+ */
+export function calculateRSI(values: number[], period: number = 14): (number | null)[] {
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+
+  const toRSI = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRSI();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRSI();
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the simple average of its first
+ * period
+ */
+export function calculateEMA(values: number[], period: number): (number | null)[] {
+  const stepper = createEMAStepper(period);
+  return values.map(value => stepper.next(value, true));
+}
+
+/**
+ * Bollinger bands: a simple moving average with bands a number of
+ * population standard deviations either side
+ */
+export function calculateBollingerBands(values: number[], period: number = 20, stdDev: number = 2): (BollingerPoint | null)[] {
+  const stepper = createBollingerStepper(period, stdDev);
+  return values.map(value => stepper.next(value, true));
+}
+
+/**
+ * MACD line, signal line and histogram
+ */
+export function calculateMACD(
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): (MACDPoint | null)[] {
+  const stepper = createMACDStepper(fastPeriod, slowPeriod, signalPeriod);
+  return values.map(value => stepper.next(value, true));
+}
+
+/**
+ * Volume-weighted average of the typical price, restarting each UTC day
+ */
+export function calculateVWAP(candles: IndicatorCandle[]): (number | null)[] {
+  const stepper = createVWAPStepper();
+  return candles.map(candle => stepper.next(candle, true));
+}
+
+// ============================================================================
+// INCREMENTAL INDICATORS
+// ============================================================================
+
+// Steppers take one input at a time. Committing advances their state; a
+// preview computes the value for a candle that is still forming, so live
+// prices can redraw the last point without disturbing the history.
+
+export interface IndicatorCandle {
+  time: number; // Seconds, as chartApi returns candles
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BollingerPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface MACDPoint {
+  macd: number;
+  signal: number | null; // Until the signal line has enough history
+  histogram: number | null;
+}
+
+export interface IndicatorStepper<TInput, TOutput> {
+  next: (input: TInput, commit: boolean) => TOutput | null;
+}
+
+const SESSION_SECONDS = 24 * 60 * 60;
+
+export function createSMAStepper(period: number): IndicatorStepper<number, number> {
+  let window: number[] = [];
+  return {
+    next: (value, commit) => {
+      const values = [...window, value];
+      if (commit) window = period > 1 ? values.slice(-(period - 1)) : []; // slice(-0) would keep everything
+      if (values.length < period) return null;
+      return values.slice(-period).reduce((sum, v) => sum + v, 0) / period;
+    },
+  };
+}
+
+export function createEMAStepper(period: number): IndicatorStepper<number, number> {
+  const k = 2 / (period + 1);
+  let ema: number | null = null;
+  let seed: number[] = [];
+
+  return {
+    next: (value, commit) => {
+      let result: number | null;
+      if (ema === null) {
+        const values = [...seed, value];
+        result = values.length < period ? null : values.reduce((sum, v) => sum + v, 0) / period;
+        if (commit) seed = values;
+      } else {
+        result = ema + k * (value - ema);
+      }
+      if (commit && result !== null) ema = result;
+      return result;
+    },
+  };
+}
+
+export function createBollingerStepper(period: number, stdDev: number): IndicatorStepper<number, BollingerPoint> {
+  let window: number[] = [];
+  return {
+    next: (value, commit) => {
+      const values = [...window, value].slice(-period);
+      if (commit) window = values.slice(-(period - 1));
+      if (values.length < period) return null;
+
+      const middle = values.reduce((sum, v) => sum + v, 0) / period;
+      const deviation = Math.sqrt(values.reduce((sum, v) => sum + (v - middle) ** 2, 0) / period);
+      return { upper: middle + stdDev * deviation, middle, lower: middle - stdDev * deviation };
+    },
+  };
+}
+
+export function createRSIStepper(period: number): IndicatorStepper<number, number> {
+  let previous: number | null = null;
+  let changes = 0;
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  return {
+    next: (value, commit) => {
+      if (previous === null) {
+        if (commit) previous = value;
+        return null;
+      }
+
+      const change = value - previous;
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+      // Average the first period's changes, then smooth like Wilder
+      const gainAvg = changes < period ? avgGain + gain / period : (avgGain * (period - 1) + gain) / period;
+      const lossAvg = changes < period ? avgLoss + loss / period : (avgLoss * (period - 1) + loss) / period;
+
+      if (commit) {
+        previous = value;
+        changes++;
+        avgGain = gainAvg;
+        avgLoss = lossAvg;
+      }
+      if (changes + (commit ? 0 : 1) < period) return null;
+      return lossAvg === 0 ? 100 : 100 - 100 / (1 + gainAvg / lossAvg);
+    },
+  };
+}
+
+export function createMACDStepper(fastPeriod: number, slowPeriod: number, signalPeriod: number): IndicatorStepper<number, MACDPoint> {
+  const fast = createEMAStepper(fastPeriod);
+  const slow = createEMAStepper(slowPeriod);
+  const signal = createEMAStepper(signalPeriod);
+
+  return {
+    next: (value, commit) => {
+      const fastValue = fast.next(value, commit);
+      const slowValue = slow.next(value, commit);
+      if (fastValue === null || slowValue === null) return null;
+
+      const macd = fastValue - slowValue;
+      const signalValue = signal.next(macd, commit);
+      return { macd, signal: signalValue, histogram: signalValue === null ? null : macd - signalValue };
+    },
+  };
+}
+
+export function createVWAPStepper(): IndicatorStepper<IndicatorCandle, number> {
+  let session: number | null = null;
+  let priceVolume = 0;
+  let volume = 0;
+
+  return {
+    next: (candle, commit) => {
+      const candleSession = Math.floor(candle.time / SESSION_SECONDS);
+      const isNewSession = candleSession !== session;
+      const typical = (candle.high + candle.low + candle.close) / 3;
+      const totalPriceVolume = (isNewSession ? 0 : priceVolume) + typical * candle.volume;
+      const totalVolume = (isNewSession ? 0 : volume) + candle.volume;
+
+      if (commit) {
+        session = candleSession;
+        priceVolume = totalPriceVolume;
+        volume = totalVolume;
+      }
+      return totalVolume > 0 ? totalPriceVolume / totalVolume : typical;
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPositionPnL,
+  getMarginSummary,
+  clampLeverage,
+  getMarginSettings,
+  getLiquidationPrice,
+  getMarginRatio,
+  findLiquidation,
+} from './margin';
+import type { Portfolio, Position } from '@/state/portfolioStore';
+import type { AssetInfo } from '@/types/trading';
+import { createTestPortfolio, createTestPosition } from '@/test/fixtures';
+
+const createPosition = (overrides: Partial<Position> = {}): Position =>
+  createTestPosition({ leverage: 5, margin: 10000, maintenanceMarginRate: 0.01, ...overrides });
+
+const createPortfolio = (positions: Position[], balance = 90000): Portfolio =>
+  createTestPortfolio({ balance, positions });
+
+const asset: AssetInfo = { name: 'BTC', szDecimals: 5, maxLeverage: 40, onlyIsolated: false };
+
+describe('Margin', () => {
+  describe('getPositionPnL', () => {
+    it('should invert P&L for shorts', () => {
+      expect(getPositionPnL(createPosition(), 52000)).toBe(2000);
+      expect(getPositionPnL(createPosition({ type: 'short' }), 52000)).toBe(-2000);
+    });
+  });
+
+  describe('getMarginSummary', () => {
+    it('should add posted margin and unrealized P&L to cash', () => {
+      const portfolio = createPortfolio([createPosition()]);
+
+      const summary = getMarginSummary(portfolio, { BTC: 48000 });
+      expect(summary.equity).toBe(98000);
+      expect(summary.marginUsed).toBe(10000);
+      expect(summary.maintenanceMargin).toBe(480);
+      expect(summary.freeCollateral).toBe(88000);
+    });
+
+    it('should not lend isolated gains to free collateral', () => {
+      const portfolio = createPortfolio([createPosition({ marginMode: 'isolated' })]);
+
+      expect(getMarginSummary(portfolio, { BTC: 55000 }).freeCollateral).toBe(90000);
+      expect(getMarginSummary(portfolio, { BTC: 45000 }).freeCollateral).toBe(85000);
+    });
+  });
+
+  describe('Leverage settings', () => {
+    it('should clamp leverage to the asset maximum', () => {
+      expect(clampLeverage(100, asset)).toBe(40);
+      expect(clampLeverage(0, asset)).toBe(1);
+      expect(clampLeverage(10)).toBe(1);
+    });
+
+    it('should force isolated margin on isolated-only assets', () => {
+      const settings = getMarginSettings(10, 'cross', { ...asset, onlyIsolated: true });
+      expect(settings.mode).toBe('isolated');
+      expect(settings.leverage).toBe(10);
+      expect(settings.maintenanceMarginRate).toBeCloseTo(0.0125);
+    });
+  });
+
+  describe('Liquidation', () => {
+    it('should price isolated liquidations off the position margin', () => {
+      const long = createPosition({ marginMode: 'isolated' });
+      const short = createPosition({ marginMode: 'isolated', type: 'short' });
+      const portfolio = createPortfolio([long]);
+
+      expect(getLiquidationPrice(portfolio, long, {})).toBeCloseTo(40404.04, 2); // 40000 / 0.99
+      expect(getLiquidationPrice(createPortfolio([short]), short, {})).toBeCloseTo(59405.94, 2); // 60000 / 1.01
+    });
+
+    it('should back cross positions with the whole account', () => {
+      const position = createPosition();
+      expect(getLiquidationPrice(createPortfolio([position]), position, {})).toBeNull();
+      expect(getLiquidationPrice(createPortfolio([position], 5000), position, {})).toBeCloseTo(35353.54, 2); // 35000 / 0.99
+    });
+
+    it('should not liquidate unlevered longs', () => {
+      const position = createPosition({ leverage: 1, margin: 50000, maintenanceMarginRate: 0 });
+      expect(getLiquidationPrice(createPortfolio([position], 0), position, {})).toBeNull();
+    });
+
+    it('should flag positions once the margin ratio reaches one', () => {
+      const position = createPosition({ marginMode: 'isolated' });
+      const portfolio = createPortfolio([position]);
+
+      expect(getMarginRatio(portfolio, position, { BTC: 50000 })).toBeCloseTo(0.05); // 500 / 10000
+      expect(findLiquidation([portfolio], { BTC: 41000 })).toBeNull();
+      expect(findLiquidation([portfolio], { BTC: 40000 })?.position.id).toBe('pos-1');
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import type { Portfolio, Position } from '@/state/portfolioStore';
+import type { AssetInfo, MarginSettings } from '@/types/trading';
+import { DEFAULT_MARGIN_SETTINGS } from '@/types/trading';
+import {
+  calculateMaintenanceMargin,
+  calculateMaintenanceMarginRate,
+  calculateUnrealizedPnL,
+} from '@/utils/calculations';
+
+// ============================================================================
+// POSITION MARGIN
+// ============================================================================
+
+export interface MarginSummary {
+  equity: number; // Cash plus posted margin plus unrealized P&L
+  unrealizedPnL: number;
+  notional: number;
+  marginUsed: number;
+  maintenanceMargin: number;
+  freeCollateral: number; // What new positions can draw on
+}
+
+/**
+ * Signed direction of a position: +1 for longs, -1 for shorts
+ */
+export function getPositionDirection(position: Pick<Position, 'type'>): 1 | -1 {
+  return position.type === 'long' ? 1 : -1;
+}
+
+/**
+ * Unrealized P&L of a position at the given mid, for longs and shorts
+ */
+export function getPositionPnL(position: Position, price: number): number {
+  return calculateUnrealizedPnL(
+    position.entryPrice,
+    price,
+    position.quantity,
+    position.type === 'long' ? 'buy' : 'sell'
+  ).pnl;
+}
+
+/**
+ * Unsigned notional of a position at the given mid
+ */
+export function getPositionNotional(position: Position, price: number): number {
+  return position.quantity * price;
+}
+
+/**
+ * What the position is worth to the account: its posted margin plus unrealized P&L
+ */
+export function getPositionEquity(position: Position, price: number): number {
+  return position.margin + getPositionPnL(position, price);
+}
+
+/**
+ * Summarize margin usage across a portfolio's positions.
+ * Unrealized P&L on isolated positions stays with the position, so only
+ * losses count against free collateral.
+ */
+export function getMarginSummary(
+  portfolio: Portfolio,
+  currentPrices: Record<string, number>
+): MarginSummary {
+  let unrealizedPnL = 0;
+  let notional = 0;
+  let marginUsed = 0;
+  let maintenanceMargin = 0;
+  let collateralPnL = 0;
+
+  portfolio.positions.forEach(position => {
+    const price = currentPrices[position.symbol] || position.entryPrice;
+    const pnl = getPositionPnL(position, price);
+    const positionNotional = getPositionNotional(position, price);
+
+    unrealizedPnL += pnl;
+    notional += positionNotional;
+    marginUsed += position.margin;
+    maintenanceMargin += calculateMaintenanceMargin(positionNotional, position.maintenanceMarginRate);
+    collateralPnL += position.marginMode === 'isolated' ? Math.min(0, pnl) : pnl;
+  });
+
+  return {
+    equity: portfolio.balance + marginUsed + unrealizedPnL,
+    unrealizedPnL,
+    notional,
+    marginUsed,
+    maintenanceMargin,
+    freeCollateral: portfolio.balance + collateralPnL,
+  };
+}
+
+// ============================================================================
+// LEVERAGE SETTINGS
+// ============================================================================
+
+/**
+ * Clamp a requested leverage to what the asset allows
+ */
+export function clampLeverage(leverage: number, asset?: AssetInfo): number {
+  const maxLeverage = asset?.maxLeverage ?? DEFAULT_MARGIN_SETTINGS.leverage;
+  if (!Number.isFinite(leverage)) return 1;
+  return Math.min(Math.max(1, Math.round(leverage)), Math.max(1, maxLeverage));
+}
+
+/**
+ * Build the margin settings for an order on an asset.
+ * Isolated-only assets always trade isolated regardless of the requested mode.
+ */
+export function getMarginSettings(
+  leverage: number,
+  mode: MarginSettings['mode'],
+  asset?: AssetInfo
+): MarginSettings {
+  if (!asset) return DEFAULT_MARGIN_SETTINGS;
+
+  return {
+    leverage: clampLeverage(leverage, asset),
+    mode: asset.onlyIsolated ? 'isolated' : mode,
+    maintenanceMarginRate: calculateMaintenanceMarginRate(asset.maxLeverage),
+  };
+}
+
+// ============================================================================
+// LIQUIDATION
+// ============================================================================
+
+// Margin ratio (maintenance margin over equity) bands for position warnings
+export const LIQUIDATION_WARNING_RATIO = 0.5;
+export const LIQUIDATION_DANGER_RATIO = 0.8;
+
+export interface Liquidation {
+  portfolioId: string;
+  position: Position;
+  price: number;
+}
+
+// Cross positions share the account's cash, margin and P&L; isolated ones stand alone
+function getCrossPositions(portfolio: Portfolio): Position[] {
+  return portfolio.positions.filter(p => p.marginMode === 'cross');
+}
+
+function getPrice(position: Position, currentPrices: Record<string, number>): number {
+  return currentPrices[position.symbol] || position.entryPrice;
+}
+
+function getMaintenance(position: Position, price: number): number {
+  return calculateMaintenanceMargin(getPositionNotional(position, price), position.maintenanceMarginRate);
+}
+
+/**
+ * Equity backing a position and the maintenance margin it must keep.
+ * For cross positions both are account-wide.
+ */
+function getBackingEquity(
+  portfolio: Portfolio,
+  position: Position,
+  currentPrices: Record<string, number>
+): { equity: number; maintenance: number } {
+  if (position.marginMode === 'isolated') {
+    const price = getPrice(position, currentPrices);
+    return {
+      equity: getPositionEquity(position, price),
+      maintenance: getMaintenance(position, price),
+    };
+  }
+
+  return getCrossPositions(portfolio).reduce(
+    (totals, crossPosition) => {
+      const price = getPrice(crossPosition, currentPrices);
+      return {
+        equity: totals.equity + getPositionEquity(crossPosition, price),
+        maintenance: totals.maintenance + getMaintenance(crossPosition, price),
+      };
+    },
+    { equity: portfolio.balance, maintenance: 0 }
+  );
+}
+
+/**
+ * Maintenance margin over backing equity; the position is liquidated at 1
+ */
+export function getMarginRatio(
+  portfolio: Portfolio,
+  position: Position,
+  currentPrices: Record<string, number>
+): number {
+  const { equity, maintenance } = getBackingEquity(portfolio, position, currentPrices);
+  if (equity <= 0) return maintenance > 0 || equity < 0 ? Infinity : 0;
+  return maintenance / equity;
+}
+
+/**
+ * Mark price at which a position's backing equity falls to its maintenance
+ * margin, holding every other position at its current price.
+ * Returns null when the position can't be liquidated (e.g. an unlevered long).
+ */
+export function getLiquidationPrice(
+  portfolio: Portfolio,
+  position: Position,
+  currentPrices: Record<string, number>
+): number | null {
+  const direction = getPositionDirection(position);
+  const { quantity, entryPrice, maintenanceMarginRate } = position;
+  if (quantity <= 0) return null;
+
+  // Collateral available to this position before its own P&L and maintenance
+  let collateral = position.margin;
+  if (position.marginMode === 'cross') {
+    collateral = portfolio.balance;
+    getCrossPositions(portfolio).forEach(crossPosition => {
+      collateral += crossPosition.margin;
+      if (crossPosition.id !== position.id) {
+        const price = getPrice(crossPosition, currentPrices);
+        collateral += getPositionPnL(crossPosition, price) - getMaintenance(crossPosition, price);
+      }
+    });
+  }
+
+  // Solve collateral + direction * (P - entry) * q = q * P * mmr for P
+  const liquidationPrice = (direction * entryPrice * quantity - collateral) /
+    (quantity * (direction - maintenanceMarginRate));
+
+  return Number.isFinite(liquidationPrice) && liquidationPrice > 0 ? liquidationPrice : null;
+}
+
+/**
+ * Penalty charged on liquidation: the maintenance margin is forfeited
+ */
+export function getLiquidationPenalty(position: Position, markPrice: number): number {
+  return getMaintenance(position, markPrice);
+}
+
+/**
+ * Find the first position across all portfolios that is due for liquidation.
+ * Liquidating one cross position changes the others' levels, so callers
+ * should re-run this against fresh state after each liquidation.
+ */
+export function findLiquidation(
+  portfolios: Portfolio[],
+  currentPrices: Record<string, number>
+): Liquidation | null {
+  for (const portfolio of portfolios) {
+    for (const position of portfolio.positions) {
+      const price = currentPrices[position.symbol];
+      if (price === undefined) continue;
+
+      if (getMarginRatio(portfolio, position, currentPrices) >= 1) {
+        return { portfolioId: portfolio.id, position, price };
+      }
+    }
+  }
+
+  return null;
+}
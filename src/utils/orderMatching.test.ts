@@ -0,0 +1,348 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isLimitOrderMarketable,
+  getPlacementLiquidity,
+  getLimitFillPrice,
+  findFillableOrders,
+  findOrphanedExits,
+  isStopOrderTriggered,
+  getOrderGroups,
+  getPostOnlyRejection,
+  resolveImmediateOrder,
+  validateTimeInForce,
+  findExpiredOrders,
+  getReservedBalance,
+  getReservedQuantity,
+  validateLimitOrder,
+  getTriggeredExit,
+  findTriggeredExits,
+  validatePositionExits,
+  getTrailingStopLevel,
+  getNextHighWaterMark,
+  validateTrailingStop,
+} from './orderMatching';
+import { Order, OrderBook } from '@/types/trading';
+import type { Portfolio, Position } from '@/state/portfolioStore';
+import { createTestPortfolio, createTestPosition } from '@/test/fixtures';
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 'order-1',
+  portfolioId: 'portfolio-1',
+  symbol: 'BTC',
+  side: 'buy',
+  type: 'limit',
+  quantity: 1,
+  price: 50000,
+  status: 'pending',
+  createdAt: 1000,
+  ...overrides,
+});
+
+const createPortfolio = (overrides: Partial<Portfolio> = {}): Portfolio =>
+  createTestPortfolio({ name: 'Test Portfolio', ...overrides });
+
+const createPosition = createTestPosition;
+
+describe('Order Matching', () => {
+  describe('isLimitOrderMarketable', () => {
+    it('should fill buy orders at or below the limit', () => {
+      const order = createOrder({ side: 'buy', price: 50000 });
+      expect(isLimitOrderMarketable(order, 50001)).toBe(false);
+      expect(isLimitOrderMarketable(order, 50000)).toBe(true);
+      expect(isLimitOrderMarketable(order, 49000)).toBe(true);
+    });
+
+    it('should fill sell orders at or above the limit', () => {
+      const order = createOrder({ side: 'sell', price: 50000 });
+      expect(isLimitOrderMarketable(order, 49999)).toBe(false);
+      expect(isLimitOrderMarketable(order, 50000)).toBe(true);
+    });
+
+    it('should ignore market orders', () => {
+      const order = createOrder({ type: 'market', price: undefined });
+      expect(isLimitOrderMarketable(order, 1)).toBe(false);
+    });
+  });
+
+  describe('getPlacementLiquidity', () => {
+    it('should charge a limit order that crosses when placed as a taker', () => {
+      expect(getPlacementLiquidity(createOrder({ side: 'buy', price: 50000 }), 49900)).toBe('taker');
+      expect(getPlacementLiquidity(createOrder({ side: 'sell', price: 50000 }), 50100)).toBe('taker');
+    });
+
+    it('should charge a limit order that rests as a maker', () => {
+      expect(getPlacementLiquidity(createOrder({ side: 'buy', price: 50000 }), 50100)).toBe('maker');
+      expect(getPlacementLiquidity(createOrder({ side: 'sell', price: 50000 }), 0)).toBe('maker');
+    });
+  });
+
+  describe('getLimitFillPrice', () => {
+    it('should give price improvement when the market gaps through the limit', () => {
+      expect(getLimitFillPrice(createOrder({ side: 'buy', price: 50000 }), 48000)).toBe(48000);
+      expect(getLimitFillPrice(createOrder({ side: 'sell', price: 50000 }), 52000)).toBe(52000);
+    });
+  });
+
+  describe('findFillableOrders', () => {
+    it('should return crossed pending orders oldest first', () => {
+      const orders = [
+        createOrder({ id: 'late', createdAt: 3000 }),
+        createOrder({ id: 'early', createdAt: 2000 }),
+        createOrder({ id: 'filled', status: 'filled' }),
+        createOrder({ id: 'far', price: 40000 }),
+        createOrder({ id: 'other', symbol: 'ETH', price: 3000 }),
+      ];
+
+      const fills = findFillableOrders(orders, { BTC: 49500 });
+      expect(fills.map(f => f.order.id)).toEqual(['early', 'late']);
+      expect(fills[0].fillPrice).toBe(49500);
+    });
+  });
+
+  describe('Time In Force', () => {
+    const book: OrderBook = {
+      symbol: 'BTC',
+      bids: [{ price: 49990, size: 1, orders: 1 }],
+      asks: [
+        { price: 50010, size: 1, orders: 1 },
+        { price: 50100, size: 1, orders: 1 },
+      ],
+      timestamp: 0,
+    };
+
+    it('should reject post-only orders that would cross', () => {
+      expect(getPostOnlyRejection(createOrder({ timeInForce: 'post_only', price: 50100 }), 50000)).toContain('cross');
+      expect(getPostOnlyRejection(createOrder({ timeInForce: 'post_only', price: 49000 }), 50000)).toBeNull();
+      expect(getPostOnlyRejection(createOrder({ price: 50100 }), 50000)).toBeNull();
+    });
+
+    it('should fill what it can on IOC and cancel the rest', () => {
+      const result = resolveImmediateOrder({ side: 'buy', quantity: 2, price: 50050, timeInForce: 'ioc' }, book, 50000);
+      expect(result.status).toBe('cancelled');
+      expect(result.filledQuantity).toBe(1);
+      expect(result.fillPrice).toBe(50010);
+      expect(result.reason).toContain('remainder cancelled');
+
+      const none = resolveImmediateOrder({ side: 'buy', quantity: 1, price: 49000, timeInForce: 'ioc' }, book, 50000);
+      expect(none.filledQuantity).toBe(0);
+    });
+
+    it('should fill FOK in full or reject it', () => {
+      expect(resolveImmediateOrder({ side: 'buy', quantity: 2, price: 50100, timeInForce: 'fok' }, book, 50000).status)
+        .toBe('filled');
+
+      const killed = resolveImmediateOrder({ side: 'buy', quantity: 2, price: 50050, timeInForce: 'fok' }, book, 50000);
+      expect(killed.status).toBe('rejected');
+      expect(killed.filledQuantity).toBe(0);
+    });
+
+    it('should fall back to the mid without a book', () => {
+      const result = resolveImmediateOrder({ side: 'sell', quantity: 1, price: 49000, timeInForce: 'ioc' }, null, 50000);
+      expect(result).toEqual({ status: 'filled', filledQuantity: 1, fillPrice: 50000 });
+    });
+
+    it('should require a future expiry and expire GTD orders once it passes', () => {
+      expect(validateTimeInForce('gtd', undefined, 1000)).toContain('expiry');
+      expect(validateTimeInForce('gtd', 500, 1000)).toContain('future');
+      expect(validateTimeInForce('gtc', undefined, 1000)).toBeNull();
+
+      const orders = [
+        createOrder({ id: 'due', timeInForce: 'gtd', expiresAt: 1000 }),
+        createOrder({ id: 'later', timeInForce: 'gtd', expiresAt: 5000 }),
+        createOrder({ id: 'gtc' }),
+      ];
+      expect(findExpiredOrders(orders, 1000).map(o => o.id)).toEqual(['due']);
+    });
+  });
+
+  describe('Order Groups', () => {
+    const bracket = [
+      createOrder({ id: 'entry', groupId: 'g1', groupRole: 'entry' }),
+      createOrder({ id: 'tp', side: 'sell', price: 55000, reduceOnly: true, groupId: 'g1', groupRole: 'take_profit', parentId: 'entry' }),
+      createOrder({ id: 'sl', side: 'sell', type: 'stop', price: 45000, reduceOnly: true, groupId: 'g1', groupRole: 'stop_loss', parentId: 'entry' }),
+    ];
+
+    it('should trigger sell stops at or below and buy stops at or above', () => {
+      expect(isStopOrderTriggered(createOrder({ type: 'stop', side: 'sell', price: 45000 }), 44000)).toBe(true);
+      expect(isStopOrderTriggered(createOrder({ type: 'stop', side: 'sell', price: 45000 }), 46000)).toBe(false);
+      expect(isStopOrderTriggered(createOrder({ type: 'stop', side: 'buy', price: 55000 }), 56000)).toBe(true);
+    });
+
+    it('should keep exits dormant until the entry fills', () => {
+      expect(findFillableOrders(bracket, { BTC: 44000 }).map(f => f.order.id)).toEqual(['entry']);
+
+      const filled = bracket.map(o => o.id === 'entry' ? { ...o, status: 'filled' as const } : o);
+      const fills = findFillableOrders(filled, { BTC: 44000 });
+      expect(fills.map(f => f.order.id)).toEqual(['sl']);
+      expect(fills[0].fillPrice).toBe(44000);
+    });
+
+    it('should report the group status as one unit', () => {
+      expect(getOrderGroups(bracket)[0].status).toBe('pending');
+
+      const active = bracket.map(o => o.id === 'entry' ? { ...o, status: 'filled' as const } : o);
+      expect(getOrderGroups(active)[0].status).toBe('active');
+
+      const closed = active.map(o => o.id === 'tp' ? { ...o, status: 'filled' as const } : o);
+      expect(getOrderGroups(closed)[0].status).toBe('filled');
+    });
+
+    it('should reserve an OCO pair once and nothing before the entry fills', () => {
+      expect(getReservedQuantity(bracket, 'portfolio-1', 'BTC')).toBe(0);
+
+      const active = bracket.map(o => o.id === 'entry' ? { ...o, status: 'filled' as const } : o);
+      expect(getReservedQuantity(active, 'portfolio-1', 'BTC')).toBe(1);
+    });
+
+    it('should orphan working exits once their position is gone', () => {
+      const active = bracket.map(o => o.id === 'entry' ? { ...o, status: 'filled' as const } : { ...o, positionId: 'pos-1' });
+      const holding = createPortfolio({ positions: [createPosition()] });
+      expect(findOrphanedExits(active, [holding])).toEqual([]);
+
+      // Closed and reopened: same symbol and side, but a new position
+      const reopened = createPortfolio({ positions: [createPosition({ id: 'pos-2' })] });
+      expect(findOrphanedExits(active, [reopened]).map(o => o.id)).toEqual(['tp', 'sl']);
+
+      // Dormant exits wait for their entry rather than a position
+      expect(findOrphanedExits(bracket, [createPortfolio()])).toEqual([]);
+    });
+
+    it('should orphan unlinked exits only when nothing is left to reduce', () => {
+      const oco = [createOrder({ id: 'tp', side: 'sell', price: 55000, reduceOnly: true, groupId: 'g2', groupRole: 'take_profit' })];
+      expect(findOrphanedExits(oco, [createPortfolio({ positions: [createPosition()] })])).toEqual([]);
+      expect(findOrphanedExits(oco, [createPortfolio({ positions: [createPosition({ type: 'short' })] })])).toHaveLength(1);
+    });
+  });
+
+  describe('Reservations', () => {
+    const orders = [
+      createOrder({ id: 'buy-1', quantity: 1, price: 50000 }),
+      createOrder({ id: 'buy-2', quantity: 2, price: 10000 }),
+      createOrder({ id: 'sell-1', side: 'sell', quantity: 0.5, price: 60000 }),
+      createOrder({ id: 'other-portfolio', portfolioId: 'portfolio-2' }),
+      createOrder({ id: 'cancelled', status: 'cancelled' }),
+    ];
+
+    it('should reserve cash for pending buys', () => {
+      expect(getReservedBalance(orders, 'portfolio-1')).toBe(70000);
+      expect(getReservedBalance(orders, 'portfolio-1', 'buy-1')).toBe(20000);
+    });
+
+    it('should reserve quantity for pending sells', () => {
+      expect(getReservedQuantity(orders, 'portfolio-1', 'BTC')).toBe(0.5);
+      expect(getReservedQuantity(orders, 'portfolio-1', 'ETH')).toBe(0);
+    });
+  });
+
+  describe('validateLimitOrder', () => {
+    it('should reject buys that exceed unreserved cash', () => {
+      const portfolio = createPortfolio();
+      const orders = [createOrder({ quantity: 1, price: 80000 })];
+
+      expect(validateLimitOrder(portfolio, orders, { symbol: 'BTC', side: 'buy', quantity: 1, price: 30000 }))
+        .toContain('Insufficient funds');
+      expect(validateLimitOrder(portfolio, orders, { symbol: 'BTC', side: 'buy', quantity: 1, price: 20000 }))
+        .toBeNull();
+    });
+
+    it('should reject sells that exceed the unreserved holding', () => {
+      const portfolio = createPortfolio({
+        positions: [createPosition()],
+      });
+      const orders = [createOrder({ side: 'sell', quantity: 0.6, price: 60000 })];
+
+      expect(validateLimitOrder(portfolio, orders, { symbol: 'BTC', side: 'sell', quantity: 0.5, price: 60000 }))
+        .toContain('Insufficient quantity');
+      expect(validateLimitOrder(portfolio, orders, { symbol: 'BTC', side: 'sell', quantity: 0.4, price: 60000 }))
+        .toBeNull();
+    });
+
+    it('should reserve initial margin for opening orders', () => {
+      const orders = [
+        createOrder({ quantity: 1, price: 50000, margin: { leverage: 5, mode: 'cross', maintenanceMarginRate: 0.01 } }),
+        createOrder({ id: 'short', side: 'sell', reduceOnly: false, quantity: 1, price: 40000 }),
+      ];
+
+      expect(getReservedBalance(orders, 'portfolio-1')).toBe(50000); // 10000 + 40000
+      expect(getReservedQuantity(orders, 'portfolio-1', 'BTC')).toBe(0);
+    });
+
+    it('should require a short to cover for reduce-only buys', () => {
+      expect(validateLimitOrder(createPortfolio(), [], { symbol: 'BTC', side: 'buy', quantity: 1, price: 3000, reduceOnly: true }))
+        .toBe('No BTC short position to cover');
+    });
+
+    it('should reject sells without a position', () => {
+      expect(validateLimitOrder(createPortfolio(), [], { symbol: 'ETH', side: 'sell', quantity: 1, price: 3000 }))
+        .toBe('No ETH position to sell');
+    });
+  });
+
+  describe('Protective Exits', () => {
+    const position = createPosition({ stopLoss: 45000, takeProfit: 60000 });
+
+    it('should trigger stop-loss and take-profit for long positions', () => {
+      expect(getTriggeredExit(position, 50000)).toBeNull();
+      expect(getTriggeredExit(position, 44900)).toBe('stop_loss');
+      expect(getTriggeredExit(position, 60000)).toBe('take_profit');
+    });
+
+    it('should invert levels for short positions', () => {
+      const short: Position = { ...position, type: 'short', stopLoss: 55000, takeProfit: 40000 };
+      expect(getTriggeredExit(short, 56000)).toBe('stop_loss');
+      expect(getTriggeredExit(short, 39000)).toBe('take_profit');
+    });
+
+    it('should find triggered exits across portfolios', () => {
+      const portfolios = [
+        createPortfolio({ id: 'a', positions: [position] }),
+        createPortfolio({ id: 'b', positions: [{ ...position, id: 'pos-2', stopLoss: undefined }] }),
+      ];
+
+      const triggered = findTriggeredExits(portfolios, { BTC: 44000 });
+      expect(triggered).toHaveLength(1);
+      expect(triggered[0].portfolioId).toBe('a');
+      expect(triggered[0].trigger).toBe('stop_loss');
+    });
+
+    it('should validate exit levels against the reference price', () => {
+      expect(validatePositionExits('long', 50000, { stopLoss: 45000, takeProfit: 55000 })).toBeNull();
+      expect(validatePositionExits('long', 50000, { stopLoss: 51000 })).toContain('below');
+      expect(validatePositionExits('long', 50000, { takeProfit: 49000 })).toContain('above');
+      expect(validatePositionExits('short', 50000, { stopLoss: 49000 })).toContain('above');
+    });
+  });
+
+  describe('Trailing Stops', () => {
+    const position = createPosition({
+      trailingStop: { mode: 'percent', distance: 10, highWaterMark: 60000 },
+    });
+
+    it('should offset the level from the high-water mark by percent or dollars', () => {
+      expect(getTrailingStopLevel('long', { mode: 'percent', distance: 10, highWaterMark: 60000 })).toBe(54000);
+      expect(getTrailingStopLevel('long', { mode: 'absolute', distance: 500, highWaterMark: 60000 })).toBe(59500);
+      expect(getTrailingStopLevel('short', { mode: 'absolute', distance: 500, highWaterMark: 40000 })).toBe(40500);
+    });
+
+    it('should only move the high-water mark in favour of the position', () => {
+      expect(getNextHighWaterMark(position, 61000)).toBe(61000);
+      expect(getNextHighWaterMark(position, 59000)).toBe(60000);
+
+      const short: Position = { ...position, type: 'short', trailingStop: { mode: 'percent', distance: 10, highWaterMark: 40000 } };
+      expect(getNextHighWaterMark(short, 39000)).toBe(39000);
+      expect(getNextHighWaterMark(short, 41000)).toBe(40000);
+    });
+
+    it('should trigger once price retraces to the trailing level', () => {
+      expect(getTriggeredExit(position, 55000)).toBeNull();
+      expect(getTriggeredExit(position, 54000)).toBe('trailing_stop');
+    });
+
+    it('should validate the trailing distance', () => {
+      expect(validateTrailingStop('percent', 5, 50000)).toBeNull();
+      expect(validateTrailingStop('percent', 0, 50000)).toContain('greater than zero');
+      expect(validateTrailingStop('percent', 100, 50000)).toContain('below 100%');
+      expect(validateTrailingStop('absolute', 60000, 50000)).toContain('below');
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import type { FeeLiquidity, Order, OrderBook, OrderGroup, OrderGroupStatus, OrderStatus, TimeInForce } from '@/types/trading';
+import type { Portfolio, Position, PositionExits, TrailingStop } from '@/state/portfolioStore';
+import { calculateInitialMargin, formatCurrency } from '@/utils/calculations';
+import { simulateMarketFill } from '@/utils/execution';
+import { getCurrentTime } from '@/utils/clock';
+
+// ============================================================================
+// ORDER MATCHING
+// ============================================================================
+
+export interface OrderFill {
+  order: Order;
+  fillPrice: number;
+}
+
+/**
+ * Check whether a resting limit order crosses the given mid price
+ */
+export function isLimitOrderMarketable(order: Pick<Order, 'type' | 'side' | 'price'>, price: number): boolean {
+  if (order.type !== 'limit' || order.price === undefined || price <= 0) return false;
+  return order.side === 'buy' ? price <= order.price : price >= order.price;
+}
+
+/**
+ * Liquidity a limit order placed at the given mid will be charged for: one
+ * that already crosses takes from the book, one that rests adds to it
+ */
+export function getPlacementLiquidity(order: Pick<Order, 'type' | 'side' | 'price'>, price: number): FeeLiquidity {
+  return isLimitOrderMarketable(order, price) ? 'taker' : 'maker';
+}
+
+/**
+ * Resolve the fill price for a marketable limit order.
+ * A resting order never fills worse than its limit, but takes the better
+ * mid when the market gaps through it.
+ */
+export function getLimitFillPrice(order: Order, price: number): number {
+  const limit = order.price ?? price;
+  return order.side === 'buy' ? Math.min(limit, price) : Math.max(limit, price);
+}
+
+/**
+ * Check whether a stop order is triggered: sell stops fire at or below
+ * their price, buy stops at or above
+ */
+export function isStopOrderTriggered(order: Order, price: number): boolean {
+  if (order.type !== 'stop' || order.price === undefined || price <= 0) return false;
+  return order.side === 'sell' ? price <= order.price : price >= order.price;
+}
+
+/**
+ * Whether a pending order can fill; bracket exits wait for their entry to fill
+ */
+export function isOrderWorking(order: Order, orders: Order[]): boolean {
+  if (order.status !== 'pending') return false;
+  if (!order.parentId) return true;
+  return orders.find(o => o.id === order.parentId)?.status === 'filled';
+}
+
+/**
+ * Working OCO and bracket exits whose position is gone: closed, liquidated,
+ * transferred or flipped into a new one. Left pending, a reduce-only leg
+ * would fire against the next position in the symbol.
+ */
+export function findOrphanedExits(orders: Order[], portfolios: Portfolio[]): Order[] {
+  return orders.filter(order => {
+    if (order.groupRole !== 'take_profit' && order.groupRole !== 'stop_loss') return false;
+    if (!isOrderWorking(order, orders)) return false;
+
+    const positions = portfolios.find(p => p.id === order.portfolioId)?.positions ?? [];
+    // Legs placed before they were tied to a position need one they would reduce
+    const closingType = order.side === 'sell' ? 'long' : 'short';
+    return order.positionId
+      ? !positions.some(p => p.id === order.positionId)
+      : !positions.some(p => p.symbol === order.symbol && p.type === closingType);
+  });
+}
+
+/**
+ * Find working limit and stop orders that fill against a batch of price updates.
+ * Orders are returned oldest first so earlier orders get priority on cash.
+ * Triggered stops fill at the mid.
+ */
+export function findFillableOrders(
+  orders: Order[],
+  prices: Record<string, number>
+): OrderFill[] {
+  return orders
+    .filter(order => isOrderWorking(order, orders))
+    .filter(order => {
+      const price = prices[order.symbol];
+      return price !== undefined &&
+        (isLimitOrderMarketable(order, price) || isStopOrderTriggered(order, price));
+    })
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(order => ({
+      order,
+      fillPrice: order.type === 'stop'
+        ? prices[order.symbol]
+        : getLimitFillPrice(order, prices[order.symbol]),
+    }));
+}
+
+// ============================================================================
+// TIME IN FORCE
+// ============================================================================
+
+export interface ImmediateOrderResult {
+  status: Extract<OrderStatus, 'filled' | 'cancelled' | 'rejected'>;
+  filledQuantity: number;
+  fillPrice?: number; // Volume-weighted across the book levels taken
+  reason?: string;
+}
+
+/**
+ * Whether an order only executes on placement and never rests
+ */
+export function isImmediateOrder(order: Pick<Order, 'timeInForce'>): boolean {
+  return order.timeInForce === 'ioc' || order.timeInForce === 'fok';
+}
+
+/**
+ * Reason to reject a post-only order that would take liquidity at the mid, or null when it rests
+ */
+export function getPostOnlyRejection(
+  order: Pick<Order, 'type' | 'side' | 'price' | 'timeInForce'>,
+  price: number
+): string | null {
+  if (order.timeInForce !== 'post_only' || !isLimitOrderMarketable(order, price)) return null;
+  return `Post-only order would cross the market at ${formatCurrency(price)}`;
+}
+
+/**
+ * Resolve an IOC or FOK limit order against what is fillable at its limit right now.
+ * IOC keeps whatever fills and cancels the rest; FOK fills in full or is rejected.
+ * Without a book the mid stands in, with unlimited depth.
+ */
+export function resolveImmediateOrder(
+  order: Pick<Order, 'side' | 'quantity' | 'price' | 'timeInForce'>,
+  book: OrderBook | null,
+  midPrice: number
+): ImmediateOrderResult {
+  const limit = order.price ?? midPrice;
+  let filledQuantity = 0;
+  let fillPrice: number | undefined;
+
+  if (book) {
+    const fill = simulateMarketFill(book, order.side, order.quantity, limit);
+    if (fill) {
+      filledQuantity = fill.filledQuantity;
+      fillPrice = fill.averagePrice;
+    }
+  } else if (midPrice > 0 && (order.side === 'buy' ? midPrice <= limit : midPrice >= limit)) {
+    filledQuantity = order.quantity;
+    fillPrice = midPrice;
+  }
+
+  const isComplete = filledQuantity >= order.quantity;
+
+  if (order.timeInForce === 'fok') {
+    return isComplete
+      ? { status: 'filled', filledQuantity, fillPrice }
+      : { status: 'rejected', filledQuantity: 0, reason: `Fill-or-kill: only ${filledQuantity} of ${order.quantity} available at the limit` };
+  }
+
+  if (filledQuantity <= 0) {
+    return { status: 'cancelled', filledQuantity: 0, reason: 'Immediate-or-cancel: nothing available at the limit' };
+  }
+
+  return isComplete
+    ? { status: 'filled', filledQuantity, fillPrice }
+    : { status: 'cancelled', filledQuantity, fillPrice, reason: `Immediate-or-cancel: filled ${filledQuantity} of ${order.quantity}, remainder cancelled` };
+}
+
+/**
+ * Validate the lifetime of a new order; good-till-date needs a future expiry
+ */
+export function validateTimeInForce(
+  timeInForce: TimeInForce,
+  expiresAt: number | undefined,
+  now: number = getCurrentTime()
+): string | null {
+  if (timeInForce !== 'gtd') return null;
+  if (!expiresAt || !Number.isFinite(expiresAt)) return 'Please choose an expiry time';
+  if (expiresAt <= now) return 'Expiry must be in the future';
+  return null;
+}
+
+/**
+ * Pending good-till-date orders whose expiry has passed
+ */
+export function findExpiredOrders(orders: Order[], now: number): Order[] {
+  return orders.filter(order =>
+    order.status === 'pending' &&
+    order.timeInForce === 'gtd' &&
+    order.expiresAt !== undefined &&
+    order.expiresAt <= now
+  );
+}
+
+// ============================================================================
+// ORDER GROUPS
+// ============================================================================
+
+/**
+ * Status of a bracket or OCO group taken as one unit: pending until the
+ * entry fills, active while exits work, filled once either exit fills
+ */
+export function getOrderGroupStatus(group: Omit<OrderGroup, 'status'>): OrderGroupStatus {
+  const exits = [group.takeProfit, group.stopLoss].filter((o): o is Order => !!o);
+
+  if (exits.some(o => o.status === 'filled')) return 'filled';
+  if (group.entry?.status === 'pending') return 'pending';
+  if (group.entry && group.entry.status !== 'filled') return 'cancelled';
+  return exits.some(o => o.status === 'pending') ? 'active' : 'cancelled';
+}
+
+/**
+ * Collect grouped orders into their bracket or OCO groups, oldest first
+ */
+export function getOrderGroups(orders: Order[]): OrderGroup[] {
+  const groups = new Map<string, Omit<OrderGroup, 'status'>>();
+
+  [...orders]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(order => {
+      if (!order.groupId) return;
+      const group = groups.get(order.groupId) ?? { id: order.groupId };
+      if (order.groupRole === 'entry') group.entry = order;
+      if (order.groupRole === 'take_profit') group.takeProfit = order;
+      if (order.groupRole === 'stop_loss') group.stopLoss = order;
+      groups.set(order.groupId, group);
+    });
+
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    status: getOrderGroupStatus(group),
+  }));
+}
+
+// ============================================================================
+// RESERVATIONS
+// ============================================================================
+
+/**
+ * Whether an order only shrinks an opposing position.
+ * Orders placed before shorting existed carry no flag and were spot-style:
+ * buys opened, sells reduced.
+ */
+export function isReduceOnlyOrder(order: Pick<Order, 'side' | 'reduceOnly'>): boolean {
+  return order.reduceOnly ?? order.side === 'sell';
+}
+
+/**
+ * Initial margin held by pending opening orders of a portfolio
+ */
+export function getReservedBalance(
+  orders: Order[],
+  portfolioId: string,
+  excludeOrderId?: string
+): number {
+  return orders
+    .filter(order =>
+      order.portfolioId === portfolioId &&
+      order.status === 'pending' &&
+      !isReduceOnlyOrder(order) &&
+      order.id !== excludeOrderId
+    )
+    .reduce((total, order) =>
+      total + calculateInitialMargin(order.quantity * (order.price ?? 0), order.margin?.leverage ?? 1), 0);
+}
+
+/**
+ * Position quantity of a symbol held by pending reduce-only orders of a portfolio.
+ * OCO legs close the same quantity, so each group counts once; exits of an
+ * unfilled entry hold nothing yet.
+ */
+export function getReservedQuantity(
+  orders: Order[],
+  portfolioId: string,
+  symbol: string,
+  excludeOrderId?: string
+): number {
+  const countedGroups = new Set<string>();
+
+  return orders
+    .filter(order =>
+      order.portfolioId === portfolioId &&
+      order.symbol === symbol &&
+      isOrderWorking(order, orders) &&
+      isReduceOnlyOrder(order) &&
+      order.id !== excludeOrderId
+    )
+    .reduce((total, order) => {
+      if (order.groupId) {
+        if (countedGroups.has(order.groupId)) return total;
+        countedGroups.add(order.groupId);
+      }
+      return total + order.quantity;
+    }, 0);
+}
+
+/**
+ * Cash that is free to spend after pending buy orders are reserved
+ */
+export function getAvailableBalance(portfolio: Portfolio, orders: Order[]): number {
+  return portfolio.balance - getReservedBalance(orders, portfolio.id);
+}
+
+/**
+ * Position quantity of a symbol that is free to close after pending reduce-only orders
+ */
+export function getAvailableQuantity(portfolio: Portfolio, orders: Order[], symbol: string): number {
+  const position = portfolio.positions.find(p => p.symbol === symbol);
+  if (!position) return 0;
+  return position.quantity - getReservedQuantity(orders, portfolio.id, symbol);
+}
+
+/**
+ * Validate a new or modified limit order against the portfolio's free cash or position
+ */
+export function validateLimitOrder(
+  portfolio: Portfolio,
+  orders: Order[],
+  order: Pick<Order, 'symbol' | 'side' | 'quantity' | 'price' | 'reduceOnly' | 'margin'>,
+  excludeOrderId?: string
+): string | null {
+  if (!order.quantity || order.quantity <= 0) return 'Please enter a valid quantity';
+  if (!order.price || order.price <= 0) return 'Please enter a valid limit price';
+
+  const position = portfolio.positions.find(p => p.symbol === order.symbol);
+
+  if (isReduceOnlyOrder(order)) {
+    const closingType = order.side === 'sell' ? 'long' : 'short';
+    if (!position || position.type !== closingType) {
+      return order.side === 'sell'
+        ? `No ${order.symbol} position to sell`
+        : `No ${order.symbol} short position to cover`;
+    }
+
+    const available = position.quantity - getReservedQuantity(orders, portfolio.id, order.symbol, excludeOrderId);
+    if (order.quantity > available) {
+      return `Insufficient quantity. Available: ${available}`;
+    }
+  } else {
+    const available = portfolio.balance - getReservedBalance(orders, portfolio.id, excludeOrderId);
+    const requiredMargin = calculateInitialMargin(order.quantity * order.price, order.margin?.leverage ?? 1);
+    if (requiredMargin > available) {
+      return `Insufficient funds. Available: ${formatCurrency(available)}`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// PROTECTIVE EXITS
+// ============================================================================
+
+export type ExitTrigger = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+export interface TriggeredExit {
+  portfolioId: string;
+  position: Position;
+  trigger: ExitTrigger;
+  price: number;
+}
+
+/**
+ * Check whether a position's stop-loss, take-profit or trailing stop is crossed by the mid
+ */
+export function getTriggeredExit(position: Position, price: number): ExitTrigger | null {
+  if (price <= 0) return null;
+  const isLong = position.type === 'long';
+
+  if (position.stopLoss !== undefined &&
+    (isLong ? price <= position.stopLoss : price >= position.stopLoss)) {
+    return 'stop_loss';
+  }
+
+  if (position.takeProfit !== undefined &&
+    (isLong ? price >= position.takeProfit : price <= position.takeProfit)) {
+    return 'take_profit';
+  }
+
+  if (position.trailingStop) {
+    const level = getTrailingStopLevel(position.type, position.trailingStop);
+    if (isLong ? price <= level : price >= level) {
+      return 'trailing_stop';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find positions across all portfolios whose exits fire on a batch of price updates
+ */
+export function findTriggeredExits(
+  portfolios: Portfolio[],
+  prices: Record<string, number>
+): TriggeredExit[] {
+  const triggered: TriggeredExit[] = [];
+
+  portfolios.forEach(portfolio => {
+    portfolio.positions.forEach(position => {
+      const price = prices[position.symbol];
+      if (price === undefined) return;
+
+      const trigger = getTriggeredExit(position, price);
+      if (trigger) {
+        triggered.push({ portfolioId: portfolio.id, position, trigger, price });
+      }
+    });
+  });
+
+  return triggered;
+}
+
+/**
+ * Validate stop-loss and take-profit levels against the entry or current price
+ */
+export function validatePositionExits(
+  positionType: Position['type'],
+  referencePrice: number,
+  exits: PositionExits
+): string | null {
+  const isLong = positionType === 'long';
+  const { stopLoss, takeProfit } = exits;
+
+  if (stopLoss !== undefined) {
+    if (stopLoss <= 0) return 'Stop-loss must be greater than zero';
+    if (isLong ? stopLoss >= referencePrice : stopLoss <= referencePrice) {
+      return `Stop-loss must be ${isLong ? 'below' : 'above'} ${formatCurrency(referencePrice)}`;
+    }
+  }
+
+  if (takeProfit !== undefined) {
+    if (takeProfit <= 0) return 'Take-profit must be greater than zero';
+    if (isLong ? takeProfit <= referencePrice : takeProfit >= referencePrice) {
+      return `Take-profit must be ${isLong ? 'above' : 'below'} ${formatCurrency(referencePrice)}`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// TRAILING STOPS
+// ============================================================================
+
+/**
+ * Current stop level of a trailing stop, offset from its high-water mark
+ */
+export function getTrailingStopLevel(
+  positionType: Position['type'],
+  trailingStop: TrailingStop
+): number {
+  const { mode, distance, highWaterMark } = trailingStop;
+  const offset = mode === 'percent' ? highWaterMark * (distance / 100) : distance;
+  return positionType === 'long' ? highWaterMark - offset : highWaterMark + offset;
+}
+
+/**
+ * Ratchet the high-water mark in the position's favour; it never moves back
+ */
+export function getNextHighWaterMark(position: Position, price: number): number {
+  const current = position.trailingStop?.highWaterMark ?? price;
+  if (price <= 0) return current;
+  return position.type === 'long' ? Math.max(current, price) : Math.min(current, price);
+}
+
+/**
+ * Validate a trailing distance before it is attached to a position
+ */
+export function validateTrailingStop(
+  mode: TrailingStop['mode'],
+  distance: number,
+  referencePrice: number
+): string | null {
+  if (!distance || distance <= 0) return 'Trailing distance must be greater than zero';
+  if (mode === 'percent' && distance >= 100) return 'Trailing percent must be below 100%';
+  if (mode === 'absolute' && referencePrice > 0 && distance >= referencePrice) {
+    return `Trailing distance must be below ${formatCurrency(referencePrice)}`;
+  }
+  return null;
+}
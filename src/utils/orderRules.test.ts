@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSizeStep,
+  roundSize,
+  getPriceDecimals,
+  roundPrice,
+  isValidSize,
+  isValidPrice,
+  validateOrderRules,
+  validateExitRules,
+} from './orderRules';
+import type { AssetInfo } from '@/types/trading';
+
+const ETH: AssetInfo = { name: 'ETH', szDecimals: 4, maxLeverage: 50, onlyIsolated: false };
+
+describe('Order Rules', () => {
+  it('should round sizes down to the lot step', () => {
+    expect(getSizeStep(4)).toBe(0.0001);
+    expect(roundSize(1.23456, 4)).toBe(1.2345);
+    expect(roundSize(0.3, 1)).toBe(0.3);
+    expect(isValidSize(1.2345, 4)).toBe(true);
+    expect(isValidSize(1.23456, 4)).toBe(false);
+  });
+
+  it('should allow five significant figures capped by size decimals', () => {
+    expect(getPriceDecimals(3456.7, 4)).toBe(1);
+    expect(getPriceDecimals(1.2345, 0)).toBe(4);
+    expect(getPriceDecimals(0.001234, 2)).toBe(4);
+    expect(roundPrice(3456.78, 4)).toBe(3456.8);
+    expect(roundPrice(123456, 4)).toBe(123456);
+    expect(isValidPrice(3456.7, 4)).toBe(true);
+    expect(isValidPrice(3456.75, 4)).toBe(false);
+  });
+
+  it('should reject off-step sizes and off-tick limit prices', () => {
+    expect(validateOrderRules({ symbol: 'ETH', type: 'market', quantity: 1.23456, price: 3000, reduceOnly: false }, ETH))
+      .toContain('steps of 0.0001');
+    expect(validateOrderRules({ symbol: 'ETH', type: 'limit', quantity: 1, price: 3000.56, reduceOnly: false }, ETH))
+      .toContain('Try 3000.6');
+    expect(validateOrderRules({ symbol: 'ETH', type: 'market', quantity: 1, price: 3000.55, reduceOnly: false }, ETH))
+      .toBeNull();
+  });
+
+  it('should enforce minimum notional except on reduce-only orders', () => {
+    expect(validateOrderRules({ symbol: 'ETH', type: 'limit', quantity: 0.001, price: 3000, reduceOnly: false }, ETH))
+      .toContain('at least');
+    expect(validateOrderRules({ symbol: 'ETH', type: 'limit', quantity: 0.001, price: 3000, reduceOnly: true }, ETH))
+      .toBeNull();
+  });
+
+  it('should hold stop-loss and take-profit levels to the price tick', () => {
+    expect(validateExitRules('ETH', { stopLoss: 2900.55, takeProfit: 3100 }, ETH)).toContain('stop-loss tick for ETH. Try 2900.6');
+    expect(validateExitRules('ETH', { stopLoss: 2900.5, takeProfit: 3100.01 }, ETH)).toContain('take-profit tick');
+    expect(validateExitRules('ETH', { stopLoss: 2900.5 }, ETH)).toBeNull();
+  });
+
+  it('should skip checks until asset metadata has loaded', () => {
+    expect(validateOrderRules({ symbol: 'ETH', type: 'limit', quantity: 0.00001, price: 1.234567, reduceOnly: false })).toBeNull();
+  });
+});
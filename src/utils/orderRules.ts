@@ -0,0 +1,104 @@
+import type { AssetInfo, Order } from '@/types/trading';
+import type { PositionExits } from '@/state/portfolioStore';
+import { formatCurrency } from '@/utils/calculations';
+
+// ============================================================================
+// ORDER RULES
+// ============================================================================
+
+// Hyperliquid perp venue rules
+export const MIN_ORDER_NOTIONAL = 10;
+export const PERP_MAX_PRICE_DECIMALS = 6; // Price decimals + szDecimals may not exceed this
+export const MAX_PRICE_SIGNIFICANT_FIGURES = 5; // Integer prices are always allowed
+
+/**
+ * Smallest tradable size increment for an asset
+ */
+export function getSizeStep(szDecimals: number): number {
+  return 1 / Math.pow(10, szDecimals);
+}
+
+/**
+ * Round a size down to the asset's lot size, so rounding never spends more than asked
+ */
+export function roundSize(quantity: number, szDecimals: number): number {
+  const factor = Math.pow(10, szDecimals);
+  // Nudge before flooring so 0.3 doesn't become 0.29999 through float error
+  return Math.floor(quantity * factor + 1e-9) / factor;
+}
+
+/**
+ * Decimals a price may carry: five significant figures, capped by the size decimals
+ */
+export function getPriceDecimals(price: number, szDecimals: number): number {
+  if (price <= 0) return 0;
+  const significantDecimals = MAX_PRICE_SIGNIFICANT_FIGURES - 1 - Math.floor(Math.log10(price));
+  return Math.max(0, Math.min(PERP_MAX_PRICE_DECIMALS - szDecimals, significantDecimals));
+}
+
+/**
+ * Round a price to the nearest valid tick
+ */
+export function roundPrice(price: number, szDecimals: number): number {
+  if (price <= 0) return price;
+  if (Number.isInteger(price)) return price;
+  return parseFloat(price.toFixed(getPriceDecimals(price, szDecimals)));
+}
+
+/**
+ * Check a size is a whole number of lots
+ */
+export function isValidSize(quantity: number, szDecimals: number): boolean {
+  return Math.abs(roundSize(quantity, szDecimals) - quantity) < 1e-12;
+}
+
+/**
+ * Check a price sits on a valid tick
+ */
+export function isValidPrice(price: number, szDecimals: number): boolean {
+  return Math.abs(roundPrice(price, szDecimals) - price) < 1e-12;
+}
+
+/**
+ * Validate an order's size, limit tick and notional against the asset's venue rules.
+ * Market orders are priced at their expected fill, which needn't sit on a tick.
+ * Reduce-only orders skip the minimum notional so dust positions can still be closed.
+ */
+export function validateOrderRules(
+  order: Pick<Order, 'symbol' | 'type' | 'quantity' | 'reduceOnly'> & { price: number },
+  asset?: AssetInfo
+): string | null {
+  if (!asset) return null;
+  const { quantity, price } = order;
+
+  if (!isValidSize(quantity, asset.szDecimals)) {
+    return `${order.symbol} trades in steps of ${getSizeStep(asset.szDecimals)}. Try ${roundSize(quantity, asset.szDecimals)}`;
+  }
+
+  if (order.type === 'limit' && !isValidPrice(price, asset.szDecimals)) {
+    return `Invalid price tick for ${order.symbol}. Try ${roundPrice(price, asset.szDecimals)}`;
+  }
+
+  if (!order.reduceOnly && quantity * price < MIN_ORDER_NOTIONAL) {
+    return `Order value must be at least ${formatCurrency(MIN_ORDER_NOTIONAL)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate stop-loss and take-profit levels on the same price tick as limit
+ * orders, since they rest or trigger as orders at those prices
+ */
+export function validateExitRules(symbol: string, exits: PositionExits, asset?: AssetInfo): string | null {
+  if (!asset) return null;
+
+  const levels = [['stop-loss', exits.stopLoss], ['take-profit', exits.takeProfit]] as const;
+  for (const [label, price] of levels) {
+    if (price !== undefined && !isValidPrice(price, asset.szDecimals)) {
+      return `Invalid ${label} tick for ${symbol}. Try ${roundPrice(price, asset.szDecimals)}`;
+    }
+  }
+
+  return null;
+}
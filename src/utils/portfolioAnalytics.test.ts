@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePortfolioPerformance } from './portfolioAnalytics';
+import { createTestPortfolio, createTestPosition } from '@/test/fixtures';
+
+// 1 BTC at 5x: 10,000 of margin left the 100,000 balance
+const leveraged = (type: 'long' | 'short') => createTestPortfolio({
+  balance: 90000,
+  positions: [createTestPosition({ type, leverage: 5, margin: 10000 })],
+});
+
+describe('Portfolio analytics', () => {
+  describe('calculatePortfolioPerformance', () => {
+    it('should value a leveraged long at its margin plus unrealized P&L', () => {
+      const performance = calculatePortfolioPerformance(leveraged('long'), { BTC: 52000 });
+      expect(performance.totalValue).toBe(102000);
+      expect(performance.totalPnL).toBe(2000);
+      expect(performance.totalInvested).toBe(10000);
+    });
+
+    it('should lose value on a short when the price rises', () => {
+      const performance = calculatePortfolioPerformance(leveraged('short'), { BTC: 52000 });
+      expect(performance.totalValue).toBe(98000);
+      expect(performance.totalPnL).toBe(-2000);
+    });
+
+    it('should count funding and fees toward total P&L', () => {
+      const portfolio = {
+        ...leveraged('long'),
+        transactions: [{
+          id: 'tx-1', symbol: 'BTC', type: 'buy' as const, quantity: 1, price: 50000,
+          timestamp: 0, portfolioId: 'portfolio-1', fee: 25, liquidity: 'taker' as const,
+        }],
+        fundingPayments: [{
+          id: 'funding-1', portfolioId: 'portfolio-1', positionId: 'pos-1', symbol: 'BTC',
+          rate: 0.0001, price: 50000, quantity: 1, amount: -5, time: 0,
+        }],
+      };
+      const performance = calculatePortfolioPerformance(portfolio, { BTC: 52000 });
+      expect(performance.totalPnL).toBe(2000 - 5 - 25);
+    });
+
+    it('should measure the return against what was paid in', () => {
+      const portfolio = {
+        ...leveraged('long'),
+        balance: 92000,
+        cashFlows: [{ id: 'flow-1', portfolioId: 'portfolio-1', type: 'deposit' as const, amount: 2000, balanceAfter: 92000, timestamp: 0 }],
+      };
+      const performance = calculatePortfolioPerformance(portfolio, { BTC: 52000 });
+      expect(performance.netContributions).toBe(102000);
+      expect(performance.totalReturn).toBe(2000);
+      expect(performance.totalReturnPercentage).toBeCloseTo(2000 / 102000 * 100);
+    });
+  });
+});
@@ -1,4 +1,8 @@
 import type { Portfolio } from '@/state/portfolioStore';
+import { getTotalFees } from '@/utils/fees';
+import { getTotalFunding } from '@/utils/funding';
+import { getNetContributions } from '@/utils/cashLedger';
+import { getPositionEquity, getPositionPnL } from '@/utils/margin';
 
 export interface PortfolioPerformance {
     totalValue: number;
@@ -6,8 +10,11 @@ export interface PortfolioPerformance {
     totalPnLPercentage: number;
     dayPnL: number;
     dayPnLPercentage: number;
-    totalInvested: number;
+    totalInvested: number; // Margin posted on open positions
     availableCash: number;
+    netContributions: number; // Starting capital plus deposits less withdrawals
+    totalReturn: number; // Value gained beyond what was paid in
+    totalReturnPercentage: number;
 }
 
 export interface TradingStatistics {
@@ -21,6 +28,7 @@ export interface TradingStatistics {
     averageLoss: number;
     profitFactor: number;
     totalVolume: number;
+    totalFees: number;
 }
 
 export const calculatePortfolioPerformance = (
@@ -37,6 +45,9 @@ export const calculatePortfolioPerformance = (
             dayPnLPercentage: 0,
             totalInvested: 0,
             availableCash: 0,
+            netContributions: 0,
+            totalReturn: 0,
+            totalReturnPercentage: 0,
         };
     }
 
@@ -44,47 +55,38 @@ export const calculatePortfolioPerformance = (
     let totalInvested = 0;
     let totalPnL = 0;
 
-    // Calculate position values and P&L
+    // Only the posted margin left the balance, so a position adds its margin
+    // plus unrealized P&L, signed for longs and shorts
     for (const position of portfolio.positions || []) {
         // Ensure we have valid position data
         if (!position.symbol || !position.quantity || !position.entryPrice) continue;
 
         const currentPrice = currentPrices[position.symbol] || position.entryPrice || 0;
-        const positionValue = position.quantity * currentPrice;
-        const positionCost = position.quantity * position.entryPrice;
-        const positionPnL = positionValue - positionCost;
 
-        totalValue += positionValue;
-        totalInvested += positionCost;
-        totalPnL += positionPnL;
+        totalValue += getPositionEquity(position, currentPrice);
+        totalInvested += position.margin;
+        totalPnL += getPositionPnL(position, currentPrice);
     }
 
-    // Calculate realized P&L from closed transactions
+    // Realized P&L recorded on closing fills under the portfolio's cost basis method
     const realizedPnL = portfolio.transactions
-        .filter(t => t.type === 'sell')
-        .reduce((sum, transaction) => {
-            // Find corresponding buy transaction(s) to calculate realized P&L
-            const buyTransactions = portfolio.transactions.filter(
-                t => t.type === 'buy' &&
-                    t.symbol === transaction.symbol &&
-                    t.timestamp < transaction.timestamp
-            );
-
-            if (buyTransactions.length > 0) {
-                const avgBuyPrice = buyTransactions.reduce((sum, t) => sum + (t.price * t.quantity), 0) /
-                    buyTransactions.reduce((sum, t) => sum + t.quantity, 0);
-                return sum + ((transaction.price - avgBuyPrice) * transaction.quantity);
-            }
-            return sum;
-        }, 0);
-
-    const totalPnLWithRealized = totalPnL + realizedPnL;
+        .reduce((sum, transaction) => sum + (transaction.realizedPnL ?? 0), 0);
+
+    // Funding and fees settle against the balance, so they count toward P&L too
+    const totalPnLWithRealized = totalPnL + realizedPnL
+        + getTotalFunding(portfolio.fundingPayments ?? [])
+        - getTotalFees(portfolio.transactions);
     const totalPnLPercentage = totalInvested > 0 ? (totalPnLWithRealized / totalInvested) * 100 : 0;
 
     // Calculate day P&L (simplified - would need historical data for accurate calculation)
     const dayPnL = totalPnL * 0.1; // Simplified approximation
     const dayPnLPercentage = totalValue > 0 ? (dayPnL / totalValue) * 100 : 0;
 
+    // Cash moved in or out changes the value but isn't a gain or loss
+    const netContributions = getNetContributions(portfolio);
+    const totalReturn = totalValue - netContributions;
+    const totalReturnPercentage = netContributions > 0 ? (totalReturn / netContributions) * 100 : 0;
+
     return {
         totalValue,
         totalPnL: totalPnLWithRealized,
@@ -93,6 +95,9 @@ export const calculatePortfolioPerformance = (
         dayPnLPercentage,
         totalInvested,
         availableCash: portfolio.balance,
+        netContributions,
+        totalReturn,
+        totalReturnPercentage,
     };
 };
 
@@ -112,6 +117,7 @@ export const calculateTradingStatistics = (
             averageLoss: 0,
             profitFactor: 0,
             totalVolume: 0,
+            totalFees: 0,
         };
     }
 
@@ -130,39 +136,15 @@ export const calculateTradingStatistics = (
             averageLoss: 0,
             profitFactor: 0,
             totalVolume: 0,
+            totalFees: 0,
         };
     }
 
-    // Calculate trade results
-    const tradeResults: number[] = [];
-    const sellTransactions = transactions.filter(t => t.type === 'sell');
-
-    for (const sellTx of sellTransactions) {
-        // Find corresponding buy transactions
-        const buyTransactions = transactions.filter(
-            t => t.type === 'buy' &&
-                t.symbol === sellTx.symbol &&
-                t.timestamp < sellTx.timestamp
-        ).sort((a, b) => a.timestamp - b.timestamp);
-
-        if (buyTransactions.length > 0) {
-            // Use FIFO method for calculating P&L
-            let remainingQuantity = sellTx.quantity;
-            let totalCost = 0;
-
-            for (const buyTx of buyTransactions) {
-                const usedQuantity = Math.min(remainingQuantity, buyTx.quantity);
-                totalCost += usedQuantity * buyTx.price;
-                remainingQuantity -= usedQuantity;
-
-                if (remainingQuantity <= 0) break;
-            }
-
-            const revenue = sellTx.quantity * sellTx.price;
-            const pnl = revenue - totalCost;
-            tradeResults.push(pnl);
-        }
-    }
+    // Each closing fill is one trade result: its realized P&L net of the closing fee.
+    // Fills recorded before lot tracking carry no realized P&L and aren't counted.
+    const tradeResults = transactions
+        .filter(t => t.realizedPnL !== undefined)
+        .map(t => (t.realizedPnL ?? 0) - t.fee);
 
     // Calculate statistics
     const winningTrades = tradeResults.filter(pnl => pnl > 0);
@@ -193,5 +175,6 @@ export const calculateTradingStatistics = (
         averageLoss,
         profitFactor,
         totalVolume,
+        totalFees: getTotalFees(transactions),
     };
 };
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReplayTimeline,
+  getCandlePath,
+  getReplayProgress,
+  parseReplaySymbols,
+  takeDueTicks,
+} from './replay';
+import type { ChartDataPoint } from '@/services/chartApi';
+
+const MINUTE = 60 * 1000;
+
+const createCandle = (time: number, open: number, high: number, low: number, close: number): ChartDataPoint => ({
+  time: time / 1000,
+  open,
+  high,
+  low,
+  close,
+  volume: 0,
+});
+
+describe('Market Replay', () => {
+  describe('getCandlePath', () => {
+    it('should dip before rallying on an up candle', () => {
+      expect(getCandlePath(createCandle(0, 100, 110, 95, 105), 4 * MINUTE)).toEqual([
+        { time: 0, price: 100 },
+        { time: MINUTE, price: 95 },
+        { time: 2 * MINUTE, price: 110 },
+        { time: 3 * MINUTE, price: 105 },
+      ]);
+    });
+
+    it('should spike before falling on a down candle', () => {
+      const path = getCandlePath(createCandle(0, 100, 110, 90, 95), 4 * MINUTE);
+      expect(path.map(point => point.price)).toEqual([100, 110, 90, 95]);
+    });
+  });
+
+  describe('buildReplayTimeline', () => {
+    it('should merge symbols into one time-ordered stream', () => {
+      const timeline = buildReplayTimeline({
+        BTC: [createCandle(4 * MINUTE, 50000, 50000, 50000, 50000), createCandle(0, 49000, 49000, 49000, 49000)],
+        ETH: [createCandle(0, 3000, 3000, 3000, 3000)],
+      }, 4 * MINUTE);
+
+      expect(timeline).toHaveLength(8);
+      expect(timeline[0]).toEqual({ time: 0, prices: { BTC: 49000, ETH: 3000 } });
+      expect(timeline[4]).toEqual({ time: 4 * MINUTE, prices: { BTC: 50000 } });
+    });
+  });
+
+  describe('takeDueTicks', () => {
+    const timeline = [
+      { time: 0, prices: { BTC: 1 } },
+      { time: MINUTE, prices: { BTC: 2 } },
+      { time: 2 * MINUTE, prices: { BTC: 3 } },
+    ];
+
+    it('should take every tick up to and including the time', () => {
+      expect(takeDueTicks(timeline, 0, MINUTE)).toEqual({ ticks: timeline.slice(0, 2), cursor: 2 });
+    });
+
+    it('should take nothing before the next tick is due', () => {
+      expect(takeDueTicks(timeline, 2, MINUTE + 1)).toEqual({ ticks: [], cursor: 2 });
+    });
+  });
+
+  describe('getReplayProgress', () => {
+    it('should measure progress between start and end', () => {
+      expect(getReplayProgress(0, 4 * MINUTE, MINUTE)).toBe(25);
+      expect(getReplayProgress(0, 4 * MINUTE, 5 * MINUTE)).toBe(100);
+    });
+  });
+
+  describe('parseReplaySymbols', () => {
+    it('should accept commas or spaces and drop duplicates', () => {
+      expect(parseReplaySymbols(' btc, ETH  sol,eth ')).toEqual(['BTC', 'ETH', 'SOL']);
+    });
+  });
+});
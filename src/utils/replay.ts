@@ -0,0 +1,118 @@
+import type { CandleRequest, ChartDataPoint } from '@/services/chartApi';
+
+// ============================================================================
+// MARKET REPLAY
+// ============================================================================
+
+export type ReplayInterval = Extract<CandleRequest['interval'], '1m' | '5m' | '15m' | '1h'>;
+
+export const REPLAY_INTERVALS: ReplayInterval[] = ['1m', '5m', '15m', '1h'];
+export const REPLAY_SPEEDS = [1, 5, 10, 50, 100, 500, 1000];
+export const REPLAY_CANDLE_LIMIT = 2000; // Candles loaded per symbol from the start date
+export const REPLAY_FRAME_MS = 250; // Wall time between clock advances while playing
+
+const INTERVAL_MS: Record<ReplayInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+export interface ReplayTick {
+  time: number;
+  prices: Record<string, number>; // Mids of every symbol that moved at this time
+}
+
+export interface ReplayPoint {
+  time: number;
+  price: number;
+}
+
+/**
+ * Length of one candle of a replay interval
+ */
+export function getReplayIntervalMs(interval: ReplayInterval): number {
+  return INTERVAL_MS[interval];
+}
+
+/**
+ * Open of the candle a replay starts in. Its first price comes no earlier,
+ * so the session's portfolio is created here to precede all of its fills.
+ */
+export function getReplaySessionStart(startTime: number, interval: ReplayInterval): number {
+  const intervalMs = INTERVAL_MS[interval];
+  return Math.floor(startTime / intervalMs) * intervalMs;
+}
+
+/**
+ * Price path through a candle, spread evenly across it: open, both
+ * extremes, then close. Up candles are assumed to dip before rallying and
+ * down candles to spike before falling, so stops and limits inside the
+ * range still trigger in a plausible order.
+ */
+export function getCandlePath(candle: ChartDataPoint, intervalMs: number): ReplayPoint[] {
+  const start = candle.time * 1000; // Chart candles are stamped in seconds
+  const step = intervalMs / 4;
+  const [first, second] = candle.close >= candle.open
+    ? [candle.low, candle.high]
+    : [candle.high, candle.low];
+
+  return [
+    { time: start, price: candle.open },
+    { time: start + step, price: first },
+    { time: start + 2 * step, price: second },
+    { time: start + 3 * step, price: candle.close },
+  ];
+}
+
+/**
+ * Merge every symbol's candle paths into one time-ordered tick stream
+ */
+export function buildReplayTimeline(
+  candlesBySymbol: Record<string, ChartDataPoint[]>,
+  intervalMs: number
+): ReplayTick[] {
+  const ticks = new Map<number, Record<string, number>>();
+
+  Object.entries(candlesBySymbol).forEach(([symbol, candles]) => {
+    candles.forEach(candle => {
+      getCandlePath(candle, intervalMs).forEach(({ time, price }) => {
+        const prices = ticks.get(time) ?? {};
+        prices[symbol] = price;
+        ticks.set(time, prices);
+      });
+    });
+  });
+
+  return [...ticks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, prices]) => ({ time, prices }));
+}
+
+/**
+ * Ticks from the cursor up to and including a time, and the cursor after them
+ */
+export function takeDueTicks(
+  timeline: ReplayTick[],
+  cursor: number,
+  time: number
+): { ticks: ReplayTick[]; cursor: number } {
+  let next = cursor;
+  while (next < timeline.length && timeline[next].time <= time) next++;
+  return { ticks: timeline.slice(cursor, next), cursor: next };
+}
+
+/**
+ * How far a replay has got between its start and end, from 0 to 100
+ */
+export function getReplayProgress(startTime: number, endTime: number, time: number): number {
+  if (endTime <= startTime) return time >= endTime ? 100 : 0;
+  return Math.min(100, Math.max(0, ((time - startTime) / (endTime - startTime)) * 100));
+}
+
+/**
+ * Parse a comma or space separated symbol list
+ */
+export function parseReplaySymbols(input: string): string[] {
+  return [...new Set(input.split(/[\s,]+/).map(symbol => symbol.trim().toUpperCase()).filter(Boolean))];
+}
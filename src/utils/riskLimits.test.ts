@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkRiskLimits,
+  getConsecutiveLosses,
+  getCooldownUntil,
+  getRiskUsage,
+  getStartOfDay,
+  validateRiskLimits,
+} from './riskLimits';
+import type { Portfolio, Position, Transaction } from '@/state/portfolioStore';
+import type { RiskLimits } from '@/types/trading';
+import { ZERO_FEE_SCHEDULE } from '@/types/trading';
+import { createTestPortfolio, createTestPosition } from '@/test/fixtures';
+
+const NOW = new Date(2024, 0, 15, 12, 0, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+const createPosition = (overrides: Partial<Position> = {}): Position =>
+  createTestPosition({ quantity: 0.5, margin: 25000, ...overrides });
+
+const createClose = (realizedPnL: number, timestamp: number, fee = 0): Transaction => ({
+  id: `tx-${timestamp}`,
+  symbol: 'BTC',
+  type: 'sell',
+  quantity: 0.1,
+  price: 50000,
+  timestamp,
+  portfolioId: 'portfolio-1',
+  fee,
+  liquidity: 'taker',
+  realizedPnL,
+});
+
+const createPortfolio = (riskLimits: RiskLimits, overrides: Partial<Portfolio> = {}): Portfolio =>
+  createTestPortfolio({
+    balance: 75000,
+    positions: [createPosition()],
+    feeSchedule: ZERO_FEE_SCHEDULE,
+    riskLimits,
+    ...overrides,
+  });
+
+const buy = (symbol: string, quantity: number, price: number) => ({ symbol, type: 'buy' as const, quantity, price });
+
+describe('Risk Limits', () => {
+  describe('getRiskUsage', () => {
+    it('should measure usage against equity and today only', () => {
+      const portfolio = createPortfolio({}, {
+        transactions: [
+          createClose(-500, NOW - 24 * HOUR),
+          createClose(-300, NOW - 2 * HOUR, 10),
+          createClose(100, NOW - HOUR),
+        ],
+      });
+      const usage = getRiskUsage(portfolio, { BTC: 50000 }, NOW);
+
+      expect(usage.equity).toBe(100000);
+      expect(usage.largestPositionPercent).toBe(25);
+      expect(usage.openPositions).toBe(1);
+      expect(usage.dailyPnL).toBe(-300 - 10 + 100);
+      expect(usage.tradesToday).toBe(2);
+    });
+
+    it('should reset daily usage at local midnight', () => {
+      expect(getStartOfDay(NOW)).toBe(new Date(2024, 0, 15).getTime());
+    });
+  });
+
+  describe('getConsecutiveLosses', () => {
+    it('should count losing closes back to the last winner', () => {
+      expect(getConsecutiveLosses([
+        createClose(-100, 1000),
+        createClose(200, 2000),
+        createClose(-50, 3000),
+        createClose(10, 4000, 20), // A win eaten by its fee is a loss
+      ])).toBe(2);
+    });
+  });
+
+  describe('getCooldownUntil', () => {
+    const streak = [createClose(-100, NOW - 20 * 60 * 1000), createClose(-100, NOW - 10 * 60 * 1000)];
+
+    it('should cool down from the last loss of a streak', () => {
+      const portfolio = createPortfolio({ maxConsecutiveLosses: 2, lossCooldownMinutes: 30 }, { transactions: streak });
+      expect(getCooldownUntil(portfolio, NOW)).toBe(NOW + 20 * 60 * 1000);
+    });
+
+    it('should lift once the cooldown has passed', () => {
+      const portfolio = createPortfolio({ maxConsecutiveLosses: 2, lossCooldownMinutes: 5 }, { transactions: streak });
+      expect(getCooldownUntil(portfolio, NOW)).toBeNull();
+    });
+  });
+
+  describe('checkRiskLimits', () => {
+    it('should allow anything without limits', () => {
+      expect(checkRiskLimits(createPortfolio({}), buy('ETH', 100, 3000), {}, NOW)).toBeNull();
+    });
+
+    it('should cap the resulting position as a share of equity', () => {
+      const portfolio = createPortfolio({ maxPositionPercent: 30 });
+
+      expect(checkRiskLimits(portfolio, buy('BTC', 0.05, 50000), {}, NOW)).toBeNull();
+      expect(checkRiskLimits(portfolio, buy('BTC', 0.4, 50000), {}, NOW)).toContain('45.0% of equity');
+    });
+
+    it('should limit the number of open positions', () => {
+      const portfolio = createPortfolio({ maxOpenPositions: 1 });
+
+      expect(checkRiskLimits(portfolio, buy('ETH', 1, 3000), {}, NOW)).toContain('Open position limit of 1');
+      expect(checkRiskLimits(portfolio, buy('BTC', 0.1, 50000), {}, NOW)).toBeNull();
+    });
+
+    it('should lock out new exposure after the daily loss limit', () => {
+      const portfolio = createPortfolio({ maxDailyLoss: 1000 }, { transactions: [createClose(-1200, NOW - HOUR)] });
+      expect(checkRiskLimits(portfolio, buy('ETH', 1, 3000), {}, NOW)).toContain('Daily loss limit');
+    });
+
+    it('should stop trading after the daily trade count', () => {
+      const portfolio = createPortfolio({ maxTradesPerDay: 1 }, { transactions: [createClose(100, NOW - HOUR)] });
+      expect(checkRiskLimits(portfolio, buy('ETH', 1, 3000), {}, NOW)).toContain('Daily trade limit of 1');
+    });
+
+    it('should pause trading during a loss cooldown', () => {
+      const portfolio = createPortfolio(
+        { maxConsecutiveLosses: 1, lossCooldownMinutes: 60 },
+        { transactions: [createClose(-100, NOW - 10 * 60 * 1000)] }
+      );
+      expect(checkRiskLimits(portfolio, buy('ETH', 1, 3000), {}, NOW)).toContain('Trading paused after 1 losses');
+    });
+
+    it('should always allow reducing a position', () => {
+      const portfolio = createPortfolio(
+        { maxDailyLoss: 100, maxTradesPerDay: 1, maxPositionPercent: 1 },
+        { transactions: [createClose(-1200, NOW - HOUR)] }
+      );
+      const sell = { symbol: 'BTC', type: 'sell' as const, quantity: 0.5, price: 50000 };
+
+      expect(checkRiskLimits(portfolio, sell, {}, NOW)).toBeNull();
+      expect(checkRiskLimits(portfolio, { ...sell, quantity: 0.6 }, {}, NOW)).toContain('Daily loss limit');
+    });
+  });
+
+  describe('validateRiskLimits', () => {
+    it('should require positive limits and whole counts', () => {
+      expect(validateRiskLimits({ maxDailyLoss: 500, maxOpenPositions: 3 })).toBeNull();
+      expect(validateRiskLimits({ maxDailyLoss: -1 })).toBe('Limits must be greater than zero');
+      expect(validateRiskLimits({ maxTradesPerDay: 2.5 })).toContain('whole numbers');
+    });
+  });
+});
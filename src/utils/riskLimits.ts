@@ -0,0 +1,169 @@
+import type { Portfolio, TradeRequest, Transaction } from '@/state/portfolioStore';
+import { DEFAULT_RISK_LIMITS } from '@/types/trading';
+import type { RiskLimits } from '@/types/trading';
+import { formatCurrency } from '@/utils/calculations';
+import { getMarginSummary, getPositionDirection } from '@/utils/margin';
+import { getCurrentTime } from '@/utils/clock';
+
+// ============================================================================
+// RISK LIMITS
+// ============================================================================
+
+export const DEFAULT_LOSS_COOLDOWN_MINUTES = 60;
+
+export interface RiskUsage {
+  equity: number;
+  largestPositionPercent: number; // Largest open position's notional as % of equity
+  openPositions: number;
+  dailyPnL: number; // Realized P&L net of fees since local midnight
+  tradesToday: number;
+  consecutiveLosses: number;
+  cooldownUntil: number | null; // Set while a losing streak locks out new trades
+}
+
+/**
+ * A portfolio's rules, treating portfolios saved before risk limits as unlimited
+ */
+export function getRiskLimits(portfolio: Pick<Portfolio, 'riskLimits'>): RiskLimits {
+  return portfolio.riskLimits ?? DEFAULT_RISK_LIMITS;
+}
+
+/**
+ * Local midnight of the day containing a time; daily limits reset here
+ */
+export function getStartOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Closing fills carry realized P&L; every fill pays its fee
+function getNetRealizedPnL(transaction: Transaction): number {
+  return (transaction.realizedPnL ?? 0) - transaction.fee;
+}
+
+/**
+ * Losing closes in a row, counting back from the most recent close
+ */
+export function getConsecutiveLosses(transactions: Transaction[]): number {
+  const closes = transactions
+    .filter(tx => tx.realizedPnL !== undefined)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  let losses = 0;
+  for (const tx of closes) {
+    if (getNetRealizedPnL(tx) >= 0) break;
+    losses++;
+  }
+  return losses;
+}
+
+/**
+ * When the current losing streak's cooldown ends, or null if no cooldown applies
+ */
+export function getCooldownUntil(portfolio: Portfolio, now: number): number | null {
+  const { maxConsecutiveLosses, lossCooldownMinutes = DEFAULT_LOSS_COOLDOWN_MINUTES } = getRiskLimits(portfolio);
+  if (!maxConsecutiveLosses) return null;
+  if (getConsecutiveLosses(portfolio.transactions) < maxConsecutiveLosses) return null;
+
+  const lastClose = Math.max(
+    ...portfolio.transactions.filter(tx => tx.realizedPnL !== undefined).map(tx => tx.timestamp)
+  );
+  const cooldownUntil = lastClose + lossCooldownMinutes * 60 * 1000;
+  return cooldownUntil > now ? cooldownUntil : null;
+}
+
+/**
+ * Current usage against each rule, for enforcement and the rules dashboard
+ */
+export function getRiskUsage(
+  portfolio: Portfolio,
+  currentPrices: Record<string, number>,
+  now: number = getCurrentTime()
+): RiskUsage {
+  const { equity } = getMarginSummary(portfolio, currentPrices);
+  const startOfDay = getStartOfDay(now);
+  const today = portfolio.transactions.filter(tx => tx.timestamp >= startOfDay);
+
+  const largestNotional = portfolio.positions.reduce((largest, position) => {
+    const price = currentPrices[position.symbol] || position.entryPrice;
+    return Math.max(largest, position.quantity * price);
+  }, 0);
+
+  return {
+    equity,
+    largestPositionPercent: equity > 0 ? (largestNotional / equity) * 100 : 0,
+    openPositions: portfolio.positions.length,
+    dailyPnL: today.reduce((sum, tx) => sum + getNetRealizedPnL(tx), 0),
+    tradesToday: today.length,
+    consecutiveLosses: getConsecutiveLosses(portfolio.transactions),
+    cooldownUntil: getCooldownUntil(portfolio, now),
+  };
+}
+
+/**
+ * Check a trade against the portfolio's risk rules. Trades that only reduce
+ * a position are always allowed so a locked-out trader can still get flat.
+ * Returns the reason the trade is rejected, or null if it may proceed.
+ */
+export function checkRiskLimits(
+  portfolio: Portfolio,
+  trade: Pick<TradeRequest, 'symbol' | 'type' | 'quantity' | 'price'>,
+  currentPrices: Record<string, number>,
+  now: number = getCurrentTime()
+): string | null {
+  const limits = getRiskLimits(portfolio);
+  const existing = portfolio.positions.find(p => p.symbol === trade.symbol);
+  const tradeDirection = trade.type === 'buy' ? 1 : -1;
+  const isOpposite = !!existing && getPositionDirection(existing) !== tradeDirection;
+
+  // Quantity the position ends up with in the trade's direction
+  const openingQuantity = !existing ? trade.quantity
+    : isOpposite ? trade.quantity - existing.quantity
+      : existing.quantity + trade.quantity;
+  if (openingQuantity <= 0) return null;
+
+  const usage = getRiskUsage(portfolio, currentPrices, now);
+
+  if (usage.cooldownUntil !== null) {
+    const until = new Date(usage.cooldownUntil).toLocaleTimeString();
+    return `Trading paused after ${usage.consecutiveLosses} losses in a row. Resumes at ${until}`;
+  }
+
+  if (limits.maxDailyLoss !== undefined && usage.dailyPnL <= -limits.maxDailyLoss) {
+    return `Daily loss limit of ${formatCurrency(limits.maxDailyLoss)} reached. Only reducing trades are allowed today`;
+  }
+
+  if (limits.maxTradesPerDay !== undefined && usage.tradesToday >= limits.maxTradesPerDay) {
+    return `Daily trade limit of ${limits.maxTradesPerDay} reached. Only reducing trades are allowed today`;
+  }
+
+  if (limits.maxOpenPositions !== undefined && !existing && usage.openPositions >= limits.maxOpenPositions) {
+    return `Open position limit of ${limits.maxOpenPositions} reached`;
+  }
+
+  if (limits.maxPositionPercent !== undefined) {
+    if (usage.equity <= 0) return 'No equity to size a position against';
+
+    const positionPercent = (openingQuantity * trade.price) / usage.equity * 100;
+    if (positionPercent > limits.maxPositionPercent) {
+      return `Position would be ${positionPercent.toFixed(1)}% of equity, above the ${limits.maxPositionPercent}% limit`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate rule values before saving them
+ */
+export function validateRiskLimits(limits: RiskLimits): string | null {
+  const values = Object.values(limits).filter((value): value is number => value !== undefined);
+  if (values.some(value => !Number.isFinite(value) || value <= 0)) return 'Limits must be greater than zero';
+
+  const counts = [limits.maxOpenPositions, limits.maxTradesPerDay, limits.maxConsecutiveLosses];
+  if (counts.some(value => value !== undefined && !Number.isInteger(value))) {
+    return 'Position, trade and loss counts must be whole numbers';
+  }
+  return null;
+}
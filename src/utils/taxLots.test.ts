@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { closeLots, formatHoldingPeriod, getLotsAverageCost, getPositionLots } from './taxLots';
+import type { Position, TaxLot } from '@/state/portfolioStore';
+import { createTestPosition } from '@/test/fixtures';
+
+const HOUR = 60 * 60 * 1000;
+
+const lots: TaxLot[] = [
+  { id: 'lot-1', quantity: 1, price: 100, openedAt: 0 },
+  { id: 'lot-2', quantity: 1, price: 300, openedAt: HOUR },
+  { id: 'lot-3', quantity: 1, price: 200, openedAt: 2 * HOUR },
+];
+
+const createPosition = (overrides: Partial<Position> = {}): Position =>
+  createTestPosition({ quantity: 3, entryPrice: 200, lots, margin: 600, ...overrides });
+
+describe('taxLots', () => {
+  describe('closeLots', () => {
+    it('closes the oldest lots first under FIFO', () => {
+      const result = closeLots(createPosition(), 1.5, 250, 'fifo', 4 * HOUR);
+      expect(result.closedLots.map(lot => [lot.lotId, lot.quantity])).toEqual([['lot-1', 1], ['lot-2', 0.5]]);
+      expect(result.realizedPnL).toBe(150 - 25);
+      expect(result.remainingLots.map(lot => [lot.id, lot.quantity])).toEqual([['lot-2', 0.5], ['lot-3', 1]]);
+    });
+
+    it('closes the newest lots first under LIFO', () => {
+      const result = closeLots(createPosition(), 1, 250, 'lifo', 4 * HOUR);
+      expect(result.closedLots[0].lotId).toBe('lot-3');
+      expect(result.realizedPnL).toBe(50);
+    });
+
+    it('closes the highest entry first for longs under HIFO', () => {
+      const result = closeLots(createPosition(), 1, 250, 'hifo', 4 * HOUR);
+      expect(result.closedLots[0].lotId).toBe('lot-2');
+      expect(result.realizedPnL).toBe(-50);
+    });
+
+    it('closes the lowest entry first for shorts under HIFO', () => {
+      const result = closeLots(createPosition({ type: 'short' }), 1, 250, 'hifo', 4 * HOUR);
+      expect(result.closedLots[0].lotId).toBe('lot-1');
+      expect(result.realizedPnL).toBe(-150);
+    });
+
+    it('reprices every lot to the average under average cost', () => {
+      const result = closeLots(createPosition(), 1, 250, 'average', 4 * HOUR);
+      expect(result.realizedPnL).toBe(50);
+      expect(result.remainingLots.every(lot => lot.price === 200)).toBe(true);
+    });
+
+    it('weights the holding period by quantity', () => {
+      const result = closeLots(createPosition(), 2, 250, 'fifo', 4 * HOUR);
+      expect(result.holdingPeriodMs).toBe(3.5 * HOUR);
+    });
+  });
+
+  describe('getPositionLots', () => {
+    it('treats a position without lots as a single lot at its entry', () => {
+      const position = createPosition({ lots: [] });
+      expect(getPositionLots(position)).toEqual([
+        { id: 'pos-1_lot', quantity: 3, price: 200, openedAt: 0 },
+      ]);
+    });
+  });
+
+  describe('getLotsAverageCost', () => {
+    it('weights entry prices by quantity', () => {
+      expect(getLotsAverageCost([lots[0], { ...lots[1], quantity: 3 }])).toBe(250);
+      expect(getLotsAverageCost([])).toBe(0);
+    });
+  });
+
+  describe('formatHoldingPeriod', () => {
+    it('picks a readable unit', () => {
+      expect(formatHoldingPeriod(30 * 1000)).toBe('30s');
+      expect(formatHoldingPeriod(15 * 60 * 1000)).toBe('15m');
+      expect(formatHoldingPeriod(3 * HOUR)).toBe('3.0h');
+      expect(formatHoldingPeriod(72 * HOUR)).toBe('3.0d');
+    });
+  });
+});
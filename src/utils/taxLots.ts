@@ -0,0 +1,143 @@
+import type { ClosedLot, Position, TaxLot } from '@/state/portfolioStore';
+import type { CostBasisMethod } from '@/types/trading';
+
+// ============================================================================
+// TAX LOTS
+// ============================================================================
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  hifo: 'HIFO',
+  average: 'Average cost',
+};
+
+export interface LotClosing {
+  closedLots: ClosedLot[];
+  remainingLots: TaxLot[];
+  realizedPnL: number;
+  holdingPeriodMs: number; // Quantity-weighted age of the closed lots
+}
+
+/**
+ * Open a new lot for a fill
+ */
+export function createLot(
+  quantity: number,
+  price: number,
+  openedAt: number,
+  id: string = `lot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+): TaxLot {
+  return {
+    id,
+    quantity,
+    price,
+    openedAt,
+  };
+}
+
+/**
+ * A position's lots, treating positions opened before lot tracking as one lot
+ */
+export function getPositionLots(position: Position): TaxLot[] {
+  if (position.lots?.length) return position.lots;
+  return [{
+    id: `${position.id}_lot`,
+    quantity: position.quantity,
+    price: position.entryPrice,
+    openedAt: position.entryTime,
+  }];
+}
+
+/**
+ * Quantity-weighted entry price across lots
+ */
+export function getLotsAverageCost(lots: TaxLot[]): number {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (quantity <= 0) return 0;
+  return lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0) / quantity;
+}
+
+/**
+ * Order lots by which should close first. HIFO closes the lot with the least
+ * gain first: the highest entry for longs and the lowest for shorts. Average
+ * cost reprices every lot to the average, then closes oldest first so holding
+ * periods stay meaningful.
+ */
+function orderLotsForClose(lots: TaxLot[], method: CostBasisMethod, direction: number): TaxLot[] {
+  const byAge = [...lots].sort((a, b) => a.openedAt - b.openedAt);
+
+  switch (method) {
+    case 'lifo':
+      return byAge.reverse();
+    case 'hifo':
+      return byAge.sort((a, b) => direction * (b.price - a.price));
+    case 'average': {
+      const averageCost = getLotsAverageCost(lots);
+      return byAge.map(lot => ({ ...lot, price: averageCost }));
+    }
+    default:
+      return byAge;
+  }
+}
+
+/**
+ * Close a quantity of a position's lots at a price under the given method,
+ * returning what closed, what remains and the realized P&L before fees
+ */
+export function closeLots(
+  position: Position,
+  quantity: number,
+  price: number,
+  method: CostBasisMethod,
+  now: number
+): LotClosing {
+  const direction = position.type === 'long' ? 1 : -1;
+  const ordered = orderLotsForClose(getPositionLots(position), method, direction);
+  const closedLots: ClosedLot[] = [];
+  const remainingLots: TaxLot[] = [];
+  let remaining = quantity;
+
+  for (const lot of ordered) {
+    const closeQuantity = Math.min(remaining, lot.quantity);
+
+    if (closeQuantity > 0) {
+      closedLots.push({
+        lotId: lot.id,
+        quantity: closeQuantity,
+        entryPrice: lot.price,
+        openedAt: lot.openedAt,
+        realizedPnL: direction * (price - lot.price) * closeQuantity,
+      });
+      remaining -= closeQuantity;
+    }
+
+    // Drop float dust so a fully closed lot doesn't linger
+    const left = lot.quantity - closeQuantity;
+    if (left > 1e-12) remainingLots.push({ ...lot, quantity: left });
+  }
+
+  const closedQuantity = closedLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const holdingPeriodMs = closedQuantity > 0
+    ? closedLots.reduce((sum, lot) => sum + lot.quantity * (now - lot.openedAt), 0) / closedQuantity
+    : 0;
+
+  return {
+    closedLots,
+    remainingLots: remainingLots.sort((a, b) => a.openedAt - b.openedAt),
+    realizedPnL: closedLots.reduce((sum, lot) => sum + lot.realizedPnL, 0),
+    holdingPeriodMs,
+  };
+}
+
+/**
+ * Format a holding period as the largest sensible unit
+ */
+export function formatHoldingPeriod(ms: number): string {
+  const minutes = ms / 60000;
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { filterByWatchlist, moveWatchlist, validateWatchlistName } from './watchlists';
+import type { Watchlist } from '@/types/trading';
+
+const watchlist = (id: string, order: number, symbols: string[] = []): Watchlist => ({
+  id,
+  name: id,
+  symbols,
+  order,
+  createdAt: 0,
+});
+
+describe('Watchlists', () => {
+  describe('moveWatchlist', () => {
+    it('should swap a watchlist with its neighbour and renumber the order', () => {
+      const moved = moveWatchlist([watchlist('a', 0), watchlist('b', 1), watchlist('c', 2)], 'c', -1);
+      expect(moved.map(w => [w.id, w.order])).toEqual([['a', 0], ['c', 1], ['b', 2]]);
+    });
+
+    it('should leave the list alone at either end', () => {
+      const watchlists = [watchlist('a', 0), watchlist('b', 1)];
+      expect(moveWatchlist(watchlists, 'a', -1)).toBe(watchlists);
+      expect(moveWatchlist(watchlists, 'b', 1)).toBe(watchlists);
+    });
+  });
+
+  describe('filterByWatchlist', () => {
+    it('should keep only the watchlist\'s assets, or all without one', () => {
+      const assets = [{ symbol: 'BTC' }, { symbol: 'ETH' }, { symbol: 'SOL' }];
+      expect(filterByWatchlist(assets, watchlist('a', 0, ['SOL', 'BTC']))).toEqual([{ symbol: 'BTC' }, { symbol: 'SOL' }]);
+      expect(filterByWatchlist(assets, null)).toBe(assets);
+    });
+  });
+
+  describe('validateWatchlistName', () => {
+    it('should require a unique, non-empty name', () => {
+      const watchlists = [{ ...watchlist('a', 0), name: 'Majors' }];
+      expect(validateWatchlistName('Memes', watchlists)).toBeNull();
+      expect(validateWatchlistName('  ', watchlists)).toMatch(/name/);
+      expect(validateWatchlistName('majors', watchlists)).toMatch(/already exists/);
+      expect(validateWatchlistName('Majors', watchlists, 'a')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import type { CryptoAsset, Watchlist } from '@/types/trading';
+
+// ============================================================================
+// WATCHLISTS
+// ============================================================================
+
+export const MAX_WATCHLIST_NAME_LENGTH = 32;
+
+/**
+ * Move a watchlist up or down the list, renumbering every watchlist's order
+ */
+export function moveWatchlist(watchlists: Watchlist[], id: string, offset: -1 | 1): Watchlist[] {
+  const sorted = [...watchlists].sort((a, b) => a.order - b.order);
+  const index = sorted.findIndex(watchlist => watchlist.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= sorted.length) return watchlists;
+
+  [sorted[index], sorted[target]] = [sorted[target], sorted[index]];
+  return sorted.map((watchlist, order) => ({ ...watchlist, order }));
+}
+
+/**
+ * Assets on a watchlist, or every asset when no watchlist is selected
+ */
+export function filterByWatchlist<T extends Pick<CryptoAsset, 'symbol'>>(assets: T[], watchlist: Watchlist | null | undefined): T[] {
+  if (!watchlist) return assets;
+  const symbols = new Set(watchlist.symbols);
+  return assets.filter(asset => symbols.has(asset.symbol));
+}
+
+/**
+ * Validate a watchlist name, which must be unique among the watchlists
+ */
+export function validateWatchlistName(name: string, watchlists: Watchlist[], excludeId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Give the watchlist a name';
+  if (trimmed.length > MAX_WATCHLIST_NAME_LENGTH) return `Names can be at most ${MAX_WATCHLIST_NAME_LENGTH} characters`;
+  if (watchlists.some(w => w.id !== excludeId && w.name.toLowerCase() === trimmed.toLowerCase())) {
+    return 'A watchlist with that name already exists';
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+// Web Worker for strategy backtests
+// Long runs over many candles stay off the UI thread
+
+import { runBacktest } from '@/utils/backtest';
+import type { BacktestResult } from '@/utils/backtest';
+import type { ChartDataPoint } from '@/services/chartApi';
+import type { BacktestConfig } from '@/types/trading';
+
+export interface BacktestRequest {
+    type: 'RUN_BACKTEST';
+    data: {
+        config: BacktestConfig;
+        candles: Record<string, ChartDataPoint[]>;
+    };
+}
+
+export interface BacktestResponse {
+    type: string;
+    result: BacktestResult | null;
+    error?: string;
+}
+
+// Main message handler
+self.onmessage = function (e: MessageEvent<BacktestRequest & { messageId: number }>) {
+    const { type, data, messageId } = e.data;
+
+    try {
+        if (type !== 'RUN_BACKTEST') {
+            throw new Error(`Unknown backtest request: ${type}`);
+        }
+
+        const response: BacktestResponse = { type, result: runBacktest(data.config, data.candles) };
+        self.postMessage({ ...response, messageId });
+
+    } catch (error) {
+        const response: BacktestResponse = {
+            type,
+            result: null,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+        self.postMessage({ ...response, messageId });
+    }
+};
@@ -1,6 +1,10 @@
 // Web Worker for heavy portfolio calculations
 // This runs in a separate thread to avoid blocking the UI
 
+import { getNetContributions } from '@/utils/cashLedger';
+import { getPositionEquity, getPositionPnL } from '@/utils/margin';
+import type { CashFlow, Position, Transfer } from '@/state/portfolioStore';
+
 export interface CalculationRequest {
     type: 'CALCULATE_PORTFOLIO_METRICS' | 'CALCULATE_RISK_METRICS' | 'CALCULATE_PERFORMANCE_ANALYTICS';
     data: any;
@@ -12,21 +16,14 @@ export interface CalculationResponse {
     error?: string;
 }
 
-interface Position {
-    id: string;
-    symbol: string;
-    quantity: number;
-    entryPrice: number;
-    entryTime: number;
-    type: 'long' | 'short';
-}
-
 interface Portfolio {
     id: string;
     name: string;
     balance: number;
     initialBalance: number;
     positions: Position[];
+    cashFlows: CashFlow[];
+    transfers?: Transfer[];
     transactions: any[];
     createdAt: number;
 }
@@ -45,7 +42,7 @@ function calculatePortfolioMetrics(
     positionMetrics: Array<{
         symbol: string;
         currentPrice: number;
-        marketValue: number;
+        marketValue: number; // Posted margin plus unrealized P&L
         unrealizedPnL: number;
         unrealizedPnLPercent: number;
         weight: number; // Position weight in portfolio
@@ -53,9 +50,9 @@ function calculatePortfolioMetrics(
 } {
     const positionMetrics = portfolio.positions.map(position => {
         const currentPrice = currentPrices[position.symbol] || position.entryPrice;
-        const marketValue = position.quantity * currentPrice;
+        const marketValue = getPositionEquity(position, currentPrice);
         const costBasis = position.quantity * position.entryPrice;
-        const unrealizedPnL = marketValue - costBasis;
+        const unrealizedPnL = getPositionPnL(position, currentPrice);
         const unrealizedPnLPercent = (unrealizedPnL / costBasis) * 100;
 
         return {
@@ -70,8 +67,10 @@ function calculatePortfolioMetrics(
 
     const positionsValue = positionMetrics.reduce((sum, pos) => sum + pos.marketValue, 0);
     const totalValue = portfolio.balance + positionsValue;
-    const totalPnL = totalValue - portfolio.initialBalance;
-    const totalPnLPercent = (totalPnL / portfolio.initialBalance) * 100;
+    // Deposits, withdrawals and transfers move the value without being profit
+    const netContributions = getNetContributions(portfolio);
+    const totalPnL = totalValue - netContributions;
+    const totalPnLPercent = netContributions > 0 ? (totalPnL / netContributions) * 100 : 0;
 
     // Calculate position weights
     positionMetrics.forEach(pos => {
@@ -108,13 +107,13 @@ function calculateRiskMetrics(
     const positions = portfolio.positions;
     const totalValue = portfolio.balance + positions.reduce((sum, pos) => {
         const currentPrice = currentPrices[pos.symbol] || pos.entryPrice;
-        return sum + (pos.quantity * currentPrice);
+        return sum + getPositionEquity(pos, currentPrice);
     }, 0);
 
     // Calculate concentration risk (Herfindahl Index)
     const concentrationRisk = positions.reduce((sum, pos) => {
         const currentPrice = currentPrices[pos.symbol] || pos.entryPrice;
-        const weight = totalValue > 0 ? ((pos.quantity * currentPrice) / totalValue) : 0;
+        const weight = totalValue > 0 ? (getPositionEquity(pos, currentPrice) / totalValue) : 0;
         return sum + (weight * weight);
     }, 0) * 100;
 
@@ -0,0 +1,142 @@
+// Web Worker that runs one user-scripted trading bot
+// The app only hears from a script through the messages below, and checks
+// every order against the bot's portfolio and symbols before placing it
+
+import type {
+    BotAccount,
+    BotCandle,
+    BotFill,
+    BotHostMessage,
+    BotOrderRequest,
+    BotWorkerMessage,
+} from '@/utils/bots';
+
+interface BotHandlers {
+    onPrice?: (prices: Record<string, number>, ctx: BotContext) => void;
+    onCandle?: (symbol: string, candle: BotCandle, ctx: BotContext) => void;
+    onFill?: (fill: BotFill, ctx: BotContext) => void;
+}
+
+interface BotContext {
+    buy: (symbol: string, quantity: number) => void;
+    sell: (symbol: string, quantity: number) => void;
+    limit: (side: 'buy' | 'sell', symbol: string, quantity: number, price: number) => void;
+    cancelOrders: (symbol?: string) => void;
+    log: (...args: unknown[]) => void;
+    getPrice: (symbol: string) => number | undefined;
+    getPosition: (symbol: string) => BotAccount['positions'][number] | undefined;
+    getOpenOrders: (symbol?: string) => BotAccount['openOrders'];
+    readonly balance: number;
+    state: Record<string, unknown>; // Survives between calls for the life of the bot
+}
+
+// Keep our own handles before the sandbox hides the globals
+const postToApp = self.postMessage.bind(self);
+const listen = self.addEventListener.bind(self);
+const post = (message: BotWorkerMessage) => postToApp(message);
+
+// Globals that reach the network, storage or other threads. They are removed
+// from the worker and shadowed inside the script so well-meaning scripts stay
+// on the context API. This is not a sandbox: import() and Function('return
+// this')() still reach the real global scope. What protects the app is the
+// worker boundary, which keeps scripts off the page, and the host, which
+// checks every message a script sends.
+const BLOCKED_GLOBALS = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+    'Worker', 'SharedWorker', 'BroadcastChannel', 'postMessage', 'addEventListener', 'onmessage',
+    'close', 'self', 'globalThis',
+];
+
+let handlers: BotHandlers = {};
+let account: BotAccount = { balance: 0, positions: [], openOrders: [] };
+const prices: Record<string, number> = {};
+const state: Record<string, unknown> = {};
+
+const format = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    try {
+        return JSON.stringify(value);
+    } catch {
+        return String(value);
+    }
+};
+
+const sendOrder = (order: BotOrderRequest) => post({ type: 'order', order });
+
+const ctx: BotContext = {
+    buy: (symbol, quantity) => sendOrder({ symbol, side: 'buy', type: 'market', quantity }),
+    sell: (symbol, quantity) => sendOrder({ symbol, side: 'sell', type: 'market', quantity }),
+    limit: (side, symbol, quantity, price) => sendOrder({ symbol, side, type: 'limit', quantity, price }),
+    cancelOrders: (symbol) => post({ type: 'cancel', symbol }),
+    log: (...args) => post({ type: 'log', level: 'info', message: args.map(format).join(' ') }),
+    getPrice: (symbol) => prices[symbol],
+    getPosition: (symbol) => account.positions.find(p => p.symbol === symbol),
+    getOpenOrders: (symbol) => account.openOrders.filter(o => !symbol || o.symbol === symbol),
+    get balance() {
+        return account.balance;
+    },
+    state,
+};
+
+function compile(code: string): BotHandlers {
+    const factory = new Function(
+        ...BLOCKED_GLOBALS,
+        `"use strict";\n${code}\n;return {
+            onPrice: typeof onPrice === 'function' ? onPrice : undefined,
+            onCandle: typeof onCandle === 'function' ? onCandle : undefined,
+            onFill: typeof onFill === 'function' ? onFill : undefined,
+        };`
+    );
+    return factory();
+}
+
+// Run a handler, reporting a throw without stopping the bot
+function run(name: string, call: () => void) {
+    try {
+        call();
+    } catch (error) {
+        post({ type: 'error', message: `${name}: ${error instanceof Error ? error.message : String(error)}` });
+    }
+}
+
+listen('message', (e: MessageEvent<BotHostMessage>) => {
+    const message = e.data;
+
+    switch (message.type) {
+        case 'start':
+            try {
+                handlers = compile(message.code);
+            } catch (error) {
+                post({ type: 'error', message: `Script failed to load: ${error instanceof Error ? error.message : String(error)}`, fatal: true });
+                return;
+            }
+            post({ type: 'ready' });
+            break;
+
+        case 'prices':
+            account = message.account;
+            Object.assign(prices, message.prices);
+            if (handlers.onPrice) run('onPrice', () => handlers.onPrice!({ ...message.prices }, ctx));
+            break;
+
+        case 'candle':
+            account = message.account;
+            if (handlers.onCandle) run('onCandle', () => handlers.onCandle!(message.symbol, { ...message.candle }, ctx));
+            break;
+
+        case 'fill':
+            account = message.account;
+            if (handlers.onFill) run('onFill', () => handlers.onFill!({ ...message.fill }, ctx));
+            break;
+    }
+
+    post({ type: 'idle' });
+});
+
+BLOCKED_GLOBALS.forEach(name => {
+    try {
+        Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+    } catch {
+        // Some globals can't be redefined; the script still can't see them by name
+    }
+});